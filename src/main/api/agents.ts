@@ -1,15 +1,75 @@
 import { ipcMain } from 'electron'
 import { promises as fs } from 'fs'
-import { join } from 'path'
-import { homedir } from 'os'
-import { agentService, agentRunService } from '../database/services'
+import {
+  agentService,
+  agentRunService,
+  agentRevisionService,
+  runComparisonService
+} from '../database/services'
 import { processManager } from '../process/ProcessManager'
+import { runRecovery } from '../process/RunRecovery'
+import { runMetricsRecorder } from '../process/RunMetricsRecorder'
+import { readSessionJsonl } from '../process/sessionJsonl'
+import { runQueue, type RunConcurrencyLimits, type RunPriority } from '../process/RunQueue'
+import { budgetEnforcer } from '../process/BudgetEnforcer'
+import { runSettingsLayer } from '../process/RunSettingsLayer'
+import {
+  worktreeManager,
+  type WorktreeAction,
+  type WorktreeFileChange
+} from '../worktree/WorktreeManager'
+import { scheduler } from '../schedule/Scheduler'
+import { pipelineRunner } from '../pipeline/PipelineRunner'
+import { evalRunner } from '../evaluation/EvalRunner'
+import { triggerWatcher } from '../trigger/TriggerWatcher'
+import { subagentSync } from '../subagent/SubagentSync'
+import type { AgentRun } from '../database/entities/AgentRun'
+import type { AgentRunMetrics, AgentRunQuery } from '../database/services'
 import { claudeBinaryManager } from '../detection/ClaudeBinaryManagerAdapter'
+import { permissionPromptServer } from '../permission/PermissionPromptServer'
+import {
+  BUILT_IN_TOOLS,
+  getToolArgs,
+  hasToolRules,
+  parseToolList,
+  resolveToolSet,
+  type ToolSet
+} from '../permission/toolPermissions'
+import {
+  findMissingMcpServers,
+  getAgentMcpArgs,
+  parseAgentMcpServers
+} from '../mcp/agentMcpServers'
+import { getExportedAgentData, getImportedAgentName, toAgentExport } from '../registry/agentExport'
 
 /**
  * Agent Management IPC handlers
  */
 export function setupAgentsHandlers() {
+  runQueue.setLauncher(startAgentRun)
+  scheduler.setStarter(async (schedule) => {
+    const { run } = await queueAgentRun({
+      agentId: schedule.agent_id,
+      projectPath: schedule.project_path,
+      task: schedule.task,
+      scheduleId: schedule.id
+    })
+    return run
+  })
+  pipelineRunner.setStarter((request) => queueAgentRun(request))
+  triggerWatcher.setStarter(async (trigger, task, changedFiles) => {
+    const { run } = await queueAgentRun({
+      agentId: trigger.agent_id,
+      projectPath: trigger.project_path,
+      task,
+      triggerId: trigger.id,
+      triggerFiles: changedFiles
+    })
+    return run
+  })
+  // Test cases run in their own copy of the fixture, so they don't need a worktree
+  evalRunner.setStarter((request) => queueAgentRun({ ...request, useWorktree: false }))
+
   // List all agents
   ipcMain.handle('list-agents', async () => {
     console.log('Main: list-agents called')
@@ -32,6 +92,12 @@ export function setupAgentsHandlers() {
     }
   })
 
+  // Built-in Claude Code tools, for the tool allowlist editor
+  ipcMain.handle('list-agent-tools', () => {
+    console.log('Main: list-agent-tools called')
+    return BUILT_IN_TOOLS
+  })
+
   // Create a new agent
   ipcMain.handle(
     'create-agent',
@@ -41,27 +107,48 @@ export function setupAgentsHandlers() {
         name: string
         icon: string
         systemPrompt: string
+        description?: string | null
         defaultTask?: string
         model?: string
         enable_file_read?: boolean
         enable_file_write?: boolean
         enable_network?: boolean
+        allowed_tools?: string | null
         hooks?: string
+        mcp_servers?: string | null
+        strict_mcp_config?: boolean
+        max_cost_usd?: number | null
+        max_tokens?: number | null
+        max_turns?: number | null
+        max_duration_seconds?: number | null
+        use_worktree?: boolean
       }
     ) => {
       console.log('Main: create-agent called with', agentData)
       try {
+        parseToolList(agentData.allowed_tools)
+        parseAgentMcpServers(agentData.mcp_servers)
+
         // 转换为数据库需要的 snake_case 格式
         const dbData = {
           name: agentData.name,
           icon: agentData.icon,
           system_prompt: agentData.systemPrompt,
+          description: agentData.description,
           default_task: agentData.defaultTask,
           model: agentData.model,
           enable_file_read: agentData.enable_file_read,
           enable_file_write: agentData.enable_file_write,
           enable_network: agentData.enable_network,
-          hooks: agentData.hooks
+          allowed_tools: agentData.allowed_tools,
+          hooks: agentData.hooks,
+          mcp_servers: agentData.mcp_servers,
+          strict_mcp_config: agentData.strict_mcp_config,
+          max_cost_usd: agentData.max_cost_usd,
+          max_tokens: agentData.max_tokens,
+          max_turns: agentData.max_turns,
+          max_duration_seconds: agentData.max_duration_seconds,
+          use_worktree: agentData.use_worktree
         }
         return await agentService.create(dbData)
       } catch (error) {
@@ -80,18 +167,37 @@ export function setupAgentsHandlers() {
       agentData: {
         name: string
         icon: string
-        system_prompt: string
-        default_task?: string
+        systemPrompt: string
+        description?: string | null
+        defaultTask?: string
         model?: string
         enable_file_read?: boolean
         enable_file_write?: boolean
         enable_network?: boolean
+        allowed_tools?: string | null
         hooks?: string
+        mcp_servers?: string | null
+        strict_mcp_config?: boolean
+        max_cost_usd?: number | null
+        max_tokens?: number | null
+        max_turns?: number | null
+        max_duration_seconds?: number | null
+        use_worktree?: boolean
       }
     ) => {
       console.log('Main: update-agent called with', id, agentData)
       try {
-        return await agentService.update(id, agentData)
+        parseToolList(agentData.allowed_tools)
+        parseAgentMcpServers(agentData.mcp_servers)
+
+        const { systemPrompt, defaultTask, ...rest } = agentData
+        const agent = await agentService.update(id, {
+          ...rest,
+          system_prompt: systemPrompt,
+          default_task: defaultTask
+        })
+        await subagentSync.agentUpdated(id)
+        return agent
       } catch (error) {
         console.error('Error updating agent:', error)
         throw new Error('Failed to update agent')
@@ -99,6 +205,44 @@ export function setupAgentsHandlers() {
     }
   )
 
+  // List the revisions of an agent with the runs of each
+  ipcMain.handle('list-agent-revisions', async (_, agentId: number) => {
+    console.log('Main: list-agent-revisions called with', agentId)
+    try {
+      const revisions = await agentRevisionService.findByAgentId(agentId)
+      const runs = await agentRunService.findByAgentId(agentId)
+
+      return revisions.map((revision) => {
+        const revisionRuns = runs.filter((run) => run.agent_revision === revision.revision)
+        return {
+          ...revision,
+          data: JSON.parse(revision.data),
+          run_count: revisionRuns.length,
+          completed_run_count: revisionRuns.filter((run) => run.status === 'completed').length
+        }
+      })
+    } catch (error) {
+      console.error('Error listing agent revisions:', error)
+      throw new Error('Failed to list agent revisions')
+    }
+  })
+
+  // Restore an earlier revision of an agent
+  ipcMain.handle('rollback-agent', async (_, agentId: number, revision: number) => {
+    console.log('Main: rollback-agent called with', agentId, revision)
+    try {
+      const agent = await agentService.rollbackAgent(agentId, revision)
+      if (!agent) {
+        throw new Error('Agent revision not found')
+      }
+      await subagentSync.agentUpdated(agentId)
+      return agent
+    } catch (error) {
+      console.error('Error rolling back agent:', error)
+      throw new Error('Failed to roll back agent')
+    }
+  })
+
   // Delete an agent
   ipcMain.handle('delete-agent', async (_, id: number) => {
     console.log('Main: delete-agent called with', id)
@@ -120,12 +264,18 @@ export function setupAgentsHandlers() {
         agentId,
         projectPath,
         task,
-        model
+        model,
+        priority,
+        budget,
+        useWorktree
       }: {
         agentId: number
         projectPath: string
         task: string
         model?: string
+        priority?: RunPriority
+        budget?: RunBudget
+        useWorktree?: boolean
       }
     ) => {
       console.log('Main: execute-agent called with', {
@@ -133,7 +283,10 @@ export function setupAgentsHandlers() {
         projectPath,
         projectPathType: typeof projectPath,
         task,
-        model
+        model,
+        priority,
+        budget,
+        useWorktree
       })
 
       // Validate projectPath
@@ -148,109 +301,141 @@ export function setupAgentsHandlers() {
       const normalizedProjectPath = projectPath.trim()
 
       try {
-        // Get the agent from database
-        const agent = await agentService.findById(agentId)
-        if (!agent) {
-          throw new Error('Agent not found')
-        }
-
-        const executionModel = model || agent.model || 'sonnet'
-
-        // Create .claude/settings.json with agent hooks if it doesn't exist
-        if (agent.hooks) {
-          const claudeDir = join(normalizedProjectPath, '.claude')
-          const settingsPath = join(claudeDir, 'settings.json')
-
-          try {
-            await fs.access(claudeDir)
-          } catch {
-            await fs.mkdir(claudeDir, { recursive: true })
-          }
-
-          try {
-            await fs.access(settingsPath)
-          } catch {
-            // Settings file doesn't exist, create it with hooks
-            const hooks = JSON.parse(agent.hooks)
-            const settings = { hooks }
-            await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2))
-          }
-        }
-
-        // Create a new run record
-        const agentRun = await agentRunService.create({
-          agent_id: agentId,
-          agent_name: agent.name,
-          agent_icon: agent.icon,
-          task,
-          model: executionModel,
-          project_path: normalizedProjectPath,
-          session_id: '',
-          status: 'pending'
-        })
-
-        // Find Claude binary
-        const binaryPath = await claudeBinaryManager.findClaudeBinary()
-
-        // Build arguments for Claude Code
-        const args = [
-          '-p',
-          task,
-          '--system-prompt',
-          agent.system_prompt,
-          '--model',
-          executionModel,
-          '--output-format',
-          'stream-json',
-          '--verbose',
-          '--dangerously-skip-permissions'
-        ]
-
-        console.log('Agent execution parameters:', {
+        const { processRunId } = await queueAgentRun({
           agentId,
           projectPath: normalizedProjectPath,
-          task: task.substring(0, 50) + (task.length > 50 ? '...' : ''),
-          model: executionModel,
-          binaryPath,
-          systemPromptLength: agent.system_prompt?.length || 0,
-          systemPromptPreview: agent.system_prompt?.substring(0, 100) + '...'
+          task,
+          model,
+          priority,
+          budget,
+          useWorktree
         })
 
-        console.log(
-          'Final args array:',
-          args.map(
-            (arg, i) =>
-              `${i}: ${typeof arg === 'string' ? arg.substring(0, 50) + (arg.length > 50 ? '...' : '') : arg}`
-          )
-        )
+        return { success: true, runId: processRunId, message: 'Agent execution queued' }
+      } catch (error) {
+        console.error('Error executing agent:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }
+      }
+    }
+  )
+
+  // Run the same task with several agent or model variants, each in its own worktree
+  ipcMain.handle(
+    'start-run-comparison',
+    async (
+      _,
+      {
+        projectPath,
+        task,
+        variants
+      }: {
+        projectPath: string
+        task: string
+        variants: { agentId: number; model?: string }[]
+      }
+    ) => {
+      console.log('Main: start-run-comparison called with', { projectPath, task, variants })
+      try {
+        if (!Array.isArray(variants) || variants.length < 2) {
+          throw new Error('A comparison needs at least two variants')
+        }
+        if (!task?.trim()) {
+          throw new Error('A comparison needs a task')
+        }
+        const normalizedProjectPath = projectPath?.trim()
+        if (
+          !normalizedProjectPath ||
+          !(await worktreeManager.isRepository(normalizedProjectPath))
+        ) {
+          throw new Error('Comparisons need a project in a git repository')
+        }
 
-        // Register the process with the process manager
-        const runId = await processManager.registerAgentProcess(
-          agentRun.id!,
-          agent.name,
-          normalizedProjectPath,
+        const comparison = await runComparisonService.create({
           task,
-          executionModel,
-          binaryPath,
-          args,
-          {}
-        )
+          project_path: normalizedProjectPath
+        })
+        for (const variant of variants) {
+          await queueAgentRun({
+            agentId: variant.agentId,
+            projectPath: normalizedProjectPath,
+            task,
+            model: variant.model,
+            useWorktree: true,
+            comparisonId: comparison.id
+          })
+        }
 
-        return { success: true, runId, message: 'Agent execution started' }
+        return {
+          success: true,
+          message: 'Comparison queued',
+          comparisonId: comparison.id
+        }
       } catch (error) {
-        console.error('Error executing agent:', error)
+        console.error('Error starting run comparison:', error)
         return {
           success: false,
-          message: error instanceof Error ? error.message : 'Unknown error'
+          message: error instanceof Error ? error.message : 'Failed to start comparison'
         }
       }
     }
   )
 
+  // Get a comparison with the metrics and changed files of each variant
+  ipcMain.handle('get-run-comparison', async (_, id: number) => {
+    console.log('Main: get-run-comparison called with', id)
+    try {
+      const comparison = await runComparisonService.findById(id)
+      if (!comparison) {
+        throw new Error('Comparison not found')
+      }
+
+      const runs = await agentRunService.findByComparisonId(id)
+      return {
+        ...comparison,
+        runs: await Promise.all(
+          runs.map(async (run) => {
+            // Changes are listed once the run is over, and a variant whose changes can't be
+            // read doesn't keep the others from showing
+            const finished = run.status !== 'queued' && run.status !== 'running'
+            let changedFiles: WorktreeFileChange[] | null = null
+            if (finished) {
+              try {
+                changedFiles = await worktreeManager.getChangedFiles(run.id)
+              } catch (error) {
+                console.warn('Failed to read changed files of run', run.id, error)
+              }
+            }
+            return {
+              ...run,
+              metrics: await getRunMetrics(run),
+              changed_files: changedFiles
+            }
+          })
+        )
+      }
+    } catch (error) {
+      console.error('Error getting run comparison:', error)
+      throw new Error('Failed to get run comparison')
+    }
+  })
+
   // Kill a running agent session
   ipcMain.handle('kill-agent-session', async (_, runId: number) => {
     console.log('Main: kill-agent-session called with', runId)
     try {
+      // A run that is still waiting only has to leave the queue
+      if (await runQueue.cancel(runId)) {
+        return { success: true, message: 'Queued run cancelled' }
+      }
+
+      // A run reattached after a restart has no process in the process manager
+      if (!processManager.getProcess(runId) && (await runRecovery.killReattached(runId))) {
+        return { success: true, message: 'Process cancelled successfully' }
+      }
+
       const success = await processManager.killProcess(runId)
 
       if (success) {
@@ -271,20 +456,164 @@ export function setupAgentsHandlers() {
     }
   })
 
-  // List agent runs (optionally filtered by agent_id)
+  // Resume a run interrupted by an app restart with `claude --resume`
+  ipcMain.handle('resume-agent-run', async (_, runId: number) => {
+    console.log('Main: resume-agent-run called with', runId)
+    try {
+      const run = await agentRunService.findById(runId)
+      if (!run) {
+        throw new Error('Agent run not found')
+      }
+      if (run.status !== 'interrupted') {
+        throw new Error('Only interrupted runs can be resumed')
+      }
+      if (!run.session_id) {
+        throw new Error('The run was interrupted before its session started')
+      }
+
+      // The launcher continues runs that already have a session
+      const queuedRun = await agentRunService.updateAgentRun(run.id, {
+        status: 'queued',
+        completed_at: null
+      })
+      const processRunId = runQueue.enqueue(queuedRun!)
+
+      return { success: true, runId: processRunId, message: 'Agent run queued for resuming' }
+    } catch (error) {
+      console.error('Error resuming agent run:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  })
+
+  // List runs waiting in the run queue
+  ipcMain.handle('list-queued-runs', async () => {
+    console.log('Main: list-queued-runs called')
+    return runQueue.list()
+  })
+
+  // Move a queued run up or down
+  ipcMain.handle(
+    'move-queued-run',
+    async (_, { runId, offset }: { runId: number; offset: number }) => {
+      console.log('Main: move-queued-run called with', { runId, offset })
+      return runQueue.move(runId, offset)
+    }
+  )
+
+  // Remove a run from the queue
+  ipcMain.handle('cancel-queued-run', async (_, runId: number) => {
+    console.log('Main: cancel-queued-run called with', runId)
+    try {
+      return await runQueue.cancel(runId)
+    } catch (error) {
+      console.error('Error cancelling queued run:', error)
+      throw new Error('Failed to cancel queued run')
+    }
+  })
+
+  ipcMain.handle('get-run-concurrency-limits', async () => {
+    console.log('Main: get-run-concurrency-limits called')
+    try {
+      return await runQueue.getLimits()
+    } catch (error) {
+      console.error('Error getting run concurrency limits:', error)
+      throw new Error('Failed to get run concurrency limits')
+    }
+  })
+
+  ipcMain.handle('set-run-concurrency-limits', async (_, limits: RunConcurrencyLimits) => {
+    console.log('Main: set-run-concurrency-limits called with', limits)
+    try {
+      await runQueue.setLimits(limits)
+    } catch (error) {
+      console.error('Error saving run concurrency limits:', error)
+      throw new Error('Failed to save run concurrency limits')
+    }
+  })
+
+  // Whether runs in a project can get a worktree
+  ipcMain.handle('is-git-repository', async (_, projectPath: string) => {
+    console.log('Main: is-git-repository called with', projectPath)
+    try {
+      return await worktreeManager.isRepository(projectPath)
+    } catch (error) {
+      console.error('Error checking git repository:', error)
+      throw new Error('Failed to check git repository')
+    }
+  })
+
+  // Get the changes a run made in its worktree
+  ipcMain.handle('get-run-worktree-diff', async (_, runId: number) => {
+    console.log('Main: get-run-worktree-diff called with', runId)
+    try {
+      return await worktreeManager.getDiff(runId)
+    } catch (error) {
+      console.error('Error getting run worktree diff:', error)
+      throw new Error('Failed to get run worktree diff')
+    }
+  })
+
+  // Merge, cherry-pick, keep or discard the worktree of a finished run
+  ipcMain.handle(
+    'apply-run-worktree',
+    async (_, { runId, action }: { runId: number; action: WorktreeAction }) => {
+      console.log('Main: apply-run-worktree called with', { runId, action })
+      try {
+        await worktreeManager.apply(runId, action)
+        return { success: true, message: 'Worktree updated' }
+      } catch (error) {
+        console.error('Error applying run worktree:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to update worktree'
+        }
+      }
+    }
+  )
+
+  // List agent runs (optionally filtered by agent_id) with their stored metrics
   ipcMain.handle('list-agent-runs', async (_, agentId?: number) => {
     console.log('Main: list-agent-runs called with', agentId)
     try {
-      if (agentId) {
-        return await agentRunService.findByAgentId(agentId)
-      }
-      return await agentRunService.findAll()
+      const runs = agentId
+        ? await agentRunService.findByAgentId(agentId)
+        : await agentRunService.findAll()
+      return runs.map((run) => ({ ...run, metrics: agentRunService.getStoredMetrics(run) }))
     } catch (error) {
       console.error('Error listing agent runs:', error)
       return []
     }
   })
 
+  // Query a page of agent runs, filtered and sorted by the database
+  ipcMain.handle('query-agent-runs', async (_, query: AgentRunQuery) => {
+    console.log('Main: query-agent-runs called with', query)
+    try {
+      const { runs, total } = await agentRunService.query(query)
+      return {
+        runs: runs.map((run) => ({ ...run, metrics: agentRunService.getStoredMetrics(run) })),
+        total
+      }
+    } catch (error) {
+      console.error('Error querying agent runs:', error)
+      throw new Error('Failed to query agent runs')
+    }
+  })
+
+  // List the projects agents have run in, for filtering runs
+  ipcMain.handle('list-agent-run-projects', async () => {
+    console.log('Main: list-agent-run-projects called')
+    try {
+      return await agentRunService.getProjectPaths()
+    } catch (error) {
+      console.error('Error listing agent run projects:', error)
+      throw new Error('Failed to list agent run projects')
+    }
+  })
+
   // Get a single agent run by ID
   ipcMain.handle('get-agent-run', async (_, id: number) => {
     console.log('Main: get-agent-run called with', id)
@@ -305,14 +634,14 @@ export function setupAgentsHandlers() {
         throw new Error('Agent run not found')
       }
 
-      // Try to read session JSONL file and calculate metrics
-      let metrics: any = null
+      // Metrics are stored once the run finishes; until then they're read from the output
+      let metrics: AgentRunMetrics | null = agentRunService.getStoredMetrics(run) || null
       let output: string | null = null
 
       if (run.session_id) {
         try {
-          output = await readSessionJsonl(run.session_id, run.project_path)
-          metrics = calculateMetricsFromJsonl(output)
+          output = await readSessionJsonl(run.session_id, run.worktree_path || run.project_path)
+          metrics ??= agentRunService.calculateMetricsFromJSONL(output)
         } catch (error) {
           console.warn('Failed to read JSONL for session:', run.session_id, error)
         }
@@ -339,7 +668,7 @@ export function setupAgentsHandlers() {
       // Cross-check with process manager to ensure they're actually running
       const actuallyRunning: any[] = []
       for (const run of runningRuns) {
-        if (run.id && processManager.isProcessRunning(run.id)) {
+        if (run.id && runRecovery.isRunActive(run.id)) {
           actuallyRunning.push(run)
         }
       }
@@ -374,6 +703,21 @@ export function setupAgentsHandlers() {
     }
   })
 
+  // Get parsed stream events of a running process, for resuming after a reload
+  ipcMain.handle(
+    'get-stream-events',
+    async (_, { runId, afterSeq }: { runId: number; afterSeq?: number }) => {
+      console.log('Main: get-stream-events called with', { runId, afterSeq })
+      return processManager.getStreamEvents(runId, afterSeq)
+    }
+  )
+
+  // Renderer visibility, used to hold back stream output while nothing is painted
+  ipcMain.handle('set-output-visibility', async (_, visible: boolean) => {
+    console.log('Main: set-output-visibility called with', visible)
+    processManager.setRendererVisible(visible)
+  })
+
   // Get session output (combines JSONL file and live output)
   ipcMain.handle('get-session-output', async (_, runId: number) => {
     console.log('Main: get-session-output called with', runId)
@@ -385,15 +729,15 @@ export function setupAgentsHandlers() {
 
       // If no session ID yet, try to get live output
       if (!run.session_id) {
-        return processManager.getLiveOutput(runId) || ''
+        return processManager.getLiveOutput(runId) || (await runRecovery.getSpooledOutput(runId))
       }
 
       // Try to read from JSONL file first
       try {
-        return await readSessionJsonl(run.session_id, run.project_path)
+        return await readSessionJsonl(run.session_id, run.worktree_path || run.project_path)
       } catch (error) {
-        // Fallback to live output if file read fails
-        return processManager.getLiveOutput(runId) || ''
+        // Fallback to live output if file read fails, then to the output spooled to disk
+        return processManager.getLiveOutput(runId) || (await runRecovery.getSpooledOutput(runId))
       }
     } catch (error) {
       console.error('Error getting session output:', error)
@@ -410,20 +754,7 @@ export function setupAgentsHandlers() {
         throw new Error('Agent not found')
       }
 
-      const exportData = {
-        version: 1,
-        exported_at: new Date().toISOString(),
-        agent: {
-          name: agent.name,
-          icon: agent.icon,
-          system_prompt: agent.system_prompt,
-          default_task: agent.default_task,
-          model: agent.model,
-          hooks: agent.hooks
-        }
-      }
-
-      return JSON.stringify(exportData, null, 2)
+      return JSON.stringify(toAgentExport(agent), null, 2)
     } catch (error) {
       console.error('Error exporting agent:', error)
       throw new Error('Failed to export agent')
@@ -434,36 +765,17 @@ export function setupAgentsHandlers() {
   ipcMain.handle('import-agent', async (_, jsonData: string) => {
     console.log('Main: import-agent called')
     try {
-      const exportData = JSON.parse(jsonData)
-
-      // Validate version
-      if (exportData.version !== 1) {
-        throw new Error(`Unsupported export version: ${exportData.version}`)
-      }
-
-      const agentData = exportData.agent
+      const agentData = getExportedAgentData(JSON.parse(jsonData))
 
       // Check if agent with same name exists and modify name if needed
       const existingAgents = await agentService.findAll()
-      const existingNames = existingAgents.map((a) => a.name)
-
-      let finalName = agentData.name
-      if (existingNames.includes(finalName)) {
-        finalName = `${agentData.name} (Imported)`
-      }
 
       // Create the agent
-      return await agentService.create({
-        name: finalName,
-        icon: agentData.icon,
-        system_prompt: agentData.system_prompt,
-        default_task: agentData.default_task,
-        model: agentData.model || 'sonnet',
-        enable_file_read: true,
-        enable_file_write: true,
-        enable_network: false,
-        hooks: agentData.hooks
+      const agent = await agentService.create({
+        ...agentData,
+        name: getImportedAgentName(agentData.name, existingAgents)
       })
+      return { ...agent, missing_mcp_servers: await findMissingMcpServers(agent.mcp_servers) }
     } catch (error) {
       console.error('Error importing agent:', error)
       throw new Error('Failed to import agent')
@@ -485,44 +797,17 @@ export function setupAgentsHandlers() {
         throw new Error('The selected file is not a valid JSON file')
       }
 
-      // Validate export format
-      if (!exportData.version || !exportData.agent) {
-        throw new Error('Invalid agent export format')
-      }
-
-      // Validate version
-      if (exportData.version !== 1) {
-        throw new Error(`Unsupported export version: ${exportData.version}`)
-      }
-
-      const agentData = exportData.agent
-
-      // Validate required fields
-      if (!agentData.name || !agentData.icon || !agentData.system_prompt) {
-        throw new Error('Invalid agent data: missing required fields')
-      }
+      const agentData = getExportedAgentData(exportData)
 
       // Check if agent with same name exists and modify name if needed
       const existingAgents = await agentService.findAll()
-      const existingNames = existingAgents.map((a) => a.name)
-
-      let finalName = agentData.name
-      if (existingNames.includes(finalName)) {
-        finalName = `${agentData.name} (Imported)`
-      }
 
       // Create the agent
-      return await agentService.create({
-        name: finalName,
-        icon: agentData.icon,
-        system_prompt: agentData.system_prompt,
-        default_task: agentData.default_task,
-        model: agentData.model || 'sonnet',
-        enable_file_read: true,
-        enable_file_write: true,
-        enable_network: false,
-        hooks: agentData.hooks
+      const agent = await agentService.create({
+        ...agentData,
+        name: getImportedAgentName(agentData.name, existingAgents)
       })
+      return { ...agent, missing_mcp_servers: await findMissingMcpServers(agent.mcp_servers) }
     } catch (error) {
       console.error('Error importing agent from file:', error)
       throw new Error(error instanceof Error ? error.message : 'Failed to import agent from file')
@@ -537,9 +822,10 @@ export function setupAgentsHandlers() {
       const cleanedUp: number[] = []
 
       for (const run of runningRuns) {
-        if (run.id && !processManager.isProcessRunning(run.id)) {
+        if (run.id && !runRecovery.isRunActive(run.id)) {
           // Process has finished, update status
           await agentRunService.updateStatus(run.id, 'completed')
+          runMetricsRecorder.record(run.id)
           cleanedUp.push(run.id)
         }
       }
@@ -550,94 +836,217 @@ export function setupAgentsHandlers() {
       return []
     }
   })
+
+  // Delete old finished runs and their worktrees, on the user's request only
+  ipcMain.handle('cleanup-old-agent-runs', async (_, keepPerAgent?: number) => {
+    console.log('Main: cleanup-old-agent-runs called with', keepPerAgent)
+    try {
+      return await worktreeManager.cleanupOldRuns(keepPerAgent)
+    } catch (error) {
+      console.error('Error cleaning up old agent runs:', error)
+      throw new Error(error instanceof Error ? error.message : 'Failed to clean up old runs')
+    }
+  })
 }
 
 /**
- * Read JSONL content from a session file
+ * Limits of a single run, unlimited when null
  */
-async function readSessionJsonl(sessionId: string, projectPath: string): Promise<string> {
-  const claudeDir = join(homedir(), '.claude', 'projects')
+interface RunBudget {
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+}
 
-  // Encode project path to match Claude Code's directory naming
-  const encodedProject = projectPath.replace(/\//g, '-')
-  const projectDir = join(claudeDir, encodedProject)
-  const sessionFile = join(projectDir, `${sessionId}.jsonl`)
+/**
+ * What to run for a new agent run
+ */
+interface AgentRunRequest {
+  agentId: number
+  projectPath: string
+  task: string
+  model?: string
+  priority?: RunPriority
+  budget?: RunBudget
+  useWorktree?: boolean
+  scheduleId?: number
+  pipelineRunId?: number
+  pipelineStepId?: string
+  /** Existing worktree to run in, instead of creating one */
+  worktreePath?: string
+  triggerId?: number
+  /** Changed files that fired the trigger */
+  triggerFiles?: string[]
+  evalRunId?: number
+  comparisonId?: number
+}
 
-  try {
-    return await fs.readFile(sessionFile, 'utf-8')
-  } catch (error) {
-    // Try to search for the session file in all project directories
-    const entries = await fs.readdir(claudeDir, { withFileTypes: true })
+/**
+ * Create the row of a new run and put it in the run queue
+ */
+async function queueAgentRun(
+  request: AgentRunRequest
+): Promise<{ run: AgentRun; processRunId: number }> {
+  const { projectPath, task, model, priority, budget, useWorktree } = request
+
+  // Get the agent from database
+  const agent = await agentService.findById(request.agentId)
+  if (!agent) {
+    throw new Error('Agent not found')
+  }
 
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const potentialFile = join(claudeDir, entry.name, `${sessionId}.jsonl`)
-        try {
-          return await fs.readFile(potentialFile, 'utf-8')
-        } catch {
-          // Continue searching
-        }
-      }
-    }
+  const executionModel = model || agent.model || 'sonnet'
+
+  const tools = resolveToolSet(agent)
+
+  // Create a new run record, started by the run queue once the concurrency limits allow
+  const agentRun = await agentRunService.create({
+    agent_id: request.agentId,
+    agent_name: agent.name,
+    agent_icon: agent.icon,
+    task,
+    model: executionModel,
+    project_path: projectPath,
+    session_id: '',
+    status: 'queued',
+    priority: priority || 'normal',
+    // Limits given for this execution override the agent's budget
+    max_cost_usd: budget?.max_cost_usd ?? agent.max_cost_usd ?? null,
+    max_tokens: budget?.max_tokens ?? agent.max_tokens ?? null,
+    max_turns: budget?.max_turns ?? agent.max_turns ?? null,
+    max_duration_seconds: budget?.max_duration_seconds ?? agent.max_duration_seconds ?? null,
+    use_worktree: useWorktree ?? agent.use_worktree,
+    allowed_tools: JSON.stringify(tools.allowed),
+    disallowed_tools: JSON.stringify(tools.disallowed),
+    schedule_id: request.scheduleId ?? null,
+    pipeline_run_id: request.pipelineRunId ?? null,
+    pipeline_step_id: request.pipelineStepId ?? null,
+    worktree_path: request.worktreePath ?? null,
+    trigger_id: request.triggerId ?? null,
+    trigger_files: request.triggerFiles ? JSON.stringify(request.triggerFiles) : null,
+    agent_revision: agent.revision || null,
+    eval_run_id: request.evalRunId ?? null,
+    comparison_id: request.comparisonId ?? null
+  })
 
-    throw new Error(`Session file not found: ${sessionId}`)
-  }
+  const processRunId = runQueue.enqueue(agentRun)
+  return { run: agentRun, processRunId }
 }
 
+// Prompt for continuing a run whose previous process was interrupted
+const RESUME_PROMPT = 'The previous run was interrupted. Continue the task where you left off.'
+
 /**
- * Calculate metrics from JSONL content
+ * Start the Claude Code process of a run leaving the run queue. Runs that already have a
+ * session, i.e. resumed ones, continue it with `--resume`.
  */
-function calculateMetricsFromJsonl(jsonlContent: string) {
-  let totalTokens = 0
-  let costUsd = 0
-  let messageCount = 0
-  let startTime: Date | null = null
-  let endTime: Date | null = null
+async function startAgentRun(run: AgentRun, processRunId: number): Promise<void> {
+  const agent = await agentService.findById(run.agent_id)
+  if (!agent) {
+    throw new Error('Agent not found')
+  }
+  // The agent may have been edited while the run was queued
+  if ((agent.revision || null) !== (run.agent_revision ?? null)) {
+    await agentRunService.updateAgentRun(run.id, { agent_revision: agent.revision || null })
+  }
 
-  const lines = jsonlContent.split('\n').filter((line) => line.trim())
+  // Find Claude binary
+  const binaryPath = await claudeBinaryManager.findClaudeBinary()
+
+  // Build arguments for Claude Code
+  const args = run.session_id ? ['--resume', run.session_id, '-p', RESUME_PROMPT] : ['-p', run.task]
+  args.push(
+    '--system-prompt',
+    agent.system_prompt,
+    '--model',
+    run.model,
+    '--output-format',
+    'stream-json',
+    '--verbose'
+  )
+  if (run.max_turns) {
+    args.push('--max-turns', String(run.max_turns))
+  }
 
-  for (const line of lines) {
-    try {
-      const json = JSON.parse(line)
-      messageCount++
-
-      // Track timestamps
-      if (json.timestamp) {
-        const timestamp = new Date(json.timestamp)
-        if (!startTime || timestamp < startTime) {
-          startTime = timestamp
-        }
-        if (!endTime || timestamp > endTime) {
-          endTime = timestamp
-        }
+  // Runs keep the tool set they were queued with, even if the agent changed since
+  const tools: ToolSet = run.disallowed_tools
+    ? {
+        allowed: JSON.parse(run.allowed_tools || '[]'),
+        disallowed: JSON.parse(run.disallowed_tools)
       }
+    : resolveToolSet(agent)
+  args.push(...getToolArgs(tools))
 
-      // Extract token usage
-      const usage = json.usage || (json.message && json.message.usage)
-      if (usage) {
-        if (usage.input_tokens) {
-          totalTokens += usage.input_tokens
-        }
-        if (usage.output_tokens) {
-          totalTokens += usage.output_tokens
-        }
-      }
+  const cwd = await worktreeManager.prepare(run)
 
-      // Extract cost information
-      if (json.cost) {
-        costUsd += json.cost
-      }
-    } catch {
-      // Skip invalid JSON lines
-    }
+  // The agent's hooks only apply to this run, on top of the project's own
+  args.push(...(await runSettingsLayer.prepare(run, agent, processRunId, cwd)))
+
+  const mcp = await getAgentMcpArgs(agent, run.project_path)
+  if (mcp.missing.length > 0) {
+    console.warn('MCP servers of agent not configured, skipping:', mcp.missing)
   }
+  args.push(...mcp.args)
 
-  const durationMs = startTime && endTime ? endTime.getTime() - startTime.getTime() : null
+  // Allowlist rules like 'Bash(npm test:*)' would allow all of the tool if permissions were skipped
+  const permissions = await permissionPromptServer.prepareRun(
+    run.project_path,
+    undefined,
+    hasToolRules(tools)
+  )
+  args.push(...permissions.args)
+
+  console.log('Agent execution parameters:', {
+    agentId: run.agent_id,
+    runId: run.id,
+    projectPath: run.project_path,
+    cwd,
+    task: run.task.substring(0, 50) + (run.task.length > 50 ? '...' : ''),
+    model: run.model,
+    binaryPath,
+    systemPromptLength: agent.system_prompt?.length || 0,
+    systemPromptPreview: agent.system_prompt?.substring(0, 100) + '...'
+  })
 
-  return {
-    duration_ms: durationMs,
-    total_tokens: totalTokens > 0 ? totalTokens : null,
-    cost_usd: costUsd > 0 ? costUsd : null,
-    message_count: messageCount > 0 ? messageCount : null
+  console.log(
+    'Final args array:',
+    args.map(
+      (arg, i) =>
+        `${i}: ${typeof arg === 'string' ? arg.substring(0, 50) + (arg.length > 50 ? '...' : '') : arg}`
+    )
+  )
+
+  // Register the process with the process manager
+  await processManager.registerAgentProcess(
+    run.id,
+    agent.name,
+    run.project_path,
+    run.task,
+    run.model,
+    binaryPath,
+    args,
+    // The run's max_duration_seconds is enforced by the BudgetEnforcer, not a spawn timeout
+    { runId: processRunId, cwd, timeout: 0 }
+  )
+  permissionPromptServer.attachRun(permissions.token, processRunId)
+  budgetEnforcer.track(processRunId, run)
+}
+
+/**
+ * Metrics of a run: those stored when it finished, or read from its session JSONL while
+ * it's still going
+ */
+async function getRunMetrics(run: AgentRun): Promise<AgentRunMetrics | null> {
+  const stored = agentRunService.getStoredMetrics(run)
+  if (stored) return stored
+  if (!run.session_id) return null
+
+  try {
+    const output = await readSessionJsonl(run.session_id, run.worktree_path || run.project_path)
+    return agentRunService.calculateMetricsFromJSONL(output)
+  } catch (error) {
+    console.warn('Failed to read JSONL for session:', run.session_id, error)
+    return null
   }
 }
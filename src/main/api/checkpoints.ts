@@ -0,0 +1,374 @@
+import { ipcMain } from 'electron'
+import { checkpointManager } from '../checkpoint/CheckpointManager'
+import { autoCheckpointer } from '../checkpoint/AutoCheckpointer'
+import { appSettingsService } from '../database/services'
+import type { CheckpointStrategy } from '../checkpoint/types'
+
+/**
+ * Checkpoint IPC handlers
+ */
+export function setupCheckpointHandlers() {
+  ipcMain.handle(
+    'create-checkpoint',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath,
+        messageIndex,
+        description
+      }: {
+        sessionId: string
+        projectId: string
+        projectPath: string
+        messageIndex?: number
+        description?: string
+      }
+    ) => {
+      console.log('Main: create-checkpoint called with', { sessionId, projectId, messageIndex })
+      try {
+        return await checkpointManager.createCheckpoint(
+          sessionId,
+          projectId,
+          projectPath,
+          messageIndex,
+          description
+        )
+      } catch (error) {
+        console.error('Error creating checkpoint:', error)
+        throw new Error(
+          `Failed to create checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'restore-checkpoint',
+    async (
+      _,
+      {
+        checkpointId,
+        sessionId,
+        projectId,
+        projectPath
+      }: { checkpointId: string; sessionId: string; projectId: string; projectPath: string }
+    ) => {
+      console.log('Main: restore-checkpoint called with', { checkpointId, sessionId })
+      try {
+        return await checkpointManager.restoreCheckpoint(
+          checkpointId,
+          sessionId,
+          projectId,
+          projectPath
+        )
+      } catch (error) {
+        console.error('Error restoring checkpoint:', error)
+        throw new Error(
+          `Failed to restore checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'fork-from-checkpoint',
+    async (
+      _,
+      {
+        checkpointId,
+        sessionId,
+        projectId,
+        projectPath,
+        description
+      }: {
+        checkpointId: string
+        sessionId: string
+        projectId: string
+        projectPath: string
+        description?: string
+      }
+    ) => {
+      console.log('Main: fork-from-checkpoint called with', { checkpointId, sessionId })
+      try {
+        return await checkpointManager.forkFromCheckpoint(
+          checkpointId,
+          sessionId,
+          projectId,
+          projectPath,
+          description
+        )
+      } catch (error) {
+        console.error('Error forking from checkpoint:', error)
+        throw new Error(
+          `Failed to fork from checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'list-checkpoints',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath
+      }: { sessionId: string; projectId: string; projectPath: string }
+    ) => {
+      console.log('Main: list-checkpoints called with', { sessionId, projectId })
+      try {
+        return await checkpointManager.listCheckpoints(sessionId, projectId, projectPath)
+      } catch (error) {
+        console.error('Error listing checkpoints:', error)
+        throw new Error('Failed to list checkpoints')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'get-session-timeline',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath
+      }: { sessionId: string; projectId: string; projectPath: string }
+    ) => {
+      console.log('Main: get-session-timeline called with', { sessionId, projectId })
+      try {
+        return await checkpointManager.getSessionTimeline(sessionId, projectId, projectPath)
+      } catch (error) {
+        console.error('Error getting session timeline:', error)
+        throw new Error('Failed to get session timeline')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'get-checkpoint-diff',
+    async (
+      _,
+      {
+        fromCheckpointId,
+        toCheckpointId,
+        sessionId,
+        projectId
+      }: { fromCheckpointId: string; toCheckpointId: string; sessionId: string; projectId: string }
+    ) => {
+      console.log('Main: get-checkpoint-diff called with', { fromCheckpointId, toCheckpointId })
+      try {
+        return await checkpointManager.getCheckpointDiff(
+          fromCheckpointId,
+          toCheckpointId,
+          sessionId,
+          projectId
+        )
+      } catch (error) {
+        console.error('Error getting checkpoint diff:', error)
+        throw new Error(
+          `Failed to get checkpoint diff: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'cleanup-old-checkpoints',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath,
+        keepCount
+      }: { sessionId: string; projectId: string; projectPath: string; keepCount: number }
+    ) => {
+      console.log('Main: cleanup-old-checkpoints called with', { sessionId, keepCount })
+      try {
+        return await checkpointManager.cleanupOldCheckpoints(
+          sessionId,
+          projectId,
+          projectPath,
+          keepCount
+        )
+      } catch (error) {
+        console.error('Error cleaning up checkpoints:', error)
+        throw new Error('Failed to cleanup old checkpoints')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'get-checkpoint-settings',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath
+      }: { sessionId: string; projectId: string; projectPath: string }
+    ) => {
+      console.log('Main: get-checkpoint-settings called with', { sessionId, projectId })
+      try {
+        return await checkpointManager.getCheckpointSettings(sessionId, projectId, projectPath)
+      } catch (error) {
+        console.error('Error getting checkpoint settings:', error)
+        throw new Error('Failed to get checkpoint settings')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'update-checkpoint-settings',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath,
+        autoCheckpointEnabled,
+        checkpointStrategy
+      }: {
+        sessionId: string
+        projectId: string
+        projectPath: string
+        autoCheckpointEnabled: boolean
+        checkpointStrategy: CheckpointStrategy
+      }
+    ) => {
+      console.log('Main: update-checkpoint-settings called with', {
+        sessionId,
+        autoCheckpointEnabled,
+        checkpointStrategy
+      })
+      try {
+        await checkpointManager.updateCheckpointSettings(
+          sessionId,
+          projectId,
+          projectPath,
+          autoCheckpointEnabled,
+          checkpointStrategy
+        )
+      } catch (error) {
+        console.error('Error updating checkpoint settings:', error)
+        throw new Error('Failed to update checkpoint settings')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'check-auto-checkpoint',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath,
+        message
+      }: { sessionId: string; projectId: string; projectPath: string; message: string }
+    ) => {
+      console.log('Main: check-auto-checkpoint called with', { sessionId, projectId })
+      try {
+        return await autoCheckpointer.checkMessage(sessionId, projectId, projectPath, message)
+      } catch (error) {
+        console.error('Error checking auto checkpoint:', error)
+        throw new Error('Failed to check auto checkpoint')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'track-checkpoint-message',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath,
+        message
+      }: { sessionId: string; projectId: string; projectPath: string; message: string }
+    ) => {
+      try {
+        await autoCheckpointer.checkMessage(sessionId, projectId, projectPath, message)
+      } catch (error) {
+        console.error('Error tracking checkpoint message:', error)
+        throw new Error('Failed to track checkpoint message')
+      }
+    }
+  )
+
+  ipcMain.handle(
+    'track-session-messages',
+    async (
+      _,
+      {
+        sessionId,
+        projectId,
+        projectPath,
+        messages
+      }: { sessionId: string; projectId: string; projectPath: string; messages: string[] }
+    ) => {
+      console.log('Main: track-session-messages called with', {
+        sessionId,
+        count: messages.length
+      })
+      try {
+        for (const message of messages) {
+          await autoCheckpointer.checkMessage(sessionId, projectId, projectPath, message)
+        }
+      } catch (error) {
+        console.error('Error tracking session messages:', error)
+        throw new Error('Failed to track session messages')
+      }
+    }
+  )
+
+  ipcMain.handle('get-checkpoint-storage-usage', async () => {
+    console.log('Main: get-checkpoint-storage-usage called')
+    try {
+      return await checkpointManager.getStorageUsage()
+    } catch (error) {
+      console.error('Error getting checkpoint storage usage:', error)
+      throw new Error('Failed to get checkpoint storage usage')
+    }
+  })
+
+  ipcMain.handle('collect-checkpoint-garbage', async () => {
+    console.log('Main: collect-checkpoint-garbage called')
+    try {
+      return await checkpointManager.collectGarbage()
+    } catch (error) {
+      console.error('Error collecting checkpoint garbage:', error)
+      throw new Error('Failed to collect checkpoint garbage')
+    }
+  })
+
+  ipcMain.handle('set-checkpoint-compression', async (_, enabled: boolean) => {
+    console.log('Main: set-checkpoint-compression called with', enabled)
+    try {
+      await appSettingsService.setSetting('checkpoint_compression', enabled ? 'true' : 'false')
+    } catch (error) {
+      console.error('Error saving checkpoint compression setting:', error)
+      throw new Error('Failed to save checkpoint compression setting')
+    }
+  })
+
+  ipcMain.handle('clear-checkpoint-manager', async (_, sessionId: string) => {
+    console.log('Main: clear-checkpoint-manager called with', sessionId)
+    try {
+      await checkpointManager.clearSession(sessionId)
+
+      console.log(`Checkpoint manager cleared for session: ${sessionId}`)
+      return { success: true, message: 'Checkpoint manager cleared' }
+    } catch (error) {
+      console.error('Error clearing checkpoint manager:', error)
+      throw new Error(
+        `Failed to clear checkpoint manager: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  })
+}
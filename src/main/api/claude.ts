@@ -2,10 +2,13 @@ import { ipcMain, dialog } from 'electron'
 import { promises as fs } from 'fs'
 import { join, dirname, basename } from 'path'
 import { homedir } from 'os'
+import { randomUUID } from 'crypto'
 import { glob } from 'glob'
 import { claudeBinaryManager } from '../detection/ClaudeBinaryManagerAdapter'
 import { appSettingsService } from '../database/services'
 import { processManager } from '../process/ProcessManager'
+import { permissionPromptServer } from '../permission/PermissionPromptServer'
+import { checkpointGate } from '../checkpoint/CheckpointGate'
 
 /**
  * Gets the actual project path by reading the cwd from the first JSONL entry
@@ -119,6 +122,31 @@ async function extractFirstUserMessage(
   return { firstMessage: null, messageTimestamp: null }
 }
 
+/**
+ * Encode a prompt as a stream-json user message for an interactive session's stdin
+ */
+function toStreamJsonInput(prompt: string): string {
+  return (
+    JSON.stringify({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text: prompt }] }
+    }) + '\n'
+  )
+}
+
+/**
+ * Encode a stream-json control request that interrupts the current turn
+ */
+function toStreamJsonInterrupt(): string {
+  return (
+    JSON.stringify({
+      type: 'control_request',
+      request_id: randomUUID(),
+      request: { subtype: 'interrupt' }
+    }) + '\n'
+  )
+}
+
 /**
  * Claude Code related IPC handlers
  */
@@ -335,118 +363,206 @@ export function setupClaudeHandlers() {
   })
 
   // Claude Code Execution
-  ipcMain.handle('execute-claude-code', async (_, { projectPath, message, model }) => {
-    console.log('Main: execute-claude-code called with', { projectPath, message, model })
-    try {
-      const binaryPath = await claudeBinaryManager.findClaudeBinary()
-
-      const args: string[] = []
-      if (message) {
-        args.push('-p', message)
-      }
-      if (model) {
-        args.push('--model', model)
-      }
-      args.push('--output-format', 'stream-json')
-      args.push('--verbose')
-      args.push('--dangerously-skip-permissions')
-
-      // Register the process with the process manager
-      const runId = await processManager.registerAgentProcess(
-        0, // Not an agent run, use 0
-        'Claude Code Session',
+  ipcMain.handle(
+    'execute-claude-code',
+    async (_, { projectPath, message, model, interactive, permissionMode }) => {
+      console.log('Main: execute-claude-code called with', {
         projectPath,
-        message || 'Interactive session',
-        model || 'default',
-        binaryPath,
-        args,
-        { cwd: projectPath }
-      )
+        message,
+        model,
+        interactive,
+        permissionMode
+      })
+      try {
+        const binaryPath = await claudeBinaryManager.findClaudeBinary()
+
+        const args: string[] = []
+        if (interactive) {
+          // Prompts are written to stdin, which stays open for follow-up turns
+          args.push('-p', '--input-format', 'stream-json')
+        } else if (message) {
+          args.push('-p', message)
+        }
+        if (model) {
+          args.push('--model', model)
+        }
+        args.push('--output-format', 'stream-json')
+        args.push('--verbose')
+
+        const permissions = await permissionPromptServer.prepareRun(projectPath, permissionMode)
+        args.push(...permissions.args)
+        const gate = await checkpointGate.prepareRun(projectPath)
+        args.push(...gate.args)
+
+        // Register the process with the process manager
+        const runId = await processManager.registerAgentProcess(
+          0, // Not an agent run, use 0
+          'Claude Code Session',
+          projectPath,
+          message || 'Interactive session',
+          model || 'default',
+          binaryPath,
+          args,
+          { cwd: projectPath, interactive: !!interactive }
+        )
+        permissionPromptServer.attachRun(permissions.token, runId)
+        checkpointGate.attachRun(gate.token, runId)
+
+        if (interactive && message) {
+          processManager.writeToProcess(runId, toStreamJsonInput(message))
+        }
 
-      return { success: true, runId, message: 'Claude Code session started' }
-    } catch (error) {
-      console.error('Error executing Claude Code:', error)
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Unknown error'
+        return { success: true, runId, message: 'Claude Code session started' }
+      } catch (error) {
+        console.error('Error executing Claude Code:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }
       }
     }
-  })
-
-  ipcMain.handle('continue-claude-code', async (_, { projectPath, message, model }) => {
-    console.log('Main: continue-claude-code called with', { projectPath, message, model })
-    try {
-      const binaryPath = await claudeBinaryManager.findClaudeBinary()
+  )
 
-      const args: string[] = ['-c'] // Continue flag
-      if (message) {
-        args.push('-p', message)
-      }
-      if (model) {
-        args.push('--model', model)
-      }
-      args.push('--output-format', 'stream-json')
-      args.push('--verbose')
-      args.push('--dangerously-skip-permissions')
-
-      const runId = await processManager.registerAgentProcess(
-        0,
-        'Claude Code Continuation',
+  ipcMain.handle(
+    'continue-claude-code',
+    async (_, { projectPath, message, model, permissionMode }) => {
+      console.log('Main: continue-claude-code called with', {
         projectPath,
-        message || 'Continue session',
-        'default',
-        binaryPath,
-        args,
-        { cwd: projectPath }
-      )
+        message,
+        model,
+        permissionMode
+      })
+      try {
+        const binaryPath = await claudeBinaryManager.findClaudeBinary()
 
-      return { success: true, runId, message: 'Claude Code continuation started' }
-    } catch (error) {
-      console.error('Error continuing Claude Code:', error)
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Unknown error'
+        const args: string[] = ['-c'] // Continue flag
+        if (message) {
+          args.push('-p', message)
+        }
+        if (model) {
+          args.push('--model', model)
+        }
+        args.push('--output-format', 'stream-json')
+        args.push('--verbose')
+
+        const permissions = await permissionPromptServer.prepareRun(projectPath, permissionMode)
+        args.push(...permissions.args)
+        const gate = await checkpointGate.prepareRun(projectPath)
+        args.push(...gate.args)
+
+        const runId = await processManager.registerAgentProcess(
+          0,
+          'Claude Code Continuation',
+          projectPath,
+          message || 'Continue session',
+          'default',
+          binaryPath,
+          args,
+          { cwd: projectPath }
+        )
+        permissionPromptServer.attachRun(permissions.token, runId)
+        checkpointGate.attachRun(gate.token, runId)
+
+        return { success: true, runId, message: 'Claude Code continuation started' }
+      } catch (error) {
+        console.error('Error continuing Claude Code:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }
       }
     }
-  })
+  )
 
-  ipcMain.handle('resume-claude-code', async (_, { projectPath, sessionId, prompt, model }) => {
-    console.log('Main: resume-claude-code called with', { projectPath, sessionId, prompt, model })
-    try {
-      const binaryPath = await claudeBinaryManager.findClaudeBinary()
+  ipcMain.handle(
+    'resume-claude-code',
+    async (_, { projectPath, sessionId, prompt, model, interactive, permissionMode }) => {
+      console.log('Main: resume-claude-code called with', {
+        projectPath,
+        sessionId,
+        prompt,
+        model,
+        interactive,
+        permissionMode
+      })
+      try {
+        const binaryPath = await claudeBinaryManager.findClaudeBinary()
 
-      const args: string[] = ['--resume', sessionId]
-      if (prompt) {
-        args.push('-p', prompt)
-      }
-      if (model) {
-        args.push('--model', model)
+        const args: string[] = ['--resume', sessionId]
+        if (interactive) {
+          args.push('-p', '--input-format', 'stream-json')
+        } else if (prompt) {
+          args.push('-p', prompt)
+        }
+        if (model) {
+          args.push('--model', model)
+        }
+        args.push('--output-format', 'stream-json')
+        args.push('--verbose')
+
+        const permissions = await permissionPromptServer.prepareRun(projectPath, permissionMode)
+        args.push(...permissions.args)
+        const gate = await checkpointGate.prepareRun(projectPath)
+        args.push(...gate.args)
+
+        // Register the process with the process manager
+        const runId = await processManager.registerAgentProcess(
+          0, // Not an agent run, use 0
+          'Claude Code Resume',
+          projectPath,
+          prompt || 'Resume session',
+          model || 'default',
+          binaryPath,
+          args,
+          { cwd: projectPath, interactive: !!interactive }
+        )
+        permissionPromptServer.attachRun(permissions.token, runId)
+        checkpointGate.attachRun(gate.token, runId)
+
+        if (interactive && prompt) {
+          processManager.writeToProcess(runId, toStreamJsonInput(prompt))
+        }
+
+        return { success: true, runId, message: 'Claude Code session resumed' }
+      } catch (error) {
+        console.error('Error resuming Claude Code:', error)
+        return {
+          success: false,
+          runId: undefined,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }
       }
-      args.push('--output-format', 'stream-json')
-      args.push('--verbose')
-      args.push('--dangerously-skip-permissions')
-
-      // Register the process with the process manager
-      const runId = await processManager.registerAgentProcess(
-        0, // Not an agent run, use 0
-        'Claude Code Resume',
-        projectPath,
-        prompt || 'Resume session',
-        model || 'default',
-        binaryPath,
-        args,
-        { cwd: projectPath }
-      )
+    }
+  )
 
-      return { success: true, runId, message: 'Claude Code session resumed' }
-    } catch (error) {
-      console.error('Error resuming Claude Code:', error)
+  ipcMain.handle(
+    'send-session-input',
+    async (_, { runId, message }: { runId: number; message: string }) => {
+      console.log('Main: send-session-input called with', { runId, message })
+      const success = processManager.writeToProcess(runId, toStreamJsonInput(message))
       return {
-        success: false,
-        runId: undefined,
-        message: error instanceof Error ? error.message : 'Unknown error'
+        success,
+        message: success ? 'Input sent to session' : 'Session is not accepting input'
       }
     }
+  )
+
+  ipcMain.handle('interrupt-claude-session', async (_, runId: number) => {
+    console.log('Main: interrupt-claude-session called with', runId)
+    const success = processManager.writeToProcess(runId, toStreamJsonInterrupt())
+    return {
+      success,
+      message: success ? 'Interrupt sent to session' : 'Session is not accepting input'
+    }
+  })
+
+  ipcMain.handle('close-session-input', async (_, runId: number) => {
+    console.log('Main: close-session-input called with', runId)
+    const success = processManager.closeProcessInput(runId)
+    return {
+      success,
+      message: success ? 'Session input closed' : 'Session is not accepting input'
+    }
   })
 
   ipcMain.handle('cancel-claude-execution', async (_, runId: number) => {
@@ -783,23 +899,5 @@ export function setupClaudeHandlers() {
     }
   })
 
-  // Checkpoint Manager
-  ipcMain.handle('clear-checkpoint-manager', async (_, sessionId: string) => {
-    console.log('Main: clear-checkpoint-manager called with', sessionId)
-    try {
-      // For Claude Code sessions, we don't maintain separate checkpoint state
-      // The checkpoints are managed by Claude Code itself through JSONL files
-      // This is a no-op for now, but we could add session cleanup logic here
-
-      console.log(`Checkpoint manager cleared for session: ${sessionId}`)
-      return { success: true, message: 'Checkpoint manager cleared' }
-    } catch (error) {
-      console.error('Error clearing checkpoint manager:', error)
-      throw new Error(
-        `Failed to clear checkpoint manager: ${error instanceof Error ? error.message : 'Unknown error'}`
-      )
-    }
-  })
-
   // Window Controls are handled by @electron-toolkit/utils registerFramelessWindowIpc()
 }
@@ -0,0 +1,167 @@
+import { ipcMain } from 'electron'
+import { promises as fs } from 'fs'
+import { evalCaseService, evalRunService } from '../database/services'
+import type { EvalCaseUpdateData } from '../database/services'
+import { evalRunner } from '../evaluation/EvalRunner'
+import { parseEvalAssertions } from '../evaluation/assertions'
+import type { EvalAssertion } from '../evaluation/types'
+
+interface EvalCaseData {
+  agentId: number
+  name: string
+  fixturePath: string
+  task: string
+  assertions: EvalAssertion[]
+}
+
+async function assertFixture(fixturePath: string): Promise<void> {
+  const stats = await fs.stat(fixturePath).catch(() => null)
+  if (!stats?.isDirectory()) {
+    throw new Error(`Fixture directory not found: ${fixturePath}`)
+  }
+}
+
+/**
+ * Agent evaluation IPC handlers
+ */
+export function setupEvaluationsHandlers() {
+  // List the test cases of an agent
+  ipcMain.handle('list-eval-cases', async (_, agentId: number) => {
+    console.log('Main: list-eval-cases called with', agentId)
+    try {
+      const cases = await evalCaseService.findByAgentId(agentId)
+      return cases.map((evalCase) => ({
+        ...evalCase,
+        assertions: JSON.parse(evalCase.assertions)
+      }))
+    } catch (error) {
+      console.error('Error listing eval cases:', error)
+      throw new Error('Failed to list test cases')
+    }
+  })
+
+  // Create a test case
+  ipcMain.handle('create-eval-case', async (_, data: EvalCaseData) => {
+    console.log('Main: create-eval-case called with', data)
+    try {
+      if (!data.name.trim()) {
+        throw new Error('A test case needs a name')
+      }
+      if (!data.task.trim()) {
+        throw new Error('A test case needs a task')
+      }
+      const assertions = JSON.stringify(data.assertions)
+      parseEvalAssertions(assertions)
+      await assertFixture(data.fixturePath.trim())
+
+      await evalCaseService.create({
+        agent_id: data.agentId,
+        name: data.name.trim(),
+        fixture_path: data.fixturePath.trim(),
+        task: data.task,
+        assertions
+      })
+      return { success: true, message: 'Test case created' }
+    } catch (error) {
+      console.error('Error creating eval case:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to create test case'
+      }
+    }
+  })
+
+  // Update a test case
+  ipcMain.handle(
+    'update-eval-case',
+    async (_, id: number, data: Partial<Omit<EvalCaseData, 'agentId'>>) => {
+      console.log('Main: update-eval-case called with', id, data)
+      try {
+        const update: EvalCaseUpdateData = {}
+        if (data.name !== undefined) {
+          if (!data.name.trim()) {
+            throw new Error('A test case needs a name')
+          }
+          update.name = data.name.trim()
+        }
+        if (data.task !== undefined) {
+          if (!data.task.trim()) {
+            throw new Error('A test case needs a task')
+          }
+          update.task = data.task
+        }
+        if (data.fixturePath !== undefined) {
+          await assertFixture(data.fixturePath.trim())
+          update.fixture_path = data.fixturePath.trim()
+        }
+        if (data.assertions !== undefined) {
+          update.assertions = JSON.stringify(data.assertions)
+          parseEvalAssertions(update.assertions)
+        }
+
+        if (!(await evalCaseService.update(id, update))) {
+          throw new Error('Test case not found')
+        }
+        return { success: true, message: 'Test case updated' }
+      } catch (error) {
+        console.error('Error updating eval case:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to update test case'
+        }
+      }
+    }
+  )
+
+  // Delete a test case; past suite runs keep its results
+  ipcMain.handle('delete-eval-case', async (_, id: number) => {
+    console.log('Main: delete-eval-case called with', id)
+    try {
+      await evalCaseService.delete(id)
+    } catch (error) {
+      console.error('Error deleting eval case:', error)
+      throw new Error('Failed to delete test case')
+    }
+  })
+
+  // Run all test cases of an agent
+  ipcMain.handle('run-eval-suite', async (_, agentId: number) => {
+    console.log('Main: run-eval-suite called with', agentId)
+    try {
+      const evalRun = await evalRunner.run(agentId)
+      return { success: true, message: 'Evaluation started', runId: evalRun.id }
+    } catch (error) {
+      console.error('Error running eval suite:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to run evaluation'
+      }
+    }
+  })
+
+  // List the suite runs of an agent, latest first, with the result of each case
+  ipcMain.handle('list-eval-runs', async (_, agentId: number) => {
+    console.log('Main: list-eval-runs called with', agentId)
+    try {
+      const evalRuns = await evalRunService.findByAgentId(agentId)
+      return evalRuns.map((evalRun) => ({
+        ...evalRun,
+        case_results: JSON.parse(evalRun.case_results)
+      }))
+    } catch (error) {
+      console.error('Error listing eval runs:', error)
+      throw new Error('Failed to list evaluation runs')
+    }
+  })
+
+  // Cancel a suite run along with its cases that haven't finished
+  ipcMain.handle('cancel-eval-run', async (_, evalRunId: number) => {
+    console.log('Main: cancel-eval-run called with', evalRunId)
+    try {
+      return await evalRunner.cancel(evalRunId)
+    } catch (error) {
+      console.error('Error cancelling eval run:', error)
+      throw new Error('Failed to cancel evaluation run')
+    }
+  })
+}
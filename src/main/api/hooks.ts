@@ -130,6 +130,79 @@ function getHooksFilePath(scope: 'user' | 'project' | 'local', projectPath?: str
   }
 }
 
+/**
+ * Combine hooks configurations event by event. Every entry of every configuration is
+ * kept, in order; identical entries are only kept once.
+ */
+export function mergeHooks(...configs: Record<string, unknown>[]): Record<string, unknown[]> {
+  const merged: Record<string, unknown[]> = {}
+
+  for (const config of configs) {
+    for (const [event, entries] of Object.entries(config)) {
+      if (!Array.isArray(entries)) continue
+
+      const existing = (merged[event] ||= [])
+      for (const entry of entries) {
+        const json = JSON.stringify(entry)
+        if (!existing.some((other) => JSON.stringify(other) === json)) {
+          existing.push(entry)
+        }
+      }
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Entries of a hooks configuration that aren't in another one already, event by event
+ */
+export function omitHooks(
+  config: Record<string, unknown>,
+  existing: Record<string, unknown>
+): Record<string, unknown[]> {
+  const remaining: Record<string, unknown[]> = {}
+
+  for (const [event, entries] of Object.entries(config)) {
+    if (!Array.isArray(entries)) continue
+
+    const present = Array.isArray(existing[event])
+      ? (existing[event] as unknown[]).map((entry) => JSON.stringify(entry))
+      : []
+    const kept = entries.filter((entry) => !present.includes(JSON.stringify(entry)))
+    if (kept.length > 0) remaining[event] = kept
+  }
+
+  return remaining
+}
+
+/**
+ * Hooks Claude Code loads for a project from the user, project and local settings files,
+ * merged in that order
+ */
+export async function getMergedHooksConfig(
+  projectPath: string
+): Promise<Record<string, unknown[]>> {
+  const settingsPaths = [
+    join(homedir(), '.claude', 'settings.json'),
+    join(projectPath, '.claude', 'settings.json'),
+    join(projectPath, '.claude', 'settings.local.json')
+  ]
+
+  const configs = await Promise.all(
+    settingsPaths.map(async (settingsPath) => {
+      try {
+        const settings = JSON.parse(await fs.readFile(settingsPath, 'utf-8'))
+        return settings.hooks && typeof settings.hooks === 'object' ? settings.hooks : {}
+      } catch {
+        return {}
+      }
+    })
+  )
+
+  return mergeHooks(...configs)
+}
+
 /**
  * Validate a hook command
  */
@@ -173,16 +173,9 @@ export function setupMCPHandlers() {
   // List all configured MCP servers
   ipcMain.handle('mcp-list', async () => {
     console.log('Main: mcp-list called')
-    const result = await executeClaudeMCPCommand(['mcp', 'list'])
-
-    if (result.success && result.data) {
-      const servers = parseMCPServerList(result.data)
-      console.log('Main: mcp-list returning', servers.length, 'servers')
-      return servers
-    } else {
-      console.error('Error listing MCP servers:', result.error)
-      return []
-    }
+    const servers = await listMCPServers()
+    console.log('Main: mcp-list returning', servers.length, 'servers')
+    return servers
   })
 
   // Get a specific MCP server
@@ -507,6 +500,20 @@ export function setupMCPHandlers() {
   )
 }
 
+/**
+ * List the MCP servers configured in Claude Code, empty when they can't be listed
+ */
+export async function listMCPServers(): Promise<MCPServer[]> {
+  const result = await executeClaudeMCPCommand(['mcp', 'list'])
+
+  if (result.success && result.data) {
+    return parseMCPServerList(result.data)
+  } else {
+    console.error('Error listing MCP servers:', result.error)
+    return []
+  }
+}
+
 /**
  * Create error suggestions based on error type
  */
@@ -0,0 +1,48 @@
+import { ipcMain } from 'electron'
+import { permissionPromptServer } from '../permission/PermissionPromptServer'
+import type { PermissionDecision, ToolApprovalMode } from '../permission/types'
+
+/**
+ * Tool permission approval IPC handlers
+ */
+export function setupPermissionHandlers() {
+  ipcMain.handle(
+    'respond-permission-request',
+    async (_, { requestId, decision }: { requestId: string; decision: PermissionDecision }) => {
+      console.log('Main: respond-permission-request called with', { requestId, decision })
+      try {
+        return await permissionPromptServer.resolveRequest(requestId, decision)
+      } catch (error) {
+        console.error('Error responding to permission request:', error)
+        throw new Error(
+          error instanceof Error ? error.message : 'Failed to respond to permission request'
+        )
+      }
+    }
+  )
+
+  ipcMain.handle('list-pending-permission-requests', async (_, runId?: number) => {
+    console.log('Main: list-pending-permission-requests called with', runId)
+    return permissionPromptServer.listPendingRequests(runId)
+  })
+
+  ipcMain.handle('get-tool-approval-mode', async () => {
+    console.log('Main: get-tool-approval-mode called')
+    try {
+      return await permissionPromptServer.getApprovalMode()
+    } catch (error) {
+      console.error('Error getting tool approval mode:', error)
+      throw new Error('Failed to get tool approval mode')
+    }
+  })
+
+  ipcMain.handle('set-tool-approval-mode', async (_, mode: ToolApprovalMode) => {
+    console.log('Main: set-tool-approval-mode called with', mode)
+    try {
+      await permissionPromptServer.setApprovalMode(mode)
+    } catch (error) {
+      console.error('Error saving tool approval mode:', error)
+      throw new Error('Failed to save tool approval mode')
+    }
+  })
+}
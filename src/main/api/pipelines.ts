@@ -0,0 +1,145 @@
+import { ipcMain } from 'electron'
+import { agentRunService, pipelineRunService, pipelineService } from '../database/services'
+import type { PipelineUpdateData } from '../database/services'
+import { parsePipelineSteps, pipelineRunner } from '../pipeline/PipelineRunner'
+import type { PipelineStep } from '../pipeline/types'
+
+/**
+ * Agent pipeline IPC handlers
+ */
+export function setupPipelinesHandlers() {
+  // List pipeline definitions
+  ipcMain.handle('list-pipelines', async () => {
+    console.log('Main: list-pipelines called')
+    try {
+      const pipelines = await pipelineService.findAll()
+      return pipelines.map((pipeline) => ({ ...pipeline, steps: JSON.parse(pipeline.steps) }))
+    } catch (error) {
+      console.error('Error listing pipelines:', error)
+      throw new Error('Failed to list pipelines')
+    }
+  })
+
+  // Create a pipeline
+  ipcMain.handle(
+    'create-pipeline',
+    async (_, data: { name: string; steps: PipelineStep[]; useWorktree?: boolean }) => {
+      console.log('Main: create-pipeline called with', data)
+      try {
+        if (!data.name.trim()) {
+          throw new Error('A pipeline needs a name')
+        }
+        const steps = JSON.stringify(data.steps)
+        parsePipelineSteps(steps)
+
+        await pipelineService.create({
+          name: data.name.trim(),
+          steps,
+          use_worktree: data.useWorktree
+        })
+
+        return { success: true, message: 'Pipeline created' }
+      } catch (error) {
+        console.error('Error creating pipeline:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to create pipeline'
+        }
+      }
+    }
+  )
+
+  // Update a pipeline. Runs already going keep the steps they started with.
+  ipcMain.handle(
+    'update-pipeline',
+    async (
+      _,
+      id: number,
+      data: { name?: string; steps?: PipelineStep[]; useWorktree?: boolean }
+    ) => {
+      console.log('Main: update-pipeline called with', id, data)
+      try {
+        const update: PipelineUpdateData = {}
+        if (data.name !== undefined) update.name = data.name.trim()
+        if (data.useWorktree !== undefined) update.use_worktree = data.useWorktree
+        if (data.steps !== undefined) {
+          update.steps = JSON.stringify(data.steps)
+          parsePipelineSteps(update.steps)
+        }
+
+        if (!(await pipelineService.update(id, update))) {
+          throw new Error('Pipeline not found')
+        }
+
+        return { success: true, message: 'Pipeline updated' }
+      } catch (error) {
+        console.error('Error updating pipeline:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to update pipeline'
+        }
+      }
+    }
+  )
+
+  // Delete a pipeline, keeping the history of its runs
+  ipcMain.handle('delete-pipeline', async (_, id: number) => {
+    console.log('Main: delete-pipeline called with', id)
+    try {
+      await pipelineService.delete(id)
+    } catch (error) {
+      console.error('Error deleting pipeline:', error)
+      throw new Error('Failed to delete pipeline')
+    }
+  })
+
+  // Run a pipeline in a project
+  ipcMain.handle('run-pipeline', async (_, id: number, projectPath: string) => {
+    console.log('Main: run-pipeline called with', id, projectPath)
+    try {
+      const pipeline = await pipelineService.findById(id)
+      if (!pipeline) {
+        throw new Error('Pipeline not found')
+      }
+
+      const pipelineRun = await pipelineRunner.run(pipeline, projectPath.trim())
+      return { success: true, message: 'Pipeline started', runId: pipelineRun.id }
+    } catch (error) {
+      console.error('Error running pipeline:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to run pipeline'
+      }
+    }
+  })
+
+  // List pipeline runs with the state of their steps and the agent runs of the steps
+  ipcMain.handle('list-pipeline-runs', async (_, pipelineId?: number) => {
+    console.log('Main: list-pipeline-runs called with', pipelineId)
+    try {
+      const pipelineRuns = await pipelineRunService.findAll(pipelineId)
+
+      return await Promise.all(
+        pipelineRuns.map(async (pipelineRun) => ({
+          ...pipelineRun,
+          step_states: JSON.parse(pipelineRun.step_states),
+          runs: await agentRunService.findByPipelineRunId(pipelineRun.id)
+        }))
+      )
+    } catch (error) {
+      console.error('Error listing pipeline runs:', error)
+      throw new Error('Failed to list pipeline runs')
+    }
+  })
+
+  // Cancel a pipeline run along with the step that's running
+  ipcMain.handle('cancel-pipeline-run', async (_, pipelineRunId: number) => {
+    console.log('Main: cancel-pipeline-run called with', pipelineRunId)
+    try {
+      return await pipelineRunner.cancel(pipelineRunId)
+    } catch (error) {
+      console.error('Error cancelling pipeline run:', error)
+      throw new Error('Failed to cancel pipeline run')
+    }
+  })
+}
@@ -0,0 +1,190 @@
+import { ipcMain } from 'electron'
+import { promises as fs } from 'fs'
+import {
+  registrySourceService,
+  type RegistrySourceCreateData,
+  type RegistrySourceUpdateData
+} from '../database/services'
+import { agentRegistry } from '../registry/AgentRegistry'
+import { findMissingMcpServers } from '../mcp/agentMcpServers'
+import { subagentSync } from '../subagent/SubagentSync'
+
+const SOURCE_TYPES = ['local', 'git', 'http']
+
+async function validateSource(data: {
+  name: string
+  type: string
+  location: string
+}): Promise<void> {
+  if (!data.name?.trim()) {
+    throw new Error('Source name is required')
+  }
+  if (!SOURCE_TYPES.includes(data.type)) {
+    throw new Error(`Unknown source type: ${data.type}`)
+  }
+  if (!data.location?.trim()) {
+    throw new Error('Source location is required')
+  }
+
+  if (data.type === 'local') {
+    const stats = await fs.stat(data.location).catch(() => null)
+    if (!stats?.isDirectory()) {
+      throw new Error(`${data.location} is not a directory`)
+    }
+  } else if (data.type === 'http') {
+    const url = new URL(data.location)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Index URL must be http or https')
+    }
+  }
+}
+
+/**
+ * Agent registry IPC handlers
+ */
+export function setupRegistryHandlers() {
+  // List registry sources
+  ipcMain.handle('list-registry-sources', async () => {
+    console.log('Main: list-registry-sources called')
+    try {
+      return await registrySourceService.findAll()
+    } catch (error) {
+      console.error('Error listing registry sources:', error)
+      throw new Error('Failed to list registry sources')
+    }
+  })
+
+  // Add a registry source
+  ipcMain.handle('create-registry-source', async (_, data: RegistrySourceCreateData) => {
+    console.log('Main: create-registry-source called with', data)
+    try {
+      await validateSource(data)
+
+      const source = await registrySourceService.create({
+        ...data,
+        name: data.name.trim(),
+        location: data.location.trim()
+      })
+      if (source.type !== 'local') {
+        // Fetch right away; a failure is kept as the source's last error
+        await agentRegistry.refresh(source.id).catch(() => undefined)
+      }
+      return { success: true, message: 'Registry source added' }
+    } catch (error) {
+      console.error('Error creating registry source:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to add registry source'
+      }
+    }
+  })
+
+  // Update a registry source
+  ipcMain.handle(
+    'update-registry-source',
+    async (_, id: number, data: RegistrySourceUpdateData) => {
+      console.log('Main: update-registry-source called with', id, data)
+      try {
+        const source = await registrySourceService.findById(id)
+        if (!source) {
+          throw new Error('Registry source not found')
+        }
+        await validateSource({ ...source, ...data })
+
+        const moved = (['location', 'ref', 'subdirectory'] as const).some(
+          (field) => data[field] !== undefined && data[field] !== source[field]
+        )
+        await registrySourceService.update(
+          id,
+          moved ? { ...data, last_synced_at: null, last_error: null } : data
+        )
+        if (moved) {
+          // The cache holds the old location's agents
+          await agentRegistry.removeCache(id)
+        }
+        return { success: true, message: 'Registry source updated' }
+      } catch (error) {
+        console.error('Error updating registry source:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to update registry source'
+        }
+      }
+    }
+  )
+
+  // Remove a registry source; agents installed from it are kept
+  ipcMain.handle('delete-registry-source', async (_, id: number) => {
+    console.log('Main: delete-registry-source called with', id)
+    try {
+      await registrySourceService.delete(id)
+      await agentRegistry.removeCache(id)
+      return true
+    } catch (error) {
+      console.error('Error deleting registry source:', error)
+      throw new Error('Failed to delete registry source')
+    }
+  })
+
+  // Fetch the latest agents of a source
+  ipcMain.handle('refresh-registry-source', async (_, id: number) => {
+    console.log('Main: refresh-registry-source called with', id)
+    try {
+      await agentRegistry.refresh(id)
+      return { success: true, message: 'Registry source refreshed' }
+    } catch (error) {
+      console.error('Error refreshing registry source:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to refresh registry source'
+      }
+    }
+  })
+
+  // List the agents of enabled sources, or of one source
+  ipcMain.handle('list-registry-agents', async (_, sourceId?: number) => {
+    console.log('Main: list-registry-agents called with', sourceId)
+    try {
+      return await agentRegistry.listAgents(sourceId)
+    } catch (error) {
+      console.error('Error listing registry agents:', error)
+      throw new Error('Failed to list registry agents')
+    }
+  })
+
+  // Get the agent export of a registry agent
+  ipcMain.handle('get-registry-agent', async (_, sourceId: number, agentId: string) => {
+    console.log('Main: get-registry-agent called with', sourceId, agentId)
+    try {
+      return await agentRegistry.getAgentExport(sourceId, agentId)
+    } catch (error) {
+      console.error('Error getting registry agent:', error)
+      throw new Error('Failed to get registry agent')
+    }
+  })
+
+  // Create an agent from a registry agent
+  ipcMain.handle('install-registry-agent', async (_, sourceId: number, agentId: string) => {
+    console.log('Main: install-registry-agent called with', sourceId, agentId)
+    try {
+      const agent = await agentRegistry.install(sourceId, agentId)
+      return { ...agent, missing_mcp_servers: await findMissingMcpServers(agent.mcp_servers) }
+    } catch (error) {
+      console.error('Error installing registry agent:', error)
+      throw new Error(error instanceof Error ? error.message : 'Failed to install registry agent')
+    }
+  })
+
+  // Update an installed agent to the version its source has now
+  ipcMain.handle('update-registry-agent', async (_, agentId: number) => {
+    console.log('Main: update-registry-agent called with', agentId)
+    try {
+      const agent = await agentRegistry.update(agentId)
+      await subagentSync.agentUpdated(agentId)
+      return { ...agent, missing_mcp_servers: await findMissingMcpServers(agent.mcp_servers) }
+    } catch (error) {
+      console.error('Error updating registry agent:', error)
+      throw new Error(error instanceof Error ? error.message : 'Failed to update registry agent')
+    }
+  })
+}
@@ -0,0 +1,116 @@
+import { ipcMain } from 'electron'
+import { agentRunService, agentScheduleService, agentService } from '../database/services'
+import type { AgentScheduleUpdateData } from '../database/services'
+import { scheduler } from '../schedule/Scheduler'
+import { parseCron } from '../schedule/cron'
+
+/**
+ * Agent schedule IPC handlers
+ */
+export function setupSchedulesHandlers() {
+  // List schedules with their next tick and the outcome of their latest run
+  ipcMain.handle('list-agent-schedules', async () => {
+    console.log('Main: list-agent-schedules called')
+    try {
+      const schedules = await agentScheduleService.findAll()
+      const agents = await agentService.findAll()
+
+      return await Promise.all(
+        schedules.map(async (schedule) => {
+          const agent = agents.find((candidate) => candidate.id === schedule.agent_id)
+          const lastRun = schedule.last_run_id
+            ? await agentRunService.findById(schedule.last_run_id)
+            : null
+
+          return {
+            ...schedule,
+            agent_name: agent?.name || '',
+            agent_icon: agent?.icon || 'bot',
+            next_run_at: scheduler.getNextRunTime(schedule)?.toISOString() || null,
+            last_run_status: lastRun?.status || null
+          }
+        })
+      )
+    } catch (error) {
+      console.error('Error listing agent schedules:', error)
+      throw new Error('Failed to list agent schedules')
+    }
+  })
+
+  // Create a schedule
+  ipcMain.handle(
+    'create-agent-schedule',
+    async (
+      _,
+      data: { agentId: number; projectPath: string; task: string; cronExpression: string }
+    ) => {
+      console.log('Main: create-agent-schedule called with', data)
+      try {
+        parseCron(data.cronExpression)
+
+        const schedule = await agentScheduleService.create({
+          agent_id: data.agentId,
+          project_path: data.projectPath.trim(),
+          task: data.task,
+          cron_expression: data.cronExpression.trim()
+        })
+        await scheduler.reload(schedule.id)
+
+        return { success: true, message: 'Schedule created' }
+      } catch (error) {
+        console.error('Error creating agent schedule:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to create schedule'
+        }
+      }
+    }
+  )
+
+  // Update a schedule, including pausing and resuming it
+  ipcMain.handle(
+    'update-agent-schedule',
+    async (
+      _,
+      id: number,
+      data: { projectPath?: string; task?: string; cronExpression?: string; enabled?: boolean }
+    ) => {
+      console.log('Main: update-agent-schedule called with', id, data)
+      try {
+        const update: AgentScheduleUpdateData = {}
+        if (data.projectPath !== undefined) update.project_path = data.projectPath.trim()
+        if (data.task !== undefined) update.task = data.task
+        if (data.enabled !== undefined) update.enabled = data.enabled
+        if (data.cronExpression !== undefined) {
+          parseCron(data.cronExpression)
+          update.cron_expression = data.cronExpression.trim()
+        }
+
+        if (!(await agentScheduleService.update(id, update))) {
+          throw new Error('Schedule not found')
+        }
+        await scheduler.reload(id)
+
+        return { success: true, message: 'Schedule updated' }
+      } catch (error) {
+        console.error('Error updating agent schedule:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to update schedule'
+        }
+      }
+    }
+  )
+
+  // Delete a schedule
+  ipcMain.handle('delete-agent-schedule', async (_, id: number) => {
+    console.log('Main: delete-agent-schedule called with', id)
+    try {
+      await agentScheduleService.delete(id)
+      await scheduler.reload(id)
+    } catch (error) {
+      console.error('Error deleting agent schedule:', error)
+      throw new Error('Failed to delete agent schedule')
+    }
+  })
+}
@@ -0,0 +1,122 @@
+import { ipcMain } from 'electron'
+import { agentService } from '../database/services'
+import type { SubagentScope } from '../database/entities/SubagentLink'
+import { subagentSync } from '../subagent/SubagentSync'
+
+interface SubagentScopeData {
+  scope: SubagentScope
+  /** Project of project scoped files */
+  projectPath?: string | null
+}
+
+/**
+ * Claude Code subagent file sync IPC handlers
+ */
+export function setupSubagentsHandlers() {
+  // List the subagent files of a scope
+  ipcMain.handle('list-subagent-files', async (_, data: SubagentScopeData) => {
+    console.log('Main: list-subagent-files called with', data)
+    try {
+      return await subagentSync.listFiles(data.scope, data.projectPath)
+    } catch (error) {
+      console.error('Error listing subagent files:', error)
+      throw new Error('Failed to list subagent files')
+    }
+  })
+
+  // List synced agents with their sync state
+  ipcMain.handle('list-subagent-links', async () => {
+    console.log('Main: list-subagent-links called')
+    try {
+      const links = await subagentSync.listLinks()
+      const agents = await agentService.findAll()
+
+      return links.map((link) => ({
+        ...link,
+        agent_name: agents.find((agent) => agent.id === link.agent_id)?.name || ''
+      }))
+    } catch (error) {
+      console.error('Error listing subagent links:', error)
+      throw new Error('Failed to list subagent links')
+    }
+  })
+
+  // Create an agent from a subagent file
+  ipcMain.handle(
+    'import-subagent',
+    async (_, data: SubagentScopeData & { filePath: string; liveSync: boolean }) => {
+      console.log('Main: import-subagent called with', data)
+      try {
+        await subagentSync.importFile(
+          data.filePath,
+          data.scope,
+          data.projectPath ?? null,
+          data.liveSync
+        )
+        return { success: true, message: 'Subagent imported' }
+      } catch (error) {
+        console.error('Error importing subagent:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to import subagent'
+        }
+      }
+    }
+  )
+
+  // Write an agent to a subagent file
+  ipcMain.handle(
+    'export-agent-to-subagent',
+    async (_, data: SubagentScopeData & { agentId: number; liveSync: boolean }) => {
+      console.log('Main: export-agent-to-subagent called with', data)
+      try {
+        const filePath = await subagentSync.exportAgent(
+          data.agentId,
+          data.scope,
+          data.projectPath ?? null,
+          data.liveSync
+        )
+        return { success: true, message: filePath }
+      } catch (error) {
+        console.error('Error exporting agent to subagent:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to export agent'
+        }
+      }
+    }
+  )
+
+  // Resolve a conflict, or sync on request, by keeping one side
+  ipcMain.handle('resolve-subagent-sync', async (_, agentId: number, keep: 'file' | 'agent') => {
+    console.log('Main: resolve-subagent-sync called with', agentId, keep)
+    try {
+      await subagentSync.resolve(agentId, keep)
+    } catch (error) {
+      console.error('Error resolving subagent sync:', error)
+      throw new Error('Failed to sync agent with its subagent file')
+    }
+  })
+
+  // Turn live sync of an agent on or off
+  ipcMain.handle('set-subagent-live-sync', async (_, agentId: number, liveSync: boolean) => {
+    console.log('Main: set-subagent-live-sync called with', agentId, liveSync)
+    try {
+      await subagentSync.setLiveSync(agentId, liveSync)
+    } catch (error) {
+      console.error('Error setting subagent live sync:', error)
+      throw new Error('Failed to set live sync')
+    }
+  })
+
+  // Stop syncing an agent
+  ipcMain.handle('unlink-subagent', async (_, agentId: number) => {
+    console.log('Main: unlink-subagent called with', agentId)
+    try {
+      await subagentSync.unlink(agentId)
+    } catch (error) {
+      console.error('Error unlinking subagent:', error)
+      throw new Error('Failed to stop syncing agent')
+    }
+  })
+}
@@ -0,0 +1,152 @@
+import { ipcMain } from 'electron'
+import { promises as fs } from 'fs'
+import { agentRunService, agentService, agentTriggerService } from '../database/services'
+import type { AgentTriggerUpdateData } from '../database/services'
+import { parseTriggerPatterns, triggerWatcher } from '../trigger/TriggerWatcher'
+
+// Runs listed in the fire history of a trigger
+const FIRE_HISTORY_LIMIT = 10
+
+interface TriggerData {
+  agentId: number
+  projectPath: string
+  task: string
+  patterns: string[]
+  debounceMs?: number
+  cooldownSeconds?: number
+}
+
+async function assertDirectory(projectPath: string): Promise<void> {
+  const stats = await fs.stat(projectPath).catch(() => null)
+  if (!stats?.isDirectory()) {
+    throw new Error(`Project directory not found: ${projectPath}`)
+  }
+}
+
+function assertNonNegative(value: number | undefined, name: string): void {
+  if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+    throw new Error(`${name} must be a number of at least 0`)
+  }
+}
+
+/**
+ * File-change trigger IPC handlers
+ */
+export function setupTriggersHandlers() {
+  // List triggers with the runs they started
+  ipcMain.handle('list-agent-triggers', async () => {
+    console.log('Main: list-agent-triggers called')
+    try {
+      const triggers = await agentTriggerService.findAll()
+      const agents = await agentService.findAll()
+
+      return await Promise.all(
+        triggers.map(async (trigger) => {
+          const agent = agents.find((candidate) => candidate.id === trigger.agent_id)
+          const runs = await agentRunService.findByTriggerId(trigger.id, FIRE_HISTORY_LIMIT)
+
+          return {
+            ...trigger,
+            patterns: JSON.parse(trigger.patterns),
+            agent_name: agent?.name || '',
+            agent_icon: agent?.icon || 'bot',
+            watching: triggerWatcher.isWatching(trigger.id),
+            fires: runs.map((run) => ({
+              run_id: run.id,
+              status: run.status,
+              changed_files: run.trigger_files ? JSON.parse(run.trigger_files) : [],
+              created_at: run.created_at
+            }))
+          }
+        })
+      )
+    } catch (error) {
+      console.error('Error listing agent triggers:', error)
+      throw new Error('Failed to list agent triggers')
+    }
+  })
+
+  // Create a trigger
+  ipcMain.handle('create-agent-trigger', async (_, data: TriggerData) => {
+    console.log('Main: create-agent-trigger called with', data)
+    try {
+      const patterns = JSON.stringify(data.patterns.map((pattern) => pattern.trim()))
+      parseTriggerPatterns(patterns)
+      assertNonNegative(data.debounceMs, 'Debounce')
+      assertNonNegative(data.cooldownSeconds, 'Cooldown')
+      await assertDirectory(data.projectPath.trim())
+
+      const trigger = await agentTriggerService.create({
+        agent_id: data.agentId,
+        project_path: data.projectPath.trim(),
+        task: data.task,
+        patterns,
+        debounce_ms: data.debounceMs,
+        cooldown_seconds: data.cooldownSeconds
+      })
+      await triggerWatcher.reload(trigger.id)
+
+      return { success: true, message: 'Trigger created' }
+    } catch (error) {
+      console.error('Error creating agent trigger:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to create trigger'
+      }
+    }
+  })
+
+  // Update a trigger, including pausing and resuming it
+  ipcMain.handle(
+    'update-agent-trigger',
+    async (_, id: number, data: Partial<Omit<TriggerData, 'agentId'>> & { enabled?: boolean }) => {
+      console.log('Main: update-agent-trigger called with', id, data)
+      try {
+        const update: AgentTriggerUpdateData = {}
+        if (data.task !== undefined) update.task = data.task
+        if (data.enabled !== undefined) update.enabled = data.enabled
+        if (data.projectPath !== undefined) {
+          await assertDirectory(data.projectPath.trim())
+          update.project_path = data.projectPath.trim()
+        }
+        if (data.patterns !== undefined) {
+          update.patterns = JSON.stringify(data.patterns.map((pattern) => pattern.trim()))
+          parseTriggerPatterns(update.patterns)
+        }
+        if (data.debounceMs !== undefined) {
+          assertNonNegative(data.debounceMs, 'Debounce')
+          update.debounce_ms = data.debounceMs
+        }
+        if (data.cooldownSeconds !== undefined) {
+          assertNonNegative(data.cooldownSeconds, 'Cooldown')
+          update.cooldown_seconds = data.cooldownSeconds
+        }
+
+        if (!(await agentTriggerService.update(id, update))) {
+          throw new Error('Trigger not found')
+        }
+        await triggerWatcher.reload(id)
+
+        return { success: true, message: 'Trigger updated' }
+      } catch (error) {
+        console.error('Error updating agent trigger:', error)
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : 'Failed to update trigger'
+        }
+      }
+    }
+  )
+
+  // Delete a trigger
+  ipcMain.handle('delete-agent-trigger', async (_, id: number) => {
+    console.log('Main: delete-agent-trigger called with', id)
+    try {
+      await agentTriggerService.delete(id)
+      await triggerWatcher.reload(id)
+    } catch (error) {
+      console.error('Error deleting agent trigger:', error)
+      throw new Error('Failed to delete agent trigger')
+    }
+  })
+}
@@ -503,7 +503,7 @@ function parseUsageEntry(json: any, projectPath: string): UsageEntry | null {
 /**
  * Calculate cost based on model and token usage
  */
-function calculateCost(
+export function calculateCost(
   model: string,
   inputTokens: number,
   outputTokens: number,
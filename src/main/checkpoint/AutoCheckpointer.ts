@@ -0,0 +1,369 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { glob } from 'glob'
+import { processManager, type ProcessInfo } from '../process/ProcessManager'
+import type { StreamEvent } from '../process/StreamJsonParser'
+import { checkpointManager } from './CheckpointManager'
+import { extractToolUses, readTranscriptLines, toProjectRelativePath } from './transcript'
+import type { CheckpointStrategy } from './types'
+
+/**
+ * Tools that modify files, mapped to the input key holding the target path
+ */
+const FILE_EDIT_TOOLS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path'
+}
+
+/**
+ * Tools a checkpoint may have to be taken before, as they can change files
+ */
+export const CHECKPOINTED_TOOLS = [...Object.keys(FILE_EDIT_TOOLS), 'Bash']
+
+/**
+ * Shell commands treated as destructive by the 'smart' strategy
+ */
+const DESTRUCTIVE_COMMAND_PATTERN = /(^|[\s;&|(`])(rm|mv)(\s|$)/
+
+const DESTRUCTIVE_COMMANDS = ['rm', 'mv']
+
+// Files a directory or glob operand of rm or mv is expanded to at most
+const MAX_EXPANDED_FILES = 500
+
+/**
+ * Split a shell command line into the words of each simple command. Quotes and escapes
+ * are honoured; expansions and redirections are not interpreted.
+ */
+function splitShellCommands(command: string): string[][] {
+  const commands: string[][] = []
+  let words: string[] = []
+  let word: string | null = null
+  let quote: '"' | "'" | null = null
+
+  const endWord = () => {
+    if (word !== null) words.push(word)
+    word = null
+  }
+  const endCommand = () => {
+    endWord()
+    if (words.length > 0) commands.push(words)
+    words = []
+  }
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]
+
+    if (quote) {
+      if (char === quote) {
+        quote = null
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        word += command[++i]
+      } else {
+        word += char
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+      word ??= ''
+    } else if (char === '\\' && i + 1 < command.length) {
+      word = (word ?? '') + command[++i]
+    } else if (/[;&|()`\n]/.test(char)) {
+      endCommand()
+    } else if (/\s/.test(char)) {
+      endWord()
+    } else {
+      word = (word ?? '') + char
+    }
+  }
+  endCommand()
+
+  return commands
+}
+
+/**
+ * Paths a shell command line removes or moves with rm or mv. For mv the destination is
+ * included, as it may be overwritten.
+ */
+export function getDestructiveCommandTargets(command: string): string[] {
+  const targets: string[] = []
+
+  for (const words of splitShellCommands(command)) {
+    // Skip variable assignments and sudo in front of the command
+    let start = 0
+    while (start < words.length && (/^\w+=/.test(words[start]) || words[start] === 'sudo')) {
+      start++
+    }
+    const name = words[start]?.split('/').pop()
+    if (!name || !DESTRUCTIVE_COMMANDS.includes(name)) continue
+
+    let endOfOptions = false
+    for (const word of words.slice(start + 1)) {
+      if (!endOfOptions && word === '--') {
+        endOfOptions = true
+      } else if (endOfOptions || !word.startsWith('-')) {
+        targets.push(word)
+      }
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Decision for a single stream entry
+ */
+interface CheckpointTrigger {
+  description: string
+  beforeMessageUuid?: string
+  additionalFiles?: string[]
+}
+
+/**
+ * Decide whether a stream-json entry should trigger an automatic checkpoint
+ */
+export function getCheckpointTrigger(
+  strategy: CheckpointStrategy,
+  entry: any
+): CheckpointTrigger | null {
+  if (strategy === 'manual' || !entry) return null
+
+  if (entry.type === 'result') {
+    return strategy === 'per_prompt' ? { description: 'Auto-checkpoint after prompt' } : null
+  }
+
+  if (entry.type !== 'assistant') return null
+
+  const toolUses = extractToolUses(entry)
+  if (toolUses.length === 0) return null
+
+  const editedFiles = toolUses
+    .flatMap((toolUse) =>
+      toolUse.name === 'Bash' && typeof toolUse.input.command === 'string'
+        ? getDestructiveCommandTargets(toolUse.input.command)
+        : [toolUse.input[FILE_EDIT_TOOLS[toolUse.name]]]
+    )
+    .filter((filePath): filePath is string => typeof filePath === 'string' && !!filePath)
+
+  if (strategy === 'per_tool_use') {
+    return {
+      description: `Auto-checkpoint before ${toolUses.map((t) => t.name).join(', ')}`,
+      beforeMessageUuid: entry.uuid,
+      additionalFiles: editedFiles
+    }
+  }
+
+  if (strategy === 'smart') {
+    const destructive = toolUses.filter(
+      (toolUse) =>
+        toolUse.name in FILE_EDIT_TOOLS ||
+        (toolUse.name === 'Bash' &&
+          typeof toolUse.input.command === 'string' &&
+          DESTRUCTIVE_COMMAND_PATTERN.test(toolUse.input.command))
+    )
+    if (destructive.length === 0) return null
+
+    return {
+      description: `Auto-checkpoint before ${destructive.map((t) => t.name).join(', ')}`,
+      beforeMessageUuid: entry.uuid,
+      additionalFiles: editedFiles
+    }
+  }
+
+  return null
+}
+
+/**
+ * Expand directory and glob targets of rm and mv to the files in them, as only regular
+ * files are snapshotted
+ */
+async function expandTargets(projectPath: string, targets: string[]): Promise<string[]> {
+  const files: string[] = []
+
+  for (const target of targets) {
+    if (files.length >= MAX_EXPANDED_FILES) break
+    const relativePath = toProjectRelativePath(projectPath, target)
+    if (!relativePath) continue
+
+    let pattern: string | null = /[*?[{]/.test(relativePath) ? relativePath : null
+    if (!pattern) {
+      const stats = await fs.stat(join(projectPath, relativePath)).catch(() => null)
+      if (!stats?.isDirectory()) {
+        files.push(relativePath)
+        continue
+      }
+      pattern = `${relativePath}/**`
+    }
+
+    const matches = await glob(pattern, {
+      cwd: projectPath,
+      nodir: true,
+      dot: true,
+      ignore: ['**/.git/**']
+    })
+    files.push(...matches.slice(0, MAX_EXPANDED_FILES - files.length))
+  }
+
+  return files
+}
+
+/**
+ * Project ID Claude Code stores a project's sessions under
+ */
+function getProjectId(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-')
+}
+
+/**
+ * Watches Claude Code stream output and creates checkpoints according to each
+ * session's checkpoint strategy. Tool uses of processes started with the checkpoint
+ * gate are checkpointed through the gate instead, before the tool runs; the stream
+ * reports them too late for that, as Claude Code runs a tool right after announcing it.
+ */
+export class AutoCheckpointer {
+  private started = false
+  private gatedRuns: Set<number> = new Set()
+
+  /**
+   * Start listening to process output
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    processManager.on('processEvent', ({ info, event }) => {
+      this.handleEvent(info, event)
+    })
+
+    const releaseRun = ({ runId }: { runId: number }) => this.gatedRuns.delete(runId)
+    processManager.on('processCompleted', releaseRun)
+    processManager.on('processError', releaseRun)
+    processManager.on('processKilled', releaseRun)
+  }
+
+  /**
+   * Leave the tool uses of a process to the checkpoint gate
+   */
+  gateRun(runId: number): void {
+    this.gatedRuns.add(runId)
+  }
+
+  /**
+   * Checkpoint before a tool use the checkpoint gate is holding back, if the session's
+   * strategy asks for it
+   */
+  async handleToolUse(
+    sessionId: string,
+    projectPath: string,
+    toolName: string,
+    input: Record<string, any>,
+    toolUseId?: string
+  ): Promise<boolean> {
+    const projectId = getProjectId(projectPath)
+    const settings = await checkpointManager.getCheckpointSettings(
+      sessionId,
+      projectId,
+      projectPath
+    )
+    if (!settings.auto_checkpoint_enabled) return false
+
+    const entry = {
+      type: 'assistant',
+      uuid: undefined as string | undefined,
+      message: { content: [{ type: 'tool_use', id: toolUseId, name: toolName, input }] }
+    }
+    // The transcript is only read for tool uses the strategy checkpoints before
+    if (!getCheckpointTrigger(settings.checkpoint_strategy, entry)) return false
+
+    // The assistant message announcing the tool use, for the checkpoint to end before it
+    if (toolUseId) {
+      const lines = await readTranscriptLines(projectId, sessionId)
+      const line = lines.find((candidate) => candidate.includes(`"id":"${toolUseId}"`))
+      try {
+        entry.uuid = line ? JSON.parse(line).uuid : undefined
+      } catch {
+        entry.uuid = undefined
+      }
+    }
+
+    return await this.handleEntry(sessionId, projectId, projectPath, entry)
+  }
+
+  private handleEvent(info: ProcessInfo, event: StreamEvent): void {
+    // Only interactive Claude Code sessions have a checkpoint timeline
+    if (info.agentId !== 0) return
+    if (!('message' in event)) return
+
+    const entry = event.message
+    if (entry.type === 'assistant' && this.gatedRuns.has(info.runId)) return
+
+    const sessionId = entry.session_id || info.sessionId
+    if (!sessionId) return
+
+    this.handleEntry(sessionId, getProjectId(info.projectPath), info.projectPath, entry).catch(
+      (error) => {
+        console.error('[AutoCheckpointer] Failed to create automatic checkpoint:', error)
+      }
+    )
+  }
+
+  /**
+   * Evaluate a stream entry against the session's strategy and checkpoint if needed
+   */
+  async handleEntry(
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    entry: any
+  ): Promise<boolean> {
+    const settings = await checkpointManager.getCheckpointSettings(
+      sessionId,
+      projectId,
+      projectPath
+    )
+    if (!settings.auto_checkpoint_enabled) return false
+
+    const trigger = getCheckpointTrigger(settings.checkpoint_strategy, entry)
+    if (!trigger) return false
+
+    const result = await checkpointManager.createAutoCheckpoint(
+      sessionId,
+      projectId,
+      projectPath,
+      trigger.description,
+      {
+        beforeMessageUuid: trigger.beforeMessageUuid,
+        additionalFiles: await expandTargets(projectPath, trigger.additionalFiles || [])
+      }
+    )
+
+    return result !== null
+  }
+
+  /**
+   * Evaluate a message reported by the renderer. Plain text is the prompt of a turn that
+   * just completed; anything else is treated as a stream-json entry.
+   */
+  async checkMessage(
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    message: string
+  ): Promise<boolean> {
+    let entry: any
+    try {
+      entry = JSON.parse(message)
+    } catch {
+      entry = null
+    }
+
+    if (!entry || typeof entry !== 'object') {
+      entry = { type: 'result' }
+    }
+
+    return await this.handleEntry(sessionId, projectId, projectPath, entry)
+  }
+}
+
+// Global instance
+export const autoCheckpointer = new AutoCheckpointer()
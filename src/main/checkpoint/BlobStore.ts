@@ -0,0 +1,215 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { createHash } from 'crypto'
+import { promisify } from 'util'
+import { gzip, gunzip } from 'zlib'
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+
+const COMPRESSED_SUFFIX = '.gz'
+
+/**
+ * A stored blob on disk
+ */
+export interface BlobInfo {
+  hash: string
+  storedSize: number
+  compressed: boolean
+}
+
+/**
+ * Result of a garbage collection pass
+ */
+export interface GarbageCollectionResult {
+  removedBlobs: number
+  freedBytes: number
+}
+
+/**
+ * Content-addressed store for checkpoint file contents.
+ *
+ * Blobs are keyed by the sha256 of their uncompressed content and live under
+ * `<userData>/checkpoints/objects/<first two hash chars>/<hash>[.gz]`, so identical
+ * files across checkpoints, sessions and projects are stored once. Reference counts
+ * are kept in memory and seeded from the checkpoint snapshots by the owner.
+ */
+export class BlobStore {
+  private refCounts: Map<string, number> = new Map()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Root directory for blobs
+   */
+  getRoot(): string {
+    return join(app.getPath('userData'), 'checkpoints', 'objects')
+  }
+
+  private getBlobPath(hash: string, compressed: boolean): string {
+    return join(this.getRoot(), hash.slice(0, 2), compressed ? hash + COMPRESSED_SUFFIX : hash)
+  }
+
+  /**
+   * Writes and garbage collection are serialized so a blob can't be collected
+   * between being written and being referenced
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.catch(() => undefined).then(operation)
+    this.queue = next
+    return next
+  }
+
+  /**
+   * Hash content the same way blobs are keyed
+   */
+  static hash(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex')
+  }
+
+  /**
+   * Find the stored form of a blob
+   */
+  async stat(hash: string): Promise<BlobInfo | null> {
+    for (const compressed of [false, true]) {
+      try {
+        const stats = await fs.stat(this.getBlobPath(hash, compressed))
+        return { hash, storedSize: stats.size, compressed }
+      } catch {
+        // Try the other form
+      }
+    }
+    return null
+  }
+
+  /**
+   * Store content (if not stored yet) and take a reference on it
+   */
+  async put(content: Buffer, compress: boolean): Promise<string> {
+    const hash = BlobStore.hash(content)
+
+    return this.exclusive(async () => {
+      this.retain(hash)
+
+      if (await this.stat(hash)) {
+        return hash
+      }
+
+      let data = content
+      let compressed = false
+      if (compress) {
+        const gzipped = await gzipAsync(content)
+        if (gzipped.length < content.length) {
+          data = gzipped
+          compressed = true
+        }
+      }
+
+      const blobPath = this.getBlobPath(hash, compressed)
+      const tempPath = `${blobPath}.${process.pid}.tmp`
+      await fs.mkdir(join(this.getRoot(), hash.slice(0, 2)), { recursive: true })
+      await fs.writeFile(tempPath, data)
+      await fs.rename(tempPath, blobPath)
+
+      return hash
+    })
+  }
+
+  /**
+   * Read the content of a blob
+   */
+  async read(hash: string): Promise<Buffer> {
+    const info = await this.stat(hash)
+    if (!info) {
+      throw new Error(`Blob not found: ${hash}`)
+    }
+
+    const data = await fs.readFile(this.getBlobPath(hash, info.compressed))
+    return info.compressed ? await gunzipAsync(data) : data
+  }
+
+  /**
+   * Replace all reference counts (used to seed counts from existing snapshots)
+   */
+  setReferences(hashes: string[]): void {
+    this.refCounts.clear()
+    for (const hash of hashes) {
+      this.retain(hash)
+    }
+  }
+
+  retain(hash: string): void {
+    this.refCounts.set(hash, (this.refCounts.get(hash) || 0) + 1)
+  }
+
+  release(hash: string): void {
+    const count = (this.refCounts.get(hash) || 0) - 1
+    if (count > 0) {
+      this.refCounts.set(hash, count)
+    } else {
+      this.refCounts.delete(hash)
+    }
+  }
+
+  /**
+   * List all blobs on disk
+   */
+  async list(): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = []
+
+    let prefixes: string[]
+    try {
+      prefixes = await fs.readdir(this.getRoot())
+    } catch {
+      return blobs
+    }
+
+    for (const prefix of prefixes) {
+      let files: string[]
+      try {
+        files = await fs.readdir(join(this.getRoot(), prefix))
+      } catch {
+        continue
+      }
+
+      for (const file of files) {
+        if (file.endsWith('.tmp')) continue
+
+        const compressed = file.endsWith(COMPRESSED_SUFFIX)
+        const hash = compressed ? file.slice(0, -COMPRESSED_SUFFIX.length) : file
+        try {
+          const stats = await fs.stat(join(this.getRoot(), prefix, file))
+          blobs.push({ hash, storedSize: stats.size, compressed })
+        } catch {
+          // Removed concurrently
+        }
+      }
+    }
+
+    return blobs
+  }
+
+  /**
+   * Delete every blob that is no longer referenced
+   */
+  async collectGarbage(): Promise<GarbageCollectionResult> {
+    return this.exclusive(async () => {
+      let removedBlobs = 0
+      let freedBytes = 0
+
+      for (const blob of await this.list()) {
+        if ((this.refCounts.get(blob.hash) || 0) > 0) continue
+
+        try {
+          await fs.rm(this.getBlobPath(blob.hash, blob.compressed), { force: true })
+          removedBlobs++
+          freedBytes += blob.storedSize
+        } catch (error) {
+          console.error('[BlobStore] Failed to remove blob:', blob.hash, error)
+        }
+      }
+
+      return { removedBlobs, freedBytes }
+    })
+  }
+}
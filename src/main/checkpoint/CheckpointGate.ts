@@ -0,0 +1,166 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { randomUUID } from 'crypto'
+import { processManager } from '../process/ProcessManager'
+import { autoCheckpointer, CHECKPOINTED_TOOLS } from './AutoCheckpointer'
+
+// Seconds Claude Code waits for the hook, a little longer than curl is allowed
+const HOOK_TIMEOUT_SECONDS = 120
+const REQUEST_TIMEOUT_SECONDS = 110
+
+interface GateRegistration {
+  projectPath: string
+  runId: number | null
+}
+
+/**
+ * Holds tool uses of interactive Claude Code sessions back until their automatic
+ * checkpoint is written. Each session is started with a PreToolUse hook that posts the
+ * tool use to a local HTTP endpoint; the response, and with it the tool, waits for the
+ * snapshot. When the hook can't reach the app the tool runs anyway.
+ */
+export class CheckpointGate {
+  private server: Server | null = null
+  private listening: Promise<number> | null = null
+  private runs: Map<string, GateRegistration> = new Map()
+  private started = false
+
+  /**
+   * Forget runs when their process ends
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    const releaseRun = ({ runId }: { runId: number }) => {
+      for (const [token, registration] of this.runs.entries()) {
+        if (registration.runId === runId) this.runs.delete(token)
+      }
+    }
+    processManager.on('processCompleted', releaseRun)
+    processManager.on('processError', releaseRun)
+    processManager.on('processKilled', releaseRun)
+  }
+
+  /**
+   * Stop the HTTP server
+   */
+  async stop(): Promise<void> {
+    this.runs.clear()
+
+    const server = this.server
+    this.server = null
+    this.listening = null
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+
+  /**
+   * Build the arguments that install the gate's hook in a session about to be spawned.
+   * Claude Code merges the hook with the user and project hooks, which keep running as
+   * they are. Only tools that may change files are held back.
+   */
+  async prepareRun(projectPath: string): Promise<{ args: string[]; token: string }> {
+    const port = await this.listen()
+    const token = randomUUID()
+    this.runs.set(token, { projectPath, runId: null })
+
+    const url = `http://127.0.0.1:${port}/pre-tool-use/${token}`
+    const gateHook = {
+      matcher: CHECKPOINTED_TOOLS.join('|'),
+      hooks: [
+        {
+          type: 'command',
+          command: `curl -sf -m ${REQUEST_TIMEOUT_SECONDS} -H 'Content-Type: application/json' --data-binary @- ${url}`,
+          timeout: HOOK_TIMEOUT_SECONDS
+        }
+      ]
+    }
+    const hooks = { PreToolUse: [gateHook] }
+
+    return { token, args: ['--settings', JSON.stringify({ hooks })] }
+  }
+
+  /**
+   * Bind a prepared token to the run id of the spawned process
+   */
+  attachRun(token: string, runId: number): void {
+    const registration = this.runs.get(token)
+    if (!registration) return
+
+    registration.runId = runId
+    autoCheckpointer.gateRun(runId)
+  }
+
+  private listen(): Promise<number> {
+    if (this.listening) return this.listening
+
+    this.listening = new Promise<number>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handleHttpRequest(req, res).catch((error) => {
+          console.error('[CheckpointGate] Failed to handle request:', error)
+          if (!res.headersSent) {
+            res.writeHead(500)
+          }
+          res.end()
+        })
+      })
+
+      server.once('error', (error) => {
+        this.listening = null
+        reject(error)
+      })
+
+      // Only reachable from this machine
+      server.listen(0, '127.0.0.1', () => {
+        const address = server.address()
+        if (!address || typeof address === 'string') {
+          reject(new Error('Checkpoint gate has no port'))
+          return
+        }
+        console.log('[CheckpointGate] Listening on port', address.port)
+        this.server = server
+        resolve(address.port)
+      })
+    })
+
+    return this.listening
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const match = req.url?.match(/^\/pre-tool-use\/([^/?]+)/)
+    const registration = match ? this.runs.get(match[1]) : undefined
+    if (!registration || req.method !== 'POST') {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+
+    // A checkpoint that can't be written doesn't stop the tool
+    try {
+      const input = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+      if (typeof input.session_id === 'string' && typeof input.tool_name === 'string') {
+        await autoCheckpointer.handleToolUse(
+          input.session_id,
+          registration.projectPath,
+          input.tool_name,
+          input.tool_input && typeof input.tool_input === 'object' ? input.tool_input : {},
+          typeof input.tool_use_id === 'string' ? input.tool_use_id : undefined
+        )
+      }
+    } catch (error) {
+      console.error('[CheckpointGate] Failed to checkpoint before tool use:', error)
+    }
+
+    res.writeHead(204)
+    res.end()
+  }
+}
+
+// Global instance
+export const checkpointGate = new CheckpointGate()
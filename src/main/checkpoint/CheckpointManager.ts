@@ -0,0 +1,1014 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import { join, dirname } from 'path'
+import { randomUUID } from 'crypto'
+import { diffLines, createPatch } from 'diff'
+import { processManager } from '../process/ProcessManager'
+import { appSettingsService } from '../database/services'
+import { BlobStore, type GarbageCollectionResult } from './BlobStore'
+import {
+  extractTouchedFiles,
+  getSessionJsonlPath,
+  readTranscriptLines,
+  summarizeTranscript,
+  toProjectRelativePath
+} from './transcript'
+import type {
+  Checkpoint,
+  CheckpointDiff,
+  CheckpointResult,
+  CheckpointSettings,
+  CheckpointStorageUsage,
+  CheckpointStrategy,
+  FileDiff,
+  SessionTimeline,
+  StoredFileSnapshot,
+  StoredTimeline,
+  TimelineNode
+} from './types'
+
+const TIMELINE_FILE = 'timeline.json'
+const SNAPSHOTS_FILE = 'snapshots.json'
+const MESSAGES_FILE = 'messages.jsonl'
+const LEGACY_FILES_DIR = 'files'
+const OBJECTS_DIR = 'objects'
+
+/**
+ * Manages session checkpoints: file snapshots and transcript state at a message index.
+ *
+ * Layout under `<userData>/checkpoints/`:
+ * - objects/                                        content-addressed file blobs (see BlobStore)
+ * - <projectId>/<sessionId>/timeline.json           timeline state and checkpoint list
+ * - <projectId>/<sessionId>/<id>/snapshots.json     file snapshot records
+ * - <projectId>/<sessionId>/<id>/messages.jsonl     transcript up to the checkpoint
+ */
+export class CheckpointManager {
+  private timelines: Map<string, StoredTimeline> = new Map()
+  private locks: Map<string, Promise<unknown>> = new Map()
+  private blobStore = new BlobStore()
+  private referencesLoaded: Promise<void> | null = null
+
+  /**
+   * Root directory for all checkpoint data
+   */
+  getStorageRoot(): string {
+    return join(app.getPath('userData'), 'checkpoints')
+  }
+
+  private getSessionDir(projectId: string, sessionId: string): string {
+    return join(this.getStorageRoot(), projectId, sessionId)
+  }
+
+  private getCheckpointDir(projectId: string, sessionId: string, checkpointId: string): string {
+    return join(this.getSessionDir(projectId, sessionId), checkpointId)
+  }
+
+  /**
+   * Serialize operations per session so concurrent checkpoints don't corrupt the timeline
+   */
+  private async withLock<T>(sessionId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(sessionId) || Promise.resolve()
+    const next = previous.catch(() => undefined).then(operation)
+    this.locks.set(sessionId, next)
+
+    try {
+      return await next
+    } finally {
+      if (this.locks.get(sessionId) === next) {
+        this.locks.delete(sessionId)
+      }
+    }
+  }
+
+  /**
+   * Load the timeline of a session (from cache or disk)
+   */
+  private async loadTimeline(
+    sessionId: string,
+    projectId: string,
+    projectPath: string
+  ): Promise<StoredTimeline> {
+    const cached = this.timelines.get(sessionId)
+    if (cached && cached.projectId === projectId) {
+      return cached
+    }
+
+    let timeline: StoredTimeline
+    try {
+      const content = await fs.readFile(
+        join(this.getSessionDir(projectId, sessionId), TIMELINE_FILE),
+        'utf-8'
+      )
+      timeline = JSON.parse(content)
+    } catch {
+      timeline = {
+        version: 1,
+        sessionId,
+        projectId,
+        projectPath,
+        autoCheckpointEnabled: true,
+        checkpointStrategy: 'smart',
+        checkpoints: []
+      }
+    }
+
+    if (projectPath) {
+      timeline.projectPath = projectPath
+    }
+
+    this.timelines.set(sessionId, timeline)
+    return timeline
+  }
+
+  private async saveTimeline(timeline: StoredTimeline): Promise<void> {
+    const sessionDir = this.getSessionDir(timeline.projectId, timeline.sessionId)
+    await fs.mkdir(sessionDir, { recursive: true })
+    await fs.writeFile(join(sessionDir, TIMELINE_FILE), JSON.stringify(timeline, null, 2))
+  }
+
+  private async loadSnapshots(
+    projectId: string,
+    sessionId: string,
+    checkpointId: string
+  ): Promise<StoredFileSnapshot[]> {
+    try {
+      const content = await fs.readFile(
+        join(this.getCheckpointDir(projectId, sessionId, checkpointId), SNAPSHOTS_FILE),
+        'utf-8'
+      )
+      return JSON.parse(content)
+    } catch {
+      return []
+    }
+  }
+
+  private async readSnapshotContent(
+    projectId: string,
+    sessionId: string,
+    snapshot: StoredFileSnapshot
+  ): Promise<Buffer> {
+    try {
+      return await this.blobStore.read(snapshot.hash)
+    } catch (error) {
+      // Checkpoints created before blob storage keep their files next to the snapshot
+      try {
+        return await fs.readFile(
+          join(
+            this.getCheckpointDir(projectId, sessionId, snapshot.checkpointId),
+            LEGACY_FILES_DIR,
+            snapshot.hash
+          )
+        )
+      } catch {
+        throw error
+      }
+    }
+  }
+
+  /**
+   * List `[projectId, sessionId, checkpointId]` directories that hold snapshots
+   */
+  private async listCheckpointDirs(): Promise<Array<[string, string, string]>> {
+    const result: Array<[string, string, string]> = []
+    const readDirs = async (dir: string): Promise<string[]> => {
+      try {
+        const entries = await fs.readdir(dir, { withFileTypes: true })
+        return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name)
+      } catch {
+        return []
+      }
+    }
+
+    for (const projectId of await readDirs(this.getStorageRoot())) {
+      if (projectId === OBJECTS_DIR) continue
+      for (const sessionId of await readDirs(join(this.getStorageRoot(), projectId))) {
+        for (const checkpointId of await readDirs(this.getSessionDir(projectId, sessionId))) {
+          result.push([projectId, sessionId, checkpointId])
+        }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Seed blob reference counts from every stored snapshot (once per app run)
+   */
+  private ensureBlobReferences(): Promise<void> {
+    if (!this.referencesLoaded) {
+      this.referencesLoaded = (async () => {
+        const hashes: string[] = []
+        for (const [projectId, sessionId, checkpointId] of await this.listCheckpointDirs()) {
+          for (const snapshot of await this.loadSnapshots(projectId, sessionId, checkpointId)) {
+            if (!snapshot.isDeleted && snapshot.hash) {
+              hashes.push(snapshot.hash)
+            }
+          }
+        }
+        this.blobStore.setReferences(hashes)
+      })()
+    }
+    return this.referencesLoaded
+  }
+
+  /**
+   * Whether new blobs should be gzip-compressed (app setting, enabled by default)
+   */
+  private async isCompressionEnabled(): Promise<boolean> {
+    try {
+      return (await appSettingsService.getSetting('checkpoint_compression')) !== 'false'
+    } catch {
+      return true
+    }
+  }
+
+  /**
+   * Delete checkpoint directories and drop their blob references
+   */
+  private async removeCheckpointData(
+    projectId: string,
+    sessionId: string,
+    checkpointIds: string[]
+  ): Promise<void> {
+    await this.ensureBlobReferences()
+
+    for (const checkpointId of checkpointIds) {
+      for (const snapshot of await this.loadSnapshots(projectId, sessionId, checkpointId)) {
+        if (!snapshot.isDeleted && snapshot.hash) {
+          this.blobStore.release(snapshot.hash)
+        }
+      }
+      await fs.rm(this.getCheckpointDir(projectId, sessionId, checkpointId), {
+        recursive: true,
+        force: true
+      })
+    }
+  }
+
+  private findCheckpoint(timeline: StoredTimeline, checkpointId: string): Checkpoint {
+    const checkpoint = timeline.checkpoints.find((c) => c.id === checkpointId)
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`)
+    }
+    return checkpoint
+  }
+
+  /**
+   * Check whether a Claude process is currently running for the session
+   */
+  private isSessionRunning(sessionId: string): boolean {
+    return processManager.getRunningProcesses().some((info) => info.sessionId === sessionId)
+  }
+
+  /**
+   * Create a checkpoint of the session at the given message index
+   */
+  async createCheckpoint(
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    messageIndex?: number,
+    description?: string
+  ): Promise<CheckpointResult> {
+    return this.withLock(sessionId, async () => {
+      const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+      const lines = await readTranscriptLines(projectId, sessionId)
+
+      const lastIndex = lines.length - 1
+      const index =
+        messageIndex === undefined || messageIndex === null || messageIndex < 0
+          ? lastIndex
+          : Math.min(messageIndex, lastIndex)
+
+      return await this.writeCheckpoint(timeline, lines, index, description)
+    })
+  }
+
+  /**
+   * Create an automatic checkpoint unless the current checkpoint already covers the transcript.
+   *
+   * When `beforeMessageUuid` is found in the transcript the checkpoint is placed right before
+   * that message, so restoring it never leaves a dangling tool call. `additionalFiles` are
+   * snapshotted even if the transcript doesn't reference them yet (e.g. the target of the
+   * tool that is about to run).
+   */
+  async createAutoCheckpoint(
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    description: string,
+    options: { beforeMessageUuid?: string; additionalFiles?: string[] } = {}
+  ): Promise<CheckpointResult | null> {
+    return this.withLock(sessionId, async () => {
+      const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+      if (!timeline.autoCheckpointEnabled || timeline.checkpointStrategy === 'manual') {
+        return null
+      }
+
+      const lines = await readTranscriptLines(projectId, sessionId)
+      let index = lines.length - 1
+
+      if (options.beforeMessageUuid) {
+        const messageIndex = lines.findIndex((line) =>
+          line.includes(`"uuid":"${options.beforeMessageUuid}"`)
+        )
+        if (messageIndex >= 0) {
+          index = messageIndex - 1
+        }
+      }
+
+      const current = timeline.checkpoints.find((c) => c.id === timeline.currentCheckpointId)
+      const hasAdditionalFiles = !!options.additionalFiles && options.additionalFiles.length > 0
+      if (current && current.messageIndex === Math.max(index, 0) && !hasAdditionalFiles) {
+        return null
+      }
+
+      return await this.writeCheckpoint(
+        timeline,
+        lines,
+        index,
+        description,
+        options.additionalFiles
+      )
+    })
+  }
+
+  /**
+   * Snapshot tracked files and the transcript prefix ending at `index` as a new checkpoint
+   * (callers must hold the session lock)
+   */
+  private async writeCheckpoint(
+    timeline: StoredTimeline,
+    lines: string[],
+    index: number,
+    description?: string,
+    additionalFiles: string[] = []
+  ): Promise<CheckpointResult> {
+    const { sessionId, projectId } = timeline
+    const keptLines = index >= 0 ? lines.slice(0, index + 1) : []
+    const warnings: string[] = []
+
+    if (lines.length === 0) {
+      warnings.push('Session transcript not found or empty')
+    }
+
+    const parent = timeline.currentCheckpointId
+      ? timeline.checkpoints.find((c) => c.id === timeline.currentCheckpointId)
+      : undefined
+    const parentSnapshots = parent ? await this.loadSnapshots(projectId, sessionId, parent.id) : []
+
+    // Track every file the session modified so far, plus files tracked by the parent
+    const trackedFiles = extractTouchedFiles(keptLines, timeline.projectPath)
+    for (const snapshot of parentSnapshots) {
+      trackedFiles.add(snapshot.filePath)
+    }
+    for (const filePath of additionalFiles) {
+      const relativePath = toProjectRelativePath(timeline.projectPath, filePath)
+      if (relativePath) {
+        trackedFiles.add(relativePath)
+      }
+    }
+
+    await this.ensureBlobReferences()
+    const compress = await this.isCompressionEnabled()
+
+    const checkpointId = randomUUID()
+    const checkpointDir = this.getCheckpointDir(projectId, sessionId, checkpointId)
+    await fs.mkdir(checkpointDir, { recursive: true })
+
+    const parentHashes = new Map(parentSnapshots.map((s) => [s.filePath, s]))
+    const snapshots: StoredFileSnapshot[] = []
+    let snapshotSize = 0
+    let fileChanges = 0
+
+    for (const filePath of Array.from(trackedFiles).sort()) {
+      const absolutePath = join(timeline.projectPath, filePath)
+      let snapshot: StoredFileSnapshot
+
+      try {
+        const stats = await fs.stat(absolutePath)
+        if (!stats.isFile()) {
+          warnings.push(`Skipped non-regular file: ${filePath}`)
+          continue
+        }
+
+        const content = await fs.readFile(absolutePath)
+        const hash = await this.blobStore.put(content, compress)
+
+        snapshot = {
+          checkpointId,
+          filePath,
+          hash,
+          isDeleted: false,
+          permissions: stats.mode & 0o777,
+          size: content.length
+        }
+        snapshotSize += content.length
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          warnings.push(`Failed to snapshot ${filePath}: ${error?.message || error}`)
+          continue
+        }
+        snapshot = { checkpointId, filePath, hash: '', isDeleted: true, size: 0 }
+      }
+
+      const previous = parentHashes.get(filePath)
+      if (
+        !previous ||
+        previous.hash !== snapshot.hash ||
+        previous.isDeleted !== snapshot.isDeleted
+      ) {
+        fileChanges++
+      }
+
+      snapshots.push(snapshot)
+    }
+
+    await fs.writeFile(join(checkpointDir, SNAPSHOTS_FILE), JSON.stringify(snapshots, null, 2))
+    await fs.writeFile(
+      join(checkpointDir, MESSAGES_FILE),
+      keptLines.length > 0 ? keptLines.join('\n') + '\n' : ''
+    )
+
+    const summary = summarizeTranscript(keptLines)
+    const checkpoint: Checkpoint = {
+      id: checkpointId,
+      sessionId,
+      projectId,
+      messageIndex: Math.max(index, 0),
+      timestamp: new Date().toISOString(),
+      description,
+      parentCheckpointId: parent?.id,
+      metadata: {
+        totalTokens: summary.totalTokens,
+        modelUsed: summary.modelUsed,
+        userPrompt: summary.userPrompt,
+        fileChanges,
+        snapshotSize
+      }
+    }
+
+    timeline.checkpoints.push(checkpoint)
+    timeline.currentCheckpointId = checkpointId
+    await this.saveTimeline(timeline)
+
+    console.log(
+      `[CheckpointManager] Created checkpoint ${checkpointId} for session ${sessionId} (${snapshots.length} files)`
+    )
+
+    return { checkpoint, filesProcessed: snapshots.length, warnings }
+  }
+
+  /**
+   * Restore project files and the session transcript to a checkpoint
+   */
+  async restoreCheckpoint(
+    checkpointId: string,
+    sessionId: string,
+    projectId: string,
+    projectPath: string
+  ): Promise<CheckpointResult> {
+    return this.withLock(sessionId, async () => {
+      if (this.isSessionRunning(sessionId)) {
+        throw new Error('Cannot restore a checkpoint while the session is running')
+      }
+
+      const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+      const checkpoint = this.findCheckpoint(timeline, checkpointId)
+      const snapshots = await this.loadSnapshots(projectId, sessionId, checkpointId)
+      const warnings: string[] = []
+      const filesProcessed = await this.restoreFiles(timeline, snapshots, warnings)
+
+      // Files modified after the checkpoint that it knows nothing about are left untouched
+      const currentLines = await readTranscriptLines(projectId, sessionId)
+      const snapshotPaths = new Set(snapshots.map((s) => s.filePath))
+      for (const filePath of extractTouchedFiles(currentLines, timeline.projectPath)) {
+        if (!snapshotPaths.has(filePath)) {
+          warnings.push(`File not tracked at this checkpoint, left unchanged: ${filePath}`)
+        }
+      }
+
+      // Restore the transcript
+      const messages = await fs.readFile(
+        join(this.getCheckpointDir(projectId, sessionId, checkpointId), MESSAGES_FILE),
+        'utf-8'
+      )
+      const transcriptPath = getSessionJsonlPath(projectId, sessionId)
+      await fs.mkdir(dirname(transcriptPath), { recursive: true })
+      await fs.writeFile(transcriptPath, messages)
+
+      timeline.currentCheckpointId = checkpointId
+      await this.saveTimeline(timeline)
+
+      console.log(
+        `[CheckpointManager] Restored checkpoint ${checkpointId} for session ${sessionId} (${filesProcessed} files)`
+      )
+
+      return { checkpoint, filesProcessed, warnings }
+    })
+  }
+
+  /**
+   * Write the snapshot files of a checkpoint back into the project
+   */
+  private async restoreFiles(
+    timeline: StoredTimeline,
+    snapshots: StoredFileSnapshot[],
+    warnings: string[]
+  ): Promise<number> {
+    let filesProcessed = 0
+
+    for (const snapshot of snapshots) {
+      const absolutePath = join(timeline.projectPath, snapshot.filePath)
+
+      try {
+        if (snapshot.isDeleted) {
+          await fs.rm(absolutePath, { force: true })
+        } else {
+          const content = await this.readSnapshotContent(
+            timeline.projectId,
+            timeline.sessionId,
+            snapshot
+          )
+          await fs.mkdir(dirname(absolutePath), { recursive: true })
+          await fs.writeFile(absolutePath, content)
+          if (snapshot.permissions !== undefined) {
+            await fs.chmod(absolutePath, snapshot.permissions)
+          }
+        }
+        filesProcessed++
+      } catch (error: any) {
+        warnings.push(`Failed to restore ${snapshot.filePath}: ${error?.message || error}`)
+      }
+    }
+
+    return filesProcessed
+  }
+
+  /**
+   * Fork a checkpoint into a new Claude session.
+   *
+   * The transcript up to the checkpoint is copied to a new session JSONL (with its
+   * sessionId fields rewritten), project files are restored to the checkpoint, and the
+   * new session starts its own timeline from a copy of the checkpoint.
+   */
+  async forkFromCheckpoint(
+    checkpointId: string,
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    description?: string
+  ): Promise<CheckpointResult> {
+    return this.withLock(sessionId, async () => {
+      if (this.isSessionRunning(sessionId)) {
+        throw new Error('Cannot fork while the session is running')
+      }
+
+      const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+      const source = this.findCheckpoint(timeline, checkpointId)
+      const snapshots = await this.loadSnapshots(projectId, sessionId, checkpointId)
+      const warnings: string[] = []
+
+      const newSessionId = randomUUID()
+      const messages = await fs.readFile(
+        join(this.getCheckpointDir(projectId, sessionId, checkpointId), MESSAGES_FILE),
+        'utf-8'
+      )
+      const forkedLines = messages
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+          try {
+            const entry = JSON.parse(line)
+            if (entry && typeof entry === 'object' && 'sessionId' in entry) {
+              entry.sessionId = newSessionId
+            }
+            return JSON.stringify(entry)
+          } catch {
+            return line
+          }
+        })
+      const forkedMessages = forkedLines.length > 0 ? forkedLines.join('\n') + '\n' : ''
+
+      const transcriptPath = getSessionJsonlPath(projectId, newSessionId)
+      await fs.mkdir(dirname(transcriptPath), { recursive: true })
+      await fs.writeFile(transcriptPath, forkedMessages)
+
+      const filesProcessed = await this.restoreFiles(timeline, snapshots, warnings)
+
+      // Start the fork's timeline with a copy of the source checkpoint
+      await this.ensureBlobReferences()
+      const rootCheckpoint: Checkpoint = {
+        ...source,
+        id: randomUUID(),
+        sessionId: newSessionId,
+        timestamp: new Date().toISOString(),
+        description: description || source.description,
+        parentCheckpointId: undefined,
+        metadata: { ...source.metadata }
+      }
+      const rootSnapshots = snapshots.map((snapshot) => {
+        if (!snapshot.isDeleted && snapshot.hash) {
+          this.blobStore.retain(snapshot.hash)
+        }
+        return { ...snapshot, checkpointId: rootCheckpoint.id }
+      })
+
+      const rootDir = this.getCheckpointDir(projectId, newSessionId, rootCheckpoint.id)
+      await fs.mkdir(rootDir, { recursive: true })
+      await fs.writeFile(join(rootDir, SNAPSHOTS_FILE), JSON.stringify(rootSnapshots, null, 2))
+      await fs.writeFile(join(rootDir, MESSAGES_FILE), forkedMessages)
+
+      const forkTimeline: StoredTimeline = {
+        version: 1,
+        sessionId: newSessionId,
+        projectId,
+        projectPath: timeline.projectPath,
+        currentCheckpointId: rootCheckpoint.id,
+        autoCheckpointEnabled: timeline.autoCheckpointEnabled,
+        checkpointStrategy: timeline.checkpointStrategy,
+        checkpoints: [rootCheckpoint],
+        forkedFrom: { sessionId, checkpointId }
+      }
+      await this.saveTimeline(forkTimeline)
+      this.timelines.set(newSessionId, forkTimeline)
+
+      timeline.forks = [
+        ...(timeline.forks || []),
+        {
+          sessionId: newSessionId,
+          checkpointId,
+          timestamp: rootCheckpoint.timestamp,
+          description
+        }
+      ]
+      await this.saveTimeline(timeline)
+
+      console.log(
+        `[CheckpointManager] Forked checkpoint ${checkpointId} of session ${sessionId} into session ${newSessionId}`
+      )
+
+      return { checkpoint: rootCheckpoint, filesProcessed, warnings }
+    })
+  }
+
+  /**
+   * List all checkpoints of a session (oldest first)
+   */
+  async listCheckpoints(
+    sessionId: string,
+    projectId: string,
+    projectPath: string
+  ): Promise<Checkpoint[]> {
+    const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+    return [...timeline.checkpoints].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  }
+
+  /**
+   * Build the checkpoint tree of a session
+   */
+  async getSessionTimeline(
+    sessionId: string,
+    projectId: string,
+    projectPath: string
+  ): Promise<SessionTimeline> {
+    const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+
+    return {
+      sessionId,
+      rootNode: await this.buildTimelineTree(timeline, new Set()),
+      currentCheckpointId: timeline.currentCheckpointId,
+      autoCheckpointEnabled: timeline.autoCheckpointEnabled,
+      checkpointStrategy: timeline.checkpointStrategy,
+      totalCheckpoints: timeline.checkpoints.length,
+      forkedFrom: timeline.forkedFrom
+    }
+  }
+
+  /**
+   * Build the checkpoint tree of a timeline. Sessions forked from a checkpoint are
+   * attached below it as branches (their nodes carry the fork's sessionId).
+   */
+  private async buildTimelineTree(
+    timeline: StoredTimeline,
+    visited: Set<string>
+  ): Promise<TimelineNode | undefined> {
+    visited.add(timeline.sessionId)
+    const checkpoints = [...timeline.checkpoints].sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp)
+    )
+
+    const nodes = new Map<string, TimelineNode>()
+    for (const checkpoint of checkpoints) {
+      const snapshots = await this.loadSnapshots(
+        timeline.projectId,
+        timeline.sessionId,
+        checkpoint.id
+      )
+      nodes.set(checkpoint.id, {
+        checkpoint,
+        children: [],
+        fileSnapshotIds: snapshots.map((s) => `${checkpoint.id}:${s.filePath}`)
+      })
+    }
+
+    const roots: TimelineNode[] = []
+    for (const node of nodes.values()) {
+      const parentId = node.checkpoint.parentCheckpointId
+      const parent = parentId ? nodes.get(parentId) : undefined
+      if (parent) {
+        parent.children.push(node)
+      } else {
+        roots.push(node)
+      }
+    }
+
+    // The navigator renders a single tree: hang any orphaned roots off the oldest one
+    const [rootNode, ...orphans] = roots
+    if (rootNode) {
+      rootNode.children.push(...orphans)
+    }
+
+    for (const fork of timeline.forks || []) {
+      const forkPoint = nodes.get(fork.checkpointId)
+      if (!forkPoint || visited.has(fork.sessionId)) continue
+
+      const forkTimeline = await this.loadTimeline(
+        fork.sessionId,
+        timeline.projectId,
+        timeline.projectPath
+      )
+      const forkRoot = await this.buildTimelineTree(forkTimeline, visited)
+      if (forkRoot) {
+        forkPoint.children.push(forkRoot)
+      }
+    }
+
+    return rootNode
+  }
+
+  /**
+   * Compute the file diff between two checkpoints
+   */
+  async getCheckpointDiff(
+    fromCheckpointId: string,
+    toCheckpointId: string,
+    sessionId: string,
+    projectId: string
+  ): Promise<CheckpointDiff> {
+    const timeline = await this.loadTimeline(sessionId, projectId, '')
+    const fromCheckpoint = this.findCheckpoint(timeline, fromCheckpointId)
+    const toCheckpoint = this.findCheckpoint(timeline, toCheckpointId)
+
+    const fromSnapshots = new Map(
+      (await this.loadSnapshots(projectId, sessionId, fromCheckpointId))
+        .filter((s) => !s.isDeleted)
+        .map((s) => [s.filePath, s])
+    )
+    const toSnapshots = new Map(
+      (await this.loadSnapshots(projectId, sessionId, toCheckpointId))
+        .filter((s) => !s.isDeleted)
+        .map((s) => [s.filePath, s])
+    )
+
+    const modifiedFiles: FileDiff[] = []
+    const addedFiles: string[] = []
+    const deletedFiles: string[] = []
+
+    for (const [filePath, toSnapshot] of toSnapshots) {
+      const fromSnapshot = fromSnapshots.get(filePath)
+      if (!fromSnapshot) {
+        addedFiles.push(filePath)
+        continue
+      }
+      if (fromSnapshot.hash === toSnapshot.hash) continue
+
+      const oldContent = (
+        await this.readSnapshotContent(projectId, sessionId, fromSnapshot)
+      ).toString('utf-8')
+      const newContent = (
+        await this.readSnapshotContent(projectId, sessionId, toSnapshot)
+      ).toString('utf-8')
+
+      let additions = 0
+      let deletions = 0
+      for (const change of diffLines(oldContent, newContent)) {
+        if (change.added) additions += change.count || 0
+        if (change.removed) deletions += change.count || 0
+      }
+
+      modifiedFiles.push({
+        path: filePath,
+        additions,
+        deletions,
+        diffContent: createPatch(filePath, oldContent, newContent)
+      })
+    }
+
+    for (const filePath of fromSnapshots.keys()) {
+      if (!toSnapshots.has(filePath)) {
+        deletedFiles.push(filePath)
+      }
+    }
+
+    return {
+      fromCheckpointId,
+      toCheckpointId,
+      modifiedFiles,
+      addedFiles: addedFiles.sort(),
+      deletedFiles: deletedFiles.sort(),
+      tokenDelta: toCheckpoint.metadata.totalTokens - fromCheckpoint.metadata.totalTokens
+    }
+  }
+
+  /**
+   * Remove all but the most recent `keepCount` checkpoints (the current one is always kept)
+   */
+  async cleanupOldCheckpoints(
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    keepCount: number
+  ): Promise<number> {
+    return this.withLock(sessionId, async () => {
+      const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+      const newestFirst = [...timeline.checkpoints].sort((a, b) =>
+        b.timestamp.localeCompare(a.timestamp)
+      )
+
+      const keep = new Set(newestFirst.slice(0, Math.max(keepCount, 0)).map((c) => c.id))
+      if (timeline.currentCheckpointId) {
+        keep.add(timeline.currentCheckpointId)
+      }
+
+      const removed = timeline.checkpoints.filter((c) => !keep.has(c.id))
+      if (removed.length === 0) {
+        return 0
+      }
+
+      const byId = new Map(timeline.checkpoints.map((c) => [c.id, c]))
+      const removedIds = new Set(removed.map((c) => c.id))
+
+      // Re-parent surviving checkpoints onto their closest surviving ancestor
+      for (const checkpoint of timeline.checkpoints) {
+        let parentId = checkpoint.parentCheckpointId
+        while (parentId && removedIds.has(parentId)) {
+          parentId = byId.get(parentId)?.parentCheckpointId
+        }
+        checkpoint.parentCheckpointId = parentId
+      }
+
+      timeline.checkpoints = timeline.checkpoints.filter((c) => !removedIds.has(c.id))
+      await this.saveTimeline(timeline)
+
+      await this.removeCheckpointData(projectId, sessionId, Array.from(removedIds))
+      await this.blobStore.collectGarbage()
+
+      console.log(
+        `[CheckpointManager] Removed ${removed.length} old checkpoints for session ${sessionId}`
+      )
+
+      return removed.length
+    })
+  }
+
+  /**
+   * Get checkpoint settings for a session
+   */
+  async getCheckpointSettings(
+    sessionId: string,
+    projectId: string,
+    projectPath: string
+  ): Promise<CheckpointSettings> {
+    const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+    return {
+      auto_checkpoint_enabled: timeline.autoCheckpointEnabled,
+      checkpoint_strategy: timeline.checkpointStrategy,
+      total_checkpoints: timeline.checkpoints.length,
+      current_checkpoint_id: timeline.currentCheckpointId
+    }
+  }
+
+  /**
+   * Update checkpoint settings for a session
+   */
+  async updateCheckpointSettings(
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    autoCheckpointEnabled: boolean,
+    checkpointStrategy: CheckpointStrategy
+  ): Promise<void> {
+    return this.withLock(sessionId, async () => {
+      const timeline = await this.loadTimeline(sessionId, projectId, projectPath)
+      timeline.autoCheckpointEnabled = autoCheckpointEnabled
+      timeline.checkpointStrategy = checkpointStrategy
+      await this.saveTimeline(timeline)
+    })
+  }
+
+  /**
+   * Drop cached state of a session (called when the session view closes) and
+   * collect blobs that are no longer referenced
+   */
+  async clearSession(sessionId: string): Promise<GarbageCollectionResult> {
+    this.timelines.delete(sessionId)
+    return await this.collectGarbage()
+  }
+
+  /**
+   * Delete all unreferenced blobs
+   */
+  async collectGarbage(): Promise<GarbageCollectionResult> {
+    await this.ensureBlobReferences()
+    const result = await this.blobStore.collectGarbage()
+
+    if (result.removedBlobs > 0) {
+      console.log(
+        `[CheckpointManager] Garbage collected ${result.removedBlobs} blobs (${result.freedBytes} bytes)`
+      )
+    }
+
+    return result
+  }
+
+  /**
+   * Compute checkpoint disk usage, per project and in total
+   */
+  async getStorageUsage(): Promise<CheckpointStorageUsage> {
+    const blobs = new Map((await this.blobStore.list()).map((blob) => [blob.hash, blob]))
+    const projects = new Map<string, CheckpointStorageUsage['projects'][number]>()
+    const projectHashes = new Map<string, Set<string>>()
+    const sessionsSeen = new Set<string>()
+    let logicalBytes = 0
+
+    for (const [projectId, sessionId, checkpointId] of await this.listCheckpointDirs()) {
+      let project = projects.get(projectId)
+      if (!project) {
+        project = {
+          projectId,
+          projectPath: '',
+          sessions: 0,
+          checkpoints: 0,
+          blobBytes: 0,
+          metadataBytes: 0
+        }
+        projects.set(projectId, project)
+        projectHashes.set(projectId, new Set())
+      }
+
+      const sessionKey = `${projectId}/${sessionId}`
+      if (!sessionsSeen.has(sessionKey)) {
+        sessionsSeen.add(sessionKey)
+        project.sessions++
+        try {
+          const timelinePath = join(this.getSessionDir(projectId, sessionId), TIMELINE_FILE)
+          const timeline: StoredTimeline = JSON.parse(await fs.readFile(timelinePath, 'utf-8'))
+          project.projectPath = project.projectPath || timeline.projectPath
+          project.metadataBytes += (await fs.stat(timelinePath)).size
+        } catch {
+          // Timeline missing or unreadable
+        }
+      }
+
+      project.checkpoints++
+      const checkpointDir = this.getCheckpointDir(projectId, sessionId, checkpointId)
+      for (const file of [SNAPSHOTS_FILE, MESSAGES_FILE]) {
+        try {
+          project.metadataBytes += (await fs.stat(join(checkpointDir, file))).size
+        } catch {
+          // Not written
+        }
+      }
+
+      const hashes = projectHashes.get(projectId)!
+      for (const snapshot of await this.loadSnapshots(projectId, sessionId, checkpointId)) {
+        if (snapshot.isDeleted || !snapshot.hash) continue
+        logicalBytes += snapshot.size
+        if (!hashes.has(snapshot.hash)) {
+          hashes.add(snapshot.hash)
+          project.blobBytes += blobs.get(snapshot.hash)?.storedSize || 0
+        }
+      }
+    }
+
+    let storedBytes = 0
+    for (const blob of blobs.values()) {
+      storedBytes += blob.storedSize
+    }
+
+    return {
+      storagePath: this.getStorageRoot(),
+      totalBlobs: blobs.size,
+      storedBytes,
+      logicalBytes,
+      compressionEnabled: await this.isCompressionEnabled(),
+      projects: Array.from(projects.values()).sort(
+        (a, b) => b.blobBytes + b.metadataBytes - (a.blobBytes + a.metadataBytes)
+      )
+    }
+  }
+}
+
+// Global instance
+export const checkpointManager = new CheckpointManager()
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs'
+import { join, isAbsolute, resolve, relative, sep } from 'path'
+import { homedir } from 'os'
+
+/**
+ * Tools whose input points at a file that the tool modifies
+ */
+const FILE_MODIFYING_TOOLS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path'
+}
+
+/**
+ * Summary of a transcript prefix used for checkpoint metadata
+ */
+export interface TranscriptSummary {
+  totalTokens: number
+  modelUsed: string
+  userPrompt: string
+}
+
+/**
+ * Get the JSONL transcript path of a Claude Code session
+ */
+export function getSessionJsonlPath(projectId: string, sessionId: string): string {
+  return join(homedir(), '.claude', 'projects', projectId, `${sessionId}.jsonl`)
+}
+
+/**
+ * Read the non-empty lines of a session transcript
+ */
+export async function readTranscriptLines(projectId: string, sessionId: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(getSessionJsonlPath(projectId, sessionId), 'utf-8')
+    return content.split('\n').filter((line) => line.trim())
+  } catch {
+    // Transcript doesn't exist yet (session not started)
+    return []
+  }
+}
+
+/**
+ * Resolve a tool file path to a path relative to the project root.
+ * Returns null for paths outside of the project.
+ */
+export function toProjectRelativePath(projectPath: string, filePath: string): string | null {
+  const absolutePath = isAbsolute(filePath) ? resolve(filePath) : resolve(projectPath, filePath)
+  const relativePath = relative(resolve(projectPath), absolutePath)
+
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    return null
+  }
+
+  return relativePath.split(sep).join('/')
+}
+
+/**
+ * Extract tool_use blocks from a parsed transcript/stream entry
+ */
+export function extractToolUses(entry: any): Array<{ name: string; input: any }> {
+  const content = entry?.message?.content
+  if (!Array.isArray(content)) return []
+
+  return content
+    .filter((block: any) => block && block.type === 'tool_use' && typeof block.name === 'string')
+    .map((block: any) => ({ name: block.name, input: block.input || {} }))
+}
+
+/**
+ * Collect project files modified by tool uses in the given transcript lines
+ */
+export function extractTouchedFiles(lines: string[], projectPath: string): Set<string> {
+  const files = new Set<string>()
+
+  for (const line of lines) {
+    let entry: any
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      continue
+    }
+
+    for (const toolUse of extractToolUses(entry)) {
+      const inputKey = FILE_MODIFYING_TOOLS[toolUse.name]
+      const filePath = inputKey ? toolUse.input[inputKey] : undefined
+      if (typeof filePath !== 'string' || !filePath) continue
+
+      const relativePath = toProjectRelativePath(projectPath, filePath)
+      if (relativePath) {
+        files.add(relativePath)
+      }
+    }
+  }
+
+  return files
+}
+
+/**
+ * Extract the text of a user message, ignoring tool results
+ */
+function extractUserText(entry: any): string | null {
+  if (entry?.type !== 'user' || !entry.message) return null
+
+  const content = entry.message.content
+  if (typeof content === 'string') {
+    return content
+  }
+
+  if (Array.isArray(content)) {
+    const text = content
+      .filter((block: any) => block && block.type === 'text' && typeof block.text === 'string')
+      .map((block: any) => block.text)
+      .join('\n')
+    return text || null
+  }
+
+  return null
+}
+
+/**
+ * Summarize token usage, model and last user prompt of transcript lines
+ */
+export function summarizeTranscript(lines: string[]): TranscriptSummary {
+  let totalTokens = 0
+  let modelUsed = 'unknown'
+  let userPrompt = ''
+
+  for (const line of lines) {
+    let entry: any
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      continue
+    }
+
+    const usage = entry.usage || entry.message?.usage
+    if (usage) {
+      totalTokens += (usage.input_tokens || 0) + (usage.output_tokens || 0)
+    }
+
+    const model = entry.message?.model || entry.model
+    if (typeof model === 'string' && model !== '<synthetic>') {
+      modelUsed = model
+    }
+
+    const text = extractUserText(entry)
+    if (text) {
+      userPrompt = text
+    }
+  }
+
+  return { totalTokens, modelUsed, userPrompt }
+}
@@ -0,0 +1,180 @@
+/**
+ * Checkpoint system - type definitions
+ *
+ * Mirrors the checkpoint types exposed to the renderer in `lib/api.ts`.
+ */
+
+/**
+ * Strategy for automatic checkpoint creation
+ */
+export type CheckpointStrategy = 'manual' | 'per_prompt' | 'per_tool_use' | 'smart'
+
+/**
+ * Metadata associated with a checkpoint
+ */
+export interface CheckpointMetadata {
+  totalTokens: number
+  modelUsed: string
+  userPrompt: string
+  fileChanges: number
+  snapshotSize: number
+}
+
+/**
+ * Represents a checkpoint in the session timeline
+ */
+export interface Checkpoint {
+  id: string
+  sessionId: string
+  projectId: string
+  messageIndex: number
+  timestamp: string
+  description?: string
+  parentCheckpointId?: string
+  metadata: CheckpointMetadata
+}
+
+/**
+ * Represents a file snapshot at a checkpoint
+ */
+export interface FileSnapshot {
+  checkpointId: string
+  /** Path relative to the project root */
+  filePath: string
+  content: string
+  hash: string
+  isDeleted: boolean
+  permissions?: number
+  size: number
+}
+
+/**
+ * Represents a node in the timeline tree
+ */
+export interface TimelineNode {
+  checkpoint: Checkpoint
+  children: TimelineNode[]
+  fileSnapshotIds: string[]
+}
+
+/**
+ * The complete timeline for a session
+ */
+export interface SessionTimeline {
+  sessionId: string
+  rootNode?: TimelineNode
+  currentCheckpointId?: string
+  autoCheckpointEnabled: boolean
+  checkpointStrategy: CheckpointStrategy
+  totalCheckpoints: number
+  /** Set when the session was forked from a checkpoint of another session */
+  forkedFrom?: ForkOrigin
+}
+
+/**
+ * Checkpoint a session was forked from
+ */
+export interface ForkOrigin {
+  sessionId: string
+  checkpointId: string
+}
+
+/**
+ * A session forked from one of this session's checkpoints
+ */
+export interface SessionFork {
+  sessionId: string
+  checkpointId: string
+  timestamp: string
+  description?: string
+}
+
+/**
+ * Result of a checkpoint operation
+ */
+export interface CheckpointResult {
+  checkpoint: Checkpoint
+  filesProcessed: number
+  warnings: string[]
+}
+
+/**
+ * Diff for a single file
+ */
+export interface FileDiff {
+  path: string
+  additions: number
+  deletions: number
+  diffContent?: string
+}
+
+/**
+ * Diff between two checkpoints
+ */
+export interface CheckpointDiff {
+  fromCheckpointId: string
+  toCheckpointId: string
+  modifiedFiles: FileDiff[]
+  addedFiles: string[]
+  deletedFiles: string[]
+  tokenDelta: number
+}
+
+/**
+ * Checkpoint settings for a session
+ */
+export interface CheckpointSettings {
+  auto_checkpoint_enabled: boolean
+  checkpoint_strategy: CheckpointStrategy
+  total_checkpoints: number
+  current_checkpoint_id?: string
+}
+
+/**
+ * Persisted timeline state for a session (timeline.json)
+ */
+export interface StoredTimeline {
+  version: 1
+  sessionId: string
+  projectId: string
+  projectPath: string
+  currentCheckpointId?: string
+  autoCheckpointEnabled: boolean
+  checkpointStrategy: CheckpointStrategy
+  checkpoints: Checkpoint[]
+  forkedFrom?: ForkOrigin
+  forks?: SessionFork[]
+}
+
+/**
+ * Stored snapshot entry (file content lives next to it, keyed by hash)
+ */
+export type StoredFileSnapshot = Omit<FileSnapshot, 'content'>
+
+/**
+ * Checkpoint disk usage of a single project
+ */
+export interface ProjectCheckpointUsage {
+  projectId: string
+  projectPath: string
+  sessions: number
+  checkpoints: number
+  /** Stored size of the distinct blobs referenced by the project */
+  blobBytes: number
+  /** Size of timelines, snapshot records and transcript copies */
+  metadataBytes: number
+}
+
+/**
+ * Checkpoint disk usage overview
+ */
+export interface CheckpointStorageUsage {
+  storagePath: string
+  totalBlobs: number
+  /** Bytes of all blobs on disk */
+  storedBytes: number
+  /** Bytes that full per-checkpoint copies would take */
+  logicalBytes: number
+  compressionEnabled: boolean
+  projects: ProjectCheckpointUsage[]
+}
@@ -2,7 +2,21 @@ import 'reflect-metadata'
 import { DataSource } from 'typeorm'
 import { app } from 'electron'
 import path from 'path'
-import { Agent, AgentRun, AppSettings } from './entities'
+import {
+  Agent,
+  AgentRun,
+  AppSettings,
+  AgentSchedule,
+  Pipeline,
+  PipelineRun,
+  AgentTrigger,
+  SubagentLink,
+  RegistrySource,
+  AgentRevision,
+  EvalCase,
+  EvalRun,
+  RunComparison
+} from './entities'
 
 class DatabaseManager {
   private dataSource: DataSource | null = null
@@ -19,7 +33,21 @@ class DatabaseManager {
     this.dataSource = new DataSource({
       type: 'better-sqlite3',
       database: dbPath,
-      entities: [Agent, AgentRun, AppSettings],
+      entities: [
+        Agent,
+        AgentRun,
+        AppSettings,
+        AgentSchedule,
+        Pipeline,
+        PipelineRun,
+        AgentTrigger,
+        SubagentLink,
+        RegistrySource,
+        AgentRevision,
+        EvalCase,
+        EvalRun,
+        RunComparison
+      ],
       synchronize: true, // Auto-create tables in development
       logging: false, // Set to true for debugging SQL queries
       migrations: [],
@@ -111,3 +139,13 @@ export const databaseManager = new DatabaseManager()
 export const getAgentRepository = () => databaseManager.getRepository(Agent)
 export const getAgentRunRepository = () => databaseManager.getRepository(AgentRun)
 export const getAppSettingsRepository = () => databaseManager.getRepository(AppSettings)
+export const getAgentScheduleRepository = () => databaseManager.getRepository(AgentSchedule)
+export const getPipelineRepository = () => databaseManager.getRepository(Pipeline)
+export const getPipelineRunRepository = () => databaseManager.getRepository(PipelineRun)
+export const getAgentTriggerRepository = () => databaseManager.getRepository(AgentTrigger)
+export const getSubagentLinkRepository = () => databaseManager.getRepository(SubagentLink)
+export const getRegistrySourceRepository = () => databaseManager.getRepository(RegistrySource)
+export const getAgentRevisionRepository = () => databaseManager.getRepository(AgentRevision)
+export const getEvalCaseRepository = () => databaseManager.getRepository(EvalCase)
+export const getEvalRunRepository = () => databaseManager.getRepository(EvalRun)
+export const getRunComparisonRepository = () => databaseManager.getRepository(RunComparison)
@@ -22,6 +22,9 @@ export class Agent {
   @Column('text')
   system_prompt!: string
 
+  @Column('text', { nullable: true })
+  description?: string | null // What the agent is for, the description of its subagent file
+
   @Column('text', { nullable: true })
   default_task?: string
 
@@ -37,9 +40,50 @@ export class Agent {
   @Column('boolean', { default: false })
   enable_network!: boolean
 
+  @Column('text', { nullable: true })
+  allowed_tools?: string | null // JSON array of tool names or rules; null allows every tool
+
   @Column('text', { nullable: true })
   hooks?: string // JSON string of hooks configuration
 
+  @Column('text', { nullable: true })
+  mcp_servers?: string | null // JSON array of referenced or inline MCP servers
+
+  // Only load the agent's MCP servers, not the ones configured in Claude Code
+  @Column('boolean', { default: false })
+  strict_mcp_config!: boolean
+
+  // Budget applied to each run, unlimited when null
+  @Column('real', { nullable: true })
+  max_cost_usd?: number | null
+
+  @Column('integer', { nullable: true })
+  max_tokens?: number | null
+
+  @Column('integer', { nullable: true })
+  max_turns?: number | null
+
+  @Column('integer', { nullable: true })
+  max_duration_seconds?: number | null
+
+  // Run in a separate git worktree on a new branch instead of the project directory
+  @Column('boolean', { default: false })
+  use_worktree!: boolean
+
+  // Registry agent this agent was installed from, to detect updates
+  @Column('integer', { nullable: true })
+  registry_source_id?: number | null
+
+  @Column('text', { nullable: true })
+  registry_agent_id?: string | null
+
+  @Column('text', { nullable: true })
+  registry_version?: string | null
+
+  // Number of the current AgentRevision; 0 for agents older than revisions
+  @Column('integer', { default: 0 })
+  revision!: number
+
   @CreateDateColumn()
   created_at!: Date
 
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index
+} from 'typeorm'
+import { Agent } from './Agent'
+
+// Immutable snapshot of an agent's configuration, recorded by each change to it
+@Entity('agent_revisions')
+@Index(['agent_id', 'revision'], { unique: true })
+export class AgentRevision {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer')
+  agent_id!: number
+
+  @Column('integer')
+  revision!: number // Numbered from 1 per agent
+
+  @Column('text')
+  data!: string // JSON of the agent's configuration fields
+
+  @Column('integer', { nullable: true })
+  rolled_back_from?: number | null // Revision restored by a rollback
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  // Relations
+  @ManyToOne(() => Agent, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agent_id' })
+  agent!: Agent
+}
@@ -4,7 +4,8 @@ import {
   Column,
   CreateDateColumn,
   ManyToOne,
-  JoinColumn
+  JoinColumn,
+  Index
 } from 'typeorm'
 import { Agent } from './Agent'
 
@@ -13,6 +14,7 @@ export class AgentRun {
   @PrimaryGeneratedColumn()
   id!: number
 
+  @Index()
   @Column('integer')
   agent_id!: number
 
@@ -28,14 +30,19 @@ export class AgentRun {
   @Column('text')
   model!: string
 
+  @Index()
   @Column('text')
   project_path!: string
 
   @Column('text')
   session_id!: string // UUID session ID from Claude Code
 
+  @Index()
   @Column('text', { default: 'pending' })
-  status!: string // 'pending', 'running', 'completed', 'failed', 'cancelled'
+  status!: string // 'queued', 'pending', 'running', 'completed', 'failed', 'cancelled', 'interrupted', 'budget_exceeded'
+
+  @Column('text', { default: 'normal' })
+  priority!: string // 'low', 'normal', 'high'
 
   @Column('integer', { nullable: true })
   pid?: number
@@ -43,12 +50,96 @@ export class AgentRun {
   @Column({ type: 'datetime', nullable: true })
   process_started_at?: Date
 
+  @Index()
   @CreateDateColumn()
   created_at!: Date
 
   @Column({ type: 'datetime', nullable: true })
   completed_at?: Date
 
+  // Budget of the run, unlimited when null
+  @Column('real', { nullable: true })
+  max_cost_usd?: number | null
+
+  @Column('integer', { nullable: true })
+  max_tokens?: number | null
+
+  @Column('integer', { nullable: true })
+  max_turns?: number | null
+
+  @Column('integer', { nullable: true })
+  max_duration_seconds?: number | null
+
+  @Column('text', { nullable: true })
+  exceeded_limit?: string | null // 'cost', 'tokens', 'turns', 'duration'
+
+  // Git worktree the run executes in, created when the run starts
+  @Column('boolean', { default: false })
+  use_worktree!: boolean
+
+  @Column('text', { nullable: true })
+  worktree_path?: string | null
+
+  @Column('text', { nullable: true })
+  worktree_branch?: string | null
+
+  @Column('text', { nullable: true })
+  worktree_base?: string | null // Commit the branch was created from
+
+  @Column('text', { nullable: true })
+  worktree_status?: string | null // 'active', 'kept', 'merged', 'cherry_picked', 'discarded'
+
+  // Tool set the run was started with, as JSON arrays
+  @Column('text', { nullable: true })
+  allowed_tools?: string | null
+
+  @Column('text', { nullable: true })
+  disallowed_tools?: string | null
+
+  @Column('integer', { nullable: true })
+  schedule_id?: number | null // AgentSchedule that started the run
+
+  @Column('integer', { nullable: true })
+  pipeline_run_id?: number | null // PipelineRun the run is a step of
+
+  @Column('text', { nullable: true })
+  pipeline_step_id?: string | null
+
+  @Column('integer', { nullable: true })
+  trigger_id?: number | null // AgentTrigger that started the run
+
+  @Column('text', { nullable: true })
+  trigger_files?: string | null // JSON array of the changed files that fired the trigger
+
+  @Column('integer', { nullable: true })
+  agent_revision?: number | null // AgentRevision of the agent the run ran
+
+  @Column('integer', { nullable: true })
+  eval_run_id?: number | null // EvalRun the run is a test case of
+
+  @Column('integer', { nullable: true })
+  comparison_id?: number | null // RunComparison the run is a variant of
+
+  // Metrics read from the session JSONL once the run finished, null until then
+  @Column('integer', { nullable: true })
+  total_tokens?: number | null
+
+  @Index()
+  @Column('real', { nullable: true })
+  cost_usd?: number | null
+
+  @Column('integer', { nullable: true })
+  message_count?: number | null
+
+  @Column('integer', { nullable: true })
+  tool_call_count?: number | null
+
+  @Column('integer', { nullable: true })
+  duration_ms?: number | null
+
+  @Column({ type: 'datetime', nullable: true })
+  metrics_recorded_at?: Date | null
+
   // Relations
   @ManyToOne(() => Agent, (agent) => agent.runs, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'agent_id' })
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn
+} from 'typeorm'
+import { Agent } from './Agent'
+
+@Entity('agent_schedules')
+export class AgentSchedule {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer')
+  agent_id!: number
+
+  @Column('text')
+  project_path!: string
+
+  @Column('text')
+  task!: string
+
+  @Column('text')
+  cron_expression!: string // Five fields, evaluated in local time
+
+  @Column('boolean', { default: true })
+  enabled!: boolean
+
+  @Column('integer', { nullable: true })
+  last_run_id?: number | null // AgentRun started by the latest tick
+
+  @Column({ type: 'datetime', nullable: true })
+  last_run_at?: Date | null
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @UpdateDateColumn()
+  updated_at!: Date
+
+  // Relations
+  @ManyToOne(() => Agent, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agent_id' })
+  agent!: Agent
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn
+} from 'typeorm'
+import { Agent } from './Agent'
+
+@Entity('agent_triggers')
+export class AgentTrigger {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer')
+  agent_id!: number
+
+  @Column('text')
+  project_path!: string
+
+  @Column('text')
+  task!: string
+
+  @Column('text')
+  patterns!: string // JSON array of globs, relative to the project path
+
+  @Column('integer', { default: 2000 })
+  debounce_ms!: number // Quiet time after the last change before the trigger fires
+
+  @Column('integer', { default: 300 })
+  cooldown_seconds!: number // Changes are ignored this long after the run it started ends
+
+  @Column('boolean', { default: true })
+  enabled!: boolean
+
+  @Column('integer', { nullable: true })
+  last_run_id?: number | null // AgentRun started by the latest fire
+
+  @Column({ type: 'datetime', nullable: true })
+  last_fired_at?: Date | null
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @UpdateDateColumn()
+  updated_at!: Date
+
+  // Relations
+  @ManyToOne(() => Agent, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agent_id' })
+  agent!: Agent
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn
+} from 'typeorm'
+import { Agent } from './Agent'
+
+// Test case of an agent's evaluation suite
+@Entity('eval_cases')
+export class EvalCase {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer')
+  agent_id!: number
+
+  @Column('text')
+  name!: string
+
+  @Column('text')
+  fixture_path!: string // Project directory copied for each run of the case
+
+  @Column('text')
+  task!: string
+
+  @Column('text')
+  assertions!: string // JSON array of EvalAssertion
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @UpdateDateColumn()
+  updated_at!: Date
+
+  // Relations
+  @ManyToOne(() => Agent, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agent_id' })
+  agent!: Agent
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn
+} from 'typeorm'
+import { Agent } from './Agent'
+
+// Run of an agent's evaluation suite
+@Entity('eval_runs')
+export class EvalRun {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer')
+  agent_id!: number
+
+  @Column('integer', { nullable: true })
+  agent_revision?: number | null // AgentRevision the suite ran against
+
+  @Column('text', { default: 'running' })
+  status!: string // 'running', 'completed', 'cancelled', 'interrupted'
+
+  @Column('text')
+  case_results!: string // JSON string of Record<case id, EvalCaseResult>
+
+  @Column('integer', { default: 0 })
+  passed_count!: number
+
+  @Column('integer', { default: 0 })
+  failed_count!: number
+
+  @Column('real', { default: 0 })
+  cost_usd!: number // Sum of the cost reported by the finished cases
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @Column({ type: 'datetime', nullable: true })
+  completed_at?: Date | null
+
+  // Relations
+  @ManyToOne(() => Agent, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agent_id' })
+  agent!: Agent
+}
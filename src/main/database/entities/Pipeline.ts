@@ -0,0 +1,22 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm'
+
+@Entity('pipelines')
+export class Pipeline {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('text')
+  name!: string
+
+  @Column('text')
+  steps!: string // JSON string of PipelineStep[]
+
+  @Column('boolean', { default: false })
+  use_worktree!: boolean // All steps share one git worktree, created by the first step
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @UpdateDateColumn()
+  updated_at!: Date
+}
@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm'
+
+@Entity('pipeline_runs')
+export class PipelineRun {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer')
+  pipeline_id!: number
+
+  @Column('text')
+  pipeline_name!: string
+
+  @Column('text')
+  project_path!: string
+
+  @Column('text', { default: 'running' })
+  status!: string // 'running', 'completed', 'failed', 'cancelled', 'interrupted'
+
+  @Column('text')
+  step_states!: string // JSON string of Record<step id, PipelineStepState>
+
+  @Column('text', { nullable: true })
+  worktree_path?: string | null // Worktree shared by the steps, once the first step created it
+
+  @Column('real', { default: 0 })
+  cost_usd!: number // Sum of the cost reported by the finished steps
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @Column({ type: 'datetime', nullable: true })
+  completed_at?: Date | null
+}
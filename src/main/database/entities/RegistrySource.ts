@@ -0,0 +1,39 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm'
+import type { RegistrySourceType } from '../../registry/types'
+
+// Where agents can be installed from
+@Entity('registry_sources')
+export class RegistrySource {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('text')
+  name!: string
+
+  @Column('text')
+  type!: RegistrySourceType
+
+  @Column('text')
+  location!: string // Directory, git repository URL or index URL, depending on the type
+
+  @Column('text', { nullable: true })
+  ref?: string | null // Branch or tag of a git source, the default branch when null
+
+  @Column('text', { nullable: true })
+  subdirectory?: string | null // Directory of a git checkout holding the agents
+
+  @Column('boolean', { default: true })
+  enabled!: boolean
+
+  @Column({ type: 'datetime', nullable: true })
+  last_synced_at?: Date | null
+
+  @Column('text', { nullable: true })
+  last_error?: string | null // Why the latest refresh failed; cached agents are listed meanwhile
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @UpdateDateColumn()
+  updated_at!: Date
+}
@@ -0,0 +1,16 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm'
+
+@Entity('run_comparisons')
+export class RunComparison {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('text')
+  task!: string
+
+  @Column('text')
+  project_path!: string // Project each variant gets its own worktree of
+
+  @CreateDateColumn()
+  created_at!: Date
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn
+} from 'typeorm'
+import { Agent } from './Agent'
+
+export type SubagentScope = 'user' | 'project'
+
+// Ties an agent to a Claude Code subagent file (.claude/agents/<name>.md)
+@Entity('subagent_links')
+export class SubagentLink {
+  @PrimaryGeneratedColumn()
+  id!: number
+
+  @Column('integer', { unique: true })
+  agent_id!: number
+
+  @Column('text')
+  scope!: SubagentScope
+
+  @Column('text', { nullable: true })
+  project_path?: string | null // Project the file belongs to, null for user scope
+
+  @Column('text')
+  file_path!: string
+
+  // Apply changes on either side as they happen instead of on request
+  @Column('boolean', { default: false })
+  live_sync!: boolean
+
+  // State of both sides at the last sync, telling which side changed since
+  @Column('real')
+  file_mtime_ms!: number
+
+  @Column('real')
+  agent_updated_ms!: number
+
+  @CreateDateColumn()
+  created_at!: Date
+
+  @UpdateDateColumn()
+  updated_at!: Date
+
+  // Relations
+  @ManyToOne(() => Agent, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agent_id' })
+  agent!: Agent
+}
@@ -1,3 +1,14 @@
 export { Agent } from './Agent'
 export { AgentRun } from './AgentRun'
 export { AppSettings } from './AppSettings'
+export { AgentSchedule } from './AgentSchedule'
+export { Pipeline } from './Pipeline'
+export { PipelineRun } from './PipelineRun'
+export { AgentTrigger } from './AgentTrigger'
+export { SubagentLink } from './SubagentLink'
+export type { SubagentScope } from './SubagentLink'
+export { RegistrySource } from './RegistrySource'
+export { AgentRevision } from './AgentRevision'
+export { EvalCase } from './EvalCase'
+export { EvalRun } from './EvalRun'
+export { RunComparison } from './RunComparison'
@@ -0,0 +1,92 @@
+import { Repository } from 'typeorm'
+import { AgentRevision } from '../entities/AgentRevision'
+import type { Agent } from '../entities/Agent'
+import { getAgentRevisionRepository } from '../connection'
+
+// Agent fields a revision records; other fields, like where the agent was installed from,
+// don't change what its runs do
+const REVISION_FIELDS = [
+  'name',
+  'icon',
+  'system_prompt',
+  'description',
+  'default_task',
+  'model',
+  'enable_file_read',
+  'enable_file_write',
+  'enable_network',
+  'allowed_tools',
+  'hooks',
+  'mcp_servers',
+  'strict_mcp_config',
+  'max_cost_usd',
+  'max_tokens',
+  'max_turns',
+  'max_duration_seconds',
+  'use_worktree'
+] as const
+
+export type AgentRevisionData = Pick<Agent, (typeof REVISION_FIELDS)[number]>
+
+/**
+ * The configuration of an agent that a revision records
+ */
+export function getRevisionData(agent: Agent): AgentRevisionData {
+  const data: Record<string, unknown> = {}
+  for (const field of REVISION_FIELDS) {
+    data[field] = agent[field] ?? null
+  }
+  return data as AgentRevisionData
+}
+
+export interface AgentRevisionCreateData {
+  agent_id: number
+  revision: number
+  data: AgentRevisionData
+  rolled_back_from?: number | null
+}
+
+export class AgentRevisionService {
+  private async getRepository(): Promise<Repository<AgentRevision>> {
+    return await getAgentRevisionRepository()
+  }
+
+  /**
+   * Record a new revision
+   */
+  async create(data: AgentRevisionCreateData): Promise<AgentRevision> {
+    const repository = await this.getRepository()
+
+    const revision = repository.create({
+      ...data,
+      data: JSON.stringify(data.data),
+      rolled_back_from: data.rolled_back_from ?? null
+    })
+
+    return await repository.save(revision)
+  }
+
+  /**
+   * Get the revisions of an agent, newest first
+   */
+  async findByAgentId(agentId: number): Promise<AgentRevision[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { agent_id: agentId },
+      order: {
+        revision: 'DESC'
+      }
+    })
+  }
+
+  /**
+   * Get a revision of an agent by its number
+   */
+  async findByRevision(agentId: number, revision: number): Promise<AgentRevision | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { agent_id: agentId, revision } })
+  }
+}
+
+// Global instance
+export const agentRevisionService = new AgentRevisionService()
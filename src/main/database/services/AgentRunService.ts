@@ -1,4 +1,4 @@
-import { Repository } from 'typeorm'
+import { Repository, IsNull, MoreThan, Not, In } from 'typeorm'
 import { AgentRun } from '../entities/AgentRun'
 import { getAgentRunRepository } from '../connection'
 
@@ -11,15 +11,39 @@ export interface AgentRunCreateData {
   project_path: string
   session_id: string
   status?: string
+  priority?: string
   pid?: number
   process_started_at?: Date
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+  use_worktree?: boolean
+  allowed_tools?: string | null
+  disallowed_tools?: string | null
+  schedule_id?: number | null
+  pipeline_run_id?: number | null
+  pipeline_step_id?: string | null
+  worktree_path?: string | null
+  trigger_id?: number | null
+  trigger_files?: string | null
+  agent_revision?: number | null
+  eval_run_id?: number | null
+  comparison_id?: number | null
 }
 
 export interface AgentRunUpdateData {
+  session_id?: string
   status?: string
   pid?: number
   process_started_at?: Date
-  completed_at?: Date
+  completed_at?: Date | null
+  exceeded_limit?: string | null
+  worktree_path?: string | null
+  worktree_branch?: string | null
+  worktree_base?: string | null
+  worktree_status?: string | null
+  agent_revision?: number | null
 }
 
 export interface AgentRunMetrics {
@@ -27,8 +51,40 @@ export interface AgentRunMetrics {
   total_tokens?: number
   cost_usd?: number
   message_count?: number
+  tool_call_count?: number
 }
 
+/**
+ * Filters, sort and page of a run query
+ */
+export interface AgentRunQuery {
+  agentId?: number
+  status?: string
+  projectPath?: string
+  createdFrom?: string // ISO timestamp, inclusive
+  createdTo?: string // ISO timestamp, exclusive
+  minCostUsd?: number
+  maxCostUsd?: number
+  sortBy?: AgentRunSortField
+  sortOrder?: 'ASC' | 'DESC'
+  page?: number // Starting at 1
+  pageSize?: number
+}
+
+export type AgentRunSortField = 'created_at' | 'cost_usd' | 'total_tokens' | 'duration_ms'
+
+export interface AgentRunPage {
+  runs: AgentRun[]
+  total: number
+}
+
+// Statuses of runs that will not run any further
+const UNFINISHED_STATUSES = ['queued', 'pending', 'running']
+
+const SORT_FIELDS: AgentRunSortField[] = ['created_at', 'cost_usd', 'total_tokens', 'duration_ms']
+
+const MAX_PAGE_SIZE = 100
+
 export interface AgentRunWithMetrics extends AgentRun {
   metrics?: AgentRunMetrics
   output?: string
@@ -113,6 +169,142 @@ export class AgentRunService {
     return await this.getRunsByAgentId(agentId, limit)
   }
 
+  /**
+   * Get the runs of the steps of a pipeline run, in the order they were started
+   */
+  async findByPipelineRunId(pipelineRunId: number): Promise<AgentRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { pipeline_run_id: pipelineRunId },
+      order: { created_at: 'ASC' }
+    })
+  }
+
+  /**
+   * Get the agent runs of the test cases of a suite run
+   */
+  async findByEvalRunId(evalRunId: number): Promise<AgentRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { eval_run_id: evalRunId },
+      order: { created_at: 'ASC' }
+    })
+  }
+
+  /**
+   * Query agent runs, filtered and sorted in the database, a page at a time
+   */
+  async query(options: AgentRunQuery = {}): Promise<AgentRunPage> {
+    const repository = await this.getRepository()
+    const query = repository.createQueryBuilder('run')
+
+    if (options.agentId) {
+      query.andWhere('run.agent_id = :agentId', { agentId: options.agentId })
+    }
+    if (options.status) {
+      query.andWhere('run.status = :status', { status: options.status })
+    }
+    if (options.projectPath) {
+      query.andWhere('run.project_path = :projectPath', { projectPath: options.projectPath })
+    }
+    if (options.createdFrom) {
+      query.andWhere('run.created_at >= :createdFrom', {
+        createdFrom: new Date(options.createdFrom)
+      })
+    }
+    if (options.createdTo) {
+      query.andWhere('run.created_at < :createdTo', { createdTo: new Date(options.createdTo) })
+    }
+    if (options.minCostUsd !== undefined) {
+      query.andWhere('run.cost_usd >= :minCostUsd', { minCostUsd: options.minCostUsd })
+    }
+    if (options.maxCostUsd !== undefined) {
+      query.andWhere('run.cost_usd <= :maxCostUsd', { maxCostUsd: options.maxCostUsd })
+    }
+
+    // Only known columns are sorted on, as the field ends up in the SQL
+    const sortBy = SORT_FIELDS.includes(options.sortBy!) ? options.sortBy! : 'created_at'
+    const sortOrder = options.sortOrder === 'ASC' ? 'ASC' : 'DESC'
+    query.orderBy(`run.${sortBy}`, sortOrder, 'NULLS LAST').addOrderBy('run.id', sortOrder)
+
+    const pageSize = Math.min(Math.max(options.pageSize || 20, 1), MAX_PAGE_SIZE)
+    const page = Math.max(options.page || 1, 1)
+    const [runs, total] = await query
+      .skip((page - 1) * pageSize)
+      .take(pageSize)
+      .getManyAndCount()
+
+    return { runs, total }
+  }
+
+  /**
+   * Get finished runs whose metrics weren't recorded, oldest first, after the given ID
+   */
+  async findWithoutMetrics(afterId: number, limit: number): Promise<AgentRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: {
+        id: MoreThan(afterId),
+        status: Not(In(UNFINISHED_STATUSES)),
+        metrics_recorded_at: IsNull()
+      },
+      order: { id: 'ASC' },
+      take: limit
+    })
+  }
+
+  /**
+   * Store the metrics of a finished run
+   */
+  async recordMetrics(id: number, metrics: AgentRunMetrics): Promise<void> {
+    const repository = await this.getRepository()
+    await repository.update(id, {
+      total_tokens: metrics.total_tokens ?? null,
+      cost_usd: metrics.cost_usd ?? null,
+      message_count: metrics.message_count ?? null,
+      tool_call_count: metrics.tool_call_count ?? null,
+      duration_ms: metrics.duration_ms ?? null,
+      metrics_recorded_at: new Date()
+    })
+  }
+
+  /**
+   * Metrics stored on a run, undefined while they haven't been recorded
+   */
+  getStoredMetrics(run: AgentRun): AgentRunMetrics | undefined {
+    if (!run.metrics_recorded_at) return undefined
+    return {
+      duration_ms: run.duration_ms ?? undefined,
+      total_tokens: run.total_tokens ?? undefined,
+      cost_usd: run.cost_usd ?? undefined,
+      message_count: run.message_count ?? undefined,
+      tool_call_count: run.tool_call_count ?? undefined
+    }
+  }
+
+  /**
+   * Get the agent runs of the variants of a comparison
+   */
+  async findByComparisonId(comparisonId: number): Promise<AgentRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { comparison_id: comparisonId },
+      order: { id: 'ASC' }
+    })
+  }
+
+  /**
+   * Get the latest runs started by a file-change trigger
+   */
+  async findByTriggerId(triggerId: number, limit: number = 10): Promise<AgentRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { trigger_id: triggerId },
+      order: { created_at: 'DESC' },
+      take: limit
+    })
+  }
+
   /**
    * Get agent run by ID
    */
@@ -214,6 +406,21 @@ export class AgentRunService {
     })
   }
 
+  /**
+   * Get the distinct project paths agents have run in
+   */
+  async getProjectPaths(): Promise<string[]> {
+    const repository = await this.getRepository()
+
+    const rows = await repository
+      .createQueryBuilder('run')
+      .select('DISTINCT run.project_path', 'project_path')
+      .orderBy('project_path', 'ASC')
+      .getRawMany()
+
+    return rows.map((row) => row.project_path)
+  }
+
   /**
    * Calculate metrics from JSONL content
    */
@@ -221,6 +428,7 @@ export class AgentRunService {
     let totalTokens = 0
     let costUsd = 0
     let messageCount = 0
+    let toolCallCount = 0
     let startTime: Date | null = null
     let endTime: Date | null = null
 
@@ -253,6 +461,12 @@ export class AgentRunService {
           }
         }
 
+        // Count the tools the assistant called
+        const content = json.message?.content
+        if (Array.isArray(content)) {
+          toolCallCount += content.filter((block) => block?.type === 'tool_use').length
+        }
+
         // Extract cost information
         if (json.cost) {
           costUsd += json.cost
@@ -269,7 +483,8 @@ export class AgentRunService {
       duration_ms: durationMs,
       total_tokens: totalTokens || undefined,
       cost_usd: costUsd || undefined,
-      message_count: messageCount || undefined
+      message_count: messageCount || undefined,
+      tool_call_count: toolCallCount || undefined
     }
   }
 
@@ -326,9 +541,13 @@ export class AgentRunService {
   }
 
   /**
-   * Cleanup old completed runs (keep last N runs per agent)
+   * Cleanup old completed runs (keep last N runs per agent). `beforeDelete` is given the
+   * runs about to be deleted, to release what they hold outside the database.
    */
-  async cleanupOldRuns(keepPerAgent: number = 10): Promise<number> {
+  async cleanupOldRuns(
+    keepPerAgent: number = 10,
+    beforeDelete?: (runs: AgentRun[]) => Promise<void>
+  ): Promise<number> {
     const repository = await this.getRepository()
 
     // Get all agent IDs
@@ -345,8 +564,12 @@ export class AgentRunService {
         .createQueryBuilder('run')
         .where('run.agent_id = :agentId', { agentId: agent_id })
         .andWhere('run.status IN (:...statuses)', {
-          statuses: ['completed', 'failed', 'cancelled']
+          statuses: ['completed', 'failed', 'cancelled', 'budget_exceeded']
         })
+        // Runs of pipelines, evaluations and comparisons are shown with those
+        .andWhere('run.pipeline_run_id IS NULL')
+        .andWhere('run.eval_run_id IS NULL')
+        .andWhere('run.comparison_id IS NULL')
         .orderBy('run.created_at', 'DESC')
         .getMany()
 
@@ -355,6 +578,10 @@ export class AgentRunService {
         const runsToDelete = runs.slice(keepPerAgent)
         const idsToDelete = runsToDelete.map((run) => run.id)
 
+        if (beforeDelete) {
+          await beforeDelete(runsToDelete)
+        }
+
         const result = await repository.delete(idsToDelete)
         deletedCount += result.affected || 0
       }
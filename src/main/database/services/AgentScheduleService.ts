@@ -0,0 +1,89 @@
+import { Repository } from 'typeorm'
+import { AgentSchedule } from '../entities/AgentSchedule'
+import { getAgentScheduleRepository } from '../connection'
+
+export interface AgentScheduleCreateData {
+  agent_id: number
+  project_path: string
+  task: string
+  cron_expression: string
+  enabled?: boolean
+}
+
+export interface AgentScheduleUpdateData {
+  project_path?: string
+  task?: string
+  cron_expression?: string
+  enabled?: boolean
+  last_run_id?: number | null
+  last_run_at?: Date | null
+}
+
+export class AgentScheduleService {
+  private async getRepository(): Promise<Repository<AgentSchedule>> {
+    return await getAgentScheduleRepository()
+  }
+
+  /**
+   * Create a new schedule
+   */
+  async create(data: AgentScheduleCreateData): Promise<AgentSchedule> {
+    const repository = await this.getRepository()
+
+    const schedule = repository.create({
+      ...data,
+      enabled: data.enabled ?? true
+    })
+
+    return await repository.save(schedule)
+  }
+
+  /**
+   * Get all schedules, oldest first
+   */
+  async findAll(): Promise<AgentSchedule[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      order: {
+        created_at: 'ASC'
+      }
+    })
+  }
+
+  /**
+   * Get schedule by ID
+   */
+  async findById(id: number): Promise<AgentSchedule | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Update schedule
+   */
+  async update(id: number, data: AgentScheduleUpdateData): Promise<AgentSchedule | null> {
+    const repository = await this.getRepository()
+
+    const schedule = await repository.findOne({ where: { id } })
+    if (!schedule) {
+      return null
+    }
+
+    Object.assign(schedule, data)
+
+    return await repository.save(schedule)
+  }
+
+  /**
+   * Delete schedule
+   */
+  async delete(id: number): Promise<boolean> {
+    const repository = await this.getRepository()
+
+    const result = await repository.delete(id)
+    return result.affected ? result.affected > 0 : false
+  }
+}
+
+// Global instance
+export const agentScheduleService = new AgentScheduleService()
@@ -1,17 +1,30 @@
 import { Repository } from 'typeorm'
 import { Agent } from '../entities/Agent'
 import { getAgentRepository } from '../connection'
+import { agentRevisionService, getRevisionData } from './AgentRevisionService'
 
 export interface AgentCreateData {
   name: string
   icon: string
   system_prompt: string
+  description?: string | null
   default_task?: string
   model?: string
   enable_file_read?: boolean
   enable_file_write?: boolean
   enable_network?: boolean
+  allowed_tools?: string | null
   hooks?: string
+  mcp_servers?: string | null
+  strict_mcp_config?: boolean
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+  use_worktree?: boolean
+  registry_source_id?: number | null
+  registry_agent_id?: string | null
+  registry_version?: string | null
 }
 
 export interface AgentUpdateData extends Partial<AgentCreateData> {
@@ -34,10 +47,17 @@ export class AgentService {
       model: data.model || 'sonnet',
       enable_file_read: data.enable_file_read ?? true,
       enable_file_write: data.enable_file_write ?? true,
-      enable_network: data.enable_network ?? false
+      enable_network: data.enable_network ?? false,
+      revision: 1
     })
 
-    return await repository.save(agent)
+    const saved = await repository.save(agent)
+    await agentRevisionService.create({
+      agent_id: saved.id,
+      revision: 1,
+      data: getRevisionData(saved)
+    })
+    return saved
   }
 
   /**
@@ -85,9 +105,9 @@ export class AgentService {
   }
 
   /**
-   * Update agent
+   * Update agent, recording a revision if its configuration changed
    */
-  async updateAgent(data: AgentUpdateData): Promise<Agent | null> {
+  async updateAgent(data: AgentUpdateData, rolledBackFrom?: number): Promise<Agent | null> {
     const repository = await this.getRepository()
 
     const agent = await repository.findOne({ where: { id: data.id } })
@@ -95,10 +115,31 @@ export class AgentService {
       return null
     }
 
+    const previous = getRevisionData(agent)
+
     // Update fields
     Object.assign(agent, data)
 
-    return await repository.save(agent)
+    const current = getRevisionData(agent)
+    if (JSON.stringify(current) === JSON.stringify(previous)) {
+      return await repository.save(agent)
+    }
+
+    if (!agent.revision) {
+      // Keep what agents older than revisions were before their first change
+      await agentRevisionService.create({ agent_id: agent.id, revision: 1, data: previous })
+      agent.revision = 1
+    }
+    agent.revision += 1
+
+    const saved = await repository.save(agent)
+    await agentRevisionService.create({
+      agent_id: agent.id,
+      revision: agent.revision,
+      data: current,
+      rolled_back_from: rolledBackFrom ?? null
+    })
+    return saved
   }
 
   /**
@@ -108,6 +149,18 @@ export class AgentService {
     return await this.updateAgent({ ...data, id })
   }
 
+  /**
+   * Restore the configuration of an earlier revision, as a new revision
+   */
+  async rollbackAgent(id: number, revision: number): Promise<Agent | null> {
+    const target = await agentRevisionService.findByRevision(id, revision)
+    if (!target) {
+      return null
+    }
+
+    return await this.updateAgent({ ...JSON.parse(target.data), id }, revision)
+  }
+
   /**
    * Delete agent
    */
@@ -180,12 +233,16 @@ export class AgentService {
       name: newName || `${originalAgent.name} (Copy)`,
       icon: originalAgent.icon,
       system_prompt: originalAgent.system_prompt,
+      description: originalAgent.description,
       default_task: originalAgent.default_task,
       model: originalAgent.model,
       enable_file_read: originalAgent.enable_file_read,
       enable_file_write: originalAgent.enable_file_write,
       enable_network: originalAgent.enable_network,
-      hooks: originalAgent.hooks
+      allowed_tools: originalAgent.allowed_tools,
+      hooks: originalAgent.hooks,
+      mcp_servers: originalAgent.mcp_servers,
+      strict_mcp_config: originalAgent.strict_mcp_config
     }
 
     return await this.createAgent(cloneData)
@@ -0,0 +1,93 @@
+import { Repository } from 'typeorm'
+import { AgentTrigger } from '../entities/AgentTrigger'
+import { getAgentTriggerRepository } from '../connection'
+
+export interface AgentTriggerCreateData {
+  agent_id: number
+  project_path: string
+  task: string
+  patterns: string
+  debounce_ms?: number
+  cooldown_seconds?: number
+  enabled?: boolean
+}
+
+export interface AgentTriggerUpdateData {
+  project_path?: string
+  task?: string
+  patterns?: string
+  debounce_ms?: number
+  cooldown_seconds?: number
+  enabled?: boolean
+  last_run_id?: number | null
+  last_fired_at?: Date | null
+}
+
+export class AgentTriggerService {
+  private async getRepository(): Promise<Repository<AgentTrigger>> {
+    return await getAgentTriggerRepository()
+  }
+
+  /**
+   * Create a new trigger
+   */
+  async create(data: AgentTriggerCreateData): Promise<AgentTrigger> {
+    const repository = await this.getRepository()
+
+    const trigger = repository.create({
+      ...data,
+      enabled: data.enabled ?? true
+    })
+
+    return await repository.save(trigger)
+  }
+
+  /**
+   * Get all triggers, oldest first
+   */
+  async findAll(): Promise<AgentTrigger[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      order: {
+        created_at: 'ASC'
+      }
+    })
+  }
+
+  /**
+   * Get trigger by ID
+   */
+  async findById(id: number): Promise<AgentTrigger | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Update trigger
+   */
+  async update(id: number, data: AgentTriggerUpdateData): Promise<AgentTrigger | null> {
+    const repository = await this.getRepository()
+
+    const trigger = await repository.findOne({ where: { id } })
+    if (!trigger) {
+      return null
+    }
+
+    Object.assign(trigger, data)
+
+    return await repository.save(trigger)
+  }
+
+  /**
+   * Delete trigger
+   */
+  async delete(id: number): Promise<boolean> {
+    const repository = await this.getRepository()
+
+    const result = await repository.delete(id)
+    return result.affected ? result.affected > 0 : false
+  }
+}
+
+// Global instance
+export const agentTriggerService = new AgentTriggerService()
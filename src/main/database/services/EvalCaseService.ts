@@ -0,0 +1,83 @@
+import { Repository } from 'typeorm'
+import { EvalCase } from '../entities/EvalCase'
+import { getEvalCaseRepository } from '../connection'
+
+export interface EvalCaseCreateData {
+  agent_id: number
+  name: string
+  fixture_path: string
+  task: string
+  assertions: string
+}
+
+export interface EvalCaseUpdateData {
+  name?: string
+  fixture_path?: string
+  task?: string
+  assertions?: string
+}
+
+export class EvalCaseService {
+  private async getRepository(): Promise<Repository<EvalCase>> {
+    return await getEvalCaseRepository()
+  }
+
+  /**
+   * Create a new test case
+   */
+  async create(data: EvalCaseCreateData): Promise<EvalCase> {
+    const repository = await this.getRepository()
+    const evalCase = repository.create(data)
+    return await repository.save(evalCase)
+  }
+
+  /**
+   * Get the test cases of an agent, oldest first
+   */
+  async findByAgentId(agentId: number): Promise<EvalCase[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { agent_id: agentId },
+      order: {
+        created_at: 'ASC'
+      }
+    })
+  }
+
+  /**
+   * Get test case by ID
+   */
+  async findById(id: number): Promise<EvalCase | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Update test case
+   */
+  async update(id: number, data: EvalCaseUpdateData): Promise<EvalCase | null> {
+    const repository = await this.getRepository()
+
+    const evalCase = await repository.findOne({ where: { id } })
+    if (!evalCase) {
+      return null
+    }
+
+    Object.assign(evalCase, data)
+
+    return await repository.save(evalCase)
+  }
+
+  /**
+   * Delete test case
+   */
+  async delete(id: number): Promise<boolean> {
+    const repository = await this.getRepository()
+
+    const result = await repository.delete(id)
+    return result.affected ? result.affected > 0 : false
+  }
+}
+
+// Global instance
+export const evalCaseService = new EvalCaseService()
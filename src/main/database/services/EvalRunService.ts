@@ -0,0 +1,90 @@
+import { Repository } from 'typeorm'
+import { EvalRun } from '../entities/EvalRun'
+import { getEvalRunRepository } from '../connection'
+
+export interface EvalRunCreateData {
+  agent_id: number
+  agent_revision?: number | null
+  case_results: string
+}
+
+export interface EvalRunUpdateData {
+  status?: string
+  case_results?: string
+  passed_count?: number
+  failed_count?: number
+  cost_usd?: number
+  completed_at?: Date | null
+}
+
+export class EvalRunService {
+  private async getRepository(): Promise<Repository<EvalRun>> {
+    return await getEvalRunRepository()
+  }
+
+  /**
+   * Create a new suite run
+   */
+  async create(data: EvalRunCreateData): Promise<EvalRun> {
+    const repository = await this.getRepository()
+
+    const evalRun = repository.create({
+      ...data,
+      status: 'running',
+      passed_count: 0,
+      failed_count: 0,
+      cost_usd: 0
+    })
+
+    return await repository.save(evalRun)
+  }
+
+  /**
+   * Get the suite runs of an agent, newest first
+   */
+  async findByAgentId(agentId: number, limit: number = 50): Promise<EvalRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: { agent_id: agentId },
+      order: {
+        created_at: 'DESC'
+      },
+      take: limit
+    })
+  }
+
+  /**
+   * Get suite run by ID
+   */
+  async findById(id: number): Promise<EvalRun | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Get suite runs with a status
+   */
+  async findByStatus(status: string): Promise<EvalRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({ where: { status } })
+  }
+
+  /**
+   * Update suite run
+   */
+  async update(id: number, data: EvalRunUpdateData): Promise<EvalRun | null> {
+    const repository = await this.getRepository()
+
+    const evalRun = await repository.findOne({ where: { id } })
+    if (!evalRun) {
+      return null
+    }
+
+    Object.assign(evalRun, data)
+
+    return await repository.save(evalRun)
+  }
+}
+
+// Global instance
+export const evalRunService = new EvalRunService()
@@ -0,0 +1,88 @@
+import { Repository } from 'typeorm'
+import { PipelineRun } from '../entities/PipelineRun'
+import { getPipelineRunRepository } from '../connection'
+
+export interface PipelineRunCreateData {
+  pipeline_id: number
+  pipeline_name: string
+  project_path: string
+  step_states: string
+}
+
+export interface PipelineRunUpdateData {
+  status?: string
+  step_states?: string
+  cost_usd?: number
+  worktree_path?: string | null
+  completed_at?: Date | null
+}
+
+export class PipelineRunService {
+  private async getRepository(): Promise<Repository<PipelineRun>> {
+    return await getPipelineRunRepository()
+  }
+
+  /**
+   * Create a new pipeline run
+   */
+  async create(data: PipelineRunCreateData): Promise<PipelineRun> {
+    const repository = await this.getRepository()
+
+    const pipelineRun = repository.create({
+      ...data,
+      status: 'running',
+      cost_usd: 0
+    })
+
+    return await repository.save(pipelineRun)
+  }
+
+  /**
+   * Get pipeline runs, newest first, optionally of one pipeline
+   */
+  async findAll(pipelineId?: number, limit: number = 50): Promise<PipelineRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      where: pipelineId ? { pipeline_id: pipelineId } : {},
+      order: {
+        created_at: 'DESC'
+      },
+      take: limit
+    })
+  }
+
+  /**
+   * Get pipeline run by ID
+   */
+  async findById(id: number): Promise<PipelineRun | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Get pipeline runs with a specific status
+   */
+  async findByStatus(status: string): Promise<PipelineRun[]> {
+    const repository = await this.getRepository()
+    return await repository.find({ where: { status } })
+  }
+
+  /**
+   * Update pipeline run
+   */
+  async update(id: number, data: PipelineRunUpdateData): Promise<PipelineRun | null> {
+    const repository = await this.getRepository()
+
+    const pipelineRun = await repository.findOne({ where: { id } })
+    if (!pipelineRun) {
+      return null
+    }
+
+    Object.assign(pipelineRun, data)
+
+    return await repository.save(pipelineRun)
+  }
+}
+
+// Global instance
+export const pipelineRunService = new PipelineRunService()
@@ -0,0 +1,80 @@
+import { Repository } from 'typeorm'
+import { Pipeline } from '../entities/Pipeline'
+import { getPipelineRepository } from '../connection'
+
+export interface PipelineCreateData {
+  name: string
+  steps: string
+  use_worktree?: boolean
+}
+
+export type PipelineUpdateData = Partial<PipelineCreateData>
+
+export class PipelineService {
+  private async getRepository(): Promise<Repository<Pipeline>> {
+    return await getPipelineRepository()
+  }
+
+  /**
+   * Create a new pipeline
+   */
+  async create(data: PipelineCreateData): Promise<Pipeline> {
+    const repository = await this.getRepository()
+
+    const pipeline = repository.create({
+      ...data,
+      use_worktree: data.use_worktree ?? false
+    })
+
+    return await repository.save(pipeline)
+  }
+
+  /**
+   * Get all pipelines, newest first
+   */
+  async findAll(): Promise<Pipeline[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      order: {
+        created_at: 'DESC'
+      }
+    })
+  }
+
+  /**
+   * Get pipeline by ID
+   */
+  async findById(id: number): Promise<Pipeline | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Update pipeline
+   */
+  async update(id: number, data: PipelineUpdateData): Promise<Pipeline | null> {
+    const repository = await this.getRepository()
+
+    const pipeline = await repository.findOne({ where: { id } })
+    if (!pipeline) {
+      return null
+    }
+
+    Object.assign(pipeline, data)
+
+    return await repository.save(pipeline)
+  }
+
+  /**
+   * Delete pipeline
+   */
+  async delete(id: number): Promise<boolean> {
+    const repository = await this.getRepository()
+
+    const result = await repository.delete(id)
+    return result.affected ? result.affected > 0 : false
+  }
+}
+
+// Global instance
+export const pipelineService = new PipelineService()
@@ -0,0 +1,92 @@
+import { Repository } from 'typeorm'
+import { RegistrySource } from '../entities/RegistrySource'
+import { getRegistrySourceRepository } from '../connection'
+import type { RegistrySourceType } from '../../registry/types'
+
+export interface RegistrySourceCreateData {
+  name: string
+  type: RegistrySourceType
+  location: string
+  ref?: string | null
+  subdirectory?: string | null
+  enabled?: boolean
+}
+
+export interface RegistrySourceUpdateData {
+  name?: string
+  location?: string
+  ref?: string | null
+  subdirectory?: string | null
+  enabled?: boolean
+  last_synced_at?: Date | null
+  last_error?: string | null
+}
+
+export class RegistrySourceService {
+  private async getRepository(): Promise<Repository<RegistrySource>> {
+    return await getRegistrySourceRepository()
+  }
+
+  /**
+   * Create a new source
+   */
+  async create(data: RegistrySourceCreateData): Promise<RegistrySource> {
+    const repository = await this.getRepository()
+
+    const source = repository.create({
+      ...data,
+      enabled: data.enabled ?? true
+    })
+
+    return await repository.save(source)
+  }
+
+  /**
+   * Get all sources, oldest first
+   */
+  async findAll(): Promise<RegistrySource[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      order: {
+        created_at: 'ASC'
+      }
+    })
+  }
+
+  /**
+   * Get source by ID
+   */
+  async findById(id: number): Promise<RegistrySource | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+
+  /**
+   * Update source
+   */
+  async update(id: number, data: RegistrySourceUpdateData): Promise<RegistrySource | null> {
+    const repository = await this.getRepository()
+
+    const source = await repository.findOne({ where: { id } })
+    if (!source) {
+      return null
+    }
+
+    Object.assign(source, data)
+
+    return await repository.save(source)
+  }
+
+  /**
+   * Delete source
+   */
+  async delete(id: number): Promise<boolean> {
+    const repository = await this.getRepository()
+
+    const result = await repository.delete(id)
+    return result.affected ? result.affected > 0 : false
+  }
+}
+
+// Global instance
+export const registrySourceService = new RegistrySourceService()
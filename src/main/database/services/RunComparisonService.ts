@@ -0,0 +1,45 @@
+import { Repository } from 'typeorm'
+import { RunComparison } from '../entities/RunComparison'
+import { getRunComparisonRepository } from '../connection'
+
+export interface RunComparisonCreateData {
+  task: string
+  project_path: string
+}
+
+export class RunComparisonService {
+  private async getRepository(): Promise<Repository<RunComparison>> {
+    return await getRunComparisonRepository()
+  }
+
+  /**
+   * Create a new comparison
+   */
+  async create(data: RunComparisonCreateData): Promise<RunComparison> {
+    const repository = await this.getRepository()
+    const comparison = repository.create(data)
+    return await repository.save(comparison)
+  }
+
+  /**
+   * Get the latest comparisons, newest first
+   */
+  async findAll(limit: number = 50): Promise<RunComparison[]> {
+    const repository = await this.getRepository()
+    return await repository.find({
+      order: { created_at: 'DESC' },
+      take: limit
+    })
+  }
+
+  /**
+   * Get comparison by ID
+   */
+  async findById(id: number): Promise<RunComparison | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { id } })
+  }
+}
+
+// Global instance
+export const runComparisonService = new RunComparisonService()
@@ -0,0 +1,92 @@
+import { Repository } from 'typeorm'
+import { SubagentLink, type SubagentScope } from '../entities/SubagentLink'
+import { getSubagentLinkRepository } from '../connection'
+
+export interface SubagentLinkCreateData {
+  agent_id: number
+  scope: SubagentScope
+  project_path?: string | null
+  file_path: string
+  live_sync?: boolean
+  file_mtime_ms: number
+  agent_updated_ms: number
+}
+
+export interface SubagentLinkUpdateData {
+  live_sync?: boolean
+  file_mtime_ms?: number
+  agent_updated_ms?: number
+}
+
+export class SubagentLinkService {
+  private async getRepository(): Promise<Repository<SubagentLink>> {
+    return await getSubagentLinkRepository()
+  }
+
+  /**
+   * Create a new link
+   */
+  async create(data: SubagentLinkCreateData): Promise<SubagentLink> {
+    const repository = await this.getRepository()
+
+    const link = repository.create({
+      ...data,
+      live_sync: data.live_sync ?? false
+    })
+
+    return await repository.save(link)
+  }
+
+  /**
+   * Get all links
+   */
+  async findAll(): Promise<SubagentLink[]> {
+    const repository = await this.getRepository()
+    return await repository.find()
+  }
+
+  /**
+   * Get the link of an agent
+   */
+  async findByAgentId(agentId: number): Promise<SubagentLink | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { agent_id: agentId } })
+  }
+
+  /**
+   * Get the link of a subagent file
+   */
+  async findByFilePath(filePath: string): Promise<SubagentLink | null> {
+    const repository = await this.getRepository()
+    return await repository.findOne({ where: { file_path: filePath } })
+  }
+
+  /**
+   * Update link
+   */
+  async update(id: number, data: SubagentLinkUpdateData): Promise<SubagentLink | null> {
+    const repository = await this.getRepository()
+
+    const link = await repository.findOne({ where: { id } })
+    if (!link) {
+      return null
+    }
+
+    Object.assign(link, data)
+
+    return await repository.save(link)
+  }
+
+  /**
+   * Delete link
+   */
+  async delete(id: number): Promise<boolean> {
+    const repository = await this.getRepository()
+
+    const result = await repository.delete(id)
+    return result.affected ? result.affected > 0 : false
+  }
+}
+
+// Global instance
+export const subagentLinkService = new SubagentLinkService()
@@ -1,11 +1,34 @@
 export { AgentService, agentService } from './AgentService'
 export { AgentRunService, agentRunService } from './AgentRunService'
 export { AppSettingsService, appSettingsService } from './AppSettingsService'
+export { AgentScheduleService, agentScheduleService } from './AgentScheduleService'
+export { PipelineService, pipelineService } from './PipelineService'
+export { PipelineRunService, pipelineRunService } from './PipelineRunService'
+export { AgentTriggerService, agentTriggerService } from './AgentTriggerService'
+export { SubagentLinkService, subagentLinkService } from './SubagentLinkService'
+export { RegistrySourceService, registrySourceService } from './RegistrySourceService'
+export { AgentRevisionService, agentRevisionService, getRevisionData } from './AgentRevisionService'
+export { EvalCaseService, evalCaseService } from './EvalCaseService'
+export { EvalRunService, evalRunService } from './EvalRunService'
+export { RunComparisonService, runComparisonService } from './RunComparisonService'
 
 export type { AgentCreateData, AgentUpdateData } from './AgentService'
 export type {
   AgentRunCreateData,
   AgentRunUpdateData,
   AgentRunMetrics,
-  AgentRunWithMetrics
+  AgentRunWithMetrics,
+  AgentRunQuery,
+  AgentRunSortField,
+  AgentRunPage
 } from './AgentRunService'
+export type { AgentScheduleCreateData, AgentScheduleUpdateData } from './AgentScheduleService'
+export type { PipelineCreateData, PipelineUpdateData } from './PipelineService'
+export type { PipelineRunCreateData, PipelineRunUpdateData } from './PipelineRunService'
+export type { AgentTriggerCreateData, AgentTriggerUpdateData } from './AgentTriggerService'
+export type { SubagentLinkCreateData, SubagentLinkUpdateData } from './SubagentLinkService'
+export type { RegistrySourceCreateData, RegistrySourceUpdateData } from './RegistrySourceService'
+export type { AgentRevisionCreateData, AgentRevisionData } from './AgentRevisionService'
+export type { EvalCaseCreateData, EvalCaseUpdateData } from './EvalCaseService'
+export type { EvalRunCreateData, EvalRunUpdateData } from './EvalRunService'
+export type { RunComparisonCreateData } from './RunComparisonService'
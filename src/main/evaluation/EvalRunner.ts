@@ -0,0 +1,324 @@
+import { BrowserWindow } from 'electron'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { agentService, evalCaseService, evalRunService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+import type { EvalCase } from '../database/entities/EvalCase'
+import type { EvalRun } from '../database/entities/EvalRun'
+import { processManager } from '../process/ProcessManager'
+import { runQueue } from '../process/RunQueue'
+import { budgetEnforcer } from '../process/BudgetEnforcer'
+import type { StreamEvent } from '../process/StreamJsonParser'
+import { checkAssertions, parseEvalAssertions } from './assertions'
+import type { EvalAssertion, EvalCaseRequest, EvalCaseResult } from './types'
+
+/**
+ * Queues the agent run of a test case
+ */
+export type EvalCaseStarter = (
+  request: EvalCaseRequest
+) => Promise<{ run: AgentRun; processRunId: number }>
+
+/**
+ * Output collected from the process of a test case that's running
+ */
+interface ActiveCase {
+  evalRunId: number
+  caseId: number
+  toolsUsed: Set<string>
+  costUsd: number
+  isError: boolean
+}
+
+/**
+ * A suite run in progress
+ */
+interface RunningSuite {
+  row: EvalRun
+  assertions: Map<number, EvalAssertion[]>
+  results: Record<number, EvalCaseResult>
+  cancelled: boolean
+}
+
+/**
+ * Runs the evaluation suites of agents. Each test case is an ordinary agent run going
+ * through the run queue, in a fresh copy of the case's fixture directory; once its
+ * process has exited, the case's assertions are checked against the copy and what the
+ * run's stream reported. Cases of a suite are queued together, so they run as far in
+ * parallel as the run queue allows.
+ */
+export class EvalRunner {
+  private starter: EvalCaseStarter | null = null
+  private browserWindow: BrowserWindow | null = null
+  private running: Map<number, RunningSuite> = new Map()
+  private activeCases: Map<number, ActiveCase> = new Map()
+  private started = false
+
+  /**
+   * Set the browser window for suite run change notifications
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Set the function that queues the agent run of a test case
+   */
+  setStarter(starter: EvalCaseStarter): void {
+    this.starter = starter
+  }
+
+  /**
+   * Follow the processes of test cases. Suite runs left running by a previous app
+   * instance are marked 'interrupted', as their cases were.
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    processManager.on('processEvent', ({ runId, event }) => {
+      const active = this.activeCases.get(runId)
+      if (active) this.collectOutput(active, event)
+    })
+
+    processManager.on('processCompleted', ({ runId, result }) => {
+      const active = this.activeCases.get(runId)
+      this.finishCase(runId, result.exitCode === 0 && !active?.isError ? 'completed' : 'failed')
+    })
+    processManager.on('processError', ({ runId }) => this.finishCase(runId, 'failed'))
+    processManager.on('processKilled', ({ runId }) => this.finishCase(runId, 'cancelled'))
+
+    runQueue.on('runDropped', ({ processRunId, status }) => {
+      this.finishCase(processRunId, status === 'cancelled' ? 'cancelled' : 'failed')
+    })
+
+    for (const evalRun of await evalRunService.findByStatus('running')) {
+      await evalRunService.update(evalRun.id, { status: 'interrupted', completed_at: new Date() })
+    }
+  }
+
+  /**
+   * Start a run of an agent's suite and return the suite run
+   */
+  async run(agentId: number): Promise<EvalRun> {
+    const agent = await agentService.findById(agentId)
+    if (!agent) {
+      throw new Error('Agent not found')
+    }
+    const cases = await evalCaseService.findByAgentId(agentId)
+    if (cases.length === 0) {
+      throw new Error('This agent has no test cases')
+    }
+
+    const assertions = new Map(
+      cases.map((evalCase) => [evalCase.id, parseEvalAssertions(evalCase.assertions)])
+    )
+    const results: Record<number, EvalCaseResult> = Object.fromEntries(
+      cases.map((evalCase) => [evalCase.id, { status: 'pending' }])
+    )
+
+    const row = await evalRunService.create({
+      agent_id: agentId,
+      agent_revision: agent.revision || null,
+      case_results: JSON.stringify(results)
+    })
+
+    const suite: RunningSuite = { row, assertions, results, cancelled: false }
+    this.running.set(row.id, suite)
+    console.log(
+      '[EvalRunner] Suite run',
+      row.id,
+      'of agent',
+      agentId,
+      'with',
+      cases.length,
+      'cases'
+    )
+
+    for (const evalCase of cases) {
+      await this.startCase(suite, evalCase)
+    }
+    await this.saveResults(suite)
+    // Cases that all failed to start, or a cancel while starting, leave nothing to wait for
+    await this.finishSuiteIfDone(suite)
+    return row
+  }
+
+  /**
+   * Stop a suite run, cancelling the cases that haven't finished
+   */
+  async cancel(evalRunId: number): Promise<boolean> {
+    const suite = this.running.get(evalRunId)
+    if (!suite) return false
+
+    suite.cancelled = true
+
+    for (const result of Object.values(suite.results)) {
+      if (result.status === 'pending') {
+        result.status = 'cancelled'
+      } else if (result.status === 'running' && result.process_run_id !== undefined) {
+        if (!(await runQueue.cancel(result.process_run_id))) {
+          await processManager.killProcess(result.process_run_id)
+        }
+      }
+    }
+
+    await this.finishSuiteIfDone(suite)
+    return true
+  }
+
+  private async startCase(suite: RunningSuite, evalCase: EvalCase): Promise<void> {
+    const result = suite.results[evalCase.id]
+    if (suite.cancelled) {
+      result.status = 'cancelled'
+      return
+    }
+
+    try {
+      if (!this.starter) {
+        throw new Error('Agent runs cannot be started yet')
+      }
+
+      // Each run gets its own copy, so agents can change the fixture freely
+      const workDir = await fs.mkdtemp(join(tmpdir(), `claudiatron-eval-${suite.row.id}-`))
+      await fs.cp(evalCase.fixture_path, workDir, { recursive: true })
+      result.work_dir = workDir
+
+      const { run, processRunId } = await this.starter({
+        agentId: suite.row.agent_id,
+        projectPath: workDir,
+        task: evalCase.task,
+        evalRunId: suite.row.id
+      })
+
+      // The suite was cancelled while the run was being queued
+      if (suite.cancelled) {
+        if (!(await runQueue.cancel(processRunId))) {
+          await processManager.killProcess(processRunId)
+        }
+        result.status = 'cancelled'
+        return
+      }
+
+      Object.assign(result, { status: 'running', run_id: run.id, process_run_id: processRunId })
+      this.activeCases.set(processRunId, {
+        evalRunId: suite.row.id,
+        caseId: evalCase.id,
+        toolsUsed: new Set(),
+        costUsd: 0,
+        isError: false
+      })
+    } catch (error) {
+      console.error('[EvalRunner] Failed to start case', evalCase.id, error)
+      result.status = 'failed'
+      result.error = error instanceof Error ? error.message : 'Failed to start test case'
+    }
+  }
+
+  private collectOutput(active: ActiveCase, event: StreamEvent): void {
+    if (event.type === 'tool_use') {
+      active.toolsUsed.add(event.name)
+    } else if (event.type === 'result') {
+      const { total_cost_usd, cost_usd, is_error } = event.message
+      active.costUsd = Number(total_cost_usd ?? cost_usd) || 0
+      active.isError = !!is_error
+    }
+  }
+
+  private finishCase(processRunId: number, status: 'completed' | 'failed' | 'cancelled'): void {
+    const active = this.activeCases.get(processRunId)
+    if (!active) return
+    this.activeCases.delete(processRunId)
+
+    this.completeCase(active, processRunId, status).catch((error) => {
+      console.error('[EvalRunner] Failed to finish case', active.caseId, error)
+    })
+  }
+
+  private async completeCase(
+    active: ActiveCase,
+    processRunId: number,
+    status: 'completed' | 'failed' | 'cancelled'
+  ): Promise<void> {
+    const suite = this.running.get(active.evalRunId)
+    if (!suite) return
+
+    const result = suite.results[active.caseId]
+    result.cost_usd = active.costUsd
+    // Read before anything is awaited, as the budget enforcer forgets the run after its exit
+    const exceededLimit = budgetEnforcer.getExceededLimit(processRunId)
+
+    if (status === 'cancelled') {
+      result.status = 'cancelled'
+    } else {
+      const workDir = result.work_dir!
+      result.assertions = await checkAssertions(suite.assertions.get(active.caseId) || [], {
+        workDir,
+        toolsUsed: active.toolsUsed,
+        costUsd: active.costUsd
+      })
+
+      if (exceededLimit) {
+        result.error = `Stopped by the ${exceededLimit} budget`
+      } else if (status === 'failed') {
+        result.error = 'The agent run failed'
+      }
+
+      const passed = !result.error && result.assertions.every((assertion) => assertion.passed)
+      result.status = passed ? 'passed' : 'failed'
+
+      // Failed cases keep their copy to look into
+      if (passed) {
+        await fs.rm(workDir, { recursive: true, force: true })
+        delete result.work_dir
+      }
+    }
+
+    console.log('[EvalRunner] Case', active.caseId, 'of suite run', suite.row.id, result.status)
+    await this.saveResults(suite)
+    await this.finishSuiteIfDone(suite)
+  }
+
+  private async finishSuiteIfDone(suite: RunningSuite): Promise<void> {
+    const results = Object.values(suite.results)
+    if (results.some((result) => result.status === 'pending' || result.status === 'running')) {
+      return
+    }
+    if (!this.running.delete(suite.row.id)) return
+
+    const status = suite.cancelled ? 'cancelled' : 'completed'
+    await evalRunService.update(suite.row.id, {
+      ...this.getSummary(suite),
+      status,
+      completed_at: new Date()
+    })
+
+    console.log('[EvalRunner] Suite run', suite.row.id, 'finished as', status)
+    this.send('eval-runs-changed', suite.row.id)
+  }
+
+  private async saveResults(suite: RunningSuite): Promise<void> {
+    await evalRunService.update(suite.row.id, this.getSummary(suite))
+    this.send('eval-runs-changed', suite.row.id)
+  }
+
+  private getSummary(suite: RunningSuite) {
+    const results = Object.values(suite.results)
+    return {
+      case_results: JSON.stringify(suite.results),
+      passed_count: results.filter((result) => result.status === 'passed').length,
+      failed_count: results.filter((result) => result.status === 'failed').length,
+      cost_usd: results.reduce((total, result) => total + (result.cost_usd || 0), 0)
+    }
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const evalRunner = new EvalRunner()
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs'
+import { isAbsolute, relative, resolve } from 'path'
+import { execa } from 'execa'
+import type { EvalAssertion, EvalAssertionResult } from './types'
+
+// Longest a check command may take before it counts as failed
+const COMMAND_TIMEOUT_MS = 5 * 60 * 1000
+
+// Most output of a failed check command kept in its message
+const MAX_COMMAND_OUTPUT = 2000
+
+/**
+ * What a finished test case run did, for its assertions to check
+ */
+export interface EvalOutcome {
+  /** Copy of the fixture the case ran in */
+  workDir: string
+  toolsUsed: Set<string>
+  costUsd: number
+}
+
+/**
+ * Parse and check the assertions of a test case
+ */
+export function parseEvalAssertions(json: string): EvalAssertion[] {
+  const assertions = JSON.parse(json)
+  if (!Array.isArray(assertions)) {
+    throw new Error('Assertions must be a list')
+  }
+
+  for (const assertion of assertions) {
+    const missing = (field: string) => new Error(`A ${assertion.type} assertion needs a ${field}`)
+
+    switch (assertion?.type) {
+      case 'file_exists':
+        if (!assertion.path) throw missing('path')
+        break
+      case 'file_contains':
+        if (!assertion.path) throw missing('path')
+        if (!assertion.text) throw missing('text')
+        break
+      case 'command':
+        if (!assertion.command?.trim()) throw missing('command')
+        break
+      case 'tool_used':
+        if (!assertion.tool) throw missing('tool')
+        break
+      case 'max_cost':
+        if (typeof assertion.usd !== 'number' || assertion.usd < 0) throw missing('limit')
+        break
+      default:
+        throw new Error(`Unknown assertion type: ${assertion?.type}`)
+    }
+  }
+  return assertions
+}
+
+// Path of a file in the fixture copy; paths leaving it are refused
+function resolveInWorkDir(workDir: string, path: string): string {
+  const resolved = resolve(workDir, path)
+  const relativePath = relative(workDir, resolved)
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new Error(`${path} is outside the fixture`)
+  }
+  return resolved
+}
+
+async function checkAssertion(
+  assertion: EvalAssertion,
+  outcome: EvalOutcome
+): Promise<EvalAssertionResult> {
+  switch (assertion.type) {
+    case 'file_exists': {
+      const stats = await fs
+        .stat(resolveInWorkDir(outcome.workDir, assertion.path))
+        .catch(() => null)
+      return stats ? { passed: true } : { passed: false, message: `${assertion.path} not found` }
+    }
+    case 'file_contains': {
+      const path = resolveInWorkDir(outcome.workDir, assertion.path)
+      const content = await fs.readFile(path, 'utf-8').catch(() => null)
+      if (content === null) {
+        return { passed: false, message: `${assertion.path} not found` }
+      }
+      return content.includes(assertion.text)
+        ? { passed: true }
+        : { passed: false, message: `${assertion.path} does not contain the text` }
+    }
+    case 'command': {
+      const result = await execa(assertion.command, {
+        cwd: outcome.workDir,
+        shell: true,
+        reject: false,
+        all: true,
+        timeout: COMMAND_TIMEOUT_MS
+      })
+      if (result.exitCode === 0) return { passed: true }
+      return {
+        passed: false,
+        message: result.timedOut
+          ? 'Command timed out'
+          : `Exited with ${result.exitCode ?? 'a signal'}: ${(result.all || '').slice(-MAX_COMMAND_OUTPUT)}`
+      }
+    }
+    case 'tool_used':
+      return outcome.toolsUsed.has(assertion.tool)
+        ? { passed: true }
+        : { passed: false, message: `${assertion.tool} was not used` }
+    case 'max_cost':
+      return outcome.costUsd <= assertion.usd
+        ? { passed: true }
+        : { passed: false, message: `Cost $${outcome.costUsd.toFixed(4)}` }
+  }
+}
+
+/**
+ * Check the assertions of a test case against what its run did
+ */
+export async function checkAssertions(
+  assertions: EvalAssertion[],
+  outcome: EvalOutcome
+): Promise<EvalAssertionResult[]> {
+  const results: EvalAssertionResult[] = []
+  for (const assertion of assertions) {
+    try {
+      results.push(await checkAssertion(assertion, outcome))
+    } catch (error) {
+      results.push({
+        passed: false,
+        message: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+  return results
+}
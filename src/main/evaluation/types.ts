@@ -0,0 +1,60 @@
+/**
+ * Agent evaluation - type definitions
+ *
+ * Mirrors the evaluation types exposed to the renderer in `lib/api.ts`.
+ */
+
+/**
+ * What a test case checks once its run has finished. Paths are relative to the run's
+ * copy of the fixture.
+ * - file_exists: the file exists
+ * - file_contains: the file contains the text
+ * - command: the shell command exits with 0, run in the fixture copy
+ * - tool_used: the agent used the tool at least once
+ * - max_cost: the run cost at most this many USD
+ */
+export type EvalAssertion =
+  | { type: 'file_exists'; path: string }
+  | { type: 'file_contains'; path: string; text: string }
+  | { type: 'command'; command: string }
+  | { type: 'tool_used'; tool: string }
+  | { type: 'max_cost'; usd: number }
+
+/**
+ * Outcome of one assertion
+ */
+export interface EvalAssertionResult {
+  passed: boolean
+  /** Why the assertion failed */
+  message?: string
+}
+
+export type EvalCaseStatus = 'pending' | 'running' | 'passed' | 'failed' | 'cancelled'
+
+/**
+ * Progress and outcome of one test case in a suite run
+ */
+export interface EvalCaseResult {
+  status: EvalCaseStatus
+  /** ID of the case's `AgentRun` */
+  run_id?: number
+  /** Run ID the case's output is sent under */
+  process_run_id?: number
+  /** Copy of the fixture the case ran in; kept for failed cases */
+  work_dir?: string
+  /** Outcome of each assertion, in the order of the case's assertions */
+  assertions?: EvalAssertionResult[]
+  cost_usd?: number
+  /** Why the run itself failed */
+  error?: string
+}
+
+/**
+ * What to queue for one test case
+ */
+export interface EvalCaseRequest {
+  agentId: number
+  projectPath: string
+  task: string
+  evalRunId: number
+}
@@ -10,8 +10,29 @@ import { setupStorageHandlers } from './api/storage'
 import { setupUsageHandlers } from './api/usage'
 import { setupHooksHandlers } from './api/hooks'
 import { setupSlashCommandsHandlers } from './api/slashCommands'
+import { setupCheckpointHandlers } from './api/checkpoints'
+import { setupPermissionHandlers } from './api/permissions'
+import { setupSchedulesHandlers } from './api/schedules'
+import { setupPipelinesHandlers } from './api/pipelines'
+import { setupTriggersHandlers } from './api/triggers'
+import { setupSubagentsHandlers } from './api/subagents'
+import { setupRegistryHandlers } from './api/registry'
+import { setupEvaluationsHandlers } from './api/evaluations'
 import { databaseManager } from './database/connection'
 import { processManager } from './process/ProcessManager'
+import { runRecovery } from './process/RunRecovery'
+import { runMetricsRecorder } from './process/RunMetricsRecorder'
+import { runQueue } from './process/RunQueue'
+import { budgetEnforcer } from './process/BudgetEnforcer'
+import { runSettingsLayer } from './process/RunSettingsLayer'
+import { scheduler } from './schedule/Scheduler'
+import { pipelineRunner } from './pipeline/PipelineRunner'
+import { triggerWatcher } from './trigger/TriggerWatcher'
+import { evalRunner } from './evaluation/EvalRunner'
+import { subagentSync } from './subagent/SubagentSync'
+import { autoCheckpointer } from './checkpoint/AutoCheckpointer'
+import { checkpointGate } from './checkpoint/CheckpointGate'
+import { permissionPromptServer } from './permission/PermissionPromptServer'
 import { loadShellEnvironment } from './utils/shellEnv'
 
 function createWindow(): BrowserWindow {
@@ -72,6 +93,13 @@ app.whenReady().then(async () => {
     console.error('Failed to initialize database:', error)
   }
 
+  // Settle agent runs left unfinished by the previous app instance
+  try {
+    await runRecovery.reconcile()
+  } catch (error) {
+    console.error('Failed to reconcile agent runs:', error)
+  }
+
   // Default open or close DevTools by F12 in development
   // and ignore CommandOrControl + R in production.
   // see https://github.com/alex8088/electron-toolkit/tree/master/packages/utils
@@ -90,6 +118,14 @@ app.whenReady().then(async () => {
   setupUsageHandlers()
   setupHooksHandlers()
   setupSlashCommandsHandlers()
+  setupCheckpointHandlers()
+  setupPermissionHandlers()
+  setupSchedulesHandlers()
+  setupPipelinesHandlers()
+  setupTriggersHandlers()
+  setupSubagentsHandlers()
+  setupRegistryHandlers()
+  setupEvaluationsHandlers()
 
   // Register frameless window IPC for window controls
   optimizer.registerFramelessWindowIpc()
@@ -99,12 +135,82 @@ app.whenReady().then(async () => {
   // Set the browser window for process manager
   processManager.setBrowserWindow(mainWindow)
 
+  // Create automatic checkpoints from Claude Code output, before tool uses through the gate
+  autoCheckpointer.start()
+  checkpointGate.start()
+
+  // Record agent run status and spool run output to disk
+  runRecovery.setBrowserWindow(mainWindow)
+  runRecovery.start()
+
+  // Store the metrics of finished agent runs, backfilling runs recorded without them
+  runMetricsRecorder.setBrowserWindow(mainWindow)
+  runMetricsRecorder.start().catch((error) => {
+    console.error('Failed to backfill agent run metrics:', error)
+  })
+
+  // Stop agent runs that go over their cost, token, turn or time budget
+  budgetEnforcer.start()
+
+  // Load agent hooks through run-scoped settings files instead of the project's settings
+  runSettingsLayer.start()
+
+  // Start queued agent runs within the concurrency limits, including runs queued before a restart
+  runQueue.setBrowserWindow(mainWindow)
+  runQueue.start()
+  runQueue.restore().catch((error) => {
+    console.error('Failed to restore queued agent runs:', error)
+  })
+
+  // Start agent runs on their cron schedules
+  scheduler.setBrowserWindow(mainWindow)
+  scheduler.start().catch((error) => {
+    console.error('Failed to start agent scheduler:', error)
+  })
+
+  // Run the steps of agent pipelines one after another
+  pipelineRunner.setBrowserWindow(mainWindow)
+  pipelineRunner.start().catch((error) => {
+    console.error('Failed to start pipeline runner:', error)
+  })
+
+  // Run agent test cases and check their assertions
+  evalRunner.setBrowserWindow(mainWindow)
+  evalRunner.start().catch((error) => {
+    console.error('Failed to start eval runner:', error)
+  })
+
+  // Start agent runs when watched project files change
+  triggerWatcher.setBrowserWindow(mainWindow)
+  triggerWatcher.start().catch((error) => {
+    console.error('Failed to start trigger watcher:', error)
+  })
+
+  // Keep agents in step with the Claude Code subagent files they are synced with
+  subagentSync.setBrowserWindow(mainWindow)
+  subagentSync.start().catch((error) => {
+    console.error('Failed to start subagent sync:', error)
+  })
+
+  // Forward tool permission prompts to the window
+  permissionPromptServer.setBrowserWindow(mainWindow)
+  permissionPromptServer.start()
+
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
     // dock icon is clicked and there are no other windows open.
     if (BrowserWindow.getAllWindows().length === 0) {
       const window = createWindow()
       processManager.setBrowserWindow(window)
+      permissionPromptServer.setBrowserWindow(window)
+      runRecovery.setBrowserWindow(window)
+      runMetricsRecorder.setBrowserWindow(window)
+      runQueue.setBrowserWindow(window)
+      scheduler.setBrowserWindow(window)
+      pipelineRunner.setBrowserWindow(window)
+      triggerWatcher.setBrowserWindow(window)
+      evalRunner.setBrowserWindow(window)
+      subagentSync.setBrowserWindow(window)
     }
   })
 })
@@ -131,6 +237,9 @@ app.on('before-quit', async () => {
       await processManager.killProcess(process.runId)
     }
 
+    await permissionPromptServer.stop()
+    await checkpointGate.stop()
+
     // Close database connection
     await databaseManager.close()
     console.log('Cleanup completed')
@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+import type { Agent } from '../database/entities/Agent'
+import { listMCPServers } from '../api/mcp'
+
+/**
+ * Server entry of an MCP config, as in `.mcp.json` and `--mcp-config`
+ */
+export interface McpServerConfig {
+  type?: 'stdio' | 'sse' | 'http'
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  url?: string
+  headers?: Record<string, string>
+}
+
+/**
+ * MCP server an agent needs. Servers without a config refer to the server of that name
+ * configured in Claude Code on this machine; the others are defined inline.
+ */
+export interface AgentMcpServer {
+  name: string
+  config?: McpServerConfig
+}
+
+type McpServerSet = Record<string, McpServerConfig>
+
+/**
+ * Parse the JSON MCP server set of an agent; null means the agent declares none
+ */
+export function parseAgentMcpServers(json: string | null | undefined): AgentMcpServer[] | null {
+  if (!json) return null
+
+  const servers = JSON.parse(json)
+  if (!Array.isArray(servers)) {
+    throw new Error('MCP servers must be a list')
+  }
+
+  const names = new Set<string>()
+  for (const server of servers) {
+    if (typeof server?.name !== 'string' || !server.name.trim()) {
+      throw new Error('Every MCP server needs a name')
+    }
+    if (names.has(server.name)) {
+      throw new Error(`MCP server "${server.name}" is listed more than once`)
+    }
+    names.add(server.name)
+
+    const config = server.config
+    if (config === undefined) continue
+    if (typeof config !== 'object' || config === null) {
+      throw new Error(`MCP server "${server.name}" has an invalid config`)
+    }
+    if (typeof config.command !== 'string' && typeof config.url !== 'string') {
+      throw new Error(`MCP server "${server.name}" needs a command or a url`)
+    }
+  }
+  return servers
+}
+
+async function readServers(path: string, select: (config: any) => unknown): Promise<McpServerSet> {
+  try {
+    const servers = select(JSON.parse(await fs.readFile(path, 'utf-8')))
+    return servers && typeof servers === 'object' ? (servers as McpServerSet) : {}
+  } catch {
+    // Missing or unreadable config
+    return {}
+  }
+}
+
+/**
+ * MCP servers configured in Claude Code for a project: user scoped ones, the project's
+ * `.mcp.json` and local ones, where later scopes override servers of the same name
+ */
+export async function getConfiguredMcpServers(projectPath: string): Promise<McpServerSet> {
+  const claudeConfigPath = join(homedir(), '.claude.json')
+
+  return {
+    ...(await readServers(claudeConfigPath, (config) => config.mcpServers)),
+    ...(await readServers(join(projectPath, '.mcp.json'), (config) => config.mcpServers)),
+    ...(await readServers(claudeConfigPath, (config) => config.projects?.[projectPath]?.mcpServers))
+  }
+}
+
+/**
+ * Claude Code arguments that give a run its agent's MCP servers. Referenced servers are
+ * copied from the project's configuration so they are still available with
+ * `--strict-mcp-config`; references that can't be found are skipped and returned.
+ */
+export async function getAgentMcpArgs(
+  agent: Pick<Agent, 'mcp_servers' | 'strict_mcp_config'>,
+  projectPath: string
+): Promise<{ args: string[]; missing: string[] }> {
+  const servers = parseAgentMcpServers(agent.mcp_servers) || []
+  const configured = servers.some((server) => !server.config)
+    ? await getConfiguredMcpServers(projectPath)
+    : {}
+
+  const mcpServers: McpServerSet = {}
+  const missing: string[] = []
+  for (const server of servers) {
+    const config = server.config || configured[server.name]
+    if (config) {
+      mcpServers[server.name] = config
+    } else {
+      missing.push(server.name)
+    }
+  }
+
+  const args: string[] = []
+  if (Object.keys(mcpServers).length > 0) {
+    args.push('--mcp-config', JSON.stringify({ mcpServers }))
+  }
+  if (agent.strict_mcp_config) {
+    args.push('--strict-mcp-config')
+  }
+  return { args, missing }
+}
+
+/**
+ * Referenced servers of an imported agent that this machine doesn't have configured
+ */
+export async function findMissingMcpServers(json: string | null | undefined): Promise<string[]> {
+  const references = (parseAgentMcpServers(json) || []).filter((server) => !server.config)
+  if (references.length === 0) return []
+
+  const known = (await listMCPServers()).map((server) => server.name)
+  const missing = references
+    .filter((server) => !known.includes(server.name))
+    .map((server) => server.name)
+  if (missing.length > 0) {
+    console.warn('Imported agent refers to MCP servers that are not configured:', missing)
+  }
+  return missing
+}
@@ -0,0 +1,445 @@
+import { app, BrowserWindow } from 'electron'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { randomUUID } from 'crypto'
+import { processManager } from '../process/ProcessManager'
+import { appSettingsService } from '../database/services'
+import { addLocalAllowRule, getAlwaysAllowRule, readLocalAllowRules } from './localSettings'
+import type {
+  PermissionDecision,
+  PermissionMode,
+  PermissionRequest,
+  PermissionRunConfig,
+  ToolApprovalMode
+} from './types'
+
+const SERVER_NAME = 'claudiatron'
+const TOOL_NAME = 'approval_prompt'
+
+// How long a tool use waits for an answer before it's denied, e.g. when the window is gone
+const REQUEST_TIMEOUT_MS = 10 * 60 * 1000
+
+/**
+ * Fully qualified name Claude Code uses for the permission prompt tool
+ */
+export const PERMISSION_PROMPT_TOOL = `mcp__${SERVER_NAME}__${TOOL_NAME}`
+
+const TOOL_DEFINITION = {
+  name: TOOL_NAME,
+  description: 'Ask the Claudiatron user to approve or deny a tool use',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool_name: { type: 'string', description: 'Name of the tool Claude wants to use' },
+      input: { type: 'object', description: 'Input Claude wants to pass to the tool' },
+      tool_use_id: { type: 'string', description: 'Id of the tool use block' }
+    },
+    required: ['tool_name', 'input']
+  }
+}
+
+/**
+ * Answer format expected by `--permission-prompt-tool`
+ */
+type PermissionToolResult =
+  | { behavior: 'allow'; updatedInput: Record<string, any> }
+  | { behavior: 'deny'; message: string }
+
+interface RunRegistration {
+  projectPath: string
+  runId: number | null
+}
+
+interface PendingRequest {
+  token: string
+  request: PermissionRequest
+  resolve: (result: PermissionToolResult) => void
+  timer: NodeJS.Timeout
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: string | number | null
+  method?: string
+  params?: any
+}
+
+/**
+ * Local MCP server hosting the permission prompt tool.
+ *
+ * Every Claude Code process started in prompt mode gets its own URL token, so tool
+ * calls can be matched to the run that made them. Requests are forwarded to the
+ * renderer as `permission-request:<runId>` and stay open until the user answers, the
+ * run's process ends or they time out; the last two deny the tool use.
+ */
+export class PermissionPromptServer {
+  private server: Server | null = null
+  private listening: Promise<number> | null = null
+  private runs: Map<string, RunRegistration> = new Map()
+  private pending: Map<string, PendingRequest> = new Map()
+  private browserWindow: BrowserWindow | null = null
+  private started = false
+
+  /**
+   * Set the browser window for sending IPC events
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Release runs (and deny their open requests) when their process ends
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    const releaseRun = ({ runId }: { runId: number }) => this.releaseRun(runId)
+    processManager.on('processCompleted', releaseRun)
+    processManager.on('processError', releaseRun)
+    processManager.on('processKilled', releaseRun)
+  }
+
+  /**
+   * Stop the HTTP server and deny everything still waiting
+   */
+  async stop(): Promise<void> {
+    for (const runId of new Set([...this.runs.values()].map((run) => run.runId))) {
+      if (runId !== null) this.releaseRun(runId)
+    }
+
+    const server = this.server
+    this.server = null
+    this.listening = null
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+
+  async getApprovalMode(): Promise<ToolApprovalMode> {
+    const value = await appSettingsService.getSetting('tool_approval_mode')
+    return value === 'prompt' ? 'prompt' : 'skip'
+  }
+
+  async setApprovalMode(mode: ToolApprovalMode): Promise<void> {
+    await appSettingsService.setSetting('tool_approval_mode', mode)
+  }
+
+  /**
+   * Build the permission arguments for a Claude Code process about to be spawned.
+   * Without an explicit permission mode the app-wide approval mode decides. Processes
+   * whose allowed tools must hold never skip permissions; in skip mode they are denied
+   * what `--allowedTools` doesn't allow instead of being asked.
+   */
+  async prepareRun(
+    projectPath: string,
+    permissionMode?: PermissionMode,
+    enforceAllowedTools = false
+  ): Promise<PermissionRunConfig> {
+    if (permissionMode === 'bypassPermissions') {
+      return { args: ['--permission-mode', 'bypassPermissions'] }
+    }
+    if (!permissionMode && (await this.getApprovalMode()) !== 'prompt') {
+      return { args: enforceAllowedTools ? [] : ['--dangerously-skip-permissions'] }
+    }
+
+    const port = await this.listen()
+    const token = randomUUID()
+    this.runs.set(token, { projectPath, runId: null })
+
+    const mcpConfig = {
+      mcpServers: {
+        [SERVER_NAME]: { type: 'http', url: `http://127.0.0.1:${port}/mcp/${token}` }
+      }
+    }
+
+    return {
+      token,
+      args: [
+        '--mcp-config',
+        JSON.stringify(mcpConfig),
+        '--permission-prompt-tool',
+        PERMISSION_PROMPT_TOOL,
+        ...(permissionMode ? ['--permission-mode', permissionMode] : [])
+      ]
+    }
+  }
+
+  /**
+   * Bind a prepared token to the run id of the spawned process
+   */
+  attachRun(token: string | undefined, runId: number): void {
+    if (!token) return
+
+    const registration = this.runs.get(token)
+    if (!registration) return
+    registration.runId = runId
+
+    // Requests that arrived before the run id was known
+    for (const pending of this.pending.values()) {
+      if (pending.token === token) {
+        pending.request.runId = runId
+        this.sendToRenderer(`permission-request:${runId}`, pending.request)
+      }
+    }
+  }
+
+  /**
+   * Forget a run and deny whatever it is still waiting on
+   */
+  releaseRun(runId: number): void {
+    for (const [token, registration] of this.runs.entries()) {
+      if (registration.runId !== runId) continue
+
+      for (const [id, pending] of this.pending.entries()) {
+        if (pending.token !== token) continue
+        this.pending.delete(id)
+        clearTimeout(pending.timer)
+        pending.resolve({ behavior: 'deny', message: 'The session ended before approval' })
+        this.sendToRenderer(`permission-resolved:${runId}`, { id, decision: 'deny' })
+      }
+
+      this.runs.delete(token)
+    }
+  }
+
+  /**
+   * Requests still waiting for an answer, optionally for one run only
+   */
+  listPendingRequests(runId?: number): PermissionRequest[] {
+    return [...this.pending.values()]
+      .map((pending) => pending.request)
+      .filter((request) => runId === undefined || request.runId === runId)
+  }
+
+  /**
+   * Answer a pending request. Returns false if it is no longer pending.
+   */
+  async resolveRequest(requestId: string, decision: PermissionDecision): Promise<boolean> {
+    const pending = this.pending.get(requestId)
+    if (!pending) return false
+
+    const { request } = pending
+
+    // The request stays pending when the rule can't be saved, to be answered another way
+    if (decision === 'always_allow') {
+      const rule = getAlwaysAllowRule(request.toolName, request.input)
+      try {
+        await addLocalAllowRule(request.projectPath, rule)
+      } catch (error) {
+        console.error('[PermissionPromptServer] Failed to save allow rule:', rule, error)
+        throw error
+      }
+    }
+
+    if (!this.pending.delete(requestId)) return false
+    clearTimeout(pending.timer)
+
+    pending.resolve(
+      decision === 'deny'
+        ? { behavior: 'deny', message: 'The user denied this tool use' }
+        : { behavior: 'allow', updatedInput: request.input }
+    )
+
+    if (request.runId !== null) {
+      this.sendToRenderer(`permission-resolved:${request.runId}`, { id: requestId, decision })
+    }
+
+    return true
+  }
+
+  private listen(): Promise<number> {
+    if (this.listening) return this.listening
+
+    this.listening = new Promise<number>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handleHttpRequest(req, res).catch((error) => {
+          console.error('[PermissionPromptServer] Failed to handle request:', error)
+          if (!res.headersSent) {
+            res.writeHead(500)
+          }
+          res.end()
+        })
+      })
+
+      server.once('error', (error) => {
+        this.listening = null
+        reject(error)
+      })
+
+      // Only reachable from this machine
+      server.listen(0, '127.0.0.1', () => {
+        const address = server.address()
+        if (!address || typeof address === 'string') {
+          reject(new Error('Permission prompt server has no port'))
+          return
+        }
+        console.log('[PermissionPromptServer] Listening on port', address.port)
+        this.server = server
+        resolve(address.port)
+      })
+    })
+
+    return this.listening
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const match = req.url?.match(/^\/mcp\/([^/?]+)/)
+    const registration = match ? this.runs.get(match[1]) : undefined
+    if (!match || !registration) {
+      res.writeHead(404)
+      res.end()
+      return
+    }
+
+    // Responses are returned inline, so there is no server-sent event stream to open
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' })
+      res.end()
+      return
+    }
+
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+
+    let body: JsonRpcMessage | JsonRpcMessage[]
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+    } catch {
+      this.writeJson(res, {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' }
+      })
+      return
+    }
+
+    const messages = Array.isArray(body) ? body : [body]
+    const responses: object[] = []
+    for (const message of messages) {
+      const response = await this.handleRpcMessage(match[1], registration, message)
+      if (response) responses.push(response)
+    }
+
+    if (responses.length === 0) {
+      res.writeHead(202)
+      res.end()
+      return
+    }
+
+    this.writeJson(res, Array.isArray(body) ? responses : responses[0])
+  }
+
+  private async handleRpcMessage(
+    token: string,
+    registration: RunRegistration,
+    message: JsonRpcMessage
+  ): Promise<object | null> {
+    // Notifications don't get a response
+    if (message.id === undefined) return null
+
+    const reply = (result: object) => ({ jsonrpc: '2.0', id: message.id, result })
+    const fail = (code: number, errorMessage: string) => ({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code, message: errorMessage }
+    })
+
+    switch (message.method) {
+      case 'initialize':
+        return reply({
+          protocolVersion: message.params?.protocolVersion || '2025-03-26',
+          capabilities: { tools: {} },
+          serverInfo: { name: SERVER_NAME, version: app.getVersion() }
+        })
+      case 'ping':
+        return reply({})
+      case 'tools/list':
+        return reply({ tools: [TOOL_DEFINITION] })
+      case 'tools/call': {
+        if (message.params?.name !== TOOL_NAME) {
+          return fail(-32602, `Unknown tool: ${message.params?.name}`)
+        }
+        const result = await this.requestPermission(
+          token,
+          registration,
+          message.params.arguments || {}
+        )
+        return reply({ content: [{ type: 'text', text: JSON.stringify(result) }] })
+      }
+      default:
+        return fail(-32601, `Method not found: ${message.method}`)
+    }
+  }
+
+  private async requestPermission(
+    token: string,
+    registration: RunRegistration,
+    args: Record<string, any>
+  ): Promise<PermissionToolResult> {
+    const toolName = String(args.tool_name || '')
+    const input = args.input && typeof args.input === 'object' ? args.input : {}
+
+    // Rules saved with "always allow" after this process read its settings
+    const allowRules = await readLocalAllowRules(registration.projectPath).catch((error) => {
+      console.warn('[PermissionPromptServer] Failed to read local allow rules:', error)
+      return [] as string[]
+    })
+    if (allowRules.includes(getAlwaysAllowRule(toolName, input))) {
+      return { behavior: 'allow', updatedInput: input }
+    }
+
+    const request: PermissionRequest = {
+      id: randomUUID(),
+      runId: registration.runId,
+      projectPath: registration.projectPath,
+      toolName,
+      input,
+      toolUseId: typeof args.tool_use_id === 'string' ? args.tool_use_id : undefined,
+      createdAt: new Date().toISOString()
+    }
+
+    console.log('[PermissionPromptServer] Permission requested:', {
+      id: request.id,
+      runId: request.runId,
+      toolName
+    })
+
+    return new Promise<PermissionToolResult>((resolve) => {
+      const timer = setTimeout(() => this.expireRequest(request.id), REQUEST_TIMEOUT_MS)
+      this.pending.set(request.id, { token, request, resolve, timer })
+      if (request.runId !== null) {
+        this.sendToRenderer(`permission-request:${request.runId}`, request)
+      }
+    })
+  }
+
+  private expireRequest(requestId: string): void {
+    const pending = this.pending.get(requestId)
+    if (!pending) return
+    this.pending.delete(requestId)
+
+    console.log('[PermissionPromptServer] Permission request timed out:', requestId)
+    pending.resolve({ behavior: 'deny', message: 'No answer was given in time' })
+
+    const { runId } = pending.request
+    if (runId !== null) {
+      this.sendToRenderer(`permission-resolved:${runId}`, { id: requestId, decision: 'deny' })
+    }
+  }
+
+  private writeJson(res: ServerResponse, body: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  private sendToRenderer(channel: string, data: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(channel, data)
+    }
+  }
+}
+
+// Global instance
+export const permissionPromptServer = new PermissionPromptServer()
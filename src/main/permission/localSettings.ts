@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+
+/**
+ * Path of the project's local (git-ignored) Claude Code settings
+ */
+export function getLocalSettingsPath(projectPath: string): string {
+  return join(projectPath, '.claude', 'settings.local.json')
+}
+
+/**
+ * Settings from the project's settings.local.json, empty when there is none. Throws when
+ * the file can't be read or isn't a JSON object, so it never gets overwritten by a write
+ * that would drop what the user had in it.
+ */
+async function readLocalSettings(projectPath: string): Promise<Record<string, any>> {
+  const settingsPath = getLocalSettingsPath(projectPath)
+
+  let content: string
+  try {
+    content = await fs.readFile(settingsPath, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+
+  let settings: unknown
+  try {
+    settings = JSON.parse(content)
+  } catch (error) {
+    throw new Error(
+      `${settingsPath} is not valid JSON: ${error instanceof Error ? error.message : error}`
+    )
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error(`${settingsPath} does not contain a JSON object`)
+  }
+  return settings as Record<string, any>
+}
+
+/**
+ * Permission rule that allows this exact tool use from now on. Bash is scoped to the
+ * command; every other tool is allowed as a whole, the way Claude Code's own
+ * "don't ask again" answer does.
+ */
+export function getAlwaysAllowRule(toolName: string, input: Record<string, any>): string {
+  if (toolName === 'Bash' && typeof input?.command === 'string') {
+    return `Bash(${input.command})`
+  }
+  return toolName
+}
+
+/**
+ * Allow rules from the project's settings.local.json
+ */
+export async function readLocalAllowRules(projectPath: string): Promise<string[]> {
+  const settings = await readLocalSettings(projectPath)
+  const allow = settings.permissions?.allow
+  return Array.isArray(allow) ? allow.filter((rule) => typeof rule === 'string') : []
+}
+
+/**
+ * Add an allow rule to the project's settings.local.json, keeping every other setting
+ */
+export async function addLocalAllowRule(projectPath: string, rule: string): Promise<void> {
+  const settings = await readLocalSettings(projectPath)
+  const permissions =
+    settings.permissions && typeof settings.permissions === 'object' ? settings.permissions : {}
+  const allow: string[] = Array.isArray(permissions.allow) ? permissions.allow : []
+
+  if (allow.includes(rule)) return
+
+  settings.permissions = { ...permissions, allow: [...allow, rule] }
+
+  await fs.mkdir(join(projectPath, '.claude'), { recursive: true })
+  await fs.writeFile(getLocalSettingsPath(projectPath), JSON.stringify(settings, null, 2), 'utf-8')
+}
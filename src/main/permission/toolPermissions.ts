@@ -0,0 +1,153 @@
+import type { Agent } from '../database/entities/Agent'
+
+// Built-in Claude Code tools by what they give access to
+export const FILE_READ_TOOLS = ['Read', 'Glob', 'Grep', 'LS', 'NotebookRead']
+export const FILE_WRITE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit']
+export const NETWORK_TOOLS = ['WebFetch', 'WebSearch']
+
+export const BUILT_IN_TOOLS = [
+  'Bash',
+  'BashOutput',
+  'KillShell',
+  ...FILE_READ_TOOLS,
+  ...FILE_WRITE_TOOLS,
+  ...NETWORK_TOOLS,
+  'Task',
+  'TodoWrite',
+  'ExitPlanMode',
+  'SlashCommand'
+]
+
+// Shell commands that reach the network, denied as Bash rules when network access is off
+const NETWORK_COMMANDS = [
+  'curl',
+  'wget',
+  'ssh',
+  'scp',
+  'sftp',
+  'rsync',
+  'ftp',
+  'nc',
+  'telnet',
+  'git clone',
+  'git fetch',
+  'git pull',
+  'git push',
+  'npm install',
+  'npm publish',
+  'npx',
+  'yarn add',
+  'pnpm add',
+  'pip install',
+  'docker pull',
+  'docker push'
+]
+
+/**
+ * Tools a run may use, passed to Claude Code as `--allowedTools` and `--disallowedTools`
+ */
+export interface ToolSet {
+  /** Tools and permission rules used without asking; empty when the agent has no allowlist */
+  allowed: string[]
+  disallowed: string[]
+}
+
+type ToolPermissions = Pick<
+  Agent,
+  'enable_file_read' | 'enable_file_write' | 'enable_network' | 'allowed_tools'
+>
+
+/**
+ * Name of the tool an allowlist entry is for, e.g. 'Bash' for 'Bash(npm test:*)'
+ */
+function getToolName(entry: string): string {
+  return entry.split('(')[0].trim()
+}
+
+/**
+ * Parse the JSON allowlist of an agent; null means no allowlist
+ */
+export function parseToolList(json: string | null | undefined): string[] | null {
+  if (!json) return null
+
+  const tools = JSON.parse(json)
+  if (!Array.isArray(tools) || tools.some((tool) => typeof tool !== 'string')) {
+    throw new Error('Tool allowlist must be a list of tool names or permission rules')
+  }
+  return tools
+}
+
+/**
+ * Work out the tool set of an agent's runs. The file read, file write and network flags
+ * take tools away; an allowlist additionally takes away every built-in tool it doesn't
+ * name. Allowlist entries may be tool names or rules like 'Bash(npm test:*)'.
+ */
+export function resolveToolSet(agent: ToolPermissions): ToolSet {
+  const disallowed = new Set<string>()
+
+  if (!agent.enable_file_read) FILE_READ_TOOLS.forEach((tool) => disallowed.add(tool))
+  if (!agent.enable_file_write) FILE_WRITE_TOOLS.forEach((tool) => disallowed.add(tool))
+  if (!agent.enable_network) {
+    NETWORK_TOOLS.forEach((tool) => disallowed.add(tool))
+    NETWORK_COMMANDS.forEach((command) => disallowed.add(`Bash(${command}:*)`))
+  }
+
+  const allowlist = parseToolList(agent.allowed_tools)
+  if (!allowlist) {
+    return { allowed: [], disallowed: [...disallowed] }
+  }
+
+  const allowedNames = new Set(allowlist.map(getToolName))
+  for (const tool of BUILT_IN_TOOLS) {
+    if (!allowedNames.has(tool)) disallowed.add(tool)
+  }
+
+  return {
+    allowed: allowlist.filter((entry) => !disallowed.has(getToolName(entry))),
+    disallowed: [...disallowed]
+  }
+}
+
+/**
+ * Whether a tool set allows some tools only through rules like 'Bash(npm test:*)'. Such
+ * rules only hold when permissions are checked: with `--dangerously-skip-permissions`
+ * the whole tool would be allowed.
+ */
+export function hasToolRules(toolSet: ToolSet): boolean {
+  const names = new Set(toolSet.allowed.filter((entry) => !entry.includes('(')))
+  return toolSet.allowed.some((entry) => entry.includes('(') && !names.has(getToolName(entry)))
+}
+
+/**
+ * Names of the tools an agent's runs may use, for places that only take tool names
+ * rather than permission rules; null when nothing is taken away. Rules are reduced to
+ * their tool, so e.g. 'Bash(npm test:*)' gives all of Bash, and without an allowlist
+ * only built-in tools are named.
+ */
+export function getEffectiveTools(agent: ToolPermissions): string[] | null {
+  const toolSet = resolveToolSet(agent)
+  if (toolSet.allowed.length > 0) {
+    return [...new Set(toolSet.allowed.map(getToolName))]
+  }
+  if (parseToolList(agent.allowed_tools)) {
+    return []
+  }
+
+  const disallowed = new Set(toolSet.disallowed)
+  if (disallowed.size === 0) return null
+  return BUILT_IN_TOOLS.filter((tool) => !disallowed.has(tool))
+}
+
+/**
+ * Claude Code arguments for a tool set
+ */
+export function getToolArgs(toolSet: ToolSet): string[] {
+  const args: string[] = []
+  if (toolSet.allowed.length > 0) {
+    args.push('--allowedTools', toolSet.allowed.join(','))
+  }
+  if (toolSet.disallowed.length > 0) {
+    args.push('--disallowedTools', toolSet.disallowed.join(','))
+  }
+  return args
+}
@@ -0,0 +1,50 @@
+/**
+ * Tool permission approval - type definitions
+ *
+ * Mirrors the permission types exposed to the renderer in `lib/api.ts`.
+ */
+
+/**
+ * How Claude Code processes started by the app handle tool permissions
+ * - skip: pass `--dangerously-skip-permissions`
+ * - prompt: ask in the app through the permission-prompt MCP tool
+ */
+export type ToolApprovalMode = 'skip' | 'prompt'
+
+/**
+ * Claude Code `--permission-mode` a session can be started in
+ * - default: ask before edits and commands
+ * - acceptEdits: file edits are approved automatically
+ * - plan: read-only; Claude proposes a plan through ExitPlanMode
+ * - bypassPermissions: nothing is asked
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions'
+
+/**
+ * Answer to a tool permission request
+ */
+export type PermissionDecision = 'allow' | 'deny' | 'always_allow'
+
+/**
+ * A tool use waiting for approval
+ */
+export interface PermissionRequest {
+  id: string
+  /** Process the request came from; null until the process is registered */
+  runId: number | null
+  projectPath: string
+  toolName: string
+  input: Record<string, any>
+  /** Id of the matching tool_use block in the stream, when Claude Code provides it */
+  toolUseId?: string
+  createdAt: string
+}
+
+/**
+ * Arguments that configure permission handling for one Claude Code process
+ */
+export interface PermissionRunConfig {
+  args: string[]
+  /** Token identifying the process to the permission server, only set in prompt mode */
+  token?: string
+}
@@ -0,0 +1,399 @@
+import { BrowserWindow } from 'electron'
+import { agentRunService, pipelineRunService, pipelineService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+import type { Pipeline } from '../database/entities/Pipeline'
+import type { PipelineRun } from '../database/entities/PipelineRun'
+import { processManager } from '../process/ProcessManager'
+import { runQueue } from '../process/RunQueue'
+import { budgetEnforcer } from '../process/BudgetEnforcer'
+import type { StreamEvent } from '../process/StreamJsonParser'
+import type {
+  PipelineStep,
+  PipelineStepRequest,
+  PipelineStepState,
+  PipelineStepStatus
+} from './types'
+
+/**
+ * Queues the agent run of a pipeline step
+ */
+export type PipelineStepStarter = (
+  request: PipelineStepRequest
+) => Promise<{ run: AgentRun; processRunId: number }>
+
+// Tools whose file path input counts as a changed file
+const FILE_CHANGING_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit']
+
+/**
+ * Output collected from the process of the step that's running
+ */
+interface ActiveStep {
+  pipelineRunId: number
+  stepId: string
+  result: string
+  changedFiles: Set<string>
+  costUsd: number
+  isError: boolean
+}
+
+/**
+ * A pipeline run in progress
+ */
+interface RunningPipeline {
+  row: PipelineRun
+  steps: PipelineStep[]
+  order: string[]
+  states: Record<string, PipelineStepState>
+  cancelled: boolean
+}
+
+/**
+ * Parse and check the steps of a pipeline, returning them along with the order they
+ * run in. Steps run one at a time, so a DAG is flattened into a topological order that
+ * otherwise keeps the order the steps are listed in.
+ */
+export function parsePipelineSteps(json: string): { steps: PipelineStep[]; order: string[] } {
+  const steps = JSON.parse(json) as PipelineStep[]
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('A pipeline needs at least one step')
+  }
+
+  const ids = new Set<string>()
+  for (const step of steps) {
+    if (!step.id || ids.has(step.id)) {
+      throw new Error(`Step IDs must be unique and not empty: '${step.id}'`)
+    }
+    if (!step.agent_id) {
+      throw new Error(`Step '${step.id}' has no agent`)
+    }
+    ids.add(step.id)
+  }
+
+  // Without explicit dependencies a step runs after the one listed before it
+  const normalized = steps.map((step, index) => ({
+    ...step,
+    depends_on: step.depends_on ?? (index > 0 ? [steps[index - 1].id] : [])
+  }))
+  for (const step of normalized) {
+    const unknown = step.depends_on.find((dependency) => !ids.has(dependency))
+    if (unknown) {
+      throw new Error(`Step '${step.id}' depends on unknown step '${unknown}'`)
+    }
+  }
+
+  const order: string[] = []
+  while (order.length < normalized.length) {
+    const next = normalized.find(
+      (step) =>
+        !order.includes(step.id) &&
+        step.depends_on.every((dependency) => order.includes(dependency))
+    )
+    if (!next) {
+      throw new Error('Pipeline steps depend on each other in a cycle')
+    }
+    order.push(next.id)
+  }
+
+  return { steps: normalized, order }
+}
+
+function formatChangedFiles(files: string[] | undefined): string {
+  return files && files.length > 0 ? files.map((file) => `- ${file}`).join('\n') : '(none)'
+}
+
+/**
+ * Fill in the output of earlier steps in a step's task
+ */
+function renderTask(
+  step: PipelineStep,
+  order: string[],
+  states: Record<string, PipelineStepState>
+): string {
+  // The dependency that ran last is the step's "previous" one
+  const previousId = [...(step.depends_on || [])].sort(
+    (a, b) => order.indexOf(b) - order.indexOf(a)
+  )[0]
+  const previous = previousId ? states[previousId] : undefined
+
+  return step.task
+    .replace(/\{\{\s*previous\.result\s*\}\}/g, previous?.result || '')
+    .replace(/\{\{\s*previous\.changed_files\s*\}\}/g, formatChangedFiles(previous?.changed_files))
+    .replace(/\{\{\s*steps\.([\w-]+)\.(result|changed_files)\s*\}\}/g, (_, id, field) =>
+      field === 'result' ? states[id]?.result || '' : formatChangedFiles(states[id]?.changed_files)
+    )
+}
+
+/**
+ * Runs the steps of pipelines one after another. Each step is an ordinary agent run
+ * going through the run queue; its result message, changed files and cost are read
+ * from its stream, and the next step starts once its process has exited.
+ */
+export class PipelineRunner {
+  private starter: PipelineStepStarter | null = null
+  private browserWindow: BrowserWindow | null = null
+  private running: Map<number, RunningPipeline> = new Map()
+  private activeSteps: Map<number, ActiveStep> = new Map()
+  private started = false
+
+  /**
+   * Set the browser window for pipeline run change notifications
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Set the function that queues the agent run of a step
+   */
+  setStarter(starter: PipelineStepStarter): void {
+    this.starter = starter
+  }
+
+  /**
+   * Follow the processes of pipeline steps. Pipeline runs left running by a previous
+   * app instance are marked 'interrupted', as their steps were.
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    processManager.on('processEvent', ({ runId, event }) => {
+      const active = this.activeSteps.get(runId)
+      if (active) this.collectOutput(active, event)
+    })
+
+    processManager.on('processCompleted', ({ runId, result }) => {
+      const active = this.activeSteps.get(runId)
+      const succeeded = result.exitCode === 0 && !active?.isError
+      this.finishStep(runId, succeeded ? 'completed' : 'failed')
+    })
+    processManager.on('processError', ({ runId }) => this.finishStep(runId, 'failed'))
+    processManager.on('processKilled', ({ runId }) => this.finishStep(runId, 'cancelled'))
+
+    runQueue.on('runDropped', ({ processRunId, status }) => {
+      this.finishStep(processRunId, status === 'cancelled' ? 'cancelled' : 'failed')
+    })
+
+    for (const pipelineRun of await pipelineRunService.findByStatus('running')) {
+      await pipelineRunService.update(pipelineRun.id, {
+        status: 'interrupted',
+        completed_at: new Date()
+      })
+    }
+  }
+
+  /**
+   * Start a run of a pipeline in a project and return the pipeline run
+   */
+  async run(pipeline: Pipeline, projectPath: string): Promise<PipelineRun> {
+    const { steps, order } = parsePipelineSteps(pipeline.steps)
+    const states: Record<string, PipelineStepState> = Object.fromEntries(
+      steps.map((step) => [step.id, { status: 'pending' }])
+    )
+
+    const row = await pipelineRunService.create({
+      pipeline_id: pipeline.id,
+      pipeline_name: pipeline.name,
+      project_path: projectPath,
+      step_states: JSON.stringify(states)
+    })
+
+    this.running.set(row.id, { row, steps, order, states, cancelled: false })
+    await this.startNextStep(row.id, pipeline.use_worktree)
+    return row
+  }
+
+  /**
+   * Stop a pipeline run, cancelling the step that's running and skipping the rest
+   */
+  async cancel(pipelineRunId: number): Promise<boolean> {
+    const pipeline = this.running.get(pipelineRunId)
+    if (!pipeline) return false
+
+    pipeline.cancelled = true
+
+    const runningStep = Object.values(pipeline.states).find((state) => state.status === 'running')
+    const processRunId = runningStep?.process_run_id
+    if (processRunId === undefined) {
+      await this.finishPipeline(pipelineRunId)
+      return true
+    }
+
+    if (!(await runQueue.cancel(processRunId))) {
+      await processManager.killProcess(processRunId)
+    }
+    return true
+  }
+
+  private collectOutput(active: ActiveStep, event: StreamEvent): void {
+    if (event.type === 'tool_use' && FILE_CHANGING_TOOLS.includes(event.name)) {
+      const filePath = event.input.file_path || event.input.notebook_path
+      if (typeof filePath === 'string') active.changedFiles.add(filePath)
+    } else if (event.type === 'result') {
+      const { result, total_cost_usd, cost_usd, is_error } = event.message
+      active.result = typeof result === 'string' ? result : ''
+      active.costUsd = Number(total_cost_usd ?? cost_usd) || 0
+      active.isError = !!is_error
+    }
+  }
+
+  private async startNextStep(pipelineRunId: number, useWorktree: boolean): Promise<void> {
+    const pipeline = this.running.get(pipelineRunId)
+    if (!pipeline) return
+
+    // Steps run in order, so the dependencies of a pending step have all finished; a step
+    // depending on one that didn't complete is skipped, and so in turn are its dependents
+    for (const id of pipeline.order) {
+      const step = pipeline.steps.find((candidate) => candidate.id === id)!
+      const state = pipeline.states[id]
+      if (
+        state.status === 'pending' &&
+        step.depends_on?.some((dependency) => pipeline.states[dependency].status !== 'completed')
+      ) {
+        state.status = 'skipped'
+      }
+    }
+
+    const nextId = pipeline.order.find((id) => pipeline.states[id].status === 'pending')
+    if (!nextId || pipeline.cancelled || !this.starter) {
+      await this.finishPipeline(pipelineRunId)
+      return
+    }
+
+    const step = pipeline.steps.find((candidate) => candidate.id === nextId)!
+    const state = pipeline.states[nextId]
+
+    try {
+      const { run, processRunId } = await this.starter({
+        agentId: step.agent_id,
+        projectPath: pipeline.row.project_path,
+        task: renderTask(step, pipeline.order, pipeline.states),
+        // Only the first step creates the worktree, later ones run in it
+        useWorktree: useWorktree && !pipeline.row.worktree_path,
+        worktreePath: pipeline.row.worktree_path || undefined,
+        pipelineRunId,
+        pipelineStepId: step.id
+      })
+
+      Object.assign(state, { status: 'running', run_id: run.id, process_run_id: processRunId })
+      this.activeSteps.set(processRunId, {
+        pipelineRunId,
+        stepId: step.id,
+        result: '',
+        changedFiles: new Set(),
+        costUsd: 0,
+        isError: false
+      })
+      console.log('[PipelineRunner] Pipeline run', pipelineRunId, 'started step', step.id)
+    } catch (error) {
+      console.error('[PipelineRunner] Failed to start step', step.id, error)
+      state.status = 'failed'
+      state.result = error instanceof Error ? error.message : 'Failed to start step'
+
+      if (step.on_failure === 'stop') {
+        await this.finishPipeline(pipelineRunId)
+        return
+      }
+      await this.saveStates(pipeline)
+      await this.startNextStep(pipelineRunId, useWorktree)
+      return
+    }
+
+    await this.saveStates(pipeline)
+  }
+
+  private finishStep(processRunId: number, status: PipelineStepStatus): void {
+    const active = this.activeSteps.get(processRunId)
+    if (!active) return
+    this.activeSteps.delete(processRunId)
+
+    this.completeStep(active, processRunId, status).catch((error) => {
+      console.error('[PipelineRunner] Failed to finish step', active.stepId, error)
+    })
+  }
+
+  private async completeStep(
+    active: ActiveStep,
+    processRunId: number,
+    status: PipelineStepStatus
+  ): Promise<void> {
+    const pipeline = this.running.get(active.pipelineRunId)
+    if (!pipeline) return
+
+    const state = pipeline.states[active.stepId]
+    const stoppedByBudget = !!budgetEnforcer.getExceededLimit(processRunId)
+    Object.assign(state, {
+      status: stoppedByBudget ? 'failed' : status,
+      result: active.result,
+      changed_files: [...active.changedFiles],
+      cost_usd: active.costUsd
+    })
+
+    // The first step of a worktree pipeline has created the worktree the others share
+    if (!pipeline.row.worktree_path && state.run_id) {
+      const run = await agentRunService.findById(state.run_id)
+      if (run?.worktree_path) {
+        pipeline.row.worktree_path = run.worktree_path
+        await pipelineRunService.update(pipeline.row.id, { worktree_path: run.worktree_path })
+      }
+    }
+
+    const step = pipeline.steps.find((candidate) => candidate.id === active.stepId)!
+    if (state.status !== 'completed' && (step.on_failure === 'stop' || pipeline.cancelled)) {
+      await this.finishPipeline(pipeline.row.id)
+      return
+    }
+
+    await this.saveStates(pipeline)
+
+    const definition = await pipelineService.findById(pipeline.row.pipeline_id)
+    await this.startNextStep(pipeline.row.id, !!definition?.use_worktree)
+  }
+
+  private async finishPipeline(pipelineRunId: number): Promise<void> {
+    const pipeline = this.running.get(pipelineRunId)
+    if (!pipeline) return
+    this.running.delete(pipelineRunId)
+
+    for (const state of Object.values(pipeline.states)) {
+      if (state.status === 'pending') state.status = 'skipped'
+    }
+
+    const states = Object.values(pipeline.states)
+    const status = pipeline.cancelled
+      ? 'cancelled'
+      : states.every((state) => state.status === 'completed')
+        ? 'completed'
+        : 'failed'
+
+    await pipelineRunService.update(pipelineRunId, {
+      status,
+      step_states: JSON.stringify(pipeline.states),
+      cost_usd: states.reduce((total, state) => total + (state.cost_usd || 0), 0),
+      completed_at: new Date()
+    })
+
+    console.log('[PipelineRunner] Pipeline run', pipelineRunId, 'finished as', status)
+    this.send('pipeline-runs-changed', pipelineRunId)
+  }
+
+  private async saveStates(pipeline: RunningPipeline): Promise<void> {
+    await pipelineRunService.update(pipeline.row.id, {
+      step_states: JSON.stringify(pipeline.states),
+      cost_usd: Object.values(pipeline.states).reduce(
+        (total, state) => total + (state.cost_usd || 0),
+        0
+      )
+    })
+    this.send('pipeline-runs-changed', pipeline.row.id)
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const pipelineRunner = new PipelineRunner()
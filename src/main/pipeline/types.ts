@@ -0,0 +1,66 @@
+/**
+ * Agent pipelines - type definitions
+ *
+ * Mirrors the pipeline types exposed to the renderer in `lib/api.ts`.
+ */
+
+/**
+ * What a pipeline does after one of its steps fails
+ * - stop: skip the remaining steps and fail the pipeline run
+ * - continue: go on with the steps that don't depend on it; those that do are skipped
+ */
+export type StepFailurePolicy = 'stop' | 'continue'
+
+/**
+ * One agent run of a pipeline.
+ *
+ * The task is a template; `{{previous.result}}` and `{{previous.changed_files}}` are
+ * replaced with the final result message and the files changed by the step it runs
+ * after, `{{steps.<id>.result}}` and `{{steps.<id>.changed_files}}` with those of any
+ * earlier step.
+ */
+export interface PipelineStep {
+  id: string
+  agent_id: number
+  task: string
+  /** Steps that must complete first. Omitted means the step listed before this one */
+  depends_on?: string[]
+  on_failure: StepFailurePolicy
+}
+
+export type PipelineStepStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped'
+
+/**
+ * Progress and output of one step in a pipeline run
+ */
+export interface PipelineStepState {
+  status: PipelineStepStatus
+  /** ID of the step's `AgentRun` */
+  run_id?: number
+  /** Run ID the step's output is sent under */
+  process_run_id?: number
+  /** Final result message of the step */
+  result?: string
+  changed_files?: string[]
+  cost_usd?: number
+}
+
+/**
+ * What to queue for one pipeline step
+ */
+export interface PipelineStepRequest {
+  agentId: number
+  projectPath: string
+  task: string
+  useWorktree: boolean
+  /** Worktree created by an earlier step of the same pipeline run */
+  worktreePath?: string
+  pipelineRunId: number
+  pipelineStepId: string
+}
@@ -0,0 +1,149 @@
+import { calculateCost } from '../api/usage'
+import type { AgentRun } from '../database/entities/AgentRun'
+import { processManager } from './ProcessManager'
+import type { StreamEvent } from './StreamJsonParser'
+
+/**
+ * Budget limit that ended a run
+ */
+export type BudgetLimit = 'cost' | 'tokens' | 'turns' | 'duration'
+
+/**
+ * Usage of a run that has a budget
+ */
+interface TrackedRun {
+  run: AgentRun
+  costUsd: number
+  totalTokens: number
+  // Model of the latest assistant message, which the following usage event belongs to
+  model: string
+  exceeded: BudgetLimit | null
+  timer: NodeJS.Timeout | null
+}
+
+function hasBudget(run: AgentRun): boolean {
+  return !!(run.max_cost_usd || run.max_tokens || run.max_turns || run.max_duration_seconds)
+}
+
+/**
+ * Enforces the cost, token and duration budget of agent runs by following their stream
+ * usage and killing a run once it goes over. The turn limit is enforced by Claude Code
+ * itself through `--max-turns`; it's only recognized here from the final result.
+ */
+export class BudgetEnforcer {
+  private runs: Map<number, TrackedRun> = new Map()
+  private exceeded: Map<number, BudgetLimit> = new Map()
+  private started = false
+
+  /**
+   * Start following stream output
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    processManager.on('processEvent', ({ runId, event }) => {
+      this.handleEvent(runId, event)
+    })
+
+    const stopTracking = ({ runId }: { runId: number }) => this.untrack(runId)
+    processManager.on('processCompleted', stopTracking)
+    processManager.on('processError', stopTracking)
+    processManager.on('processKilled', stopTracking)
+  }
+
+  /**
+   * Follow the process of a run against the run's budget
+   */
+  track(processRunId: number, run: AgentRun): void {
+    if (!hasBudget(run)) return
+
+    const tracked: TrackedRun = {
+      run,
+      costUsd: 0,
+      totalTokens: 0,
+      model: run.model,
+      exceeded: null,
+      timer: null
+    }
+
+    if (run.max_duration_seconds) {
+      tracked.timer = setTimeout(
+        () => this.stopRun(processRunId, 'duration'),
+        run.max_duration_seconds * 1000
+      )
+    }
+
+    this.runs.set(processRunId, tracked)
+  }
+
+  /**
+   * The limit that ended a process, if it was ended by its budget. Only known while the
+   * process's exit is being handled.
+   */
+  getExceededLimit(processRunId: number): BudgetLimit | null {
+    return this.exceeded.get(processRunId) || null
+  }
+
+  private handleEvent(processRunId: number, event: StreamEvent): void {
+    const tracked = this.runs.get(processRunId)
+    if (!tracked || tracked.exceeded) return
+
+    const { run } = tracked
+
+    if (event.type === 'assistant' && typeof event.message.message?.model === 'string') {
+      tracked.model = event.message.message.model
+    } else if (event.type === 'usage') {
+      tracked.totalTokens += event.inputTokens + event.outputTokens
+      tracked.costUsd += calculateCost(
+        tracked.model,
+        event.inputTokens,
+        event.outputTokens,
+        event.cacheCreationInputTokens,
+        event.cacheReadInputTokens
+      )
+
+      if (run.max_cost_usd && tracked.costUsd >= run.max_cost_usd) {
+        this.stopRun(processRunId, 'cost')
+      } else if (run.max_tokens && tracked.totalTokens >= run.max_tokens) {
+        this.stopRun(processRunId, 'tokens')
+      }
+    } else if (event.type === 'result' && event.message.subtype === 'error_max_turns') {
+      // Claude Code stops by itself, so the run only has to be recorded as over budget
+      this.markExceeded(processRunId, tracked, 'turns')
+    }
+  }
+
+  private stopRun(processRunId: number, limit: BudgetLimit): void {
+    const tracked = this.runs.get(processRunId)
+    if (!tracked || tracked.exceeded) return
+
+    console.log('[BudgetEnforcer] Run', tracked.run.id, 'exceeded its', limit, 'budget')
+    this.markExceeded(processRunId, tracked, limit)
+
+    processManager.killProcess(processRunId).catch((error) => {
+      console.error('[BudgetEnforcer] Failed to stop run', tracked.run.id, error)
+    })
+  }
+
+  private markExceeded(processRunId: number, tracked: TrackedRun, limit: BudgetLimit): void {
+    tracked.exceeded = limit
+    this.exceeded.set(processRunId, limit)
+  }
+
+  private untrack(processRunId: number): void {
+    // Kept until every listener of the exit event has read it
+    if (this.exceeded.has(processRunId)) {
+      setImmediate(() => this.exceeded.delete(processRunId))
+    }
+
+    const tracked = this.runs.get(processRunId)
+    if (!tracked) return
+
+    if (tracked.timer) clearTimeout(tracked.timer)
+    this.runs.delete(processRunId)
+  }
+}
+
+// Global instance
+export const budgetEnforcer = new BudgetEnforcer()
@@ -0,0 +1,80 @@
+/**
+ * Batching limits for one visibility state
+ */
+interface BatchLimits {
+  /** How long the first item of a batch may wait before the batch is sent */
+  windowMs: number
+  /** Batch size that is sent right away */
+  maxItems: number
+}
+
+const VISIBLE_LIMITS: BatchLimits = { windowMs: 50, maxItems: 200 }
+
+// A hidden window can't paint anything, so hold output longer and send it in larger batches
+const HIDDEN_LIMITS: BatchLimits = { windowMs: 2000, maxItems: 5000 }
+
+/**
+ * Coalesces per-run items into batches, so high-volume output costs one IPC
+ * message per time window instead of one per stdout chunk.
+ */
+export class OutputBatcher<T> {
+  private pending: Map<number, T[]> = new Map()
+  private timers: Map<number, NodeJS.Timeout> = new Map()
+  private visible = true
+
+  constructor(private readonly send: (runId: number, items: T[]) => void) {}
+
+  /**
+   * Queue an item for the run's next batch
+   */
+  enqueue(runId: number, item: T): void {
+    const items = this.pending.get(runId) || []
+    items.push(item)
+    this.pending.set(runId, items)
+
+    const limits = this.visible ? VISIBLE_LIMITS : HIDDEN_LIMITS
+    if (items.length >= limits.maxItems) {
+      this.flush(runId)
+    } else if (!this.timers.has(runId)) {
+      this.timers.set(
+        runId,
+        setTimeout(() => this.flush(runId), limits.windowMs)
+      )
+    }
+  }
+
+  /**
+   * Send the run's queued items now
+   */
+  flush(runId: number): void {
+    const timer = this.timers.get(runId)
+    if (timer) {
+      clearTimeout(timer)
+      this.timers.delete(runId)
+    }
+
+    const items = this.pending.get(runId)
+    this.pending.delete(runId)
+    if (items && items.length > 0) {
+      this.send(runId, items)
+    }
+  }
+
+  flushAll(): void {
+    for (const runId of [...this.pending.keys()]) {
+      this.flush(runId)
+    }
+  }
+
+  /**
+   * Switch limits when the renderer is hidden or shown. Output held while hidden
+   * is delivered as soon as the renderer is visible again.
+   */
+  setVisible(visible: boolean): void {
+    if (this.visible === visible) return
+    this.visible = visible
+    if (visible) {
+      this.flushAll()
+    }
+  }
+}
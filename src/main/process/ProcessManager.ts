@@ -3,6 +3,8 @@ import treeKill from 'tree-kill'
 import { EventEmitter } from 'events'
 import { BrowserWindow } from 'electron'
 import { resolve as resolvePath } from 'path'
+import { StreamJsonParser, type StreamEvent } from './StreamJsonParser'
+import { OutputBatcher } from './OutputBatcher'
 
 /**
  * Type of process being tracked
@@ -28,6 +30,8 @@ export interface ProcessInfo {
   agentName?: string
   // Claude session-specific info
   sessionId?: string
+  // Whether stdin stays open so follow-up input can be written to the live process
+  interactive?: boolean
 }
 
 /**
@@ -37,9 +41,14 @@ interface ProcessHandle {
   info: ProcessInfo
   process: ResultPromise<any> | null
   liveOutput: string[]
+  parser: StreamJsonParser
+  events: StreamEvent[]
   isFinished: boolean
 }
 
+// Stream events kept per run for renderers that reconnect mid-run
+const MAX_STREAM_EVENTS = 5000
+
 /**
  * Registry for tracking active processes (Claude sessions and agent runs)
  */
@@ -47,6 +56,9 @@ export class ProcessManager extends EventEmitter {
   private processes: Map<number, ProcessHandle> = new Map()
   private nextId: number = 1000000 // Start at high number to avoid conflicts
   private browserWindow: BrowserWindow | null = null
+  private outputBatcher = new OutputBatcher<StreamEvent>((runId, events) =>
+    this.sendAgentEvent(runId, 'agent-events', events)
+  )
 
   constructor() {
     super()
@@ -59,6 +71,13 @@ export class ProcessManager extends EventEmitter {
     this.browserWindow = window
   }
 
+  /**
+   * Hold stream output longer while the renderer is hidden
+   */
+  setRendererVisible(visible: boolean): void {
+    this.outputBatcher.setVisible(visible)
+  }
+
   /**
    * Generate a unique ID for processes
    */
@@ -66,6 +85,13 @@ export class ProcessManager extends EventEmitter {
     return this.nextId++
   }
 
+  /**
+   * Reserve a run ID for a process that is started later, e.g. once it leaves the run queue
+   */
+  allocateRunId(): number {
+    return this.generateId()
+  }
+
   /**
    * Register a new running agent process
    */
@@ -79,7 +105,16 @@ export class ProcessManager extends EventEmitter {
     args: string[] = [],
     options: Record<string, any> = {}
   ): Promise<number> {
-    const runId = this.generateId()
+    // A run may execute outside its project, e.g. in a git worktree of it
+    const {
+      interactive = false,
+      runId: reservedRunId,
+      cwd = projectPath,
+      // Agent runs pass 0 and leave their wall-clock limit to the BudgetEnforcer
+      timeout = interactive ? 0 : 300000, // 5 minutes timeout
+      ...spawnOptions
+    } = options
+    const runId: number = reservedRunId ?? this.generateId()
 
     console.log('[ProcessManager] Starting agent process:', {
       runId,
@@ -103,14 +138,15 @@ export class ProcessManager extends EventEmitter {
       task,
       model,
       agentId,
-      agentName
+      agentName,
+      interactive
     }
 
     // Start the process with proper options
     // First spread options, then override with required values to avoid conflicts
     const processOptions = {
-      ...options,
-      cwd: projectPath,
+      ...spawnOptions,
+      cwd,
       stdout: 'pipe' as const,
       stderr: 'pipe' as const
     }
@@ -168,10 +204,11 @@ export class ProcessManager extends EventEmitter {
 
     console.log('[ProcessManager] Spawning process with execa...')
 
-    // Add a timeout to the process to prevent it from hanging indefinitely
+    // Add a timeout to the process to prevent it from hanging indefinitely. Interactive
+    // processes idle between turns by design, so they only end when stdin is closed.
     const processOptionsWithTimeout = {
       ...processOptions,
-      timeout: 300000, // 5 minutes timeout
+      ...(timeout ? { timeout } : {}),
       env: {
         ...process.env, // Inherit all environment variables
         // Ensure key environment variables are set
@@ -188,9 +225,11 @@ export class ProcessManager extends EventEmitter {
     const childProcess = execa(command, args, processOptionsWithTimeout)
 
     // Close stdin to prevent Claude from waiting for input
-    if (childProcess.stdin) {
+    if (childProcess.stdin && !interactive) {
       childProcess.stdin.end()
       console.log('[ProcessManager] Closed stdin for runId:', runId)
+    } else if (interactive) {
+      console.log('[ProcessManager] Keeping stdin open for interactive runId:', runId)
     }
 
     // Update PID once available
@@ -214,6 +253,8 @@ export class ProcessManager extends EventEmitter {
       info: processInfo,
       process: childProcess as unknown as ResultPromise<any>,
       liveOutput: [],
+      parser: new StreamJsonParser(),
+      events: [],
       isFinished: false
     }
 
@@ -265,6 +306,8 @@ export class ProcessManager extends EventEmitter {
       info: processInfo,
       process: null, // Claude sessions managed separately
       liveOutput: [],
+      parser: new StreamJsonParser(),
+      events: [],
       isFinished: false
     }
 
@@ -299,12 +342,15 @@ export class ProcessManager extends EventEmitter {
           output.length
         )
         this.appendLiveOutput(runId, output)
+        this.emit('processOutput', { runId, info: handle.info, output })
 
-        this.sendAgentEvent(runId, 'agent-output', output)
+        this.publishStreamEvents(runId, handle.parser.push(output))
       })
 
       childProcess.stdout.on('end', () => {
         console.log('[ProcessManager] stdout stream ended for runId:', runId)
+        // A last line without a trailing newline
+        this.publishStreamEvents(runId, handle.parser.flush())
       })
 
       childProcess.stdout.on('error', (error) => {
@@ -402,6 +448,7 @@ export class ProcessManager extends EventEmitter {
 
     handle.isFinished = true
     this.emit('processCompleted', { runId, result })
+    this.outputBatcher.flush(runId)
     this.sendAgentEvent(runId, 'agent-complete', result.exitCode === 0)
   }
 
@@ -489,6 +536,7 @@ export class ProcessManager extends EventEmitter {
     }
 
     this.emit('processError', { runId, error: enhancedError })
+    this.outputBatcher.flush(runId)
     this.sendAgentEvent(runId, 'agent-complete', false)
   }
 
@@ -540,6 +588,9 @@ export class ProcessManager extends EventEmitter {
         }
       }
 
+      // Deliver buffered output while the run can still be routed
+      this.outputBatcher.flush(runId)
+
       // Mark as finished and remove from registry
       handle.isFinished = true
       this.processes.delete(runId)
@@ -554,6 +605,44 @@ export class ProcessManager extends EventEmitter {
     }
   }
 
+  /**
+   * Write input to the stdin of a running interactive process
+   */
+  writeToProcess(runId: number, data: string): boolean {
+    const handle = this.processes.get(runId)
+    if (!handle || handle.isFinished || !handle.info.interactive) {
+      return false
+    }
+
+    const stdin = handle.process?.stdin
+    if (!stdin || !stdin.writable) {
+      console.warn('[ProcessManager] stdin is not writable for runId:', runId)
+      return false
+    }
+
+    stdin.write(data)
+    return true
+  }
+
+  /**
+   * Close the stdin of an interactive process so it exits once the current turn is done
+   */
+  closeProcessInput(runId: number): boolean {
+    const handle = this.processes.get(runId)
+    if (!handle || handle.isFinished || !handle.info.interactive) {
+      return false
+    }
+
+    const stdin = handle.process?.stdin
+    if (!stdin || !stdin.writable) {
+      return false
+    }
+
+    stdin.end()
+    console.log('[ProcessManager] Closed stdin for interactive runId:', runId)
+    return true
+  }
+
   /**
    * Get all running Claude sessions
    */
@@ -649,6 +738,32 @@ export class ProcessManager extends EventEmitter {
     return handle ? handle.liveOutput.join('') : ''
   }
 
+  /**
+   * Record parsed stream events and forward them to listeners and, batched, to the renderer
+   */
+  private publishStreamEvents(runId: number, events: StreamEvent[]): void {
+    const handle = this.processes.get(runId)
+    if (!handle) return
+
+    for (const event of events) {
+      handle.events.push(event)
+      this.emit('processEvent', { runId, info: handle.info, event })
+      this.outputBatcher.enqueue(runId, event)
+    }
+
+    if (handle.events.length > MAX_STREAM_EVENTS) {
+      handle.events = handle.events.slice(-MAX_STREAM_EVENTS)
+    }
+  }
+
+  /**
+   * Stream events of a process with a sequence number above afterSeq
+   */
+  getStreamEvents(runId: number, afterSeq: number = 0): StreamEvent[] {
+    const handle = this.processes.get(runId)
+    return handle ? handle.events.filter((event) => event.seq > afterSeq) : []
+  }
+
   /**
    * Cleanup finished processes
    */
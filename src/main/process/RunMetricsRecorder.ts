@@ -0,0 +1,138 @@
+import { BrowserWindow } from 'electron'
+import { agentRunService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+import { readSessionJsonl } from './sessionJsonl'
+import { readRunOutput } from './runOutput'
+import { StreamJsonParser } from './StreamJsonParser'
+
+// Rows read at a time while backfilling
+const BACKFILL_BATCH_SIZE = 50
+
+/**
+ * Cost Claude Code reported in the final `result` events of a run's stream output, summed
+ * over the attempts of a resumed run. Undefined when the output has no result event.
+ */
+function getReportedCost(output: string): number | undefined {
+  const parser = new StreamJsonParser()
+  const events = [...parser.push(output), ...parser.flush()]
+
+  let cost: number | undefined
+  for (const event of events) {
+    if (event.type !== 'result') continue
+    const { total_cost_usd, cost_usd } = event.message
+    cost = (cost ?? 0) + (Number(total_cost_usd ?? cost_usd) || 0)
+  }
+  return cost
+}
+
+/**
+ * Stores the tokens, cost, message and tool call counts and duration of agent runs on
+ * their rows once they finish, so run lists never read session JSONL files. Finished
+ * runs without metrics, from before the columns existed or left by a crash, are
+ * backfilled on start.
+ */
+export class RunMetricsRecorder {
+  private started = false
+  private browserWindow: BrowserWindow | null = null
+  // Runs are recorded one at a time, as each reads a whole session file
+  private recording: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Set the browser window for notifying that run metrics were recorded
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Backfill the metrics of finished runs that have none
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    await this.enqueue(() => this.backfill())
+  }
+
+  /**
+   * Record the metrics of a run that just finished
+   */
+  record(runId: number): void {
+    this.enqueue(async () => {
+      const run = await agentRunService.findById(runId)
+      if (!run) return
+
+      await this.recordRun(run)
+      this.send('run-metrics-recorded', runId)
+    }).catch((error) => {
+      console.error('[RunMetricsRecorder] Failed to record metrics of run', runId, error)
+    })
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.recording.then(task)
+    this.recording = next.catch(() => {})
+    return next
+  }
+
+  private async backfill(): Promise<void> {
+    let recorded = 0
+    let lastId = 0
+
+    for (;;) {
+      const runs = await agentRunService.findWithoutMetrics(lastId, BACKFILL_BATCH_SIZE)
+      if (runs.length === 0) break
+
+      for (const run of runs) {
+        try {
+          await this.recordRun(run)
+          recorded++
+        } catch (error) {
+          console.error('[RunMetricsRecorder] Failed to backfill metrics of run', run.id, error)
+        }
+      }
+      lastId = runs[runs.length - 1].id
+    }
+
+    if (recorded > 0) {
+      console.log('[RunMetricsRecorder] Backfilled metrics of', recorded, 'runs')
+      this.send('run-metrics-recorded', null)
+    }
+  }
+
+  private async recordRun(run: AgentRun): Promise<void> {
+    let jsonl = ''
+    if (run.session_id) {
+      try {
+        jsonl = await readSessionJsonl(run.session_id, run.worktree_path || run.project_path)
+      } catch {
+        // The session file is gone; the run is still marked recorded so it isn't read again
+      }
+    }
+
+    const metrics = agentRunService.calculateMetricsFromJSONL(jsonl)
+
+    // Session files carry no cost; it's only reported by the stream, which is spooled
+    const reportedCost = getReportedCost(await readRunOutput(run.id))
+    if (reportedCost !== undefined) {
+      metrics.cost_usd = reportedCost
+    }
+
+    // Without session timestamps, the process lifetime is the closest duration there is
+    if (metrics.duration_ms === undefined && run.process_started_at && run.completed_at) {
+      metrics.duration_ms =
+        new Date(run.completed_at).getTime() - new Date(run.process_started_at).getTime()
+    }
+
+    await agentRunService.recordMetrics(run.id, metrics)
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const runMetricsRecorder = new RunMetricsRecorder()
@@ -0,0 +1,330 @@
+import { BrowserWindow } from 'electron'
+import { EventEmitter } from 'events'
+import { agentRunService, appSettingsService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+import { processManager } from './ProcessManager'
+import { runRecovery } from './RunRecovery'
+
+export type RunPriority = 'low' | 'normal' | 'high'
+
+/**
+ * How many agent runs may execute at the same time
+ */
+export interface RunConcurrencyLimits {
+  global: number
+  perProject: number
+}
+
+/**
+ * A waiting run as shown in the renderer
+ */
+export interface QueuedRunInfo {
+  runId: number
+  processRunId: number
+  projectPath: string
+  priority: RunPriority
+  /** Position in the queue, starting at 1 */
+  position: number
+}
+
+/**
+ * Starts the process of a run that left the queue, under the reserved process run ID
+ */
+export type RunLauncher = (run: AgentRun, processRunId: number) => Promise<void>
+
+interface QueueEntry {
+  run: AgentRun
+  processRunId: number
+  priority: RunPriority
+}
+
+const PRIORITY_RANK: Record<RunPriority, number> = { high: 0, normal: 1, low: 2 }
+
+const DEFAULT_LIMITS: RunConcurrencyLimits = { global: 3, perProject: 1 }
+
+const GLOBAL_LIMIT_KEY = 'run_concurrency_global'
+const PER_PROJECT_LIMIT_KEY = 'run_concurrency_per_project'
+
+function toPriority(value: string | undefined): RunPriority {
+  return value === 'low' || value === 'high' ? value : 'normal'
+}
+
+function parseLimit(value: string | null, fallback: number): number {
+  const limit = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(limit) && limit > 0 ? limit : fallback
+}
+
+/**
+ * Scheduler in front of `ProcessManager.registerAgentProcess`. Agent runs wait here until
+ * both the global and the per-project concurrency limit leave room for them; higher
+ * priority runs are queued ahead of lower ones.
+ *
+ * Interactive Claude Code sessions don't go through the queue and don't count towards
+ * the limits.
+ *
+ * Emits `runDropped` ({ run, processRunId, status }) for a run that leaves the queue
+ * without a process, because it was cancelled or failed to start.
+ */
+export class RunQueue extends EventEmitter {
+  private entries: QueueEntry[] = []
+  private launcher: RunLauncher | null = null
+  private browserWindow: BrowserWindow | null = null
+  private started = false
+  private dispatching = false
+  private dispatchRequested = false
+
+  /**
+   * Set the browser window for queue change notifications
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Set the function that starts a run once it leaves the queue
+   */
+  setLauncher(launcher: RunLauncher): void {
+    this.launcher = launcher
+  }
+
+  /**
+   * Start dispatching queued runs whenever a running one finishes
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    const onFinished = () => this.dispatch()
+    processManager.on('processCompleted', onFinished)
+    processManager.on('processError', onFinished)
+    processManager.on('processKilled', onFinished)
+    runRecovery.on('reattachedRunFinished', onFinished)
+  }
+
+  /**
+   * Queue runs that were still waiting when the app last quit
+   */
+  async restore(): Promise<void> {
+    const queued = await agentRunService.getAgentRunsByStatus('queued')
+
+    // Oldest first, so restored runs keep their order within each priority
+    for (const run of queued.reverse()) {
+      this.insert({
+        run,
+        processRunId: processManager.allocateRunId(),
+        priority: toPriority(run.priority)
+      })
+    }
+
+    this.dispatch()
+  }
+
+  /**
+   * Queue a run and return the process run ID its output will be sent under
+   */
+  enqueue(run: AgentRun): number {
+    const processRunId = processManager.allocateRunId()
+    this.insert({ run, processRunId, priority: toPriority(run.priority) })
+    this.dispatch()
+    return processRunId
+  }
+
+  /**
+   * Remove a waiting run from the queue and mark it cancelled. Accepts the run ID or
+   * the process run ID returned by `enqueue`.
+   */
+  async cancel(id: number): Promise<boolean> {
+    const index = this.entries.findIndex(
+      (entry) => entry.run.id === id || entry.processRunId === id
+    )
+    if (index === -1) return false
+
+    const [entry] = this.entries.splice(index, 1)
+    await agentRunService.updateAgentRun(entry.run.id, {
+      status: 'cancelled',
+      completed_at: new Date()
+    })
+
+    this.send(`agent-cancelled:${entry.processRunId}`, true)
+    this.emit('runDropped', {
+      run: entry.run,
+      processRunId: entry.processRunId,
+      status: 'cancelled'
+    })
+    this.notifyChanged()
+    return true
+  }
+
+  /**
+   * Move a waiting run up (negative offset) or down (positive offset) in the queue
+   */
+  move(runId: number, offset: number): boolean {
+    const index = this.entries.findIndex((entry) => entry.run.id === runId)
+    if (index === -1) return false
+
+    const target = Math.max(0, Math.min(this.entries.length - 1, index + offset))
+    if (target === index) return false
+
+    const [entry] = this.entries.splice(index, 1)
+    this.entries.splice(target, 0, entry)
+
+    this.notifyChanged()
+    // The run now at the front may be startable where the previous one wasn't
+    this.dispatch()
+    return true
+  }
+
+  /**
+   * Runs waiting in the queue, in the order they will start
+   */
+  list(): QueuedRunInfo[] {
+    return this.entries.map((entry, index) => ({
+      runId: entry.run.id,
+      processRunId: entry.processRunId,
+      projectPath: entry.run.project_path,
+      priority: entry.priority,
+      position: index + 1
+    }))
+  }
+
+  async getLimits(): Promise<RunConcurrencyLimits> {
+    const settings = await appSettingsService.getSettings([GLOBAL_LIMIT_KEY, PER_PROJECT_LIMIT_KEY])
+
+    return {
+      global: parseLimit(settings[GLOBAL_LIMIT_KEY], DEFAULT_LIMITS.global),
+      perProject: parseLimit(settings[PER_PROJECT_LIMIT_KEY], DEFAULT_LIMITS.perProject)
+    }
+  }
+
+  async setLimits(limits: RunConcurrencyLimits): Promise<void> {
+    await appSettingsService.setSettings({
+      [GLOBAL_LIMIT_KEY]: String(parseLimit(String(limits.global), DEFAULT_LIMITS.global)),
+      [PER_PROJECT_LIMIT_KEY]: String(
+        parseLimit(String(limits.perProject), DEFAULT_LIMITS.perProject)
+      )
+    })
+
+    // Raised limits take effect right away
+    this.dispatch()
+  }
+
+  /**
+   * Insert behind the last entry of the same or a higher priority
+   */
+  private insert(entry: QueueEntry): void {
+    const rank = PRIORITY_RANK[entry.priority]
+    const index = this.entries.findIndex((queued) => PRIORITY_RANK[queued.priority] > rank)
+
+    if (index === -1) {
+      this.entries.push(entry)
+    } else {
+      this.entries.splice(index, 0, entry)
+    }
+
+    this.notifyChanged()
+  }
+
+  // Dispatch passes never overlap; a request made during one triggers another pass after it
+  private dispatch(): void {
+    if (this.dispatching) {
+      this.dispatchRequested = true
+      return
+    }
+
+    this.dispatching = true
+    this.startAvailableRuns()
+      .catch((error) => {
+        console.error('[RunQueue] Failed to start queued runs:', error)
+      })
+      .finally(() => {
+        this.dispatching = false
+        if (this.dispatchRequested) {
+          this.dispatchRequested = false
+          this.dispatch()
+        }
+      })
+  }
+
+  private async startAvailableRuns(): Promise<void> {
+    if (!this.launcher || this.entries.length === 0) return
+
+    const limits = await this.getLimits()
+
+    // Claude Code sessions are registered with agent ID 0 and aren't limited. Runs
+    // reattached after a restart have no process here but still count.
+    const active = [
+      ...processManager.getRunningAgentProcesses().filter((info) => info.agentId),
+      ...runRecovery.getReattachedRuns()
+    ]
+    let activeCount = active.length
+    const activePerProject = new Map<string, number>()
+    for (const info of active) {
+      activePerProject.set(info.projectPath, (activePerProject.get(info.projectPath) || 0) + 1)
+    }
+
+    let index = 0
+    let changed = false
+    while (index < this.entries.length && activeCount < limits.global) {
+      const entry = this.entries[index]
+      const projectPath = entry.run.project_path
+      const projectCount = activePerProject.get(projectPath) || 0
+
+      // A run blocked by its project's limit doesn't hold up runs of other projects
+      if (projectCount >= limits.perProject) {
+        index++
+        continue
+      }
+
+      this.entries.splice(index, 1)
+      changed = true
+
+      if (await this.launch(entry)) {
+        activeCount++
+        activePerProject.set(projectPath, projectCount + 1)
+      }
+    }
+
+    if (changed) {
+      this.notifyChanged()
+    }
+  }
+
+  private async launch(entry: QueueEntry): Promise<boolean> {
+    console.log('[RunQueue] Starting queued run', entry.run.id, 'as', entry.processRunId)
+    try {
+      await this.launcher!(entry.run, entry.processRunId)
+      return true
+    } catch (error) {
+      console.error('[RunQueue] Failed to start run', entry.run.id, error)
+
+      await agentRunService.updateAgentRun(entry.run.id, {
+        status: 'failed',
+        completed_at: new Date()
+      })
+      this.send(
+        `agent-error:${entry.processRunId}`,
+        error instanceof Error ? error.message : 'Failed to start agent run'
+      )
+      this.send(`agent-complete:${entry.processRunId}`, false)
+      this.emit('runDropped', {
+        run: entry.run,
+        processRunId: entry.processRunId,
+        status: 'failed'
+      })
+      return false
+    }
+  }
+
+  private notifyChanged(): void {
+    this.send('run-queue-changed', this.list())
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const runQueue = new RunQueue()
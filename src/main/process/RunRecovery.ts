@@ -0,0 +1,425 @@
+import { BrowserWindow } from 'electron'
+import { EventEmitter } from 'events'
+import { execa } from 'execa'
+import treeKill from 'tree-kill'
+import { createWriteStream, mkdirSync, promises as fs, type WriteStream } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import { agentRunService } from '../database/services'
+import type { AgentRunUpdateData } from '../database/services/AgentRunService'
+import type { AgentRun } from '../database/entities/AgentRun'
+import { processManager, ProcessType, type ProcessInfo } from './ProcessManager'
+import { StreamJsonParser, type StreamEvent } from './StreamJsonParser'
+import { budgetEnforcer } from './BudgetEnforcer'
+import { runMetricsRecorder } from './RunMetricsRecorder'
+import { getRunOutputDir, getRunOutputPath, readRunOutput } from './runOutput'
+
+// How often a reattached run is checked for new session output and for exit
+const TAIL_INTERVAL_MS = 2000
+
+// How far a process's start time may be from the one recorded for a run to still be its process
+const START_TIME_TOLERANCE_MS = 5000
+
+/**
+ * An agent run left running by a previous app instance, followed through its session JSONL
+ */
+interface TailedRun {
+  pid: number
+  projectPath: string
+  startedAt: Date | null | undefined
+  sessionFile: string | null
+  offset: number
+  parser: StreamJsonParser
+  /** Whether the last outcome read from the session was an error */
+  isError: boolean
+}
+
+/**
+ * Agent run processes carry the id of their `AgentRun` row as agentId
+ */
+function getAgentRunId(info: ProcessInfo | null): number | null {
+  if (!info || info.processType !== ProcessType.AgentRun || !info.agentId) return null
+  return info.agentId
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/**
+ * Whether a live PID still belongs to the Claude Code process of a run, rather than to a
+ * process that got the PID after the run's exited. Platforms without `ps` can't tell, so
+ * their runs are never reattached.
+ */
+async function isRunProcess(pid: number, startedAt: Date | null | undefined): Promise<boolean> {
+  if (!startedAt) return false
+
+  try {
+    const { stdout } = await execa('ps', ['-p', String(pid), '-o', 'lstart=', '-o', 'args='], {
+      env: { LC_ALL: 'C' }
+    })
+    // e.g. 'Sat Oct 18 10:00:00 2026 /usr/local/bin/claude -p ...'
+    const match = stdout.trim().match(/^(\w+\s+\w+\s+\d+\s+[\d:]+\s+\d+)\s+(.*)$/)
+    if (!match || !/claude/i.test(match[2])) return false
+
+    const started = new Date(match[1]).getTime()
+    return Math.abs(started - new Date(startedAt).getTime()) < START_TIME_TOLERANCE_MS
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Keeps `AgentRun` rows in step with their processes and makes runs survive an app
+ * restart: stdout is spooled to disk per run, and on startup runs still marked as
+ * running are either reattached or marked 'interrupted'.
+ *
+ * Emits `reattachedRunFinished` ({ runId }) once the process of a reattached run is gone.
+ */
+export class RunRecovery extends EventEmitter {
+  private started = false
+  private browserWindow: BrowserWindow | null = null
+  private spools: Map<number, WriteStream> = new Map()
+  private tails: Map<number, TailedRun> = new Map()
+  // Row updates are applied in order, so a fast exit can't be overwritten by the start update
+  private updates: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Set the browser window for sending output of reattached runs
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Start recording the lifecycle and output of agent runs
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    mkdirSync(getRunOutputDir(), { recursive: true })
+
+    processManager.on('processRegistered', (info: ProcessInfo) => {
+      const runId = getAgentRunId(info)
+      if (runId === null) return
+
+      this.openSpool(runId)
+      this.updateRun(runId, {
+        status: 'running',
+        pid: info.pid || undefined,
+        process_started_at: info.startedAt,
+        completed_at: null,
+        exceeded_limit: null
+      })
+    })
+
+    processManager.on('processOutput', ({ info, output }) => {
+      const runId = getAgentRunId(info)
+      if (runId !== null) this.spools.get(runId)?.write(output)
+    })
+
+    processManager.on('processEvent', ({ info, event }) => {
+      const runId = getAgentRunId(info)
+      if (runId === null || event.type !== 'system_init') return
+
+      const sessionId = event.message.session_id
+      if (typeof sessionId === 'string' && sessionId) {
+        this.updateRun(runId, { session_id: sessionId })
+      }
+    })
+
+    processManager.on('processCompleted', ({ runId, result }) => {
+      this.finishRun(
+        runId,
+        getAgentRunId(processManager.getProcess(runId)),
+        result.exitCode === 0 ? 'completed' : 'failed'
+      )
+    })
+
+    processManager.on('processError', ({ runId }) => {
+      this.finishRun(runId, getAgentRunId(processManager.getProcess(runId)), 'failed')
+    })
+
+    processManager.on('processKilled', (info: ProcessInfo) => {
+      this.finishRun(info.runId, getAgentRunId(info), 'cancelled')
+    })
+  }
+
+  /**
+   * Reconcile runs left unfinished by a previous app instance. Runs whose process is
+   * still alive, checked by its command and start time, are followed through their
+   * session JSONL. Queued runs without one are left to `RunQueue.restore`; the others
+   * are marked 'interrupted' and keep their spooled output.
+   */
+  async reconcile(): Promise<void> {
+    const unfinished = [
+      ...(await agentRunService.getAgentRunsByStatus('running')),
+      ...(await agentRunService.getAgentRunsByStatus('pending')),
+      ...(await agentRunService.getAgentRunsByStatus('queued'))
+    ]
+
+    for (const run of unfinished) {
+      if (
+        run.pid &&
+        isProcessAlive(run.pid) &&
+        (await isRunProcess(run.pid, run.process_started_at))
+      ) {
+        console.log('[RunRecovery] Reattaching to run', run.id, 'with PID', run.pid)
+        if (run.status !== 'running') {
+          await agentRunService.updateAgentRun(run.id, { status: 'running' })
+        }
+        await this.reattach(run, run.pid)
+      } else if (run.status !== 'queued') {
+        console.log('[RunRecovery] Marking run', run.id, 'as interrupted')
+        await agentRunService.updateAgentRun(run.id, {
+          status: 'interrupted',
+          completed_at: new Date()
+        })
+      }
+    }
+  }
+
+  /**
+   * Whether the run has a live process, started by this app instance or reattached
+   */
+  isRunActive(runId: number): boolean {
+    return (
+      this.tails.has(runId) ||
+      processManager.getRunningAgentProcesses().some((info) => info.agentId === runId)
+    )
+  }
+
+  /**
+   * Runs followed from a previous app instance, which still take up a place in the run
+   * queue's concurrency limits
+   */
+  getReattachedRuns(): { runId: number; projectPath: string }[] {
+    return [...this.tails.entries()].map(([runId, tail]) => ({
+      runId,
+      projectPath: tail.projectPath
+    }))
+  }
+
+  /**
+   * Stop a run reattached after a restart and mark it cancelled. The process is only
+   * signalled while its PID still belongs to the run.
+   */
+  async killReattached(runId: number): Promise<boolean> {
+    const tail = this.tails.get(runId)
+    if (!tail) return false
+    this.tails.delete(runId)
+
+    if (isProcessAlive(tail.pid) && (await isRunProcess(tail.pid, tail.startedAt))) {
+      console.log('[RunRecovery] Killing reattached run', runId, 'with PID', tail.pid)
+      await new Promise<void>((resolve) => {
+        treeKill(tail.pid, 'SIGTERM', (error) => {
+          if (error) {
+            console.warn('[RunRecovery] Failed to send SIGTERM to run', runId, error)
+            treeKill(tail.pid, 'SIGKILL')
+          }
+          resolve()
+        })
+      })
+    }
+
+    this.updateRun(runId, { status: 'cancelled', completed_at: new Date() })
+    this.recordMetrics(runId)
+    this.send(runId, 'agent-complete', false)
+    this.emit('reattachedRunFinished', { runId })
+    return true
+  }
+
+  /**
+   * Output spooled for a run, empty if nothing was captured
+   */
+  async getSpooledOutput(runId: number): Promise<string> {
+    return await readRunOutput(runId)
+  }
+
+  private openSpool(runId: number): void {
+    this.closeSpool(runId)
+
+    // Appending, so a resumed run adds to the output of its earlier attempt
+    const stream = createWriteStream(getRunOutputPath(runId), { flags: 'a' })
+    stream.on('error', (error) => {
+      console.error('[RunRecovery] Failed to spool output for run', runId, error)
+      this.spools.delete(runId)
+    })
+
+    this.spools.set(runId, stream)
+  }
+
+  private closeSpool(runId: number): Promise<void> {
+    const stream = this.spools.get(runId)
+    this.spools.delete(runId)
+    if (!stream) return Promise.resolve()
+
+    // Resolves once everything written is on disk, or the stream failed
+    return new Promise((resolve) => {
+      stream.once('close', () => resolve())
+      stream.end()
+    })
+  }
+
+  private finishRun(processRunId: number, runId: number | null, status: string): void {
+    if (runId === null) return
+
+    const spoolClosed = this.closeSpool(runId)
+
+    // A run stopped by its budget ends the same way however its process went down
+    const exceededLimit = budgetEnforcer.getExceededLimit(processRunId)
+    if (exceededLimit) {
+      this.updateRun(runId, {
+        status: 'budget_exceeded',
+        exceeded_limit: exceededLimit,
+        completed_at: new Date()
+      })
+    } else {
+      this.updateRun(runId, { status, completed_at: new Date() })
+    }
+    this.recordMetrics(runId, spoolClosed)
+  }
+
+  // Once the finished row is saved, so the recorder sees its completion time, and the
+  // spool is flushed, so it sees the run's final result
+  private recordMetrics(runId: number, spoolClosed?: Promise<void>): void {
+    this.updates = this.updates.then(async () => {
+      await spoolClosed
+      runMetricsRecorder.record(runId)
+    })
+  }
+
+  private updateRun(runId: number, data: AgentRunUpdateData): void {
+    this.updates = this.updates
+      .then(() => agentRunService.updateAgentRun(runId, data))
+      .catch((error) => {
+        console.error('[RunRecovery] Failed to update run', runId, error)
+      })
+  }
+
+  private async reattach(run: AgentRun, pid: number): Promise<void> {
+    const sessionFile = run.session_id ? this.getSessionFilePath(run) : null
+
+    // Output written so far is loaded from the session file by the viewer itself
+    let offset = 0
+    if (sessionFile) {
+      try {
+        offset = (await fs.stat(sessionFile)).size
+      } catch {
+        // Not written yet
+      }
+    }
+
+    this.tails.set(run.id, {
+      pid,
+      projectPath: run.project_path,
+      startedAt: run.process_started_at,
+      sessionFile,
+      offset,
+      parser: new StreamJsonParser(),
+      isError: false
+    })
+    this.scheduleTail(run.id)
+  }
+
+  // Polls are chained rather than run on an interval so reads of one file never overlap
+  private scheduleTail(runId: number): void {
+    setTimeout(() => {
+      this.pollTail(runId)
+        .catch((error) => {
+          console.error('[RunRecovery] Failed to follow run', runId, error)
+        })
+        .finally(() => {
+          if (this.tails.has(runId)) this.scheduleTail(runId)
+        })
+    }, TAIL_INTERVAL_MS)
+  }
+
+  private getSessionFilePath(run: AgentRun): string {
+    // Claude Code stores sessions by the directory it ran in
+    const encodedProject = (run.worktree_path || run.project_path).replace(/[^a-zA-Z0-9]/g, '-')
+    return join(homedir(), '.claude', 'projects', encodedProject, `${run.session_id}.jsonl`)
+  }
+
+  private async pollTail(runId: number): Promise<void> {
+    const tail = this.tails.get(runId)
+    if (!tail) return
+
+    // Check for exit first, so the final read below includes everything the process wrote
+    const alive = isProcessAlive(tail.pid)
+
+    if (tail.sessionFile) {
+      const buffer = await this.readFrom(tail.sessionFile, tail.offset)
+      // Stop at the last newline so a multi-byte character is never split between reads
+      const end = alive ? buffer.lastIndexOf(0x0a) + 1 : buffer.length
+      // The run may have been killed while the file was read
+      if (this.tails.get(runId) !== tail) return
+      tail.offset += end
+      this.followEvents(runId, tail, tail.parser.push(buffer.subarray(0, end).toString('utf-8')))
+    }
+
+    if (alive) return
+
+    this.tails.delete(runId)
+    this.followEvents(runId, tail, tail.parser.flush())
+
+    // The exit code of a process this instance didn't start is unknown, so the outcome is
+    // the last one the session recorded
+    this.updateRun(runId, {
+      status: tail.isError ? 'failed' : 'completed',
+      completed_at: new Date()
+    })
+    this.recordMetrics(runId)
+    this.send(runId, 'agent-complete', !tail.isError)
+    this.emit('reattachedRunFinished', { runId })
+  }
+
+  private followEvents(runId: number, tail: TailedRun, events: StreamEvent[]): void {
+    for (const event of events) {
+      if (event.type === 'result') {
+        tail.isError = !!event.message.is_error
+      } else if (event.type === 'assistant') {
+        // Sessions record a failed API call as an assistant message
+        tail.isError = !!event.message.isApiErrorMessage
+      }
+    }
+    this.send(runId, 'agent-events', events)
+  }
+
+  private async readFrom(filePath: string, offset: number): Promise<Buffer> {
+    let file: fs.FileHandle
+    try {
+      file = await fs.open(filePath, 'r')
+    } catch {
+      return Buffer.alloc(0)
+    }
+
+    try {
+      const { size } = await file.stat()
+      if (size <= offset) return Buffer.alloc(0)
+
+      const buffer = Buffer.alloc(size - offset)
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, offset)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await file.close()
+    }
+  }
+
+  private send(runId: number, event: string, payload: unknown): void {
+    if (Array.isArray(payload) && payload.length === 0) return
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(`${event}:${runId}`, payload)
+    }
+  }
+}
+
+// Global instance
+export const runRecovery = new RunRecovery()
@@ -0,0 +1,76 @@
+import { app } from 'electron'
+import { mkdirSync, rmSync, promises as fs } from 'fs'
+import { join } from 'path'
+import type { Agent } from '../database/entities/Agent'
+import type { AgentRun } from '../database/entities/AgentRun'
+import { getMergedHooksConfig, mergeHooks, omitHooks } from '../api/hooks'
+import { processManager } from './ProcessManager'
+import { runQueue } from './RunQueue'
+
+/**
+ * Gives agent runs their agent's hooks without touching the project. The hooks are
+ * written to a settings file that only the run's process loads through `--settings`.
+ * Claude Code merges its hooks with those of the settings files of the directory the run
+ * executes in, so hooks loaded from there are left out rather than run twice. A run in a
+ * worktree lacks the project's untracked local settings; their hooks go in the file.
+ * The file is removed once the process ends; files left behind by a crash are removed on
+ * the next start.
+ */
+export class RunSettingsLayer {
+  private files: Map<number, string> = new Map()
+  private started = false
+
+  /**
+   * Remove settings files of an earlier app instance and follow process exits. Must run
+   * before queued runs are restored, as those get new files.
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    rmSync(this.getSettingsDir(), { recursive: true, force: true })
+    mkdirSync(this.getSettingsDir(), { recursive: true })
+
+    const remove = ({ runId }: { runId: number }) => this.remove(runId)
+    processManager.on('processCompleted', remove)
+    processManager.on('processError', remove)
+    processManager.on('processKilled', remove)
+    runQueue.on('runDropped', ({ processRunId }) => this.remove(processRunId))
+  }
+
+  /**
+   * Write the settings layer of a run about to be started in `cwd` and return the Claude
+   * Code arguments that load it. No layer is needed when `cwd` loads every hook already.
+   */
+  async prepare(run: AgentRun, agent: Agent, processRunId: number, cwd: string): Promise<string[]> {
+    const wanted = mergeHooks(
+      await getMergedHooksConfig(run.project_path),
+      agent.hooks ? JSON.parse(agent.hooks) : {}
+    )
+    const hooks = omitHooks(wanted, await getMergedHooksConfig(cwd))
+    if (Object.keys(hooks).length === 0) return []
+
+    const settingsPath = join(this.getSettingsDir(), `run-${run.id}-${processRunId}.json`)
+    await fs.writeFile(settingsPath, JSON.stringify({ hooks }, null, 2))
+    this.files.set(processRunId, settingsPath)
+
+    return ['--settings', settingsPath]
+  }
+
+  private remove(processRunId: number): void {
+    const settingsPath = this.files.get(processRunId)
+    if (!settingsPath) return
+    this.files.delete(processRunId)
+
+    fs.rm(settingsPath, { force: true }).catch((error) => {
+      console.error('[RunSettingsLayer] Failed to remove', settingsPath, error)
+    })
+  }
+
+  private getSettingsDir(): string {
+    return join(app.getPath('userData'), 'run-settings')
+  }
+}
+
+// Global instance
+export const runSettingsLayer = new RunSettingsLayer()
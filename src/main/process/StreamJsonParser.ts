@@ -0,0 +1,189 @@
+/**
+ * Claude Code stream-json output - typed events
+ *
+ * Mirrors the stream event types exposed to the renderer in `lib/api.ts`.
+ */
+
+interface StreamEventBase {
+  /** Position of the event in its run, starting at 1 */
+  seq: number
+  timestamp: string
+}
+
+/**
+ * Event for one complete stream-json line, carrying the parsed message
+ */
+export interface StreamMessageEvent extends StreamEventBase {
+  type: 'system_init' | 'system' | 'assistant' | 'user' | 'result'
+  line: string
+  message: Record<string, any>
+}
+
+export interface StreamToolUseEvent extends StreamEventBase {
+  type: 'tool_use'
+  toolUseId: string
+  name: string
+  input: Record<string, any>
+}
+
+export interface StreamToolResultEvent extends StreamEventBase {
+  type: 'tool_result'
+  toolUseId: string
+  content: unknown
+  isError: boolean
+}
+
+export interface StreamUsageEvent extends StreamEventBase {
+  type: 'usage'
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+}
+
+/**
+ * Output line that isn't stream-json, e.g. a warning printed before the stream starts
+ */
+export interface StreamTextEvent extends StreamEventBase {
+  type: 'text'
+  line: string
+}
+
+export type StreamEvent =
+  | StreamMessageEvent
+  | StreamToolUseEvent
+  | StreamToolResultEvent
+  | StreamUsageEvent
+  | StreamTextEvent
+
+// Omit distributed over the union so each event keeps its own fields
+type WithoutBase<E> = E extends StreamEvent ? Omit<E, keyof StreamEventBase> : never
+type StreamEventInit = WithoutBase<StreamEvent>
+
+/**
+ * Line-buffered parser for the stdout of one Claude Code process.
+ *
+ * Chunks can end anywhere, so the unterminated tail is kept until the next chunk
+ * completes it. Every complete line yields a message event followed by the tool_use,
+ * tool_result and usage events derived from it, numbered in emit order.
+ */
+export class StreamJsonParser {
+  private buffer = ''
+  private seq = 0
+  private usageMessageIds: Set<string> = new Set()
+
+  /**
+   * Sequence number of the last emitted event
+   */
+  get lastSeq(): number {
+    return this.seq
+  }
+
+  /**
+   * Feed a stdout chunk and return the events of the lines it completes
+   */
+  push(chunk: string): StreamEvent[] {
+    const lines = (this.buffer + chunk).split('\n')
+    this.buffer = lines.pop() || ''
+    return lines.flatMap((line) => this.parseLine(line))
+  }
+
+  /**
+   * Parse whatever is left once the stream has ended
+   */
+  flush(): StreamEvent[] {
+    const line = this.buffer
+    this.buffer = ''
+    return this.parseLine(line)
+  }
+
+  private parseLine(rawLine: string): StreamEvent[] {
+    const line = rawLine.replace(/\r$/, '')
+    if (!line.trim()) return []
+
+    let message: any
+    try {
+      message = JSON.parse(line)
+    } catch {
+      return [this.next({ type: 'text', line })]
+    }
+
+    if (!message || typeof message !== 'object' || typeof message.type !== 'string') {
+      return [this.next({ type: 'text', line })]
+    }
+
+    switch (message.type) {
+      case 'system':
+        return [
+          this.next({
+            type: message.subtype === 'init' ? 'system_init' : 'system',
+            line,
+            message
+          })
+        ]
+      case 'assistant':
+        return [this.next({ type: 'assistant', line, message }), ...this.parseAssistant(message)]
+      case 'user':
+        return [this.next({ type: 'user', line, message }), ...this.parseUser(message)]
+      case 'result':
+        return [this.next({ type: 'result', line, message })]
+      default:
+        return [this.next({ type: 'text', line })]
+    }
+  }
+
+  private parseAssistant(message: any): StreamEvent[] {
+    const events: StreamEvent[] = []
+    const content = Array.isArray(message.message?.content) ? message.message.content : []
+
+    for (const block of content) {
+      if (block?.type === 'tool_use') {
+        events.push(
+          this.next({
+            type: 'tool_use',
+            toolUseId: String(block.id || ''),
+            name: String(block.name || ''),
+            input: block.input && typeof block.input === 'object' ? block.input : {}
+          })
+        )
+      }
+    }
+
+    // Claude Code repeats the usage of a message on every line that carries one of its blocks
+    const usage = message.message?.usage
+    const messageId = message.message?.id
+    if (usage && (!messageId || !this.usageMessageIds.has(messageId))) {
+      if (messageId) this.usageMessageIds.add(messageId)
+      events.push(
+        this.next({
+          type: 'usage',
+          inputTokens: usage.input_tokens || 0,
+          outputTokens: usage.output_tokens || 0,
+          cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+          cacheReadInputTokens: usage.cache_read_input_tokens || 0
+        })
+      )
+    }
+
+    return events
+  }
+
+  private parseUser(message: any): StreamEvent[] {
+    const content = Array.isArray(message.message?.content) ? message.message.content : []
+
+    return content
+      .filter((block: any) => block?.type === 'tool_result')
+      .map((block: any) =>
+        this.next({
+          type: 'tool_result',
+          toolUseId: String(block.tool_use_id || ''),
+          content: block.content,
+          isError: block.is_error === true
+        })
+      )
+  }
+
+  private next(event: StreamEventInit): StreamEvent {
+    return { ...event, seq: ++this.seq, timestamp: new Date().toISOString() } as StreamEvent
+  }
+}
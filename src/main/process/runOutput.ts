@@ -0,0 +1,28 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+
+/**
+ * Directory the stream output of agent runs is spooled to
+ */
+export function getRunOutputDir(): string {
+  return join(app.getPath('userData'), 'run-output')
+}
+
+/**
+ * File the stream output of an agent run is spooled to
+ */
+export function getRunOutputPath(runId: number): string {
+  return join(getRunOutputDir(), `${runId}.jsonl`)
+}
+
+/**
+ * Read the spooled stream output of an agent run, empty if nothing was captured
+ */
+export async function readRunOutput(runId: number): Promise<string> {
+  try {
+    return await fs.readFile(getRunOutputPath(runId), 'utf-8')
+  } catch {
+    return ''
+  }
+}
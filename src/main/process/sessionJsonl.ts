@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+
+/**
+ * Read JSONL content from a session file
+ */
+export async function readSessionJsonl(sessionId: string, projectPath: string): Promise<string> {
+  const claudeDir = join(homedir(), '.claude', 'projects')
+
+  // Encode project path to match Claude Code's directory naming
+  const encodedProject = projectPath.replace(/\//g, '-')
+  const projectDir = join(claudeDir, encodedProject)
+  const sessionFile = join(projectDir, `${sessionId}.jsonl`)
+
+  try {
+    return await fs.readFile(sessionFile, 'utf-8')
+  } catch (error) {
+    // Try to search for the session file in all project directories
+    const entries = await fs.readdir(claudeDir, { withFileTypes: true })
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        const potentialFile = join(claudeDir, entry.name, `${sessionId}.jsonl`)
+        try {
+          return await fs.readFile(potentialFile, 'utf-8')
+        } catch {
+          // Continue searching
+        }
+      }
+    }
+
+    throw new Error(`Session file not found: ${sessionId}`)
+  }
+}
@@ -0,0 +1,329 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import { createHash } from 'crypto'
+import { join, relative, resolve, isAbsolute } from 'path'
+import { execa } from 'execa'
+import { agentService, registrySourceService } from '../database/services'
+import type { Agent } from '../database/entities/Agent'
+import type { RegistrySource } from '../database/entities/RegistrySource'
+import { getExportedAgentData, getImportedAgentName } from './agentExport'
+import type { RegistryAgent, RegistryIndex, RegistryIndexEntry } from './types'
+
+// Index file at the root of a source
+const INDEX_FILE = 'index.json'
+
+// Extension of agent exports indexed in sources without an index file
+const AGENT_FILE_SUFFIX = '.claudia.json'
+
+// How long a request to an HTTP source, and a clone or fetch of a git source, may take
+const HTTP_TIMEOUT_MS = 30_000
+const GIT_TIMEOUT_MS = 120_000
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 12)
+}
+
+function getErrorMessage(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr
+  if (stderr) return stderr
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Parse an index file, throwing if it isn't a valid index
+ */
+export function parseRegistryIndex(content: string): RegistryIndex {
+  const index = JSON.parse(content)
+  if (index?.version !== 1 || !Array.isArray(index.agents)) {
+    throw new Error('Registry index must have version 1 and a list of agents')
+  }
+
+  const ids = new Set<string>()
+  for (const entry of index.agents) {
+    for (const field of ['id', 'file', 'version', 'name']) {
+      if (typeof entry?.[field] !== 'string' || !entry[field]) {
+        throw new Error(`Registry index entry is missing "${field}"`)
+      }
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`Registry index lists agent "${entry.id}" more than once`)
+    }
+    ids.add(entry.id)
+  }
+  return index
+}
+
+/**
+ * Lists and installs agents from registry sources: local directories, git repositories
+ * checked out into the app's cache, and HTTP indexes whose agent files are cached by
+ * version. Cached copies keep sources usable offline; installed agents remember the
+ * version they came from, so newer versions in a source show up as updates.
+ */
+export class AgentRegistry {
+  /**
+   * Fetch the latest state of a source: clone or pull a git source, download the index
+   * of an HTTP source. Local sources are always current.
+   */
+  async refresh(sourceId: number): Promise<void> {
+    const source = await this.getSource(sourceId)
+
+    try {
+      if (source.type === 'git') {
+        await this.pullCheckout(source)
+      } else if (source.type === 'http') {
+        const response = await fetch(source.location, {
+          signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+        })
+        if (!response.ok) {
+          throw new Error(`Index request failed with HTTP ${response.status}`)
+        }
+        const content = await response.text()
+        parseRegistryIndex(content)
+
+        await fs.mkdir(this.getCacheDir(source), { recursive: true })
+        await fs.writeFile(join(this.getCacheDir(source), INDEX_FILE), content)
+      }
+
+      await registrySourceService.update(source.id, {
+        last_synced_at: new Date(),
+        last_error: null
+      })
+    } catch (error) {
+      console.error('[AgentRegistry] Failed to refresh source', source.id, error)
+      await registrySourceService.update(source.id, { last_error: getErrorMessage(error) })
+      throw new Error(getErrorMessage(error))
+    }
+  }
+
+  /**
+   * Agents of all enabled sources, or of one source, with their installed versions.
+   * Sources that were never fetched are fetched first; sources that can't be read are
+   * skipped.
+   */
+  async listAgents(sourceId?: number): Promise<RegistryAgent[]> {
+    const sources = sourceId
+      ? [await this.getSource(sourceId)]
+      : (await registrySourceService.findAll()).filter((source) => source.enabled)
+    const installed = (await agentService.findAll()).filter((agent) => agent.registry_source_id)
+
+    const agents: RegistryAgent[] = []
+    for (const source of sources) {
+      try {
+        if (source.type !== 'local' && !source.last_synced_at) {
+          await this.refresh(source.id)
+        }
+
+        for (const entry of (await this.readIndex(source)).agents) {
+          const agent = installed.find(
+            (candidate) =>
+              candidate.registry_source_id === source.id && candidate.registry_agent_id === entry.id
+          )
+          agents.push({
+            ...entry,
+            source_id: source.id,
+            source_name: source.name,
+            installed_agent_id: agent?.id ?? null,
+            installed_version: agent?.registry_version ?? null,
+            update_available: !!agent && agent.registry_version !== entry.version
+          })
+        }
+      } catch (error) {
+        console.error('[AgentRegistry] Failed to list agents of source', source.id, error)
+      }
+    }
+    return agents
+  }
+
+  /**
+   * The agent export of a registry agent, for previews
+   */
+  async getAgentExport(sourceId: number, agentId: string): Promise<any> {
+    const source = await this.getSource(sourceId)
+    const entry = await this.getEntry(source, agentId)
+    return JSON.parse(await this.readAgentFile(source, entry))
+  }
+
+  /**
+   * Create an agent from a registry agent
+   */
+  async install(sourceId: number, agentId: string): Promise<Agent> {
+    const source = await this.getSource(sourceId)
+    const entry = await this.getEntry(source, agentId)
+    const agentData = getExportedAgentData(JSON.parse(await this.readAgentFile(source, entry)))
+
+    const agent = await agentService.create({
+      ...agentData,
+      name: getImportedAgentName(agentData.name, await agentService.findAll()),
+      registry_source_id: source.id,
+      registry_agent_id: entry.id,
+      registry_version: entry.version
+    })
+    console.log('[AgentRegistry] Installed', entry.id, entry.version, 'as agent', agent.id)
+    return agent
+  }
+
+  /**
+   * Replace an installed agent with the version its source has now. The agent keeps its
+   * name, as it may have been renamed to not clash with another agent.
+   */
+  async update(agentId: number): Promise<Agent> {
+    const agent = await agentService.findById(agentId)
+    if (!agent?.registry_source_id || !agent.registry_agent_id) {
+      throw new Error('This agent was not installed from a registry')
+    }
+
+    const source = await this.getSource(agent.registry_source_id)
+    const entry = await this.getEntry(source, agent.registry_agent_id)
+    const agentData = getExportedAgentData(JSON.parse(await this.readAgentFile(source, entry)))
+
+    const updated = await agentService.update(agent.id, {
+      ...agentData,
+      name: agent.name,
+      registry_version: entry.version
+    })
+    if (!updated) {
+      throw new Error('Agent not found')
+    }
+    console.log('[AgentRegistry] Updated agent', agent.id, 'to', entry.id, entry.version)
+    return updated
+  }
+
+  /**
+   * Remove the cached copy of a deleted source
+   */
+  async removeCache(sourceId: number): Promise<void> {
+    await fs.rm(join(this.getCacheRoot(), `source-${sourceId}`), { recursive: true, force: true })
+  }
+
+  private async getSource(sourceId: number): Promise<RegistrySource> {
+    const source = await registrySourceService.findById(sourceId)
+    if (!source) {
+      throw new Error('Registry source not found')
+    }
+    return source
+  }
+
+  private async getEntry(source: RegistrySource, agentId: string): Promise<RegistryIndexEntry> {
+    const entry = (await this.readIndex(source)).agents.find(
+      (candidate) => candidate.id === agentId
+    )
+    if (!entry) {
+      throw new Error(`Agent "${agentId}" is no longer in ${source.name}`)
+    }
+    return entry
+  }
+
+  // Directory holding the index or agent files of a local or git source
+  private getRoot(source: RegistrySource): string {
+    if (source.type === 'local') return source.location
+    return join(this.getCacheDir(source), 'checkout', source.subdirectory || '')
+  }
+
+  private async readIndex(source: RegistrySource): Promise<RegistryIndex> {
+    if (source.type === 'http') {
+      return parseRegistryIndex(
+        await fs.readFile(join(this.getCacheDir(source), INDEX_FILE), 'utf-8')
+      )
+    }
+
+    const root = this.getRoot(source)
+    const indexContent = await fs.readFile(join(root, INDEX_FILE), 'utf-8').catch(() => null)
+    if (indexContent !== null) {
+      return parseRegistryIndex(indexContent)
+    }
+
+    // No index: every agent export in the directory, versioned by content
+    const names = (await fs.readdir(root)).filter((name) => name.endsWith(AGENT_FILE_SUFFIX))
+    const agents: RegistryIndexEntry[] = []
+    for (const name of names.sort()) {
+      try {
+        const content = await fs.readFile(join(root, name), 'utf-8')
+        const agent = JSON.parse(content).agent
+        agents.push({
+          id: name.slice(0, -AGENT_FILE_SUFFIX.length),
+          file: name,
+          version: hashContent(content),
+          name: agent.name,
+          description: agent.description ?? undefined,
+          icon: agent.icon,
+          model: agent.model
+        })
+      } catch (error) {
+        console.error('[AgentRegistry] Skipping unreadable agent file', name, error)
+      }
+    }
+    return { version: 1, agents }
+  }
+
+  private async readAgentFile(source: RegistrySource, entry: RegistryIndexEntry): Promise<string> {
+    if (source.type !== 'http') {
+      // Index entries are relative to the source; don't let them point outside it
+      const root = resolve(this.getRoot(source))
+      const path = resolve(root, entry.file)
+      const relativePath = relative(root, path)
+      if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+        throw new Error(`Agent file of "${entry.id}" is outside its source`)
+      }
+      return await fs.readFile(path, 'utf-8')
+    }
+
+    // Agent files of HTTP sources are cached per version, as they are immutable
+    const cachePath = join(
+      this.getCacheDir(source),
+      'agents',
+      `${hashContent(`${entry.id}@${entry.version}`)}.json`
+    )
+    const cached = await fs.readFile(cachePath, 'utf-8').catch(() => null)
+    if (cached !== null) return cached
+
+    const response = await fetch(new URL(entry.file, source.location), {
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`Agent file request failed with HTTP ${response.status}`)
+    }
+    const content = await response.text()
+    await fs.mkdir(join(this.getCacheDir(source), 'agents'), { recursive: true })
+    await fs.writeFile(cachePath, content)
+    return content
+  }
+
+  private async pullCheckout(source: RegistrySource): Promise<void> {
+    const checkout = join(this.getCacheDir(source), 'checkout')
+
+    if (await fs.stat(join(checkout, '.git')).catch(() => null)) {
+      await execa('git', ['fetch', '--depth', '1', 'origin', source.ref || 'HEAD'], {
+        cwd: checkout,
+        timeout: GIT_TIMEOUT_MS
+      })
+      await execa('git', ['reset', '--hard', 'FETCH_HEAD'], { cwd: checkout })
+      return
+    }
+
+    await fs.rm(checkout, { recursive: true, force: true })
+    await fs.mkdir(this.getCacheDir(source), { recursive: true })
+    await execa(
+      'git',
+      [
+        'clone',
+        '--depth',
+        '1',
+        ...(source.ref ? ['--branch', source.ref] : []),
+        source.location,
+        checkout
+      ],
+      { timeout: GIT_TIMEOUT_MS }
+    )
+  }
+
+  private getCacheDir(source: RegistrySource): string {
+    return join(this.getCacheRoot(), `source-${source.id}`)
+  }
+
+  private getCacheRoot(): string {
+    return join(app.getPath('userData'), 'registry')
+  }
+}
+
+// Global instance
+export const agentRegistry = new AgentRegistry()
@@ -0,0 +1,85 @@
+import type { Agent } from '../database/entities/Agent'
+import type { AgentCreateData } from '../database/services'
+import { parseToolList } from '../permission/toolPermissions'
+import { parseAgentMcpServers } from '../mcp/agentMcpServers'
+
+// Version of the `.claudia.json` agent export format
+export const AGENT_EXPORT_VERSION = 1
+
+/**
+ * Agent export (`.claudia.json`) of an agent
+ */
+export function toAgentExport(agent: Agent) {
+  return {
+    version: AGENT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    agent: {
+      name: agent.name,
+      icon: agent.icon,
+      system_prompt: agent.system_prompt,
+      description: agent.description,
+      default_task: agent.default_task,
+      model: agent.model,
+      enable_file_read: agent.enable_file_read,
+      enable_file_write: agent.enable_file_write,
+      enable_network: agent.enable_network,
+      allowed_tools: agent.allowed_tools,
+      hooks: agent.hooks,
+      mcp_servers: agent.mcp_servers,
+      strict_mcp_config: agent.strict_mcp_config,
+      max_cost_usd: agent.max_cost_usd,
+      max_tokens: agent.max_tokens,
+      max_turns: agent.max_turns,
+      max_duration_seconds: agent.max_duration_seconds,
+      use_worktree: agent.use_worktree
+    }
+  }
+}
+
+/**
+ * Agent fields of a parsed agent export, with the defaults of fields older exports don't
+ * have. Throws if the export is malformed.
+ */
+export function getExportedAgentData(exportData: any): AgentCreateData {
+  if (!exportData?.version || !exportData.agent) {
+    throw new Error('Invalid agent export format')
+  }
+  if (exportData.version !== AGENT_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${exportData.version}`)
+  }
+
+  const agentData = exportData.agent
+  if (!agentData.name || !agentData.icon || !agentData.system_prompt) {
+    throw new Error('Invalid agent data: missing required fields')
+  }
+  parseToolList(agentData.allowed_tools)
+  parseAgentMcpServers(agentData.mcp_servers)
+
+  return {
+    name: agentData.name,
+    icon: agentData.icon,
+    system_prompt: agentData.system_prompt,
+    description: agentData.description ?? null,
+    default_task: agentData.default_task,
+    model: agentData.model || 'sonnet',
+    enable_file_read: agentData.enable_file_read ?? true,
+    enable_file_write: agentData.enable_file_write ?? true,
+    enable_network: agentData.enable_network ?? false,
+    allowed_tools: agentData.allowed_tools ?? null,
+    hooks: agentData.hooks,
+    mcp_servers: agentData.mcp_servers ?? null,
+    strict_mcp_config: agentData.strict_mcp_config ?? false,
+    max_cost_usd: agentData.max_cost_usd ?? null,
+    max_tokens: agentData.max_tokens ?? null,
+    max_turns: agentData.max_turns ?? null,
+    max_duration_seconds: agentData.max_duration_seconds ?? null,
+    use_worktree: agentData.use_worktree ?? false
+  }
+}
+
+/**
+ * Name for an imported agent that doesn't clash with the names of existing agents
+ */
+export function getImportedAgentName(name: string, existingAgents: Agent[]): string {
+  return existingAgents.some((agent) => agent.name === name) ? `${name} (Imported)` : name
+}
@@ -0,0 +1,50 @@
+/**
+ * Agent registry - type definitions
+ *
+ * Mirrors the registry types exposed to the renderer in `lib/api.ts`.
+ */
+
+/**
+ * Where a registry source keeps its agents
+ * - local: a directory on this machine, e.g. a checkout's `cc_agents/`
+ * - git: a git repository, checked out into the app's cache
+ * - http: an index file served over HTTP, with agent files next to it
+ */
+export type RegistrySourceType = 'local' | 'git' | 'http'
+
+/**
+ * Agent listed in the index of a source
+ */
+export interface RegistryIndexEntry {
+  /** Stable ID of the agent within its source */
+  id: string
+  /** Agent export (`.claudia.json`), relative to the index */
+  file: string
+  /** Changes whenever the agent file does; installed agents with another version can update */
+  version: string
+  name: string
+  description?: string
+  icon?: string
+  model?: string
+}
+
+/**
+ * `index.json` at the root of a source. Local and git sources without one are indexed
+ * from their `*.claudia.json` files, versioned by content hash.
+ */
+export interface RegistryIndex {
+  version: 1
+  agents: RegistryIndexEntry[]
+}
+
+/**
+ * Agent of a source with what is installed of it
+ */
+export interface RegistryAgent extends RegistryIndexEntry {
+  source_id: number
+  source_name: string
+  /** Agent installed from this entry */
+  installed_agent_id: number | null
+  installed_version: string | null
+  update_available: boolean
+}
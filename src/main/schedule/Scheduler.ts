@@ -0,0 +1,152 @@
+import { BrowserWindow } from 'electron'
+import { agentRunService, agentScheduleService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+import type { AgentSchedule } from '../database/entities/AgentSchedule'
+import { getNextCronTime } from './cron'
+
+/**
+ * Queues the run of a schedule that is due
+ */
+export type ScheduledRunStarter = (schedule: AgentSchedule) => Promise<AgentRun>
+
+// Statuses of a run that hasn't finished yet
+const UNFINISHED_STATUSES = ['queued', 'pending', 'running']
+
+// Timers longer than ~24.8 days overflow, so a distant tick is reached in steps
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Starts agent runs at the times given by the cron expressions of `AgentSchedule` rows.
+ * Each enabled schedule has a timer for its next tick; a tick is skipped while the run
+ * started by the previous one is still going.
+ */
+export class Scheduler {
+  private timers: Map<number, NodeJS.Timeout> = new Map()
+  private starter: ScheduledRunStarter | null = null
+  private browserWindow: BrowserWindow | null = null
+  private started = false
+
+  /**
+   * Set the browser window for schedule change notifications
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Set the function that queues the run of a due schedule
+   */
+  setStarter(starter: ScheduledRunStarter): void {
+    this.starter = starter
+  }
+
+  /**
+   * Arm the timers of all enabled schedules
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    const schedules = await agentScheduleService.findAll()
+    for (const schedule of schedules) {
+      this.arm(schedule)
+    }
+
+    console.log('[Scheduler] Started with', this.timers.size, 'active schedules')
+  }
+
+  /**
+   * Re-arm a schedule after it was created, changed, paused or deleted
+   */
+  async reload(scheduleId: number): Promise<void> {
+    this.disarm(scheduleId)
+
+    const schedule = await agentScheduleService.findById(scheduleId)
+    if (schedule && this.started) {
+      this.arm(schedule)
+    }
+  }
+
+  /**
+   * When the schedule ticks next, or null if it's paused or never matches
+   */
+  getNextRunTime(schedule: AgentSchedule): Date | null {
+    if (!schedule.enabled) return null
+
+    try {
+      return getNextCronTime(schedule.cron_expression, new Date())
+    } catch {
+      return null
+    }
+  }
+
+  private arm(schedule: AgentSchedule): void {
+    const next = this.getNextRunTime(schedule)
+    if (!next) return
+
+    const delay = next.getTime() - Date.now()
+    const timer = setTimeout(
+      () => {
+        if (delay > MAX_TIMER_MS) {
+          this.arm(schedule)
+        } else {
+          this.tick(schedule.id).catch((error) => {
+            console.error('[Scheduler] Failed to run schedule', schedule.id, error)
+          })
+        }
+      },
+      Math.min(delay, MAX_TIMER_MS)
+    )
+
+    this.timers.set(schedule.id, timer)
+  }
+
+  private disarm(scheduleId: number): void {
+    const timer = this.timers.get(scheduleId)
+    if (timer) clearTimeout(timer)
+    this.timers.delete(scheduleId)
+  }
+
+  private async tick(scheduleId: number): Promise<void> {
+    this.timers.delete(scheduleId)
+
+    const schedule = await agentScheduleService.findById(scheduleId)
+    if (!schedule?.enabled) return
+
+    try {
+      const previousRun = schedule.last_run_id
+        ? await agentRunService.findById(schedule.last_run_id)
+        : null
+
+      if (previousRun && UNFINISHED_STATUSES.includes(previousRun.status)) {
+        console.log(
+          '[Scheduler] Skipping schedule',
+          scheduleId,
+          '- run',
+          previousRun.id,
+          'is still going'
+        )
+      } else if (this.starter) {
+        const run = await this.starter(schedule)
+        console.log('[Scheduler] Schedule', scheduleId, 'started run', run.id)
+
+        await agentScheduleService.update(scheduleId, {
+          last_run_id: run.id,
+          last_run_at: new Date()
+        })
+      }
+    } finally {
+      this.arm(schedule)
+      this.send('agent-schedules-changed', scheduleId)
+    }
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const scheduler = new Scheduler()
@@ -0,0 +1,138 @@
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month, day of week
+ */
+export interface CronExpression {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Whether a day field covers every day, like '*' or '1-31'; when both are restricted,
+  // matching either one is enough
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+const MONTH_NAMES = 'jan feb mar apr may jun jul aug sep oct nov dec'.split(' ')
+const DAY_NAMES = 'sun mon tue wed thu fri sat'.split(' ')
+
+// Bounds the search, so expressions that never match, like Feb 30, end with null
+const MAX_SEARCH_STEPS = 4 * 366 * 24
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const index = names?.indexOf(value.toLowerCase()) ?? -1
+  if (index !== -1) return index + min
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron value: ${value}`)
+  }
+  return parseInt(value, 10)
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : parseValue(stepText, 0)
+    if (step < 1) {
+      throw new Error(`Invalid cron step: ${part}`)
+    }
+
+    let start = min
+    let end = max
+    if (range !== '*') {
+      const [from, to] = range.split('-')
+      start = parseValue(from, min, names)
+      // A single value with a step, like 5/15, runs to the end of the range
+      end = to !== undefined ? parseValue(to, min, names) : stepText !== undefined ? max : start
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range: ${part}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression, throwing an error that describes what's wrong with it
+ */
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim()
+  const fields = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day month weekday')
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+
+  // Both 0 and 7 mean Sunday
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES)
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  const daysOfMonth = parseField(dayOfMonth, 1, 31)
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth,
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: daysOfMonth.size === 31,
+    anyDayOfWeek: daysOfWeek.size === 7
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate())
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay())
+
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) return dayOfMonth && dayOfWeek
+  return dayOfMonth || dayOfWeek
+}
+
+/**
+ * The first time after `after` that matches the expression, in local time. Returns null
+ * if the expression never matches, e.g. '0 0 30 2 *'.
+ */
+export function getNextCronTime(expression: string | CronExpression, after: Date): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression
+
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+    } else {
+      return date
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,376 @@
+import { BrowserWindow } from 'electron'
+import { watch, promises as fs, type FSWatcher } from 'fs'
+import { basename, dirname, join } from 'path'
+import { agentService, subagentLinkService } from '../database/services'
+import type { Agent } from '../database/entities/Agent'
+import type { SubagentLink, SubagentScope } from '../database/entities/SubagentLink'
+import {
+  agentToSubagent,
+  getSubagentDir,
+  parseSubagentFile,
+  serializeSubagentFile,
+  subagentToAgent,
+  toSubagentName,
+  type SubagentDefinition
+} from './subagentFile'
+
+/**
+ * Which side of a link changed since the last sync. Both having changed is a conflict
+ * that is only resolved on request.
+ */
+export type SubagentSyncState =
+  | 'in_sync'
+  | 'file_changed'
+  | 'agent_changed'
+  | 'conflict'
+  | 'missing'
+
+/**
+ * Subagent file found in a scope's directory
+ */
+export interface SubagentFileInfo {
+  file_path: string
+  definition: SubagentDefinition | null
+  error?: string
+  /** Agent the file is synced with */
+  agent_id: number | null
+}
+
+// Wait for editors that write a file in several steps before reading it
+const FILE_CHANGE_DELAY_MS = 300
+
+// A live synced file being watched
+interface WatchedLink {
+  watcher: FSWatcher
+  timer: NodeJS.Timeout | null
+}
+
+/**
+ * Keeps agents and Claude Code subagent files (`.claude/agents/*.md` of the user or a
+ * project) in step. Each `SubagentLink` remembers the file's mtime and the agent's
+ * `updated_at` as of the last sync; whichever moved since tells the side to copy from.
+ * Links with live sync copy changes as they happen, others on request.
+ */
+export class SubagentSync {
+  private watched: Map<number, WatchedLink> = new Map()
+  private browserWindow: BrowserWindow | null = null
+  private started = false
+
+  /**
+   * Set the browser window for sync change notifications
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Catch up on changes made while the app was closed and watch live synced files
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    const links = await subagentLinkService.findAll()
+    for (const link of links.filter((candidate) => candidate.live_sync)) {
+      await this.syncLive(link.agent_id)
+      this.watch(link)
+    }
+
+    console.log('[SubagentSync] Started with', this.watched.size, 'live synced agents')
+  }
+
+  /**
+   * List the subagent files of a scope, with the agents they're synced with
+   */
+  async listFiles(scope: SubagentScope, projectPath?: string | null): Promise<SubagentFileInfo[]> {
+    const dir = getSubagentDir(scope, projectPath)
+    const names = await fs.readdir(dir).catch(() => [] as string[])
+
+    return await Promise.all(
+      names
+        .filter((name) => name.endsWith('.md'))
+        .sort()
+        .map(async (name) => {
+          const filePath = join(dir, name)
+          const link = await subagentLinkService.findByFilePath(filePath)
+          try {
+            const definition = parseSubagentFile(await fs.readFile(filePath, 'utf-8'))
+            return { file_path: filePath, definition, agent_id: link?.agent_id ?? null }
+          } catch (error) {
+            return {
+              file_path: filePath,
+              definition: null,
+              error: error instanceof Error ? error.message : String(error),
+              agent_id: link?.agent_id ?? null
+            }
+          }
+        })
+    )
+  }
+
+  /**
+   * Links of all synced agents with the state of each
+   */
+  async listLinks(): Promise<(SubagentLink & { state: SubagentSyncState })[]> {
+    const links = await subagentLinkService.findAll()
+    return await Promise.all(
+      links.map(async (link) => {
+        const agent = await agentService.findById(link.agent_id)
+        return { ...link, state: agent ? await this.getState(link, agent) : 'missing' }
+      })
+    )
+  }
+
+  /**
+   * Create an agent from a subagent file and keep the two in sync
+   */
+  async importFile(
+    filePath: string,
+    scope: SubagentScope,
+    projectPath: string | null,
+    liveSync: boolean
+  ): Promise<Agent> {
+    if (await subagentLinkService.findByFilePath(filePath)) {
+      throw new Error('This subagent file is already synced with an agent')
+    }
+
+    const definition = parseSubagentFile(await fs.readFile(filePath, 'utf-8'))
+    const agent = await agentService.create({ icon: 'bot', ...subagentToAgent(definition) })
+
+    await this.link(agent.id, scope, projectPath, filePath, liveSync)
+    return agent
+  }
+
+  /**
+   * Write an agent to a new subagent file of a scope and keep the two in sync
+   */
+  async exportAgent(
+    agentId: number,
+    scope: SubagentScope,
+    projectPath: string | null,
+    liveSync: boolean
+  ): Promise<string> {
+    if (await subagentLinkService.findByAgentId(agentId)) {
+      throw new Error('This agent is already synced with a subagent file')
+    }
+    const agent = await agentService.findById(agentId)
+    if (!agent) {
+      throw new Error('Agent not found')
+    }
+
+    const name = toSubagentName(agent.name)
+    if (!name) {
+      throw new Error('The agent name has no letters or digits to name a subagent with')
+    }
+
+    const dir = getSubagentDir(scope, projectPath)
+    const filePath = join(dir, `${name}.md`)
+    if (await fs.stat(filePath).catch(() => null)) {
+      throw new Error(`A subagent file already exists at ${filePath}`)
+    }
+
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(filePath, serializeSubagentFile(agentToSubagent(agent)))
+
+    await this.link(agentId, scope, projectPath, filePath, liveSync)
+    return filePath
+  }
+
+  /**
+   * Copy one side of a link over the other, resolving a conflict
+   */
+  async resolve(agentId: number, keep: 'file' | 'agent'): Promise<void> {
+    const link = await this.getLink(agentId)
+    if (keep === 'file') {
+      await this.pull(link)
+    } else {
+      await this.push(link)
+    }
+    this.send('subagent-links-changed', agentId)
+  }
+
+  /**
+   * Stop syncing an agent; the agent and the file are both kept
+   */
+  async unlink(agentId: number): Promise<void> {
+    const link = await this.getLink(agentId)
+    this.unwatch(agentId)
+    await subagentLinkService.delete(link.id)
+    this.send('subagent-links-changed', agentId)
+  }
+
+  /**
+   * Turn live sync of an agent on or off. Turning it on syncs right away.
+   */
+  async setLiveSync(agentId: number, liveSync: boolean): Promise<void> {
+    const link = await this.getLink(agentId)
+    const updated = await subagentLinkService.update(link.id, { live_sync: liveSync })
+
+    this.unwatch(agentId)
+    if (updated?.live_sync) {
+      await this.syncLive(agentId)
+      this.watch(updated)
+    }
+    this.send('subagent-links-changed', agentId)
+  }
+
+  /**
+   * Write a changed agent to its file if it is live synced
+   */
+  async agentUpdated(agentId: number): Promise<void> {
+    if (this.watched.has(agentId)) {
+      await this.syncLive(agentId)
+    }
+    this.send('subagent-links-changed', agentId)
+  }
+
+  private async link(
+    agentId: number,
+    scope: SubagentScope,
+    projectPath: string | null,
+    filePath: string,
+    liveSync: boolean
+  ): Promise<void> {
+    const link = await subagentLinkService.create({
+      agent_id: agentId,
+      scope,
+      project_path: scope === 'project' ? projectPath : null,
+      file_path: filePath,
+      live_sync: liveSync,
+      ...(await this.getSyncPoint(agentId, filePath))
+    })
+    if (link.live_sync && this.started) {
+      this.watch(link)
+    }
+    this.send('subagent-links-changed', agentId)
+  }
+
+  private async getLink(agentId: number): Promise<SubagentLink> {
+    const link = await subagentLinkService.findByAgentId(agentId)
+    if (!link) {
+      throw new Error('This agent is not synced with a subagent file')
+    }
+    return link
+  }
+
+  private async getState(link: SubagentLink, agent: Agent): Promise<SubagentSyncState> {
+    const stats = await fs.stat(link.file_path).catch(() => null)
+    if (!stats) return 'missing'
+
+    const fileChanged = stats.mtimeMs !== link.file_mtime_ms
+    const agentChanged = new Date(agent.updated_at).getTime() !== link.agent_updated_ms
+    if (fileChanged && agentChanged) return 'conflict'
+    if (fileChanged) return 'file_changed'
+    if (agentChanged) return 'agent_changed'
+    return 'in_sync'
+  }
+
+  // Current state of both sides, to record as synced
+  private async getSyncPoint(agentId: number, filePath: string) {
+    const stats = await fs.stat(filePath)
+    // Read back, as updated_at is only as precise as the database stores it
+    const agent = await agentService.findById(agentId)
+    if (!agent) {
+      throw new Error('Agent not found')
+    }
+    return {
+      file_mtime_ms: stats.mtimeMs,
+      agent_updated_ms: new Date(agent.updated_at).getTime()
+    }
+  }
+
+  private async pull(link: SubagentLink): Promise<void> {
+    const agent = await agentService.findById(link.agent_id)
+    if (!agent) {
+      throw new Error('Agent not found')
+    }
+
+    const definition = parseSubagentFile(await fs.readFile(link.file_path, 'utf-8'))
+    await agentService.update(agent.id, subagentToAgent(definition, agent))
+    await subagentLinkService.update(link.id, await this.getSyncPoint(agent.id, link.file_path))
+    console.log('[SubagentSync] Updated agent', agent.id, 'from', link.file_path)
+  }
+
+  private async push(link: SubagentLink): Promise<void> {
+    const agent = await agentService.findById(link.agent_id)
+    if (!agent) {
+      throw new Error('Agent not found')
+    }
+
+    await fs.mkdir(dirname(link.file_path), { recursive: true })
+    await fs.writeFile(link.file_path, serializeSubagentFile(agentToSubagent(agent)))
+    await subagentLinkService.update(link.id, await this.getSyncPoint(agent.id, link.file_path))
+    console.log('[SubagentSync] Wrote agent', agent.id, 'to', link.file_path)
+  }
+
+  // Copy whichever side changed; conflicts and missing files wait for the user
+  private async syncLive(agentId: number): Promise<void> {
+    const link = await subagentLinkService.findByAgentId(agentId)
+    const agent = link && (await agentService.findById(agentId))
+    if (!link || !agent) {
+      // The agent was deleted, taking its link with it
+      this.unwatch(agentId)
+      return
+    }
+
+    try {
+      const state = await this.getState(link, agent)
+      if (state === 'file_changed') {
+        await this.pull(link)
+      } else if (state === 'agent_changed') {
+        await this.push(link)
+      } else if (state !== 'in_sync') {
+        console.warn('[SubagentSync] Not syncing agent', agentId, '-', state)
+      }
+    } catch (error) {
+      console.error('[SubagentSync] Failed to sync agent', agentId, error)
+    }
+  }
+
+  private watch(link: SubagentLink): void {
+    try {
+      const fileName = basename(link.file_path)
+      const watcher = watch(dirname(link.file_path), (_, filename) => {
+        if (filename?.toString() === fileName) this.handleChange(link.agent_id)
+      })
+      watcher.on('error', (error) => {
+        console.error('[SubagentSync] Stopped watching for agent', link.agent_id, error)
+        this.unwatch(link.agent_id)
+      })
+
+      this.watched.set(link.agent_id, { watcher, timer: null })
+    } catch (error) {
+      console.error('[SubagentSync] Failed to watch for agent', link.agent_id, error)
+    }
+  }
+
+  private unwatch(agentId: number): void {
+    const watched = this.watched.get(agentId)
+    if (!watched) return
+
+    if (watched.timer) clearTimeout(watched.timer)
+    watched.watcher.close()
+    this.watched.delete(agentId)
+  }
+
+  private handleChange(agentId: number): void {
+    const watched = this.watched.get(agentId)
+    if (!watched) return
+
+    if (watched.timer) clearTimeout(watched.timer)
+    watched.timer = setTimeout(async () => {
+      watched.timer = null
+      await this.syncLive(agentId)
+      this.send('subagent-links-changed', agentId)
+    }, FILE_CHANGE_DELAY_MS)
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const subagentSync = new SubagentSync()
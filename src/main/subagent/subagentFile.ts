@@ -0,0 +1,187 @@
+import { join } from 'path'
+import { homedir } from 'os'
+import type { Agent } from '../database/entities/Agent'
+import type { SubagentScope } from '../database/entities/SubagentLink'
+import { getEffectiveTools } from '../permission/toolPermissions'
+
+// Models a subagent file may name; 'inherit' and a missing model use the session's model
+const SUBAGENT_MODELS = ['sonnet', 'opus', 'haiku']
+
+// Length a description derived from the system prompt is cut to
+const MAX_DERIVED_DESCRIPTION_LENGTH = 200
+
+/**
+ * Contents of a Claude Code subagent file: frontmatter and the system prompt as body
+ */
+export interface SubagentDefinition {
+  name: string
+  description: string
+  /** Tools the subagent may use; null gives it every tool */
+  tools: string[] | null
+  model: string | null
+  prompt: string
+}
+
+/**
+ * Directory the subagent files of a scope live in
+ */
+export function getSubagentDir(scope: SubagentScope, projectPath?: string | null): string {
+  if (scope === 'project') {
+    if (!projectPath) {
+      throw new Error('Project scoped subagents need a project path')
+    }
+    return join(projectPath, '.claude', 'agents')
+  }
+  return join(homedir(), '.claude', 'agents')
+}
+
+/**
+ * Subagent name for an agent name: lowercase letters, digits and hyphens
+ */
+export function toSubagentName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function parseValue(raw: string): string {
+  const value = raw.trim()
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value.slice(1, -1)
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'")
+  }
+  return value
+}
+
+function formatValue(value: string): string {
+  // Plain scalars can't hold line breaks or start with YAML syntax, and ': ' or ' #' would
+  // end them early
+  return /^$|^[\s"'#&*!|>%@`{[\-?]|[\n\r]|: | #|\s$/.test(value) ? JSON.stringify(value) : value
+}
+
+/**
+ * Parse a subagent file. Only the flat `key: value` frontmatter subagent files use is
+ * supported.
+ */
+export function parseSubagentFile(content: string): SubagentDefinition {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n([\s\S]*))?$/)
+  if (!match) {
+    throw new Error('Subagent file has no frontmatter')
+  }
+
+  const fields: Record<string, string> = {}
+  for (const line of match[1].split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0 || line.trimStart().startsWith('#')) continue
+    fields[line.slice(0, colon).trim()] = parseValue(line.slice(colon + 1))
+  }
+
+  if (!fields.name) {
+    throw new Error('Subagent file has no name')
+  }
+
+  const tools = fields.tools
+    ? fields.tools
+        .split(',')
+        .map((tool) => tool.trim())
+        .filter(Boolean)
+    : null
+
+  return {
+    name: fields.name,
+    description: fields.description || '',
+    tools,
+    model: fields.model || null,
+    prompt: (match[2] || '').trim()
+  }
+}
+
+/**
+ * Write a subagent definition in the subagent file format
+ */
+export function serializeSubagentFile(definition: SubagentDefinition): string {
+  const lines = ['---', `name: ${definition.name}`]
+  lines.push(`description: ${formatValue(definition.description)}`)
+  if (definition.tools) {
+    lines.push(`tools: ${definition.tools.join(', ')}`)
+  }
+  if (definition.model) {
+    lines.push(`model: ${definition.model}`)
+  }
+  lines.push('---', '', definition.prompt, '')
+  return lines.join('\n')
+}
+
+/**
+ * Description of an agent's subagent, which Claude Code needs to decide when to use it.
+ * Agents without one are described by the first line of their system prompt.
+ */
+function getSubagentDescription(agent: Pick<Agent, 'name' | 'description' | 'system_prompt'>) {
+  if (agent.description?.trim()) return agent.description.trim()
+
+  const firstLine = agent.system_prompt
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^#+\s*/, '').trim())
+    .find(Boolean)
+  if (!firstLine) return agent.name
+
+  return firstLine.length > MAX_DERIVED_DESCRIPTION_LENGTH
+    ? `${firstLine.slice(0, MAX_DERIVED_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+    : firstLine
+}
+
+/**
+ * Subagent definition of an agent. The tools are the ones the agent's runs may use;
+ * subagent files only take tool names, so permission rules are widened to their tool
+ * and shell commands denied by turning network access off aren't carried over.
+ */
+export function agentToSubagent(
+  agent: Pick<
+    Agent,
+    | 'name'
+    | 'description'
+    | 'model'
+    | 'system_prompt'
+    | 'allowed_tools'
+    | 'enable_file_read'
+    | 'enable_file_write'
+    | 'enable_network'
+  >
+): SubagentDefinition {
+  return {
+    name: toSubagentName(agent.name),
+    description: getSubagentDescription(agent),
+    tools: getEffectiveTools(agent),
+    model: SUBAGENT_MODELS.includes(agent.model) ? agent.model : null,
+    prompt: agent.system_prompt
+  }
+}
+
+/**
+ * Agent fields of a subagent definition. Fields the file leaves open keep the values of
+ * the agent it is synced to, if any.
+ */
+export function subagentToAgent(
+  definition: SubagentDefinition,
+  agent?: Pick<Agent, 'name' | 'model'>
+) {
+  return {
+    // Agent names aren't limited to subagent names, so a name that maps to the same file stays
+    name: agent && toSubagentName(agent.name) === definition.name ? agent.name : definition.name,
+    description: definition.description,
+    allowed_tools: definition.tools ? JSON.stringify(definition.tools) : null,
+    model:
+      definition.model && SUBAGENT_MODELS.includes(definition.model)
+        ? definition.model
+        : agent?.model || 'sonnet',
+    system_prompt: definition.prompt
+  }
+}
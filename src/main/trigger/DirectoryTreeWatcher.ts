@@ -0,0 +1,145 @@
+import { watch, promises as fs, type Dirent, type FSWatcher } from 'fs'
+import { join, sep } from 'path'
+
+// Directories never watched, however the globs are written
+const IGNORED_DIRECTORIES = ['.git', 'node_modules']
+
+// Build output, only watched when a glob names it in its base directory
+const BUILD_OUTPUT_DIRECTORIES = ['dist', 'build', 'out', '.next', 'target', 'coverage']
+
+/**
+ * Watches the parts of a project the globs of a trigger can match, one non-recursive
+ * watcher per directory. A recursive watch of the whole project would also cover
+ * dependencies and build output, which on Linux takes an inotify watch for each of their
+ * directories and soon runs out. Only the base directories of the globs and the
+ * directories on the way to them are watched, dependencies and VCS data never, and
+ * build output only when a base directory is inside it.
+ */
+export class DirectoryTreeWatcher {
+  private watchers: Map<string, FSWatcher> = new Map()
+  private closed = false
+
+  /**
+   * @param root - Project directory paths are reported relative to
+   * @param baseDirs - Project-relative directories, with '/' separators, to watch below
+   * @param onChange - Called with the project-relative path, with '/' separators, of
+   *   each changed file or directory
+   * @param onError - Called once when watching fails; the watcher is closed by then
+   */
+  constructor(
+    private root: string,
+    private baseDirs: string[],
+    private onChange: (path: string) => void,
+    private onError: (error: Error) => void
+  ) {}
+
+  /**
+   * Watch the directories in scope that exist now
+   */
+  async start(): Promise<void> {
+    await this.addDirectory('', false)
+  }
+
+  close(): void {
+    this.closed = true
+    for (const watcher of this.watchers.values()) watcher.close()
+    this.watchers.clear()
+  }
+
+  private isInBase(path: string): boolean {
+    return this.baseDirs.some((base) => base === '' || path === base || path.startsWith(`${base}/`))
+  }
+
+  /**
+   * Whether a directory is watched: it's on the way to a base directory or below one
+   */
+  private isInScope(path: string): boolean {
+    if (path === '') return true
+
+    const name = path.split('/').pop()!
+    if (IGNORED_DIRECTORIES.includes(name)) return false
+
+    if (this.baseDirs.some((base) => base === path || base.startsWith(`${path}/`))) return true
+
+    return !BUILD_OUTPUT_DIRECTORIES.includes(name) && this.isInBase(path)
+  }
+
+  /**
+   * Watch a directory and the directories in scope below it. Files already in a
+   * directory that appeared while watching are reported as changed, as they may have
+   * been written before its watcher was set up.
+   */
+  private async addDirectory(path: string, reportFiles: boolean): Promise<void> {
+    if (this.closed || this.watchers.has(path) || !this.isInScope(path)) return
+
+    const directory = join(this.root, path)
+    let watcher: FSWatcher
+    try {
+      watcher = watch(directory, (_, filename) => {
+        if (filename) this.handleEvent(path, filename.toString())
+      })
+    } catch (error) {
+      // A directory that's gone again; the project itself missing is an error
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' && path !== '') return
+      this.fail(error as Error)
+      return
+    }
+    watcher.on('error', (error) => {
+      // A directory that was removed closes its watcher with an error on some platforms
+      if ((error as NodeJS.ErrnoException).code === 'EPERM') {
+        this.removeDirectory(path)
+        return
+      }
+      this.fail(error)
+    })
+    this.watchers.set(path, watcher)
+
+    let entries: Dirent[]
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true })
+    } catch {
+      this.removeDirectory(path)
+      return
+    }
+
+    for (const entry of entries) {
+      const child = path ? `${path}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        await this.addDirectory(child, reportFiles)
+      } else if (reportFiles && this.isInBase(child)) {
+        this.onChange(child)
+      }
+    }
+  }
+
+  private removeDirectory(path: string): void {
+    for (const [watchedPath, watcher] of this.watchers.entries()) {
+      if (watchedPath === path || watchedPath.startsWith(`${path}/`)) {
+        watcher.close()
+        this.watchers.delete(watchedPath)
+      }
+    }
+  }
+
+  private handleEvent(directory: string, filename: string): void {
+    if (this.closed) return
+
+    const name = filename.split(sep).join('/')
+    const path = directory ? `${directory}/${name}` : name
+    if (this.isInBase(path)) this.onChange(path)
+
+    // Follow directories being created and removed
+    fs.stat(join(this.root, path))
+      .then((stats) => {
+        if (stats.isDirectory()) return this.addDirectory(path, true)
+        return undefined
+      })
+      .catch(() => this.removeDirectory(path))
+  }
+
+  private fail(error: Error): void {
+    if (this.closed) return
+    this.close()
+    this.onError(error)
+  }
+}
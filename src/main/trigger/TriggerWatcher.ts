@@ -0,0 +1,222 @@
+import { BrowserWindow } from 'electron'
+import { agentRunService, agentTriggerService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+import type { AgentTrigger } from '../database/entities/AgentTrigger'
+import { compileGlob, getGlobBase } from './glob'
+import { DirectoryTreeWatcher } from './DirectoryTreeWatcher'
+
+/**
+ * Queues the run of a trigger that fired, with its task filled in
+ */
+export type TriggeredRunStarter = (
+  trigger: AgentTrigger,
+  task: string,
+  changedFiles: string[]
+) => Promise<AgentRun>
+
+// Statuses of a run that hasn't finished yet
+const UNFINISHED_STATUSES = ['queued', 'pending', 'running']
+
+// Directories whose changes never fire a trigger
+const IGNORED_DIRECTORIES = ['.git', 'node_modules']
+
+// A trigger watching a project directory
+interface WatchedTrigger {
+  trigger: AgentTrigger
+  matchers: RegExp[]
+  watcher: DirectoryTreeWatcher
+  changedFiles: Set<string>
+  timer: NodeJS.Timeout | null
+}
+
+/**
+ * Parse the JSON list of globs of a trigger, throwing if it isn't a non-empty list of
+ * valid globs
+ */
+export function parseTriggerPatterns(json: string): RegExp[] {
+  const patterns = JSON.parse(json) as string[]
+  if (!Array.isArray(patterns) || patterns.length === 0) {
+    throw new Error('A trigger needs at least one file pattern')
+  }
+  return patterns.map(compileGlob)
+}
+
+/**
+ * Fill in `{{changed_files}}` in the task of a trigger, or list the files after the task
+ * if it doesn't mention them
+ */
+function renderTask(task: string, changedFiles: string[]): string {
+  const list = changedFiles.map((file) => `- ${file}`).join('\n')
+  if (/\{\{\s*changed_files\s*\}\}/.test(task)) {
+    return task.replace(/\{\{\s*changed_files\s*\}\}/g, list)
+  }
+  return `${task}\n\nChanged files:\n${list}`
+}
+
+/**
+ * Starts agent runs when files matching the globs of an `AgentTrigger` change in its
+ * project. Changes are collected until the project has been quiet for the trigger's
+ * debounce time. While the run a trigger started is going, and for the trigger's
+ * cooldown after it ends, changes are dropped, so the agent's own edits don't fire it
+ * again.
+ */
+export class TriggerWatcher {
+  private watched: Map<number, WatchedTrigger> = new Map()
+  private starter: TriggeredRunStarter | null = null
+  private browserWindow: BrowserWindow | null = null
+  private started = false
+
+  /**
+   * Set the browser window for trigger change notifications
+   */
+  setBrowserWindow(window: BrowserWindow): void {
+    this.browserWindow = window
+  }
+
+  /**
+   * Set the function that queues the run of a trigger that fired
+   */
+  setStarter(starter: TriggeredRunStarter): void {
+    this.starter = starter
+  }
+
+  /**
+   * Watch the projects of all enabled triggers
+   */
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    const triggers = await agentTriggerService.findAll()
+    for (const trigger of triggers) {
+      this.watch(trigger)
+    }
+
+    console.log('[TriggerWatcher] Started with', this.watched.size, 'active triggers')
+  }
+
+  /**
+   * Re-watch a trigger after it was created, changed, paused or deleted
+   */
+  async reload(triggerId: number): Promise<void> {
+    this.unwatch(triggerId)
+
+    const trigger = await agentTriggerService.findById(triggerId)
+    if (trigger && this.started) {
+      this.watch(trigger)
+    }
+  }
+
+  /**
+   * Whether the project of a trigger is being watched
+   */
+  isWatching(triggerId: number): boolean {
+    return this.watched.has(triggerId)
+  }
+
+  private watch(trigger: AgentTrigger): void {
+    if (!trigger.enabled) return
+
+    try {
+      const matchers = parseTriggerPatterns(trigger.patterns)
+      const baseDirs = (JSON.parse(trigger.patterns) as string[]).map(getGlobBase)
+      const watcher = new DirectoryTreeWatcher(
+        trigger.project_path,
+        baseDirs,
+        (path) => this.handleChange(trigger.id, path),
+        (error) => {
+          console.error('[TriggerWatcher] Stopped watching for trigger', trigger.id, error)
+          this.unwatch(trigger.id)
+        }
+      )
+      watcher.start().catch((error) => {
+        console.error('[TriggerWatcher] Failed to watch for trigger', trigger.id, error)
+        this.unwatch(trigger.id)
+      })
+
+      this.watched.set(trigger.id, {
+        trigger,
+        matchers,
+        watcher,
+        changedFiles: new Set(),
+        timer: null
+      })
+    } catch (error) {
+      console.error('[TriggerWatcher] Failed to watch for trigger', trigger.id, error)
+    }
+  }
+
+  private unwatch(triggerId: number): void {
+    const watched = this.watched.get(triggerId)
+    if (!watched) return
+
+    if (watched.timer) clearTimeout(watched.timer)
+    watched.watcher.close()
+    this.watched.delete(triggerId)
+  }
+
+  private handleChange(triggerId: number, path: string): void {
+    const watched = this.watched.get(triggerId)
+    if (!watched) return
+
+    if (path.split('/').some((part) => IGNORED_DIRECTORIES.includes(part))) return
+    if (!watched.matchers.some((matcher) => matcher.test(path))) return
+
+    watched.changedFiles.add(path)
+
+    if (watched.timer) clearTimeout(watched.timer)
+    watched.timer = setTimeout(() => {
+      watched.timer = null
+      this.fire(triggerId).catch((error) => {
+        console.error('[TriggerWatcher] Failed to run trigger', triggerId, error)
+      })
+    }, watched.trigger.debounce_ms)
+  }
+
+  private async fire(triggerId: number): Promise<void> {
+    const watched = this.watched.get(triggerId)
+    if (!watched) return
+
+    const changedFiles = [...watched.changedFiles].sort()
+    watched.changedFiles.clear()
+
+    const trigger = await agentTriggerService.findById(triggerId)
+    if (!trigger?.enabled || !this.starter) return
+
+    const previousRun = trigger.last_run_id
+      ? await agentRunService.findById(trigger.last_run_id)
+      : null
+
+    if (previousRun && UNFINISHED_STATUSES.includes(previousRun.status)) {
+      console.log('[TriggerWatcher] Dropping changes for trigger', triggerId, '- run is going')
+      return
+    }
+
+    const previousEnd = previousRun?.completed_at || trigger.last_fired_at
+    if (
+      previousEnd &&
+      Date.now() < new Date(previousEnd).getTime() + trigger.cooldown_seconds * 1000
+    ) {
+      console.log('[TriggerWatcher] Dropping changes for trigger', triggerId, '- cooling down')
+      return
+    }
+
+    const run = await this.starter(trigger, renderTask(trigger.task, changedFiles), changedFiles)
+    console.log('[TriggerWatcher] Trigger', triggerId, 'started run', run.id, 'for', changedFiles)
+
+    await agentTriggerService.update(triggerId, {
+      last_run_id: run.id,
+      last_fired_at: new Date()
+    })
+    this.send('agent-triggers-changed', triggerId)
+  }
+
+  private send(event: string, payload: unknown): void {
+    if (this.browserWindow && !this.browserWindow.isDestroyed()) {
+      this.browserWindow.webContents.send(event, payload)
+    }
+  }
+}
+
+// Global instance
+export const triggerWatcher = new TriggerWatcher()
@@ -0,0 +1,66 @@
+/**
+ * Compile a glob into a regular expression matching project-relative paths with '/'
+ * separators. Supports `*`, `**`, `?`, `[...]` and `{a,b}`. A pattern without a '/'
+ * matches a file name in any directory, so `*.md` also matches `docs/intro.md`.
+ */
+export function compileGlob(pattern: string): RegExp {
+  let glob = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '')
+  if (!glob) {
+    throw new Error('Glob pattern is empty')
+  }
+  if (!glob.includes('/')) glob = `**/${glob}`
+
+  let source = ''
+  let openBraces = 0
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' matches any number of directories, a trailing '**' everything below
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2)
+      const members = glob.slice(i + 1, end).replace(/\\/g, '\\\\')
+      source += members.startsWith('!') ? `[^${members.slice(1)}]` : `[${members}]`
+      i = end
+    } else if (char === '{') {
+      source += '(?:'
+      openBraces++
+    } else if (char === '}' && openBraces > 0) {
+      source += ')'
+      openBraces--
+    } else if (char === ',' && openBraces > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&')
+    }
+  }
+
+  if (openBraces > 0) {
+    throw new Error(`Unclosed '{' in glob pattern: ${pattern}`)
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Directory all matches of a glob are below, as a project-relative path with '/'
+ * separators; empty for the project root
+ */
+export function getGlobBase(pattern: string): string {
+  const glob = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '')
+  const directories = glob.split('/').slice(0, -1)
+  const wildcard = directories.findIndex((segment) => /[*?[{]/.test(segment))
+  return (wildcard === -1 ? directories : directories.slice(0, wildcard)).join('/')
+}
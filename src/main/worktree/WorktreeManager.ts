@@ -0,0 +1,411 @@
+import { app } from 'electron'
+import { execa } from 'execa'
+import { existsSync, promises as fs } from 'fs'
+import { dirname, join, relative } from 'path'
+import { agentRunService } from '../database/services'
+import type { AgentRun } from '../database/entities/AgentRun'
+
+/**
+ * Changes an agent run made on its worktree branch
+ */
+export interface WorktreeDiff {
+  branch: string
+  base: string
+  status: string
+  /** Unified diff of the branch against the commit it was created from */
+  diff: string
+}
+
+/**
+ * A file a run changed on its worktree branch
+ */
+export interface WorktreeFileChange {
+  path: string
+  additions: number
+  deletions: number
+}
+
+/**
+ * What to do with a finished run's worktree
+ */
+export type WorktreeAction = 'merge' | 'cherry_pick' | 'keep' | 'discard'
+
+const ACTION_STATUS: Record<WorktreeAction, string> = {
+  merge: 'merged',
+  cherry_pick: 'cherry_picked',
+  keep: 'kept',
+  discard: 'discarded'
+}
+
+// Statuses of worktrees whose changes haven't been applied or thrown away yet
+const PENDING_STATUSES = ['active', 'kept']
+
+// Statuses of runs whose agent may still write to the worktree
+const UNFINISHED_RUN_STATUSES = ['queued', 'pending', 'running']
+
+// Commits of the work a run left uncommitted are made as the agent, whatever the user's
+// git identity is, or whether there is one at all
+const AGENT_IDENTITY = ['-c', 'user.name=Claudiatron Agent', '-c', 'user.email=agent@claudiatron']
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execa('git', args, { cwd, stripFinalNewline: true })
+  return stdout
+}
+
+// Diff of a file git doesn't track yet, as if it had been added; exits 1 when they differ
+async function diffUntracked(cwd: string, file: string, args: string[]): Promise<string> {
+  const { stdout, exitCode, stderr } = await execa(
+    'git',
+    ['diff', '--no-index', ...args, '--', '/dev/null', file],
+    { cwd, stripFinalNewline: true, reject: false }
+  )
+  if (exitCode !== 0 && exitCode !== 1) {
+    throw new Error(stderr || `git diff --no-index exited with ${exitCode}`)
+  }
+  return stdout
+}
+
+function getErrorMessage(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr
+  if (stderr) return stderr
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Gives agent runs their own git worktree, so several agents can work on the same
+ * repository without touching each other's files. Each run gets a branch named
+ * `agent-run/<id>` created from the project's HEAD; once the run has finished its
+ * changes can be merged or cherry-picked back, kept for later, or discarded.
+ */
+export class WorktreeManager {
+  /**
+   * Create the worktree of a run that asked for one and return the directory the run
+   * should execute in. A resumed run continues in its existing worktree, and a run given
+   * the worktree of another run, like a later pipeline step, executes in that one.
+   */
+  async prepare(run: AgentRun): Promise<string> {
+    if (run.worktree_path && existsSync(run.worktree_path)) return run.worktree_path
+    if (!run.use_worktree) return run.project_path
+
+    let topLevel: string
+    try {
+      topLevel = await git(run.project_path, ['rev-parse', '--show-toplevel'])
+    } catch {
+      throw new Error('Project is not a git repository')
+    }
+
+    const root = this.getWorktreeRoot(run.id)
+    const branch = `agent-run/${run.id}`
+    const base = await git(run.project_path, ['rev-parse', 'HEAD'])
+
+    await fs.mkdir(this.getWorktreeDir(), { recursive: true })
+    await git(run.project_path, ['worktree', 'add', '-b', branch, root, base])
+
+    // The project may be a subdirectory of the repository
+    const worktreePath = join(root, relative(topLevel, run.project_path))
+    const update = {
+      worktree_path: worktreePath,
+      worktree_branch: branch,
+      worktree_base: base,
+      worktree_status: 'active'
+    }
+    await agentRunService.updateAgentRun(run.id, update)
+    Object.assign(run, update)
+
+    console.log('[WorktreeManager] Created worktree for run', run.id, 'at', root)
+    return worktreePath
+  }
+
+  /**
+   * Whether a project is inside a git repository, so runs in it can get a worktree
+   */
+  async isRepository(projectPath: string): Promise<boolean> {
+    try {
+      await git(projectPath, ['rev-parse', '--show-toplevel'])
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Diff of a run's branch against its base, including changes not committed yet. Nothing
+   * is committed or staged to read it.
+   */
+  async getDiff(runId: number): Promise<WorktreeDiff | null> {
+    const run = await agentRunService.findById(runId)
+    if (!run?.worktree_branch || !run.worktree_base) return null
+
+    let diff = ''
+    try {
+      const { tracked, untracked } = await this.readChanges(run, [])
+      diff = [tracked, ...untracked.map(({ output }) => output)].filter(Boolean).join('\n')
+    } catch (error) {
+      // The branch is gone once the worktree was merged or discarded
+      console.warn('[WorktreeManager] No diff for run', runId, getErrorMessage(error))
+    }
+
+    return {
+      branch: run.worktree_branch,
+      base: run.worktree_base,
+      status: run.worktree_status || 'active',
+      diff
+    }
+  }
+
+  /**
+   * Files a run changed on its branch, with the lines added and removed in each
+   */
+  async getChangedFiles(runId: number): Promise<WorktreeFileChange[] | null> {
+    const run = await agentRunService.findById(runId)
+    if (!run?.worktree_branch || !run.worktree_base) return null
+
+    let changes: Awaited<ReturnType<WorktreeManager['readChanges']>>
+    try {
+      changes = await this.readChanges(run, ['--numstat'])
+    } catch {
+      return null
+    }
+
+    // Binary files have '-' for both counts
+    const parseNumstat = (line: string, path?: string): WorktreeFileChange => {
+      const [additions, deletions, ...rest] = line.split('\t')
+      return {
+        path: path ?? rest.join('\t'),
+        additions: Number(additions) || 0,
+        deletions: Number(deletions) || 0
+      }
+    }
+
+    return [
+      ...changes.tracked
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => parseNumstat(line)),
+      ...changes.untracked
+        .filter(({ output }) => output)
+        .map(({ file, output }) => parseNumstat(output, file))
+    ]
+  }
+
+  /**
+   * Apply a finished run's changes to the project, or keep or drop them
+   */
+  async apply(runId: number, action: WorktreeAction): Promise<void> {
+    const run = await agentRunService.findById(runId)
+    if (!run?.worktree_branch || !run.worktree_base) {
+      throw new Error('Run has no worktree')
+    }
+    if (!PENDING_STATUSES.includes(run.worktree_status || '')) {
+      throw new Error(`Worktree was already ${run.worktree_status}`)
+    }
+    if (UNFINISHED_RUN_STATUSES.includes(run.status)) {
+      throw new Error('Run has not finished yet')
+    }
+
+    switch (action) {
+      case 'merge':
+        await this.commitPending(run)
+        await this.merge(run)
+        await this.remove(run, true)
+        break
+      case 'cherry_pick':
+        await this.commitPending(run)
+        await this.cherryPick(run)
+        await this.remove(run, true)
+        break
+      case 'keep':
+        break
+      case 'discard':
+        await this.remove(run, true)
+        break
+    }
+
+    await agentRunService.updateAgentRun(run.id, { worktree_status: ACTION_STATUS[action] })
+  }
+
+  /**
+   * Delete old finished runs like `AgentRunService.cleanupOldRuns`, removing their
+   * worktrees along with them. Work not applied yet is committed and its branch left in
+   * place. Worktree directories of runs that no longer exist are removed too.
+   */
+  async cleanupOldRuns(keepPerAgent?: number): Promise<number> {
+    const deleted = await agentRunService.cleanupOldRuns(keepPerAgent, async (runs) => {
+      for (const run of runs) {
+        if (!run.worktree_branch || !PENDING_STATUSES.includes(run.worktree_status || '')) {
+          continue
+        }
+
+        try {
+          await this.commitPending(run)
+          await this.remove(run, false)
+        } catch (error) {
+          console.error('[WorktreeManager] Failed to remove worktree of run', run.id, error)
+        }
+      }
+    })
+
+    await this.removeOrphans()
+    return deleted
+  }
+
+  // Worktree directories left behind by runs deleted some other way
+  private async removeOrphans(): Promise<void> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.getWorktreeDir())
+    } catch {
+      return
+    }
+
+    for (const entry of entries) {
+      const match = /^run-(\d+)$/.exec(entry)
+      if (!match || (await agentRunService.findById(Number(match[1])))) continue
+
+      console.log('[WorktreeManager] Removing worktree of deleted run', match[1])
+      const root = join(this.getWorktreeDir(), entry)
+      const commonDir = await this.getCommonGitDir(root)
+      try {
+        await fs.rm(root, { recursive: true, force: true })
+      } catch (error) {
+        console.error('[WorktreeManager] Failed to remove', entry, error)
+        continue
+      }
+
+      // The repository still lists the worktree, with its branch checked out, until pruned
+      if (commonDir) {
+        await git(commonDir, ['--git-dir', commonDir, 'worktree', 'prune']).catch((error) => {
+          console.warn('[WorktreeManager] git worktree prune failed:', getErrorMessage(error))
+        })
+      }
+    }
+  }
+
+  // The .git file of a worktree points at `<repository>/.git/worktrees/<name>`
+  private async getCommonGitDir(root: string): Promise<string | null> {
+    try {
+      const content = await fs.readFile(join(root, '.git'), 'utf-8')
+      const match = /^gitdir:\s*(.+)$/m.exec(content)
+      return match ? dirname(dirname(match[1].trim())) : null
+    } catch {
+      return null
+    }
+  }
+
+  private getWorktreeDir(): string {
+    return join(app.getPath('userData'), 'worktrees')
+  }
+
+  private getWorktreeRoot(runId: number): string {
+    return join(this.getWorktreeDir(), `run-${runId}`)
+  }
+
+  /**
+   * Changes of a run against its base, read with `git diff` and the given arguments. A
+   * worktree still in place is read as it is on disk, committed or not, with each file
+   * git doesn't track yet diffed on its own; otherwise the branch is diffed.
+   */
+  private async readChanges(
+    run: AgentRun,
+    args: string[]
+  ): Promise<{ tracked: string; untracked: { file: string; output: string }[] }> {
+    const root = this.getWorktreeRoot(run.id)
+    if (!PENDING_STATUSES.includes(run.worktree_status || '') || !existsSync(root)) {
+      const tracked = await git(run.project_path, [
+        'diff',
+        ...args,
+        run.worktree_base!,
+        run.worktree_branch!
+      ])
+      return { tracked, untracked: [] }
+    }
+
+    const tracked = await git(root, ['diff', ...args, run.worktree_base!])
+    const others = await git(root, ['ls-files', '--others', '--exclude-standard', '-z'])
+
+    const untracked: { file: string; output: string }[] = []
+    for (const file of others.split('\0').filter(Boolean)) {
+      untracked.push({ file, output: await diffUntracked(root, file, args) })
+    }
+    return { tracked, untracked }
+  }
+
+  // Work the agent left uncommitted is committed on its branch before it's applied
+  private async commitPending(run: AgentRun): Promise<void> {
+    const root = this.getWorktreeRoot(run.id)
+    if (!existsSync(root)) return
+
+    const status = await git(root, ['status', '--porcelain'])
+    if (!status) return
+
+    const summary = run.task.split('\n')[0].substring(0, 72)
+    await git(root, ['add', '-A'])
+    await git(root, [...AGENT_IDENTITY, 'commit', '-m', `Agent run #${run.id}: ${summary}`])
+  }
+
+  // The user's own identity is used for merging when there is one
+  private async getIdentityArgs(cwd: string): Promise<string[]> {
+    try {
+      await git(cwd, ['config', 'user.email'])
+      return []
+    } catch {
+      return AGENT_IDENTITY
+    }
+  }
+
+  private async merge(run: AgentRun): Promise<void> {
+    try {
+      const identity = await this.getIdentityArgs(run.project_path)
+      await git(run.project_path, [
+        ...identity,
+        'merge',
+        '--no-ff',
+        '--no-edit',
+        run.worktree_branch!
+      ])
+    } catch (error) {
+      await git(run.project_path, ['merge', '--abort']).catch(() => {})
+      throw new Error(`Merge failed: ${getErrorMessage(error)}`)
+    }
+  }
+
+  private async cherryPick(run: AgentRun): Promise<void> {
+    const range = `${run.worktree_base}..${run.worktree_branch}`
+    if (!(await git(run.project_path, ['rev-list', range]))) {
+      throw new Error('The run made no changes')
+    }
+
+    try {
+      const identity = await this.getIdentityArgs(run.project_path)
+      await git(run.project_path, [...identity, 'cherry-pick', range])
+    } catch (error) {
+      await git(run.project_path, ['cherry-pick', '--abort']).catch(() => {})
+      throw new Error(`Cherry-pick failed: ${getErrorMessage(error)}`)
+    }
+  }
+
+  private async remove(run: AgentRun, deleteBranch: boolean): Promise<void> {
+    const root = this.getWorktreeRoot(run.id)
+
+    if (existsSync(root)) {
+      try {
+        await git(run.project_path, ['worktree', 'remove', '--force', root])
+      } catch (error) {
+        console.warn('[WorktreeManager] git worktree remove failed:', getErrorMessage(error))
+        await fs.rm(root, { recursive: true, force: true })
+        await git(run.project_path, ['worktree', 'prune']).catch(() => {})
+      }
+    }
+
+    if (deleteBranch && run.worktree_branch) {
+      await git(run.project_path, ['branch', '-D', run.worktree_branch]).catch((error) => {
+        console.warn('[WorktreeManager] Failed to delete branch:', getErrorMessage(error))
+      })
+    }
+
+    console.log('[WorktreeManager] Removed worktree of run', run.id)
+  }
+}
+
+// Global instance
+export const worktreeManager = new WorktreeManager()
@@ -16,11 +16,31 @@ const api = {
   checkClaudeVersion: () => ipcRenderer.invoke('check-claude-version'),
 
   // Claude Code Execution
-  executeClaudeCode: (projectPath: string, message: string, model?: string) =>
-    ipcRenderer.invoke('execute-claude-code', { projectPath, message, model }),
-  continueClaudeCode: (projectPath: string, message: string, model?: string) =>
-    ipcRenderer.invoke('continue-claude-code', { projectPath, message, model }),
+  executeClaudeCode: (
+    projectPath: string,
+    message: string,
+    model?: string,
+    interactive?: boolean,
+    permissionMode?: string
+  ) =>
+    ipcRenderer.invoke('execute-claude-code', {
+      projectPath,
+      message,
+      model,
+      interactive,
+      permissionMode
+    }),
+  continueClaudeCode: (
+    projectPath: string,
+    message: string,
+    model?: string,
+    permissionMode?: string
+  ) => ipcRenderer.invoke('continue-claude-code', { projectPath, message, model, permissionMode }),
   cancelClaudeExecution: (runId: number) => ipcRenderer.invoke('cancel-claude-execution', runId),
+  sendSessionInput: (runId: number, message: string) =>
+    ipcRenderer.invoke('send-session-input', { runId, message }),
+  interruptClaudeSession: (runId: number) => ipcRenderer.invoke('interrupt-claude-session', runId),
+  closeSessionInput: (runId: number) => ipcRenderer.invoke('close-session-input', runId),
 
   // File Operations
   readClaudeMdFile: (filePath: string) => ipcRenderer.invoke('read-claude-md-file', filePath),
@@ -34,20 +54,92 @@ const api = {
   createAgent: (agentData: any) => ipcRenderer.invoke('create-agent', agentData),
   updateAgent: (id: number, agentData: any) => ipcRenderer.invoke('update-agent', id, agentData),
   deleteAgent: (id: number) => ipcRenderer.invoke('delete-agent', id),
+  listAgentRevisions: (agentId: number) => ipcRenderer.invoke('list-agent-revisions', agentId),
+  rollbackAgent: (agentId: number, revision: number) =>
+    ipcRenderer.invoke('rollback-agent', agentId, revision),
   getAgent: (id: number) => ipcRenderer.invoke('get-agent', id),
+  listAgentTools: () => ipcRenderer.invoke('list-agent-tools'),
   executeAgent: (params: any) => ipcRenderer.invoke('execute-agent', params),
   killAgentSession: (runId: number) => ipcRenderer.invoke('kill-agent-session', runId),
+  resumeAgentRun: (runId: number) => ipcRenderer.invoke('resume-agent-run', runId),
+  listQueuedRuns: () => ipcRenderer.invoke('list-queued-runs'),
+  moveQueuedRun: (runId: number, offset: number) =>
+    ipcRenderer.invoke('move-queued-run', { runId, offset }),
+  cancelQueuedRun: (runId: number) => ipcRenderer.invoke('cancel-queued-run', runId),
+  getRunConcurrencyLimits: () => ipcRenderer.invoke('get-run-concurrency-limits'),
+  setRunConcurrencyLimits: (limits: any) =>
+    ipcRenderer.invoke('set-run-concurrency-limits', limits),
+  isGitRepository: (projectPath: string) => ipcRenderer.invoke('is-git-repository', projectPath),
+  getRunWorktreeDiff: (runId: number) => ipcRenderer.invoke('get-run-worktree-diff', runId),
+  applyRunWorktree: (runId: number, action: string) =>
+    ipcRenderer.invoke('apply-run-worktree', { runId, action }),
+  listAgentSchedules: () => ipcRenderer.invoke('list-agent-schedules'),
+  createAgentSchedule: (data: any) => ipcRenderer.invoke('create-agent-schedule', data),
+  updateAgentSchedule: (id: number, data: any) =>
+    ipcRenderer.invoke('update-agent-schedule', id, data),
+  deleteAgentSchedule: (id: number) => ipcRenderer.invoke('delete-agent-schedule', id),
+  listAgentTriggers: () => ipcRenderer.invoke('list-agent-triggers'),
+  createAgentTrigger: (data: any) => ipcRenderer.invoke('create-agent-trigger', data),
+  updateAgentTrigger: (id: number, data: any) =>
+    ipcRenderer.invoke('update-agent-trigger', id, data),
+  deleteAgentTrigger: (id: number) => ipcRenderer.invoke('delete-agent-trigger', id),
+  listSubagentFiles: (data: any) => ipcRenderer.invoke('list-subagent-files', data),
+  listSubagentLinks: () => ipcRenderer.invoke('list-subagent-links'),
+  importSubagent: (data: any) => ipcRenderer.invoke('import-subagent', data),
+  exportAgentToSubagent: (data: any) => ipcRenderer.invoke('export-agent-to-subagent', data),
+  resolveSubagentSync: (agentId: number, keep: string) =>
+    ipcRenderer.invoke('resolve-subagent-sync', agentId, keep),
+  setSubagentLiveSync: (agentId: number, liveSync: boolean) =>
+    ipcRenderer.invoke('set-subagent-live-sync', agentId, liveSync),
+  unlinkSubagent: (agentId: number) => ipcRenderer.invoke('unlink-subagent', agentId),
+  listPipelines: () => ipcRenderer.invoke('list-pipelines'),
+  createPipeline: (data: any) => ipcRenderer.invoke('create-pipeline', data),
+  updatePipeline: (id: number, data: any) => ipcRenderer.invoke('update-pipeline', id, data),
+  deletePipeline: (id: number) => ipcRenderer.invoke('delete-pipeline', id),
+  runPipeline: (id: number, projectPath: string) =>
+    ipcRenderer.invoke('run-pipeline', id, projectPath),
+  listPipelineRuns: (pipelineId?: number) => ipcRenderer.invoke('list-pipeline-runs', pipelineId),
+  cancelPipelineRun: (pipelineRunId: number) =>
+    ipcRenderer.invoke('cancel-pipeline-run', pipelineRunId),
+  listEvalCases: (agentId: number) => ipcRenderer.invoke('list-eval-cases', agentId),
+  createEvalCase: (data: any) => ipcRenderer.invoke('create-eval-case', data),
+  updateEvalCase: (id: number, data: any) => ipcRenderer.invoke('update-eval-case', id, data),
+  deleteEvalCase: (id: number) => ipcRenderer.invoke('delete-eval-case', id),
+  runEvalSuite: (agentId: number) => ipcRenderer.invoke('run-eval-suite', agentId),
+  listEvalRuns: (agentId: number) => ipcRenderer.invoke('list-eval-runs', agentId),
+  cancelEvalRun: (evalRunId: number) => ipcRenderer.invoke('cancel-eval-run', evalRunId),
+  startRunComparison: (data: any) => ipcRenderer.invoke('start-run-comparison', data),
+  getRunComparison: (id: number) => ipcRenderer.invoke('get-run-comparison', id),
   listAgentRuns: (agentId?: number) => ipcRenderer.invoke('list-agent-runs', agentId),
+  queryAgentRuns: (query: any) => ipcRenderer.invoke('query-agent-runs', query),
+  listAgentRunProjects: () => ipcRenderer.invoke('list-agent-run-projects'),
   getAgentRun: (id: number) => ipcRenderer.invoke('get-agent-run', id),
   getAgentRunWithMetrics: (id: number) => ipcRenderer.invoke('get-agent-run-with-metrics', id),
   listRunningSessionsAgents: () => ipcRenderer.invoke('list-running-agent-sessions'),
   getSessionStatus: (runId: number) => ipcRenderer.invoke('get-session-status', runId),
   getLiveSessionOutput: (runId: number) => ipcRenderer.invoke('get-live-session-output', runId),
+  getStreamEvents: (runId: number, afterSeq?: number) =>
+    ipcRenderer.invoke('get-stream-events', { runId, afterSeq }),
+  setOutputVisibility: (visible: boolean) => ipcRenderer.invoke('set-output-visibility', visible),
   getSessionOutput: (runId: number) => ipcRenderer.invoke('get-session-output', runId),
   exportAgent: (id: number) => ipcRenderer.invoke('export-agent', id),
   importAgent: (jsonData: string) => ipcRenderer.invoke('import-agent', jsonData),
   importAgentFromFile: (filePath: string) => ipcRenderer.invoke('import-agent-from-file', filePath),
+  listRegistrySources: () => ipcRenderer.invoke('list-registry-sources'),
+  createRegistrySource: (data: any) => ipcRenderer.invoke('create-registry-source', data),
+  updateRegistrySource: (id: number, data: any) =>
+    ipcRenderer.invoke('update-registry-source', id, data),
+  deleteRegistrySource: (id: number) => ipcRenderer.invoke('delete-registry-source', id),
+  refreshRegistrySource: (id: number) => ipcRenderer.invoke('refresh-registry-source', id),
+  listRegistryAgents: (sourceId?: number) => ipcRenderer.invoke('list-registry-agents', sourceId),
+  getRegistryAgent: (sourceId: number, agentId: string) =>
+    ipcRenderer.invoke('get-registry-agent', sourceId, agentId),
+  installRegistryAgent: (sourceId: number, agentId: string) =>
+    ipcRenderer.invoke('install-registry-agent', sourceId, agentId),
+  updateRegistryAgent: (agentId: number) => ipcRenderer.invoke('update-registry-agent', agentId),
   cleanupFinishedProcesses: () => ipcRenderer.invoke('cleanup-finished-processes'),
+  cleanupOldAgentRuns: (keepPerAgent?: number) =>
+    ipcRenderer.invoke('cleanup-old-agent-runs', keepPerAgent),
 
   // MCP Management
   mcpAdd: (
@@ -176,6 +268,116 @@ const api = {
   searchFiles: (basePath: string, query: string) =>
     ipcRenderer.invoke('search-files', { basePath, query }),
 
+  // Checkpoints
+  createCheckpoint: (
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    messageIndex?: number,
+    description?: string
+  ) =>
+    ipcRenderer.invoke('create-checkpoint', {
+      sessionId,
+      projectId,
+      projectPath,
+      messageIndex,
+      description
+    }),
+  restoreCheckpoint: (
+    checkpointId: string,
+    sessionId: string,
+    projectId: string,
+    projectPath: string
+  ) =>
+    ipcRenderer.invoke('restore-checkpoint', { checkpointId, sessionId, projectId, projectPath }),
+  forkFromCheckpoint: (
+    checkpointId: string,
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    description?: string
+  ) =>
+    ipcRenderer.invoke('fork-from-checkpoint', {
+      checkpointId,
+      sessionId,
+      projectId,
+      projectPath,
+      description
+    }),
+  listCheckpoints: (sessionId: string, projectId: string, projectPath: string) =>
+    ipcRenderer.invoke('list-checkpoints', { sessionId, projectId, projectPath }),
+  getSessionTimeline: (sessionId: string, projectId: string, projectPath: string) =>
+    ipcRenderer.invoke('get-session-timeline', { sessionId, projectId, projectPath }),
+  getCheckpointDiff: (
+    fromCheckpointId: string,
+    toCheckpointId: string,
+    sessionId: string,
+    projectId: string
+  ) =>
+    ipcRenderer.invoke('get-checkpoint-diff', {
+      fromCheckpointId,
+      toCheckpointId,
+      sessionId,
+      projectId
+    }),
+  cleanupOldCheckpoints: (
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    keepCount: number
+  ) =>
+    ipcRenderer.invoke('cleanup-old-checkpoints', { sessionId, projectId, projectPath, keepCount }),
+  getCheckpointSettings: (sessionId: string, projectId: string, projectPath: string) =>
+    ipcRenderer.invoke('get-checkpoint-settings', { sessionId, projectId, projectPath }),
+  updateCheckpointSettings: (
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    autoCheckpointEnabled: boolean,
+    checkpointStrategy: string
+  ) =>
+    ipcRenderer.invoke('update-checkpoint-settings', {
+      sessionId,
+      projectId,
+      projectPath,
+      autoCheckpointEnabled,
+      checkpointStrategy
+    }),
+
+  checkAutoCheckpoint: (
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    message: string
+  ) => ipcRenderer.invoke('check-auto-checkpoint', { sessionId, projectId, projectPath, message }),
+  trackCheckpointMessage: (
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    message: string
+  ) =>
+    ipcRenderer.invoke('track-checkpoint-message', { sessionId, projectId, projectPath, message }),
+  trackSessionMessages: (
+    sessionId: string,
+    projectId: string,
+    projectPath: string,
+    messages: string[]
+  ) =>
+    ipcRenderer.invoke('track-session-messages', { sessionId, projectId, projectPath, messages }),
+
+  getCheckpointStorageUsage: () => ipcRenderer.invoke('get-checkpoint-storage-usage'),
+  collectCheckpointGarbage: () => ipcRenderer.invoke('collect-checkpoint-garbage'),
+  setCheckpointCompression: (enabled: boolean) =>
+    ipcRenderer.invoke('set-checkpoint-compression', enabled),
+
+  // Tool Permission Approval
+  respondPermissionRequest: (requestId: string, decision: string) =>
+    ipcRenderer.invoke('respond-permission-request', { requestId, decision }),
+  listPendingPermissionRequests: (runId?: number) =>
+    ipcRenderer.invoke('list-pending-permission-requests', runId),
+  getToolApprovalMode: () => ipcRenderer.invoke('get-tool-approval-mode'),
+  setToolApprovalMode: (mode: string) => ipcRenderer.invoke('set-tool-approval-mode', mode),
+
   // Session Management
   clearCheckpointManager: (sessionId: string) =>
     ipcRenderer.invoke('clear-checkpoint-manager', sessionId),
@@ -189,8 +391,22 @@ const api = {
     ipcRenderer.invoke('update-session-id', { runId, sessionId }),
   getClaudeSessionOutput: (sessionId: string) =>
     ipcRenderer.invoke('get-claude-session-output', { sessionId }),
-  resumeClaudeCode: (projectPath: string, sessionId: string, prompt: string, model: string) =>
-    ipcRenderer.invoke('resume-claude-code', { projectPath, sessionId, prompt, model }),
+  resumeClaudeCode: (
+    projectPath: string,
+    sessionId: string,
+    prompt: string,
+    model: string,
+    interactive?: boolean,
+    permissionMode?: string
+  ) =>
+    ipcRenderer.invoke('resume-claude-code', {
+      projectPath,
+      sessionId,
+      prompt,
+      model,
+      interactive,
+      permissionMode
+    }),
   streamSessionOutput: (runId: number) => ipcRenderer.invoke('stream-session-output', { runId }),
 
   // File Dialogs
@@ -240,6 +456,30 @@ const api = {
   onClaudeComplete: (callback: (event: any, data: any) => void) => {
     ipcRenderer.on('claude-complete', callback)
   },
+  onClaudeEvents: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('claude-events', callback)
+  },
+  onRunQueueChanged: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('run-queue-changed', callback)
+  },
+  onAgentSchedulesChanged: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('agent-schedules-changed', callback)
+  },
+  onAgentTriggersChanged: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('agent-triggers-changed', callback)
+  },
+  onSubagentLinksChanged: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('subagent-links-changed', callback)
+  },
+  onPipelineRunsChanged: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('pipeline-runs-changed', callback)
+  },
+  onEvalRunsChanged: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('eval-runs-changed', callback)
+  },
+  onRunMetricsRecorded: (callback: (event: any, data: any) => void) => {
+    ipcRenderer.on('run-metrics-recorded', callback)
+  },
 
   // 动态事件监听器 - 支持特定事件名称
   addEventListener: (eventName: string, callback: (event: any, data: any) => void) => {
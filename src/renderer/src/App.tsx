@@ -396,6 +396,7 @@ function App() {
       case 'claude-code-session':
         return (
           <ClaudeCodeSession
+            key={selectedSession?.id || 'new-session'}
             session={selectedSession || undefined}
             onBack={() => {
               setSelectedSession(null)
@@ -0,0 +1,591 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import {
+  ArrowLeft,
+  Check,
+  FlaskConical,
+  FolderOpen,
+  Loader2,
+  Minus,
+  Pencil,
+  Play,
+  Plus,
+  Square,
+  Trash2,
+  X
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  api,
+  listen,
+  open,
+  type Agent,
+  type EvalAssertion,
+  type EvalCase,
+  type EvalCaseResult,
+  type EvalRun
+} from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface AgentEvaluationsProps {
+  /**
+   * Agents that can be evaluated
+   */
+  agents: Agent[]
+  /**
+   * Callback to go back to the agents list
+   */
+  onBack: () => void
+  /**
+   * Optional className for styling
+   */
+  className?: string
+}
+
+const ASSERTION_TYPES: EvalAssertion['type'][] = [
+  'file_exists',
+  'file_contains',
+  'command',
+  'tool_used',
+  'max_cost'
+]
+
+// Suite runs shown as columns of the results matrix
+const MATRIX_RUNS = 12
+
+function createAssertion(type: EvalAssertion['type']): EvalAssertion {
+  switch (type) {
+    case 'file_exists':
+      return { type, path: '' }
+    case 'file_contains':
+      return { type, path: '', text: '' }
+    case 'command':
+      return { type, command: '' }
+    case 'tool_used':
+      return { type, tool: '' }
+    case 'max_cost':
+      return { type, usd: 1 }
+  }
+}
+
+// Tooltip of a matrix cell: why the case failed
+function describeResult(result: EvalCaseResult, evalCase?: EvalCase): string {
+  const lines: string[] = [result.status]
+  if (result.error) lines.push(result.error)
+  result.assertions?.forEach((assertion, index) => {
+    if (!assertion.passed) {
+      const type = evalCase?.assertions[index]?.type || `#${index + 1}`
+      lines.push(`${type}: ${assertion.message || 'failed'}`)
+    }
+  })
+  if (result.cost_usd) lines.push(`$${result.cost_usd.toFixed(4)}`)
+  if (result.work_dir) lines.push(result.work_dir)
+  return lines.join('\n')
+}
+
+/**
+ * AgentEvaluations component for managing the test cases of agents and comparing their
+ * results across revisions
+ *
+ * @example
+ * <AgentEvaluations agents={agents} onBack={() => setView('list')} />
+ */
+export const AgentEvaluations: React.FC<AgentEvaluationsProps> = ({
+  agents,
+  onBack,
+  className
+}) => {
+  const { t } = useTranslation('ui')
+  const [agentId, setAgentId] = useState<string>(agents[0]?.id?.toString() || '')
+  const [cases, setCases] = useState<EvalCase[]>([])
+  const [evalRuns, setEvalRuns] = useState<EvalRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [starting, setStarting] = useState(false)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [name, setName] = useState('')
+  const [fixturePath, setFixturePath] = useState('')
+  const [task, setTask] = useState('')
+  const [assertions, setAssertions] = useState<EvalAssertion[]>([])
+
+  useEffect(() => {
+    if (!agentId) return
+    loadEvaluations()
+    resetForm()
+
+    // Reload as cases of a suite run finish
+    const unlisten = listen('eval-runs-changed', () => loadEvaluations(false))
+    return unlisten
+  }, [agentId])
+
+  const loadEvaluations = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      const [agentCases, agentEvalRuns] = await Promise.all([
+        api.listEvalCases(Number(agentId)),
+        api.listEvalRuns(Number(agentId))
+      ])
+      setCases(agentCases)
+      setEvalRuns(agentEvalRuns)
+    } catch (err) {
+      console.error('Failed to load evaluations:', err)
+      setError(t('agents.evaluations.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setName('')
+    setFixturePath('')
+    setTask('')
+    setAssertions([])
+  }
+
+  const handleEdit = (evalCase: EvalCase) => {
+    setEditingId(evalCase.id)
+    setName(evalCase.name)
+    setFixturePath(evalCase.fixture_path)
+    setTask(evalCase.task)
+    setAssertions(evalCase.assertions)
+  }
+
+  const handleSelectFixture = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: 'Select Fixture Directory'
+      })
+      if (selected) {
+        setFixturePath(selected as string)
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  const updateAssertion = (index: number, assertion: EvalAssertion) => {
+    setAssertions(assertions.map((current, i) => (i === index ? assertion : current)))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      const data = { name, fixturePath, task, assertions }
+      if (editingId === null) {
+        await api.createEvalCase({ agentId: Number(agentId), ...data })
+      } else {
+        await api.updateEvalCase(editingId, data)
+      }
+      resetForm()
+      await loadEvaluations(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.evaluations.saveFailed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (evalCase: EvalCase) => {
+    if (!confirm(t('agents.evaluations.confirmDelete', { name: evalCase.name }))) return
+
+    try {
+      await api.deleteEvalCase(evalCase.id)
+      if (editingId === evalCase.id) resetForm()
+      await loadEvaluations(false)
+    } catch (err) {
+      console.error('Failed to delete test case:', err)
+      setError(t('agents.evaluations.deleteFailed'))
+    }
+  }
+
+  const handleRun = async () => {
+    try {
+      setStarting(true)
+      setError(null)
+      await api.runEvalSuite(Number(agentId))
+      await loadEvaluations(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.evaluations.runFailed'))
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleCancel = async (evalRun: EvalRun) => {
+    try {
+      await api.cancelEvalRun(evalRun.id)
+      await loadEvaluations(false)
+    } catch (err) {
+      console.error('Failed to cancel evaluation run:', err)
+      setError(t('agents.evaluations.cancelFailed'))
+    }
+  }
+
+  const renderAssertionFields = (assertion: EvalAssertion, index: number) => {
+    switch (assertion.type) {
+      case 'file_exists':
+        return (
+          <Input
+            value={assertion.path}
+            onChange={(e) => updateAssertion(index, { ...assertion, path: e.target.value })}
+            placeholder={t('agents.evaluations.pathPlaceholder')}
+            className="flex-1 font-mono"
+          />
+        )
+      case 'file_contains':
+        return (
+          <>
+            <Input
+              value={assertion.path}
+              onChange={(e) => updateAssertion(index, { ...assertion, path: e.target.value })}
+              placeholder={t('agents.evaluations.pathPlaceholder')}
+              className="flex-1 font-mono"
+            />
+            <Input
+              value={assertion.text}
+              onChange={(e) => updateAssertion(index, { ...assertion, text: e.target.value })}
+              placeholder={t('agents.evaluations.textPlaceholder')}
+              className="flex-1"
+            />
+          </>
+        )
+      case 'command':
+        return (
+          <Input
+            value={assertion.command}
+            onChange={(e) => updateAssertion(index, { ...assertion, command: e.target.value })}
+            placeholder="npm test"
+            className="flex-1 font-mono"
+          />
+        )
+      case 'tool_used':
+        return (
+          <Input
+            value={assertion.tool}
+            onChange={(e) => updateAssertion(index, { ...assertion, tool: e.target.value })}
+            placeholder="Edit"
+            className="flex-1 font-mono"
+          />
+        )
+      case 'max_cost':
+        return (
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            value={assertion.usd}
+            onChange={(e) => updateAssertion(index, { ...assertion, usd: Number(e.target.value) })}
+            className="flex-1"
+          />
+        )
+    }
+  }
+
+  const renderCell = (evalRun: EvalRun, evalCase: EvalCase) => {
+    const result = evalRun.case_results[evalCase.id]
+    if (!result) {
+      return <Minus className="h-4 w-4 mx-auto text-muted-foreground/50" />
+    }
+
+    return (
+      <div
+        title={describeResult(result, evalCase)}
+        className={cn(
+          'mx-auto flex h-6 w-6 items-center justify-center rounded',
+          result.status === 'passed' && 'bg-green-500/15 text-green-500',
+          result.status === 'failed' && 'bg-red-500/15 text-red-500',
+          (result.status === 'pending' || result.status === 'cancelled') && 'text-muted-foreground'
+        )}
+      >
+        {result.status === 'passed' ? (
+          <Check className="h-4 w-4" />
+        ) : result.status === 'failed' ? (
+          <X className="h-4 w-4" />
+        ) : result.status === 'running' ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Minus className="h-4 w-4" />
+        )}
+      </div>
+    )
+  }
+
+  // Oldest first, so results read left to right over time
+  const matrixRuns = evalRuns.slice(0, MATRIX_RUNS).reverse()
+  const runningEvalRun = evalRuns.find((evalRun) => evalRun.status === 'running')
+
+  const canSave = !!name.trim() && !!fixturePath.trim() && !!task.trim()
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      <div className="w-full max-w-5xl mx-auto flex flex-col h-full">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center gap-3 p-4 border-b border-border"
+        >
+          <Button variant="ghost" size="icon" onClick={onBack} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1">
+            <h2 className="text-lg font-semibold">{t('agents.evaluations.title')}</h2>
+            <p className="text-xs text-muted-foreground">{t('agents.evaluations.description')}</p>
+          </div>
+          <Select value={agentId} onValueChange={setAgentId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {agents.map((agent) => (
+                <SelectItem key={agent.id} value={String(agent.id)}>
+                  {agent.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {runningEvalRun ? (
+            <Button size="sm" variant="outline" onClick={() => handleCancel(runningEvalRun)}>
+              <Square className="mr-2 h-4 w-4" />
+              {t('agents.evaluations.cancel')}
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleRun} disabled={cases.length === 0 || starting}>
+              {starting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              {t('agents.evaluations.run')}
+            </Button>
+          )}
+        </motion.div>
+
+        {error && (
+          <div className="mx-4 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Results matrix */}
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : cases.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-32 text-center">
+              <FlaskConical className="h-10 w-10 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">{t('agents.evaluations.empty')}</p>
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-4 overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-medium pb-2 pr-4">
+                        {t('agents.evaluations.case')}
+                      </th>
+                      {matrixRuns.map((evalRun) => (
+                        <th
+                          key={evalRun.id}
+                          className="font-medium pb-2 px-1 text-center"
+                          title={new Date(evalRun.created_at).toLocaleString()}
+                        >
+                          <div>
+                            {evalRun.agent_revision
+                              ? t('agents.execution.revision', {
+                                  revision: evalRun.agent_revision
+                                })
+                              : '—'}
+                          </div>
+                          <div className="font-normal">
+                            {new Date(evalRun.created_at).toLocaleDateString()}
+                          </div>
+                        </th>
+                      ))}
+                      <th className="pb-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cases.map((evalCase) => (
+                      <tr key={evalCase.id} className="border-t border-border">
+                        <td className="py-2 pr-4">
+                          <div className="font-medium">{evalCase.name}</div>
+                          <div className="text-muted-foreground truncate max-w-[240px]">
+                            {evalCase.task}
+                          </div>
+                        </td>
+                        {matrixRuns.map((evalRun) => (
+                          <td key={evalRun.id} className="py-2 px-1">
+                            {renderCell(evalRun, evalCase)}
+                          </td>
+                        ))}
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleEdit(evalCase)}
+                            className="h-7 w-7"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleDelete(evalCase)}
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  {matrixRuns.length > 0 && (
+                    <tfoot>
+                      <tr className="border-t border-border text-muted-foreground">
+                        <td className="pt-2 pr-4">{t('agents.evaluations.passed')}</td>
+                        {matrixRuns.map((evalRun) => (
+                          <td key={evalRun.id} className="pt-2 px-1 text-center">
+                            {evalRun.status === 'running' ? (
+                              <Loader2 className="h-3.5 w-3.5 mx-auto animate-spin" />
+                            ) : (
+                              <span title={`$${evalRun.cost_usd.toFixed(4)}`}>
+                                {evalRun.passed_count}/{Object.keys(evalRun.case_results).length}
+                              </span>
+                            )}
+                          </td>
+                        ))}
+                        <td />
+                      </tr>
+                    </tfoot>
+                  )}
+                </table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Test case editor */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <h3 className="text-sm font-medium">
+                  {editingId === null ? t('agents.evaluations.new') : t('agents.evaluations.edit')}
+                </h3>
+                {editingId !== null && (
+                  <Badge variant="secondary" className="text-xs">
+                    {name}
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="eval-name">{t('agents.evaluations.name')}</Label>
+                  <Input id="eval-name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('agents.evaluations.fixture')}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={fixturePath}
+                      onChange={(e) => setFixturePath(e.target.value)}
+                      placeholder={t('agents.evaluations.fixturePlaceholder')}
+                      className="flex-1"
+                    />
+                    <Button variant="outline" size="icon" onClick={handleSelectFixture}>
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eval-task">{t('agents.execution.task')}</Label>
+                <Input id="eval-task" value={task} onChange={(e) => setTask(e.target.value)} />
+                <p className="text-xs text-muted-foreground">
+                  {t('agents.evaluations.fixtureHint')}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('agents.evaluations.assertions')}</Label>
+                {assertions.map((assertion, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={assertion.type}
+                      onValueChange={(type) =>
+                        updateAssertion(index, createAssertion(type as EvalAssertion['type']))
+                      }
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ASSERTION_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {t(`agents.evaluations.assertionTypes.${type}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {renderAssertionFields(assertion, index)}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setAssertions(assertions.filter((_, i) => i !== index))}
+                      className="h-8 w-8"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setAssertions([...assertions, createAssertion('file_exists')])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t('agents.evaluations.addAssertion')}
+                </Button>
+              </div>
+              <div className="flex justify-end gap-2">
+                {editingId !== null && (
+                  <Button size="sm" variant="ghost" onClick={resetForm}>
+                    {t('agents.evaluations.cancelEdit')}
+                  </Button>
+                )}
+                <Button onClick={handleSave} disabled={!canSave || saving} size="sm">
+                  {saving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {editingId === null
+                    ? t('agents.evaluations.create')
+                    : t('agents.evaluations.save')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
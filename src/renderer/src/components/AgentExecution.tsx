@@ -27,11 +27,21 @@ import {
   DialogTitle
 } from '@/components/ui/dialog'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
-import { api, type Agent } from '@/lib/api'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { api, type Agent, type RunPriority, type StreamEvent } from '@/lib/api'
 import { cn } from '@/lib/utils'
 import { open } from '@/lib/api'
 import { listen, type UnlistenFn } from '@/lib/api'
 import { StreamMessage } from './StreamMessage'
+import { PermissionRequestCard } from './PermissionRequestCard'
+import { usePermissionRequests } from '@/lib/permissionRequests'
 import { ExecutionControlBar } from './ExecutionControlBar'
 import { ErrorBoundary } from './ErrorBoundary'
 import { useVirtualizer } from '@tanstack/react-virtual'
@@ -81,6 +91,8 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
   const [projectPath, setProjectPath] = useState('')
   const [task, setTask] = useState(agent.default_task || '')
   const [model, setModel] = useState(agent.model || 'sonnet')
+  const [priority, setPriority] = useState<RunPriority>('normal')
+  const [useWorktree, setUseWorktree] = useState(agent.use_worktree || false)
   const [isRunning, setIsRunning] = useState(false)
   const [messages, setMessages] = useState<ClaudeStreamMessage[]>([])
   const [rawJsonlOutput, setRawJsonlOutput] = useState<string[]>([])
@@ -107,6 +119,10 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
   const elapsedTimeIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const [runId, setRunId] = useState<number | null>(null)
 
+  // Tool uses of the run waiting for approval
+  const { requests: permissionRequests, respond: respondToPermission } =
+    usePermissionRequests(runId)
+
   // Filter out messages that shouldn't be displayed
   const displayableMessages = React.useMemo(() => {
     return messages.filter((message, index) => {
@@ -323,28 +339,35 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
       unlistenRefs.current = []
 
       // Execute the agent and get the run ID
-      const executionRunId = await api.executeAgent(agent.id!, projectPath, task, model)
+      const executionRunId = await api.executeAgent(
+        agent.id!,
+        projectPath,
+        task,
+        model,
+        priority,
+        undefined,
+        useWorktree
+      )
       console.log('Agent execution started with run ID:', executionRunId)
       setRunId(executionRunId)
 
       // Set up event listeners with run ID isolation
       console.log('[AgentExecution] Setting up event listener for runId:', executionRunId)
-      const outputUnlisten = await listen<string>(`agent-output:${executionRunId}`, (event) => {
-        console.log(
-          '[AgentExecution] Received agent output event:',
-          event.payload?.length ? `data length: ${event.payload.length}` : event.payload
-        )
-        try {
-          // Store raw JSONL
-          setRawJsonlOutput((prev) => [...prev, event.payload])
+      const outputUnlisten = await listen<StreamEvent[]>(
+        `agent-events:${executionRunId}`,
+        (event) => {
+          console.log('[AgentExecution] Received agent stream events:', event.payload.length)
+          const messageEvents = event.payload.filter((streamEvent) => 'message' in streamEvent)
+          if (messageEvents.length === 0) return
 
-          // Parse and display
-          const message = JSON.parse(event.payload) as ClaudeStreamMessage
-          setMessages((prev) => [...prev, message])
-        } catch (err) {
-          console.error('Failed to parse message:', err, event.payload)
+          // Store raw JSONL
+          setRawJsonlOutput((prev) => [...prev, ...messageEvents.map((e) => e.line)])
+          setMessages((prev) => [
+            ...prev,
+            ...messageEvents.map((e) => e.message as ClaudeStreamMessage)
+          ])
         }
-      })
+      )
 
       const errorUnlisten = await listen<string>(`agent-error:${executionRunId}`, (event) => {
         console.error('Agent error:', event.payload)
@@ -713,6 +736,41 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
               </div>
             </div>
 
+            {/* Queue Priority */}
+            <div className="space-y-2">
+              <Label>{t('agents.execution.priority.label')}</Label>
+              <Select
+                value={priority}
+                onValueChange={(value: string) => setPriority(value as RunPriority)}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="high">{t('agents.execution.priority.high')}</SelectItem>
+                  <SelectItem value="normal">{t('agents.execution.priority.normal')}</SelectItem>
+                  <SelectItem value="low">{t('agents.execution.priority.low')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Worktree */}
+            <div className="flex items-center justify-between max-w-md">
+              <div className="space-y-0.5">
+                <Label htmlFor="run-use-worktree">{t('agents.execution.worktree.label')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('agents.execution.worktree.description')}
+                </p>
+              </div>
+              <Switch
+                id="run-use-worktree"
+                checked={useWorktree}
+                onCheckedChange={setUseWorktree}
+                disabled={isRunning}
+              />
+            </div>
+
             {/* Task Input */}
             <div className="space-y-2">
               <Label>{t('agents.execution.task')}</Label>
@@ -812,7 +870,12 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
                           style={{ top: virtualItem.start }}
                         >
                           <ErrorBoundary>
-                            <StreamMessage message={message} streamMessages={messages} />
+                            <StreamMessage
+                              message={message}
+                              streamMessages={messages}
+                              permissionRequests={permissionRequests}
+                              onPermissionDecision={respondToPermission}
+                            />
                           </ErrorBoundary>
                         </motion.div>
                       )
@@ -820,6 +883,26 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
                   </AnimatePresence>
                 </div>
 
+                {/* Permission requests made before their tool use was streamed */}
+                {permissionRequests
+                  .filter(
+                    (request) =>
+                      !request.toolUseId ||
+                      !messages.some(
+                        (message) =>
+                          message.type === 'assistant' &&
+                          message.message?.content?.some(
+                            (content: any) =>
+                              content.type === 'tool_use' && content.id === request.toolUseId
+                          )
+                      )
+                  )
+                  .map((request) => (
+                    <div key={request.id} className="px-4 pb-4">
+                      <PermissionRequestCard request={request} onDecision={respondToPermission} />
+                    </div>
+                  ))}
+
                 <div ref={messagesEndRef} />
               </div>
             </div>
@@ -949,7 +1032,12 @@ export const AgentExecution: React.FC<AgentExecutionProps> = ({ agent, onBack, c
                         style={{ top: virtualItem.start }}
                       >
                         <ErrorBoundary>
-                          <StreamMessage message={message} streamMessages={messages} />
+                          <StreamMessage
+                            message={message}
+                            streamMessages={messages}
+                            permissionRequests={permissionRequests}
+                            onPermissionDecision={respondToPermission}
+                          />
                         </ErrorBoundary>
                       </motion.div>
                     )
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { api, type AgentMcpServer, type AgentMcpSettings } from '@/lib/api'
+
+interface AgentMcpServersEditorProps {
+  /**
+   * MCP settings being edited
+   */
+  value: AgentMcpSettings
+  /**
+   * Callback with the changed settings
+   */
+  onChange: (value: AgentMcpSettings) => void
+}
+
+const INLINE_CONFIG_PLACEHOLDER = '{\n  "command": "npx",\n  "args": ["-y", "some-mcp-server"]\n}'
+
+function parseServers(json: string | null): AgentMcpServer[] {
+  try {
+    return json ? JSON.parse(json) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * AgentMcpServersEditor component for the MCP servers of an agent, picked from the servers
+ * configured in Claude Code or defined inline
+ *
+ * @example
+ * <AgentMcpServersEditor value={mcpSettings} onChange={setMcpSettings} />
+ */
+export const AgentMcpServersEditor: React.FC<AgentMcpServersEditorProps> = ({
+  value,
+  onChange
+}) => {
+  const { t } = useTranslation('ui')
+  const [knownServers, setKnownServers] = useState<string[]>([])
+  const [inlineName, setInlineName] = useState('')
+  const [inlineConfig, setInlineConfig] = useState('')
+  const [inlineError, setInlineError] = useState<string | null>(null)
+
+  useEffect(() => {
+    api
+      .mcpList()
+      .then((servers) => setKnownServers(servers.map((server) => server.name)))
+      .catch((err) => console.error('Failed to load MCP servers:', err))
+  }, [])
+
+  const servers = parseServers(value.mcp_servers)
+
+  const setServers = (entries: AgentMcpServer[]) => {
+    onChange({ ...value, mcp_servers: entries.length > 0 ? JSON.stringify(entries) : null })
+  }
+
+  const addInlineServer = () => {
+    const name = inlineName.trim()
+    if (servers.some((server) => server.name === name)) {
+      setInlineError(t('createAgent.mcp.duplicate', { name }))
+      return
+    }
+
+    try {
+      const config = JSON.parse(inlineConfig)
+      if (typeof config?.command !== 'string' && typeof config?.url !== 'string') {
+        setInlineError(t('createAgent.mcp.configInvalid'))
+        return
+      }
+      setServers([...servers, { name, config }])
+      setInlineName('')
+      setInlineConfig('')
+      setInlineError(null)
+    } catch {
+      setInlineError(t('createAgent.mcp.configInvalid'))
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between max-w-md">
+        <div className="space-y-0.5">
+          <Label htmlFor="mcp-strict">{t('createAgent.mcp.strict')}</Label>
+          <p className="text-xs text-muted-foreground">{t('createAgent.mcp.strictDescription')}</p>
+        </div>
+        <Switch
+          id="mcp-strict"
+          checked={value.strict_mcp_config}
+          onCheckedChange={(checked) => onChange({ ...value, strict_mcp_config: checked })}
+        />
+      </div>
+
+      <div className="space-y-2 rounded-lg border p-3">
+        <div className="flex flex-wrap gap-2">
+          {servers.length === 0 && (
+            <span className="text-xs text-muted-foreground">{t('createAgent.mcp.noServers')}</span>
+          )}
+          {servers.map((server) => (
+            <Badge key={server.name} variant="secondary" className="gap-1 font-mono text-xs">
+              {server.name}
+              <span className="text-muted-foreground">
+                {server.config ? t('createAgent.mcp.inline') : t('createAgent.mcp.configured')}
+              </span>
+              <button
+                type="button"
+                onClick={() => setServers(servers.filter((other) => other.name !== server.name))}
+                className="hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+
+        {/* Servers configured in Claude Code */}
+        <div className="flex flex-wrap gap-1">
+          {knownServers
+            .filter((name) => !servers.some((server) => server.name === name))
+            .map((name) => (
+              <Button
+                key={name}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setServers([...servers, { name }])}
+                className="h-6 px-2 font-mono text-xs"
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                {name}
+              </Button>
+            ))}
+        </div>
+
+        {/* Inline server */}
+        <div className="space-y-2 max-w-md">
+          <Input
+            value={inlineName}
+            onChange={(e) => setInlineName(e.target.value)}
+            placeholder={t('createAgent.mcp.namePlaceholder')}
+            className="font-mono text-xs"
+          />
+          <Textarea
+            value={inlineConfig}
+            onChange={(e) => setInlineConfig(e.target.value)}
+            placeholder={INLINE_CONFIG_PLACEHOLDER}
+            rows={4}
+            className="font-mono text-xs"
+          />
+          {inlineError && <p className="text-xs text-destructive">{inlineError}</p>}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addInlineServer}
+            disabled={!inlineName.trim() || !inlineConfig.trim()}
+          >
+            {t('createAgent.mcp.addInline')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
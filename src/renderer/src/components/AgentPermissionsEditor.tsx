@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { api, type AgentPermissions } from '@/lib/api'
+
+interface AgentPermissionsEditorProps {
+  /**
+   * Permissions being edited
+   */
+  value: AgentPermissions
+  /**
+   * Callback with the changed permissions
+   */
+  onChange: (value: AgentPermissions) => void
+}
+
+const PERMISSION_FLAGS: (keyof Omit<AgentPermissions, 'allowed_tools'>)[] = [
+  'enable_file_read',
+  'enable_file_write',
+  'enable_network'
+]
+
+function parseAllowlist(json: string | null): string[] | null {
+  try {
+    return json ? JSON.parse(json) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * AgentPermissionsEditor component for the file, network and tool permissions of an agent
+ *
+ * @example
+ * <AgentPermissionsEditor value={permissions} onChange={setPermissions} />
+ */
+export const AgentPermissionsEditor: React.FC<AgentPermissionsEditorProps> = ({
+  value,
+  onChange
+}) => {
+  const { t } = useTranslation('ui')
+  const [builtInTools, setBuiltInTools] = useState<string[]>([])
+  const [newEntry, setNewEntry] = useState('')
+
+  useEffect(() => {
+    api
+      .listAgentTools()
+      .then(setBuiltInTools)
+      .catch((err) => console.error('Failed to load agent tools:', err))
+  }, [])
+
+  const allowlist = parseAllowlist(value.allowed_tools)
+
+  const setAllowlist = (entries: string[] | null) => {
+    onChange({ ...value, allowed_tools: entries ? JSON.stringify(entries) : null })
+  }
+
+  const addEntry = (entry: string) => {
+    const trimmed = entry.trim()
+    if (!trimmed || allowlist?.includes(trimmed)) return
+    setAllowlist([...(allowlist || []), trimmed])
+  }
+
+  return (
+    <div className="space-y-4">
+      {PERMISSION_FLAGS.map((flag) => (
+        <div key={flag} className="flex items-center justify-between max-w-md">
+          <div className="space-y-0.5">
+            <Label htmlFor={`permission-${flag}`}>{t(`createAgent.permissions.${flag}`)}</Label>
+            <p className="text-xs text-muted-foreground">
+              {t(`createAgent.permissions.${flag}Description`)}
+            </p>
+          </div>
+          <Switch
+            id={`permission-${flag}`}
+            checked={value[flag]}
+            onCheckedChange={(checked) => onChange({ ...value, [flag]: checked })}
+          />
+        </div>
+      ))}
+
+      {/* Tool allowlist */}
+      <div className="flex items-center justify-between max-w-md">
+        <div className="space-y-0.5">
+          <Label htmlFor="permission-allowlist">{t('createAgent.permissions.allowlist')}</Label>
+          <p className="text-xs text-muted-foreground">
+            {t('createAgent.permissions.allowlistDescription')}
+          </p>
+        </div>
+        <Switch
+          id="permission-allowlist"
+          checked={allowlist !== null}
+          onCheckedChange={(checked) => setAllowlist(checked ? builtInTools : null)}
+        />
+      </div>
+
+      {allowlist !== null && (
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="flex flex-wrap gap-2">
+            {allowlist.length === 0 && (
+              <span className="text-xs text-muted-foreground">
+                {t('createAgent.permissions.noTools')}
+              </span>
+            )}
+            {allowlist.map((entry) => (
+              <Badge key={entry} variant="secondary" className="gap-1 font-mono text-xs">
+                {entry}
+                <button
+                  type="button"
+                  onClick={() => setAllowlist(allowlist.filter((other) => other !== entry))}
+                  className="hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {builtInTools
+              .filter((tool) => !allowlist.includes(tool))
+              .map((tool) => (
+                <Button
+                  key={tool}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addEntry(tool)}
+                  className="h-6 px-2 font-mono text-xs"
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  {tool}
+                </Button>
+              ))}
+          </div>
+          <div className="flex gap-2 max-w-md">
+            <Input
+              value={newEntry}
+              onChange={(e) => setNewEntry(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  addEntry(newEntry)
+                  setNewEntry('')
+                }
+              }}
+              placeholder="Bash(npm test:*)"
+              className="font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                addEntry(newEntry)
+                setNewEntry('')
+              }}
+              disabled={!newEntry.trim()}
+            >
+              {t('createAgent.permissions.addRule')}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('createAgent.permissions.ruleHint')}</p>
+        </div>
+      )}
+    </div>
+  )
+}
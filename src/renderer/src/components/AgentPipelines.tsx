@@ -0,0 +1,546 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import {
+  ArrowLeft,
+  Workflow,
+  FolderOpen,
+  Plus,
+  Trash2,
+  Loader2,
+  Play,
+  Edit,
+  Square,
+  X
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  api,
+  listen,
+  open,
+  type Agent,
+  type Pipeline,
+  type PipelineRun,
+  type PipelineStep
+} from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface AgentPipelinesProps {
+  /**
+   * Agents the steps can run
+   */
+  agents: Agent[]
+  /**
+   * Callback to go back to the agents list
+   */
+  onBack: () => void
+  /**
+   * Optional className for styling
+   */
+  className?: string
+}
+
+/**
+ * Step being edited; `after` is the comma-separated `depends_on` list, empty for the
+ * step listed before
+ */
+interface StepDraft {
+  id: string
+  agentId: string
+  task: string
+  after: string
+  onFailure: 'stop' | 'continue'
+}
+
+// Shown as they are, since i18next would interpolate them in a translation
+const TEMPLATE_PLACEHOLDERS = [
+  '{{previous.result}}',
+  '{{previous.changed_files}}',
+  '{{steps.<id>.result}}',
+  '{{steps.<id>.changed_files}}'
+]
+
+function getStatusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'completed') return 'default'
+  if (status === 'running' || status === 'queued') return 'secondary'
+  if (status === 'failed' || status === 'budget_exceeded') return 'destructive'
+  return 'outline'
+}
+
+function toDraft(step: PipelineStep): StepDraft {
+  return {
+    id: step.id,
+    agentId: String(step.agent_id),
+    task: step.task,
+    after: step.depends_on?.join(', ') || '',
+    onFailure: step.on_failure
+  }
+}
+
+function toStep(draft: StepDraft): PipelineStep {
+  const after = draft.after
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  return {
+    id: draft.id.trim(),
+    agent_id: Number(draft.agentId),
+    task: draft.task,
+    depends_on: after.length > 0 ? after : undefined,
+    on_failure: draft.onFailure
+  }
+}
+
+/**
+ * AgentPipelines component for defining and running multi-step agent pipelines
+ *
+ * @example
+ * <AgentPipelines agents={agents} onBack={() => setView('list')} />
+ */
+export const AgentPipelines: React.FC<AgentPipelinesProps> = ({ agents, onBack, className }) => {
+  const { t } = useTranslation('ui')
+  const [pipelines, setPipelines] = useState<Pipeline[]>([])
+  const [runs, setRuns] = useState<PipelineRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [name, setName] = useState('')
+  const [useWorktree, setUseWorktree] = useState(false)
+  const [steps, setSteps] = useState<StepDraft[]>([])
+  const [projectPath, setProjectPath] = useState('')
+
+  const newStep = (index: number): StepDraft => ({
+    id: `step-${index + 1}`,
+    agentId: agents[0]?.id?.toString() || '',
+    task: index === 0 ? '' : '{{previous.result}}',
+    after: '',
+    onFailure: 'stop'
+  })
+
+  useEffect(() => {
+    setSteps([newStep(0)])
+    loadPipelines()
+
+    // Reload runs as their steps progress
+    const unlisten = listen('pipeline-runs-changed', () => loadPipelines(false))
+    return unlisten
+  }, [])
+
+  const loadPipelines = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      const [pipelineList, runList] = await Promise.all([
+        api.listPipelines(),
+        api.listPipelineRuns()
+      ])
+      setPipelines(pipelineList)
+      setRuns(runList)
+    } catch (err) {
+      console.error('Failed to load pipelines:', err)
+      setError(t('agents.pipelines.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelectPath = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: 'Select Project Directory'
+      })
+      if (selected) {
+        setProjectPath(selected as string)
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps((current) => current.map((step, i) => (i === index ? { ...step, ...changes } : step)))
+  }
+
+  const resetEditor = () => {
+    setEditingId(null)
+    setName('')
+    setUseWorktree(false)
+    setSteps([newStep(0)])
+  }
+
+  const handleEdit = (pipeline: Pipeline) => {
+    setEditingId(pipeline.id)
+    setName(pipeline.name)
+    setUseWorktree(pipeline.use_worktree)
+    setSteps(pipeline.steps.map(toDraft))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      if (editingId === null) {
+        await api.createPipeline(name, steps.map(toStep), useWorktree)
+      } else {
+        await api.updatePipeline(editingId, { name, steps: steps.map(toStep), useWorktree })
+      }
+      resetEditor()
+      await loadPipelines(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.pipelines.saveFailed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (pipeline: Pipeline) => {
+    if (!confirm(t('agents.pipelines.confirmDelete'))) return
+
+    try {
+      await api.deletePipeline(pipeline.id)
+      if (editingId === pipeline.id) resetEditor()
+      await loadPipelines(false)
+    } catch (err) {
+      console.error('Failed to delete pipeline:', err)
+      setError(t('agents.pipelines.deleteFailed'))
+    }
+  }
+
+  const handleRun = async (pipeline: Pipeline) => {
+    try {
+      setError(null)
+      await api.runPipeline(pipeline.id, projectPath)
+      await loadPipelines(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.pipelines.runFailed'))
+    }
+  }
+
+  const handleCancel = async (run: PipelineRun) => {
+    try {
+      await api.cancelPipelineRun(run.id)
+      await loadPipelines(false)
+    } catch (err) {
+      console.error('Failed to cancel pipeline run:', err)
+      setError(t('agents.pipelines.cancelFailed'))
+    }
+  }
+
+  const getAgentName = (agentId: number) =>
+    agents.find((agent) => agent.id === agentId)?.name || `#${agentId}`
+
+  const canSave =
+    !!name.trim() && steps.length > 0 && steps.every((step) => step.id.trim() && step.agentId)
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      <div className="w-full max-w-5xl mx-auto flex flex-col h-full">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center gap-3 p-4 border-b border-border"
+        >
+          <Button variant="ghost" size="icon" onClick={onBack} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h2 className="text-lg font-semibold">{t('agents.pipelines.title')}</h2>
+            <p className="text-xs text-muted-foreground">{t('agents.pipelines.description')}</p>
+          </div>
+        </motion.div>
+
+        {error && (
+          <div className="mx-4 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Pipeline editor */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">
+                  {editingId === null ? t('agents.pipelines.new') : t('agents.pipelines.edit')}
+                </h3>
+                {editingId !== null && (
+                  <Button variant="ghost" size="icon" onClick={resetEditor} className="h-8 w-8">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pipeline-name">{t('agents.pipelines.name')}</Label>
+                  <Input
+                    id="pipeline-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="pipeline-worktree">{t('agents.execution.worktree')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('agents.pipelines.worktreeHint')}
+                    </p>
+                  </div>
+                  <Switch
+                    id="pipeline-worktree"
+                    checked={useWorktree}
+                    onCheckedChange={setUseWorktree}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>{t('agents.pipelines.steps')}</Label>
+                {steps.map((step, index) => (
+                  <div key={index} className="rounded-lg border p-3 space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                      <Input
+                        value={step.id}
+                        onChange={(e) => updateStep(index, { id: e.target.value })}
+                        placeholder={t('agents.pipelines.stepId')}
+                        className="font-mono"
+                      />
+                      <Select
+                        value={step.agentId}
+                        onValueChange={(agentId) => updateStep(index, { agentId })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={t('agents.pipelines.agent')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {agents.map((agent) => (
+                            <SelectItem key={agent.id} value={String(agent.id)}>
+                              {agent.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={step.after}
+                        onChange={(e) => updateStep(index, { after: e.target.value })}
+                        placeholder={t('agents.pipelines.afterPrevious')}
+                        title={t('agents.pipelines.afterHint')}
+                        className="font-mono"
+                      />
+                      <div className="flex gap-2">
+                        <Select
+                          value={step.onFailure}
+                          onValueChange={(onFailure: 'stop' | 'continue') =>
+                            updateStep(index, { onFailure })
+                          }
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="stop">
+                              {t('agents.pipelines.stopOnFailure')}
+                            </SelectItem>
+                            <SelectItem value="continue">
+                              {t('agents.pipelines.continueOnFailure')}
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                          disabled={steps.length === 1}
+                          className="h-9 w-9 text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <Textarea
+                      value={step.task}
+                      onChange={(e) => updateStep(index, { task: e.target.value })}
+                      placeholder={t('agents.execution.task')}
+                      rows={2}
+                      className="font-mono text-xs"
+                    />
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  {t('agents.pipelines.templateHint')}{' '}
+                  {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                    <code key={placeholder} className="mr-2 font-mono">
+                      {placeholder}
+                    </code>
+                  ))}
+                </p>
+              </div>
+
+              <div className="flex justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSteps([...steps, newStep(steps.length)])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t('agents.pipelines.addStep')}
+                </Button>
+                <Button onClick={handleSave} disabled={!canSave || saving} size="sm">
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingId === null ? t('agents.pipelines.create') : t('agents.pipelines.save')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Project the pipelines run in */}
+          <div className="space-y-2">
+            <Label>{t('agents.execution.projectPath')}</Label>
+            <div className="flex gap-2">
+              <Input
+                value={projectPath}
+                onChange={(e) => setProjectPath(e.target.value)}
+                placeholder={t('agents.execution.selectProjectPath')}
+                className="flex-1"
+              />
+              <Button variant="outline" size="icon" onClick={handleSelectPath}>
+                <FolderOpen className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Pipelines */}
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : pipelines.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-32 text-center">
+              <Workflow className="h-10 w-10 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">{t('agents.pipelines.empty')}</p>
+            </div>
+          ) : (
+            pipelines.map((pipeline) => (
+              <Card key={pipeline.id}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <Workflow className="mt-0.5 h-5 w-5 text-primary" />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{pipeline.name}</span>
+                      {pipeline.use_worktree && (
+                        <Badge variant="outline" className="text-xs">
+                          {t('agents.execution.worktree')}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {pipeline.steps
+                        .map((step) => `${step.id}: ${getAgentName(step.agent_id)}`)
+                        .join(' → ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      onClick={() => handleRun(pipeline)}
+                      disabled={!projectPath.trim()}
+                      title={!projectPath.trim() ? t('agents.pipelines.selectProject') : undefined}
+                    >
+                      <Play className="mr-2 h-4 w-4" />
+                      {t('agents.pipelines.run')}
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleEdit(pipeline)}
+                      className="h-8 w-8"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleDelete(pipeline)}
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {/* Pipeline runs */}
+          {runs.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t('agents.pipelines.runs')}</h3>
+              {runs.map((run) => (
+                <Card key={run.id}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{run.pipeline_name}</span>
+                      <Badge variant={getStatusVariant(run.status)} className="text-xs">
+                        {run.status}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        ${run.cost_usd.toFixed(4)}
+                      </span>
+                      <span className="flex-1 text-xs text-muted-foreground text-right">
+                        {new Date(run.created_at).toLocaleString()}
+                      </span>
+                      {run.status === 'running' && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleCancel(run)}
+                          title={t('agents.pipelines.cancel')}
+                          className="h-7 w-7 text-destructive hover:text-destructive"
+                        >
+                          <Square className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{run.project_path}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(run.step_states).map(([stepId, state]) => {
+                        const agentRun = run.runs.find((child) => child.id === state.run_id)
+                        return (
+                          <Badge
+                            key={stepId}
+                            variant={getStatusVariant(state.status)}
+                            className="text-xs font-normal"
+                            title={state.changed_files?.join('\n')}
+                          >
+                            {stepId}
+                            {agentRun && ` · ${agentRun.agent_name}`}: {state.status}
+                          </Badge>
+                        )
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
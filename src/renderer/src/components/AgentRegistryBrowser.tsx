@@ -0,0 +1,606 @@
+import React, { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import {
+  Search,
+  Download,
+  Loader2,
+  AlertCircle,
+  Eye,
+  Check,
+  FileJson,
+  FolderOpen,
+  Library,
+  Plus,
+  RefreshCw,
+  Trash2,
+  ArrowUpCircle
+} from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardFooter } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  api,
+  open,
+  type AgentExport,
+  type ImportedAgent,
+  type RegistryAgent,
+  type RegistrySource,
+  type RegistrySourceType
+} from '@/lib/api'
+import { type AgentIconName } from './CCAgents'
+import { ICON_MAP } from './IconPicker'
+
+interface AgentRegistryBrowserProps {
+  isOpen: boolean
+  onClose: () => void
+  /**
+   * Callback when an agent was installed or updated from a registry source
+   */
+  onInstalled: (agent: ImportedAgent, updated: boolean) => void
+}
+
+interface AgentPreview {
+  agent: RegistryAgent
+  data: AgentExport | null
+  loading: boolean
+  error: string | null
+}
+
+const EMPTY_SOURCE = {
+  name: '',
+  type: 'local' as RegistrySourceType,
+  location: '',
+  ref: '',
+  subdirectory: ''
+}
+
+/**
+ * Dialog for managing agent registry sources and installing or updating their agents
+ */
+export const AgentRegistryBrowser: React.FC<AgentRegistryBrowserProps> = ({
+  isOpen,
+  onClose,
+  onInstalled
+}) => {
+  const { t } = useTranslation('ui')
+  const [sources, setSources] = useState<RegistrySource[]>([])
+  const [agents, setAgents] = useState<RegistryAgent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [selectedAgent, setSelectedAgent] = useState<AgentPreview | null>(null)
+  // Registry agent being installed or updated, as `<source id>:<agent id>`
+  const [busyAgent, setBusyAgent] = useState<string | null>(null)
+  const [refreshingSource, setRefreshingSource] = useState<number | null>(null)
+  const [showAddSource, setShowAddSource] = useState(false)
+  const [newSource, setNewSource] = useState(EMPTY_SOURCE)
+
+  useEffect(() => {
+    if (isOpen) {
+      loadAll()
+    }
+  }, [isOpen])
+
+  const loadAll = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      // Listing fetches sources that were never fetched, which updates their status
+      const registryAgents = await api.listRegistryAgents()
+      setAgents(registryAgents)
+      setSources(await api.listRegistrySources())
+    } catch (err) {
+      console.error('Failed to load registry:', err)
+      setError(t('agents.registry.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Run a source action, then reload sources and agents
+  const runSourceAction = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.registry.actionFailed'))
+    }
+    await loadAll()
+  }
+
+  const handleRefreshSource = async (id: number) => {
+    setRefreshingSource(id)
+    await runSourceAction(() => api.refreshRegistrySource(id))
+    setRefreshingSource(null)
+  }
+
+  const handleAddSource = async () => {
+    await runSourceAction(async () => {
+      await api.createRegistrySource({
+        name: newSource.name,
+        type: newSource.type,
+        location: newSource.location,
+        ref: newSource.type === 'git' ? newSource.ref.trim() || null : null,
+        subdirectory: newSource.type === 'git' ? newSource.subdirectory.trim() || null : null
+      })
+      setNewSource(EMPTY_SOURCE)
+      setShowAddSource(false)
+    })
+  }
+
+  const handleSelectDirectory = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: t('agents.registry.selectDirectory')
+      })
+      if (selected) {
+        setNewSource({ ...newSource, location: selected as string })
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  const handlePreviewAgent = async (agent: RegistryAgent) => {
+    setSelectedAgent({ agent, data: null, loading: true, error: null })
+
+    try {
+      const data = await api.getRegistryAgent(agent.source_id, agent.id)
+      setSelectedAgent({ agent, data, loading: false, error: null })
+    } catch (err) {
+      console.error('Failed to fetch agent content:', err)
+      setSelectedAgent({
+        agent,
+        data: null,
+        loading: false,
+        error: t('agents.registry.previewFailed')
+      })
+    }
+  }
+
+  const handleInstallAgent = async (agent: RegistryAgent) => {
+    try {
+      setBusyAgent(`${agent.source_id}:${agent.id}`)
+      setError(null)
+
+      const result = agent.installed_agent_id
+        ? await api.updateRegistryAgent(agent.installed_agent_id)
+        : await api.installRegistryAgent(agent.source_id, agent.id)
+
+      setSelectedAgent(null)
+      await loadAll()
+      onInstalled(result, !!agent.installed_agent_id)
+    } catch (err) {
+      console.error('Failed to install agent:', err)
+      setError(err instanceof Error ? err.message : t('agents.registry.installFailed'))
+    } finally {
+      setBusyAgent(null)
+    }
+  }
+
+  const filteredAgents = agents.filter((agent) =>
+    `${agent.name} ${agent.description || ''}`.toLowerCase().includes(searchQuery.toLowerCase())
+  )
+
+  const renderIcon = (iconName: string | undefined, className: string) => {
+    const Icon = ICON_MAP[iconName as AgentIconName] || ICON_MAP.bot
+    return <Icon className={className} />
+  }
+
+  const renderInstallButton = (agent: RegistryAgent, className?: string) => {
+    const busy = busyAgent === `${agent.source_id}:${agent.id}`
+    if (agent.installed_agent_id && !agent.update_available) {
+      return (
+        <Button size="sm" variant="outline" className={className} disabled>
+          <Check className="h-3 w-3 mr-2" />
+          {t('agents.registry.installed')}
+        </Button>
+      )
+    }
+
+    return (
+      <Button
+        size="sm"
+        className={className}
+        disabled={busy}
+        onClick={(e) => {
+          e.stopPropagation()
+          handleInstallAgent(agent)
+        }}
+      >
+        {busy ? (
+          <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+        ) : agent.update_available ? (
+          <ArrowUpCircle className="h-3 w-3 mr-2" />
+        ) : (
+          <Download className="h-3 w-3 mr-2" />
+        )}
+        {agent.update_available ? t('agents.registry.update') : t('agents.registry.install')}
+      </Button>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            {t('agents.registry.title')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto flex flex-col">
+          {/* Sources */}
+          <div className="mb-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">{t('agents.registry.sources')}</h3>
+              <Button size="sm" variant="outline" onClick={() => setShowAddSource(!showAddSource)}>
+                <Plus className="h-3 w-3 mr-2" />
+                {t('agents.registry.addSource')}
+              </Button>
+            </div>
+
+            {showAddSource && (
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>{t('agents.registry.form.name')}</Label>
+                      <Input
+                        value={newSource.name}
+                        onChange={(e) => setNewSource({ ...newSource, name: e.target.value })}
+                        placeholder={t('agents.registry.form.namePlaceholder')}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>{t('agents.registry.form.type')}</Label>
+                      <Select
+                        value={newSource.type}
+                        onValueChange={(value) =>
+                          setNewSource({ ...newSource, type: value as RegistrySourceType })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="local">{t('agents.registry.types.local')}</SelectItem>
+                          <SelectItem value="git">{t('agents.registry.types.git')}</SelectItem>
+                          <SelectItem value="http">{t('agents.registry.types.http')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t(`agents.registry.form.location.${newSource.type}`)}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        value={newSource.location}
+                        onChange={(e) => setNewSource({ ...newSource, location: e.target.value })}
+                        placeholder={t(
+                          `agents.registry.form.locationPlaceholder.${newSource.type}`
+                        )}
+                        className="flex-1"
+                      />
+                      {newSource.type === 'local' && (
+                        <Button variant="outline" size="icon" onClick={handleSelectDirectory}>
+                          <FolderOpen className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t(`agents.registry.form.locationHint.${newSource.type}`)}
+                    </p>
+                  </div>
+                  {newSource.type === 'git' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label>{t('agents.registry.form.ref')}</Label>
+                        <Input
+                          value={newSource.ref}
+                          onChange={(e) => setNewSource({ ...newSource, ref: e.target.value })}
+                          placeholder={t('agents.registry.form.refPlaceholder')}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>{t('agents.registry.form.subdirectory')}</Label>
+                        <Input
+                          value={newSource.subdirectory}
+                          onChange={(e) =>
+                            setNewSource({ ...newSource, subdirectory: e.target.value })
+                          }
+                          placeholder="cc_agents"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setShowAddSource(false)}>
+                      {t('agents.registry.cancel')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={!newSource.name.trim() || !newSource.location.trim()}
+                      onClick={handleAddSource}
+                    >
+                      {t('agents.registry.addSource')}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {sources.length === 0 && !loading ? (
+              <p className="text-sm text-muted-foreground">{t('agents.registry.noSources')}</p>
+            ) : (
+              sources.map((source) => (
+                <div
+                  key={source.id}
+                  className="flex items-center gap-3 px-3 py-2 bg-muted/50 rounded-lg"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{source.name}</span>
+                      <Badge variant="outline">{t(`agents.registry.types.${source.type}`)}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {source.location}
+                      {source.ref && ` @ ${source.ref}`}
+                      {source.subdirectory && ` / ${source.subdirectory}`}
+                    </p>
+                    {source.last_error ? (
+                      <p className="text-xs text-destructive truncate" title={source.last_error}>
+                        {t('agents.registry.lastError', { error: source.last_error })}
+                      </p>
+                    ) : (
+                      source.last_synced_at && (
+                        <p className="text-xs text-muted-foreground">
+                          {t('agents.registry.lastSynced', {
+                            date: new Date(source.last_synced_at).toLocaleString()
+                          })}
+                        </p>
+                      )
+                    )}
+                  </div>
+                  <Switch
+                    checked={source.enabled}
+                    onCheckedChange={(enabled) =>
+                      runSourceAction(() => api.updateRegistrySource(source.id, { enabled }))
+                    }
+                  />
+                  {source.type !== 'local' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={refreshingSource === source.id}
+                      onClick={() => handleRefreshSource(source.id)}
+                      title={t('agents.registry.refresh')}
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 ${refreshingSource === source.id ? 'animate-spin' : ''}`}
+                      />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => runSourceAction(() => api.deleteRegistrySource(source.id))}
+                    title={t('agents.registry.deleteSource')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {/* Search Bar */}
+          <div className="mb-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={t('agents.registry.search')}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1">
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : filteredAgents.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 text-center">
+                <FileJson className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-sm text-muted-foreground">
+                  {searchQuery ? t('agents.registry.noMatches') : t('agents.registry.noAgents')}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pb-4">
+                <AnimatePresence mode="popLayout">
+                  {filteredAgents.map((agent, index) => (
+                    <motion.div
+                      key={`${agent.source_id}:${agent.id}`}
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      exit={{ opacity: 0, scale: 0.9 }}
+                      transition={{ duration: 0.2, delay: index * 0.05 }}
+                    >
+                      <Card
+                        className="h-full flex flex-col hover:shadow-lg transition-shadow cursor-pointer"
+                        onClick={() => handlePreviewAgent(agent)}
+                      >
+                        <CardContent className="p-4 flex-1">
+                          <div className="flex items-start justify-between mb-3">
+                            <div className="flex items-center gap-3 flex-1">
+                              <div className="p-2 rounded-lg bg-primary/10 text-primary flex-shrink-0">
+                                {renderIcon(agent.icon, 'h-6 w-6')}
+                              </div>
+                              <h3 className="text-sm font-semibold line-clamp-2">{agent.name}</h3>
+                            </div>
+                            {agent.update_available ? (
+                              <Badge className="ml-2 flex-shrink-0">
+                                {t('agents.registry.updateAvailable')}
+                              </Badge>
+                            ) : (
+                              agent.installed_agent_id && (
+                                <Badge variant="secondary" className="ml-2 flex-shrink-0">
+                                  <Check className="h-3 w-3 mr-1" />
+                                  {t('agents.registry.installed')}
+                                </Badge>
+                              )
+                            )}
+                          </div>
+                          {agent.description && (
+                            <p className="text-xs text-muted-foreground line-clamp-3 mb-2">
+                              {agent.description}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {agent.source_name} · {agent.version}
+                          </p>
+                        </CardContent>
+                        <CardFooter className="p-4 pt-0 gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handlePreviewAgent(agent)
+                            }}
+                          >
+                            <Eye className="h-3 w-3 mr-2" />
+                            {t('agents.registry.preview')}
+                          </Button>
+                          {renderInstallButton(agent, 'flex-1')}
+                        </CardFooter>
+                      </Card>
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+
+      {/* Agent Preview Dialog */}
+      <AnimatePresence>
+        {selectedAgent && (
+          <Dialog open={!!selectedAgent} onOpenChange={() => setSelectedAgent(null)}>
+            <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+              <DialogHeader>
+                <DialogTitle>{t('agents.registry.previewTitle')}</DialogTitle>
+              </DialogHeader>
+
+              <div className="flex-1 overflow-y-auto">
+                {selectedAgent.loading ? (
+                  <div className="flex items-center justify-center h-64">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                  </div>
+                ) : selectedAgent.error ? (
+                  <div className="flex flex-col items-center justify-center h-64 text-center">
+                    <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+                    <p className="text-sm text-muted-foreground">{selectedAgent.error}</p>
+                  </div>
+                ) : selectedAgent.data ? (
+                  <div className="space-y-4">
+                    {/* Agent Info */}
+                    <div className="flex items-start gap-4">
+                      <div className="p-3 rounded-lg bg-primary/10 text-primary">
+                        {renderIcon(selectedAgent.data.agent.icon, 'h-8 w-8')}
+                      </div>
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold">{selectedAgent.data.agent.name}</h3>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge variant="outline">{selectedAgent.data.agent.model}</Badge>
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* System Prompt */}
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">
+                        {t('agents.registry.systemPrompt')}
+                      </h4>
+                      <div className="bg-muted rounded-lg p-3 max-h-48 overflow-y-auto">
+                        <pre className="text-xs whitespace-pre-wrap font-mono">
+                          {selectedAgent.data.agent.system_prompt}
+                        </pre>
+                      </div>
+                    </div>
+
+                    {/* Default Task */}
+                    {selectedAgent.data.agent.default_task && (
+                      <div>
+                        <h4 className="text-sm font-medium mb-2">
+                          {t('agents.registry.defaultTask')}
+                        </h4>
+                        <div className="bg-muted rounded-lg p-3">
+                          <p className="text-sm">{selectedAgent.data.agent.default_task}</p>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Metadata */}
+                    <div className="text-xs text-muted-foreground">
+                      <p>
+                        {t('agents.registry.version', { version: selectedAgent.agent.version })}
+                      </p>
+                      {selectedAgent.agent.installed_version && (
+                        <p>
+                          {t('agents.registry.installedVersion', {
+                            version: selectedAgent.agent.installed_version
+                          })}
+                        </p>
+                      )}
+                      <p>
+                        {t('agents.registry.source', { name: selectedAgent.agent.source_name })}
+                      </p>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+
+              {/* Actions */}
+              {selectedAgent.data && (
+                <div className="flex justify-end gap-2 mt-4 pt-4 border-t">
+                  <Button variant="outline" onClick={() => setSelectedAgent(null)}>
+                    {t('agents.registry.cancel')}
+                  </Button>
+                  {renderInstallButton(selectedAgent.agent)}
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+        )}
+      </AnimatePresence>
+    </Dialog>
+  )
+}
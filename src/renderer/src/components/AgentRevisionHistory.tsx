@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import * as Diff from 'diff'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { api, type Agent, type AgentRevision, type AgentRevisionData } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface AgentRevisionHistoryProps {
+  agent: Agent
+  isOpen: boolean
+  onClose: () => void
+  /**
+   * Callback with the agent as restored by a rollback
+   */
+  onRolledBack: (agent: Agent) => void
+}
+
+// Display value of a revision field; JSON fields are pretty printed to diff by line
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value)
+      if (typeof parsed === 'object' && parsed !== null) {
+        return JSON.stringify(parsed, null, 2)
+      }
+    } catch {
+      // Not JSON
+    }
+    return value
+  }
+  return String(value)
+}
+
+/**
+ * Dialog listing the revisions of an agent, with the diff between two of them and
+ * rollback to any earlier one
+ */
+export const AgentRevisionHistory: React.FC<AgentRevisionHistoryProps> = ({
+  agent,
+  isOpen,
+  onClose,
+  onRolledBack
+}) => {
+  const { t } = useTranslation('ui')
+  const [revisions, setRevisions] = useState<AgentRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<number | null>(null)
+  const [compareTo, setCompareTo] = useState<number | null>(null)
+  const [rollingBack, setRollingBack] = useState(false)
+
+  useEffect(() => {
+    if (isOpen && agent.id) {
+      loadRevisions()
+    }
+  }, [isOpen, agent.id])
+
+  const loadRevisions = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const agentRevisions = await api.listAgentRevisions(agent.id!)
+      setRevisions(agentRevisions)
+
+      // Start with the latest change
+      setSelected(agentRevisions[0]?.revision ?? null)
+      setCompareTo(agentRevisions[1]?.revision ?? null)
+    } catch (err) {
+      console.error('Failed to load agent revisions:', err)
+      setError(t('createAgent.history.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelect = (revision: number) => {
+    setSelected(revision)
+    const previous = revisions.find((candidate) => candidate.revision < revision)
+    setCompareTo(previous?.revision ?? null)
+  }
+
+  const handleRollback = async (revision: number) => {
+    if (!confirm(t('createAgent.history.confirmRollback', { revision }))) return
+
+    try {
+      setRollingBack(true)
+      setError(null)
+      const restored = await api.rollbackAgent(agent.id!, revision)
+      await loadRevisions()
+      onRolledBack(restored)
+    } catch (err) {
+      console.error('Failed to roll back agent:', err)
+      setError(t('createAgent.history.rollbackFailed'))
+    } finally {
+      setRollingBack(false)
+    }
+  }
+
+  const current = revisions[0]?.revision
+  const selectedRevision = revisions.find((revision) => revision.revision === selected)
+  const baseRevision = revisions.find((revision) => revision.revision === compareTo)
+
+  const renderFieldDiff = (field: keyof AgentRevisionData) => {
+    const before = formatValue(baseRevision?.data[field])
+    const after = formatValue(selectedRevision?.data[field])
+    if (before === after) return null
+
+    const multiline = before.includes('\n') || after.includes('\n')
+    return (
+      <div key={field} className="space-y-1">
+        <div className="text-xs font-medium">{t(`createAgent.history.fields.${field}`)}</div>
+        {multiline ? (
+          <div className="rounded-lg border bg-muted overflow-hidden text-xs font-mono">
+            <div className="max-h-[300px] overflow-y-auto overflow-x-auto">
+              {Diff.diffLines(before, after).map((part, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    'px-3 whitespace-pre-wrap',
+                    part.added && 'bg-green-950/20 text-green-400',
+                    part.removed && 'bg-red-950/20 text-red-400 line-through'
+                  )}
+                >
+                  {part.value
+                    .replace(/\n$/, '')
+                    .split('\n')
+                    .map((line, lineIndex) => (
+                      <div key={lineIndex}>
+                        {part.added ? '+ ' : part.removed ? '- ' : '  '}
+                        {line}
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="text-xs font-mono">
+            <span className="text-red-400 line-through">{before || '—'}</span>
+            {' → '}
+            <span className="text-green-400">{after || '—'}</span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const changes = selectedRevision
+    ? (Object.keys(selectedRevision.data) as (keyof AgentRevisionData)[])
+        .map(renderFieldDiff)
+        .filter(Boolean)
+    : []
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t('createAgent.history.title', { name: agent.name })}
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            {t('createAgent.history.empty')}
+          </p>
+        ) : (
+          <div className="flex-1 overflow-hidden grid grid-cols-[220px_1fr] gap-4">
+            {/* Revisions */}
+            <div className="overflow-y-auto space-y-1 pr-1">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.revision}
+                  type="button"
+                  onClick={() => handleSelect(revision.revision)}
+                  className={cn(
+                    'w-full text-left rounded-md px-3 py-2 text-xs transition-colors',
+                    revision.revision === selected ? 'bg-accent' : 'hover:bg-accent/50'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {t('createAgent.history.revision', { revision: revision.revision })}
+                    </span>
+                    {revision.revision === current && (
+                      <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                        {t('createAgent.history.current')}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {new Date(revision.created_at).toLocaleString()}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {t('createAgent.history.runs', {
+                      count: revision.run_count,
+                      completed: revision.completed_run_count
+                    })}
+                  </div>
+                  {revision.rolled_back_from && (
+                    <div className="text-muted-foreground">
+                      {t('createAgent.history.rolledBackFrom', {
+                        revision: revision.rolled_back_from
+                      })}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="overflow-y-auto space-y-4">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {t('createAgent.history.compareWith')}
+                </span>
+                <Select
+                  value={compareTo === null ? '' : String(compareTo)}
+                  onValueChange={(value) => setCompareTo(Number(value))}
+                >
+                  <SelectTrigger className="w-40 h-8 text-xs">
+                    <SelectValue placeholder={t('createAgent.history.nothing')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions
+                      .filter((revision) => revision.revision !== selected)
+                      .map((revision) => (
+                        <SelectItem key={revision.revision} value={String(revision.revision)}>
+                          {t('createAgent.history.revision', { revision: revision.revision })}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1" />
+                {selected !== null && selected !== current && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={rollingBack}
+                    onClick={() => handleRollback(selected)}
+                  >
+                    {rollingBack ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    {t('createAgent.history.rollback', { revision: selected })}
+                  </Button>
+                )}
+              </div>
+
+              {changes.length > 0 ? (
+                changes
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {t('createAgent.history.noChanges')}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
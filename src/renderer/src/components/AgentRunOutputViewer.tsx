@@ -13,14 +13,15 @@ import {
   Hash,
   DollarSign,
   ExternalLink,
-  StopCircle
+  StopCircle,
+  Play
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Toast, ToastContainer } from '@/components/ui/toast'
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
-import { api, type AgentRunWithMetrics } from '@/lib/api'
+import { api, type AgentRunWithMetrics, type StreamEvent } from '@/lib/api'
 import { useOutputCache } from '@/lib/outputCache'
 import { listen, type UnlistenFn } from '@/lib/api'
 import { StreamMessage } from './StreamMessage'
@@ -28,6 +29,7 @@ import { ErrorBoundary } from './ErrorBoundary'
 import { formatISOTimestamp } from '@/lib/date-utils'
 import { AGENT_ICONS } from './CCAgents'
 import type { ClaudeStreamMessage } from './AgentExecution'
+import { useVirtualizer } from '@tanstack/react-virtual'
 
 interface AgentRunOutputViewerProps {
   /**
@@ -42,6 +44,10 @@ interface AgentRunOutputViewerProps {
    * Optional callback to open full view
    */
   onOpenFullView?: () => void
+  /**
+   * Render inline as a panel instead of a modal, e.g. side by side with other runs
+   */
+  embedded?: boolean
   /**
    * Optional className for styling
    */
@@ -61,6 +67,7 @@ export function AgentRunOutputViewer({
   run,
   onClose,
   onOpenFullView,
+  embedded = false,
   className
 }: AgentRunOutputViewerProps) {
   const [messages, setMessages] = useState<ClaudeStreamMessage[]>([])
@@ -71,15 +78,14 @@ export function AgentRunOutputViewer({
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
   const [copyPopoverOpen, setCopyPopoverOpen] = useState(false)
   const [hasUserScrolled, setHasUserScrolled] = useState(false)
+  const [resuming, setResuming] = useState(false)
 
-  // Track whether we're in the initial load phase
-  const isInitialLoadRef = useRef(true)
   const hasSetupListenersRef = useRef(false)
+  // Sequence number of the last stream event already shown
+  const lastSeqRef = useRef(0)
 
   const scrollAreaRef = useRef<HTMLDivElement>(null)
-  const outputEndRef = useRef<HTMLDivElement>(null)
   const fullscreenScrollRef = useRef<HTMLDivElement>(null)
-  const fullscreenMessagesEndRef = useRef<HTMLDivElement>(null)
   const unlistenRefs = useRef<UnlistenFn[]>([])
   const { getCachedOutput, setCachedOutput } = useOutputCache()
 
@@ -94,15 +100,6 @@ export function AgentRunOutputViewer({
     return true
   }
 
-  const scrollToBottom = () => {
-    if (!hasUserScrolled) {
-      const endRef = isFullscreen ? fullscreenMessagesEndRef.current : outputEndRef.current
-      if (endRef) {
-        endRef.scrollIntoView({ behavior: 'smooth' })
-      }
-    }
-  }
-
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -112,14 +109,6 @@ export function AgentRunOutputViewer({
     }
   }, [])
 
-  // Auto-scroll when messages change
-  useEffect(() => {
-    const shouldAutoScroll = !hasUserScrolled || isAtBottom()
-    if (shouldAutoScroll) {
-      scrollToBottom()
-    }
-  }, [messages, hasUserScrolled, isFullscreen])
-
   const loadOutput = async (skipCache = false) => {
     if (!run.id) return
 
@@ -269,30 +258,27 @@ export function AgentRunOutputViewer({
       // Mark that we've set up listeners
       hasSetupListenersRef.current = true
 
-      // After setup, we're no longer in initial load
-      // Small delay to ensure any pending messages are processed
-      setTimeout(() => {
-        isInitialLoadRef.current = false
-      }, 100)
+      // Events emitted so far are part of the output that was just loaded
+      const bufferedEvents = await api.getStreamEvents(run.id)
+      lastSeqRef.current = bufferedEvents.length ? bufferedEvents[bufferedEvents.length - 1].seq : 0
 
       // Set up live event listeners with run ID isolation
-      const outputUnlisten = await listen<string>(`agent-output:${run.id}`, (event) => {
-        try {
-          // Skip messages during initial load phase
-          if (isInitialLoadRef.current) {
-            console.log('[AgentRunOutputViewer] Skipping message during initial load')
-            return
-          }
-
-          // Store raw JSONL
-          setRawJsonlOutput((prev) => [...prev, event.payload])
-
-          // Parse and display
-          const message = JSON.parse(event.payload) as ClaudeStreamMessage
-          setMessages((prev) => [...prev, message])
-        } catch (err) {
-          console.error('[AgentRunOutputViewer] Failed to parse message:', err, event.payload)
-        }
+      const outputUnlisten = await listen<StreamEvent[]>(`agent-events:${run.id}`, (event) => {
+        const newEvents = event.payload.filter(
+          (streamEvent) => streamEvent.seq > lastSeqRef.current
+        )
+        if (newEvents.length === 0) return
+        lastSeqRef.current = newEvents[newEvents.length - 1].seq
+
+        const messageEvents = newEvents.filter((streamEvent) => 'message' in streamEvent)
+        if (messageEvents.length === 0) return
+
+        // Store raw JSONL
+        setRawJsonlOutput((prev) => [...prev, ...messageEvents.map((e) => e.line)])
+        setMessages((prev) => [
+          ...prev,
+          ...messageEvents.map((e) => e.message as ClaudeStreamMessage)
+        ])
       })
 
       const errorUnlisten = await listen<string>(`agent-error:${run.id}`, (event) => {
@@ -440,6 +426,30 @@ export function AgentRunOutputViewer({
     }
   }
 
+  // Continue a run that was interrupted by an app restart
+  const handleResume = async () => {
+    if (!run.id) return
+
+    try {
+      setResuming(true)
+      await api.resumeAgentRun(run.id)
+      setToast({ message: 'Agent run queued for resuming', type: 'success' })
+
+      setTimeout(() => {
+        window.location.reload() // Simple refresh to update the status
+      }, 1000)
+    } catch (err) {
+      console.error('[AgentRunOutputViewer] Failed to resume agent run:', err)
+      setToast({
+        message: `Failed to resume run: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        type: 'error'
+      })
+      setResuming(false)
+    }
+  }
+
+  const canResume = run.status === 'interrupted' && !!run.session_id
+
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     const target = e.currentTarget
     const { scrollTop, scrollHeight, clientHeight } = target
@@ -533,6 +543,41 @@ export function AgentRunOutputViewer({
     })
   }, [messages])
 
+  // Virtualizers keep long transcripts smooth by only mounting the visible messages
+  const rowVirtualizer = useVirtualizer({
+    count: displayableMessages.length,
+    getScrollElement: () => scrollAreaRef.current,
+    estimateSize: () => 150, // fallback estimate; dynamically measured afterwards
+    overscan: 5
+  })
+
+  const fullscreenRowVirtualizer = useVirtualizer({
+    count: displayableMessages.length,
+    getScrollElement: () => fullscreenScrollRef.current,
+    estimateSize: () => 150,
+    overscan: 5
+  })
+
+  // Auto-scroll when messages change
+  useEffect(() => {
+    if (displayableMessages.length === 0) return
+
+    const shouldAutoScroll = !hasUserScrolled || isAtBottom()
+    if (shouldAutoScroll) {
+      const virtualizer = isFullscreen ? fullscreenRowVirtualizer : rowVirtualizer
+      virtualizer.scrollToIndex(displayableMessages.length - 1, {
+        align: 'end',
+        behavior: 'smooth'
+      })
+    }
+  }, [
+    displayableMessages.length,
+    hasUserScrolled,
+    isFullscreen,
+    rowVirtualizer,
+    fullscreenRowVirtualizer
+  ])
+
   const renderIcon = (iconName: string) => {
     const Icon = AGENT_ICONS[iconName as keyof typeof AGENT_ICONS] || Bot
     return <Icon className="h-5 w-5" />
@@ -555,184 +600,218 @@ export function AgentRunOutputViewer({
     return tokens.toString()
   }
 
-  return (
-    <>
-      <motion.div
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        exit={{ opacity: 0 }}
-        className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40"
-        onClick={onClose}
-      />
-
-      <motion.div
-        initial={{ opacity: 0, scale: 0.95, y: 20 }}
-        animate={{ opacity: 1, scale: 1, y: 0 }}
-        exit={{ opacity: 0, scale: 0.95, y: 20 }}
-        className={`fixed inset-x-4 top-[10%] bottom-[10%] z-50 max-w-4xl mx-auto ${className}`}
-      >
-        <Card className="h-full flex flex-col shadow-xl">
-          <CardHeader className="pb-3">
-            <div className="flex items-start justify-between gap-4">
-              <div className="flex items-start gap-3 flex-1 min-w-0">
-                <div className="mt-0.5">{renderIcon(run.agent_icon)}</div>
-                <div className="flex-1 min-w-0">
-                  <CardTitle className="text-lg flex items-center gap-2">
-                    {run.agent_name}
-                    {run.status === 'running' && (
-                      <div className="flex items-center gap-1">
-                        <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                        <span className="text-xs text-green-600 font-medium">Running</span>
-                      </div>
-                    )}
-                  </CardTitle>
-                  <p className="text-sm text-muted-foreground mt-1 truncate">{run.task}</p>
-                  <div className="flex items-center gap-3 text-xs text-muted-foreground mt-2">
-                    <Badge variant="outline" className="text-xs">
-                      {run.model === 'opus' ? 'Claude 4 Opus' : 'Claude 4 Sonnet'}
-                    </Badge>
-                    <div className="flex items-center gap-1">
-                      <Clock className="h-3 w-3" />
-                      <span>{formatISOTimestamp(run.created_at)}</span>
-                    </div>
-                    {run.metrics?.duration_ms && (
-                      <span>{formatDuration(run.metrics.duration_ms)}</span>
-                    )}
-                    {run.metrics?.total_tokens && (
-                      <div className="flex items-center gap-1">
-                        <Hash className="h-3 w-3" />
-                        <span>{formatTokens(run.metrics.total_tokens)}</span>
-                      </div>
-                    )}
-                    {run.metrics?.cost_usd && (
-                      <div className="flex items-center gap-1">
-                        <DollarSign className="h-3 w-3" />
-                        <span>${run.metrics.cost_usd.toFixed(4)}</span>
-                      </div>
-                    )}
+  const card = (
+    <Card className={`h-full flex flex-col ${embedded ? className || '' : 'shadow-xl'}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3 flex-1 min-w-0">
+            <div className="mt-0.5">{renderIcon(run.agent_icon)}</div>
+            <div className="flex-1 min-w-0">
+              <CardTitle className="text-lg flex items-center gap-2">
+                {run.agent_name}
+                {run.status === 'running' && (
+                  <div className="flex items-center gap-1">
+                    <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                    <span className="text-xs text-green-600 font-medium">Running</span>
                   </div>
+                )}
+                {run.status === 'interrupted' && (
+                  <span className="text-xs text-amber-600 font-medium">Interrupted</span>
+                )}
+              </CardTitle>
+              <p className="text-sm text-muted-foreground mt-1 truncate">{run.task}</p>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground mt-2">
+                <Badge variant="outline" className="text-xs">
+                  {run.model === 'opus' ? 'Claude 4 Opus' : 'Claude 4 Sonnet'}
+                </Badge>
+                <div className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  <span>{formatISOTimestamp(run.created_at)}</span>
                 </div>
-              </div>
-              <div className="flex items-center gap-1">
-                <Popover open={copyPopoverOpen} onOpenChange={setCopyPopoverOpen}>
-                  <PopoverTrigger asChild>
-                    <Button variant="ghost" size="sm" className="h-8 px-2">
-                      <Copy className="h-4 w-4 mr-1" />
-                      Copy
-                      <ChevronDown className="h-3 w-3 ml-1" />
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-44 p-1" align="end">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="w-full justify-start"
-                      onClick={handleCopyAsJsonl}
-                    >
-                      Copy as JSONL
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="w-full justify-start"
-                      onClick={handleCopyAsMarkdown}
-                    >
-                      Copy as Markdown
-                    </Button>
-                  </PopoverContent>
-                </Popover>
-                {onOpenFullView && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={onOpenFullView}
-                    title="Open in full view"
-                    className="h-8 px-2"
-                  >
-                    <ExternalLink className="h-4 w-4" />
-                  </Button>
+                {run.metrics?.duration_ms && <span>{formatDuration(run.metrics.duration_ms)}</span>}
+                {run.metrics?.total_tokens && (
+                  <div className="flex items-center gap-1">
+                    <Hash className="h-3 w-3" />
+                    <span>{formatTokens(run.metrics.total_tokens)}</span>
+                  </div>
                 )}
+                {run.metrics?.cost_usd && (
+                  <div className="flex items-center gap-1">
+                    <DollarSign className="h-3 w-3" />
+                    <span>${run.metrics.cost_usd.toFixed(4)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <Popover open={copyPopoverOpen} onOpenChange={setCopyPopoverOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 px-2">
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                  <ChevronDown className="h-3 w-3 ml-1" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-44 p-1" align="end">
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setIsFullscreen(!isFullscreen)}
-                  title={isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen'}
-                  className="h-8 px-2"
+                  className="w-full justify-start"
+                  onClick={handleCopyAsJsonl}
                 >
-                  {isFullscreen ? (
-                    <Minimize2 className="h-4 w-4" />
-                  ) : (
-                    <Maximize2 className="h-4 w-4" />
-                  )}
+                  Copy as JSONL
                 </Button>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={handleRefresh}
-                  disabled={refreshing}
-                  title="Refresh output"
-                  className="h-8 px-2"
+                  className="w-full justify-start"
+                  onClick={handleCopyAsMarkdown}
                 >
-                  <RotateCcw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
-                </Button>
-                {run.status === 'running' && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleStop}
-                    disabled={refreshing}
-                    title="Stop execution"
-                    className="h-8 px-2 text-destructive hover:text-destructive"
-                  >
-                    <StopCircle className="h-4 w-4" />
-                  </Button>
-                )}
-                <Button variant="ghost" size="sm" onClick={onClose} className="h-8 px-2">
-                  <X className="h-4 w-4" />
+                  Copy as Markdown
                 </Button>
-              </div>
+              </PopoverContent>
+            </Popover>
+            {onOpenFullView && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenFullView}
+                title="Open in full view"
+                className="h-8 px-2"
+              >
+                <ExternalLink className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsFullscreen(!isFullscreen)}
+              title={isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen'}
+              className="h-8 px-2"
+            >
+              {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRefresh}
+              disabled={refreshing}
+              title="Refresh output"
+              className="h-8 px-2"
+            >
+              <RotateCcw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+            </Button>
+            {run.status === 'running' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleStop}
+                disabled={refreshing}
+                title="Stop execution"
+                className="h-8 px-2 text-destructive hover:text-destructive"
+              >
+                <StopCircle className="h-4 w-4" />
+              </Button>
+            )}
+            {canResume && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleResume}
+                disabled={resuming}
+                title="Resume with claude --resume"
+                className="h-8 px-2"
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
+            {!embedded && (
+              <Button variant="ghost" size="sm" onClick={onClose} className="h-8 px-2">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent
+        className={`${isFullscreen ? 'h-[calc(100vh-120px)]' : 'flex-1'} p-0 overflow-hidden`}
+      >
+        {loading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="flex items-center space-x-2">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              <span>Loading output...</span>
             </div>
-          </CardHeader>
-          <CardContent
-            className={`${isFullscreen ? 'h-[calc(100vh-120px)]' : 'flex-1'} p-0 overflow-hidden`}
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-muted-foreground">
+            <p>No output available yet</p>
+          </div>
+        ) : (
+          <div
+            ref={scrollAreaRef}
+            className="h-full overflow-y-auto p-4 space-y-2"
+            onScroll={handleScroll}
           >
-            {loading ? (
-              <div className="flex items-center justify-center h-full">
-                <div className="flex items-center space-x-2">
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                  <span>Loading output...</span>
-                </div>
-              </div>
-            ) : messages.length === 0 ? (
-              <div className="flex items-center justify-center h-full text-muted-foreground">
-                <p>No output available yet</p>
-              </div>
-            ) : (
-              <div
-                ref={scrollAreaRef}
-                className="h-full overflow-y-auto p-4 space-y-2"
-                onScroll={handleScroll}
-              >
-                <AnimatePresence>
-                  {displayableMessages.map((message: ClaudeStreamMessage, index: number) => (
+            <div
+              className="relative w-full"
+              style={{ height: `${rowVirtualizer.getTotalSize()}px` }}
+            >
+              <AnimatePresence>
+                {rowVirtualizer.getVirtualItems().map((virtualItem) => {
+                  const message = displayableMessages[virtualItem.index]
+                  return (
                     <motion.div
-                      key={index}
+                      key={virtualItem.key}
+                      data-index={virtualItem.index}
+                      ref={(el) => {
+                        if (el) rowVirtualizer.measureElement(el)
+                      }}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ duration: 0.2 }}
+                      className="absolute inset-x-0 pb-2"
+                      style={{ top: virtualItem.start }}
                     >
                       <ErrorBoundary>
                         <StreamMessage message={message} streamMessages={messages} />
                       </ErrorBoundary>
                     </motion.div>
-                  ))}
-                </AnimatePresence>
-                <div ref={outputEndRef} />
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </motion.div>
+                  )
+                })}
+              </AnimatePresence>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <>
+      {embedded ? (
+        card
+      ) : (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-background/80 backdrop-blur-sm z-40"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className={`fixed inset-x-4 top-[10%] bottom-[10%] z-50 max-w-4xl mx-auto ${className}`}
+          >
+            {card}
+          </motion.div>
+        </>
+      )}
 
       {/* Fullscreen Modal */}
       {isFullscreen && (
@@ -782,6 +861,12 @@ export function AgentRunOutputViewer({
                   Stop
                 </Button>
               )}
+              {canResume && (
+                <Button variant="outline" size="sm" onClick={handleResume} disabled={resuming}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={() => setIsFullscreen(false)}>
                 <Minimize2 className="h-4 w-4 mr-2" />
                 Exit Fullscreen
@@ -799,23 +884,34 @@ export function AgentRunOutputViewer({
                   No output available yet
                 </div>
               ) : (
-                <>
+                <div
+                  className="relative w-full"
+                  style={{ height: `${fullscreenRowVirtualizer.getTotalSize()}px` }}
+                >
                   <AnimatePresence>
-                    {displayableMessages.map((message: ClaudeStreamMessage, index: number) => (
-                      <motion.div
-                        key={index}
-                        initial={{ opacity: 0, y: 10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ duration: 0.2 }}
-                      >
-                        <ErrorBoundary>
-                          <StreamMessage message={message} streamMessages={messages} />
-                        </ErrorBoundary>
-                      </motion.div>
-                    ))}
+                    {fullscreenRowVirtualizer.getVirtualItems().map((virtualItem) => {
+                      const message = displayableMessages[virtualItem.index]
+                      return (
+                        <motion.div
+                          key={virtualItem.key}
+                          data-index={virtualItem.index}
+                          ref={(el) => {
+                            if (el) fullscreenRowVirtualizer.measureElement(el)
+                          }}
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ duration: 0.2 }}
+                          className="absolute inset-x-0 pb-2"
+                          style={{ top: virtualItem.start }}
+                        >
+                          <ErrorBoundary>
+                            <StreamMessage message={message} streamMessages={messages} />
+                          </ErrorBoundary>
+                        </motion.div>
+                      )
+                    })}
                   </AnimatePresence>
-                  <div ref={fullscreenMessagesEndRef} />
-                </>
+                </div>
               )}
             </div>
           </div>
@@ -8,7 +8,9 @@ import {
   Hash,
   DollarSign,
   Bot,
-  StopCircle
+  StopCircle,
+  Gauge,
+  Wrench
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -21,6 +23,7 @@ import { StreamMessage } from './StreamMessage'
 import { AGENT_ICONS } from './CCAgents'
 import type { ClaudeStreamMessage } from './AgentExecution'
 import { ErrorBoundary } from './ErrorBoundary'
+import { RunWorktreePanel } from './RunWorktreePanel'
 
 interface AgentRunViewProps {
   /**
@@ -37,6 +40,36 @@ interface AgentRunViewProps {
   className?: string
 }
 
+/**
+ * Describes the budget limit that stopped a run, with the limit's configured value
+ */
+function describeExceededLimit(run: AgentRunWithMetrics): string {
+  switch (run.exceeded_limit) {
+    case 'cost':
+      return `max cost of $${run.max_cost_usd}`
+    case 'tokens':
+      return `max of ${run.max_tokens} tokens`
+    case 'turns':
+      return `max of ${run.max_turns} turns`
+    case 'duration':
+      return `max duration of ${run.max_duration_seconds}s`
+    default:
+      return 'budget'
+  }
+}
+
+/**
+ * Parses a tool list the run was started with; runs from before tool sets were recorded
+ * have none
+ */
+function parseToolList(json: string | null | undefined): string[] {
+  try {
+    return json ? JSON.parse(json) : []
+  } catch {
+    return []
+  }
+}
+
 /**
  * AgentRunView component for viewing past agent execution details
  *
@@ -342,10 +375,52 @@ export const AgentRunView: React.FC<AgentRunViewProps> = ({ runId, onBack, class
                   </div>
                 )}
               </div>
+
+              {run.disallowed_tools && (
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                  <Wrench className="h-3 w-3" />
+                  {parseToolList(run.allowed_tools).length > 0 && (
+                    <>
+                      <span>Allowed:</span>
+                      {parseToolList(run.allowed_tools).map((tool) => (
+                        <Badge key={tool} variant="secondary" className="font-mono text-xs">
+                          {tool}
+                        </Badge>
+                      ))}
+                    </>
+                  )}
+                  {parseToolList(run.disallowed_tools).length > 0 ? (
+                    <>
+                      <span>Disallowed:</span>
+                      {parseToolList(run.disallowed_tools).map((tool) => (
+                        <Badge key={tool} variant="outline" className="font-mono text-xs">
+                          {tool}
+                        </Badge>
+                      ))}
+                    </>
+                  ) : (
+                    <span>All tools</span>
+                  )}
+                </div>
+              )}
+
+              {run.status === 'budget_exceeded' && (
+                <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+                  <Gauge className="h-3 w-3" />
+                  <span>Stopped after reaching its {describeExceededLimit(run)}</span>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {/* Worktree changes, once the run has finished */}
+        {run.id &&
+          run.worktree_branch &&
+          !['queued', 'pending', 'running'].includes(run.status) && (
+            <RunWorktreePanel runId={run.id} className="mx-4 mb-4" />
+          )}
+
         {/* Output Display */}
         <div className="flex-1 overflow-hidden">
           <div className="h-full overflow-y-auto p-4 space-y-2">
@@ -1,9 +1,32 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useTranslation } from 'react-i18next'
-import { Play, Clock, Hash, Bot } from 'lucide-react'
+import { addDays, format } from 'date-fns'
+import {
+  Play,
+  Clock,
+  Hash,
+  Bot,
+  ChevronUp,
+  ChevronDown,
+  X,
+  ListOrdered,
+  Columns3,
+  DollarSign,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide
+} from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
 import {
   Pagination,
   PaginationContent,
@@ -14,51 +37,218 @@ import {
 } from '@/components/ui/pagination'
 import { cn } from '@/lib/utils'
 import { formatISOTimestamp } from '@/lib/date-utils'
-import type { AgentRunWithMetrics } from '@/lib/api'
+import {
+  api,
+  listen,
+  type Agent,
+  type AgentRunQuery,
+  type AgentRunSortField,
+  type AgentRunWithMetrics,
+  type QueuedRun
+} from '@/lib/api'
 import { AGENT_ICONS } from './CCAgents'
 import { AgentRunOutputViewer } from './AgentRunOutputViewer'
+import { RunComparisonView } from './RunComparisonView'
 
 interface AgentRunsListProps {
   /**
-   * Array of agent runs to display
+   * Agent runs of the current page
    */
   runs: AgentRunWithMetrics[]
+  /**
+   * Number of runs matching the query, over all pages
+   */
+  total: number
+  /**
+   * Filters, sort and page the runs were queried with
+   */
+  query: AgentRunQuery
+  /**
+   * Callback with the query to load runs with after filters, sort or page changed
+   */
+  onQueryChange: (query: AgentRunQuery) => void
+  /**
+   * Agents to filter runs by
+   */
+  agents: Agent[]
+  /**
+   * Whether the runs are being loaded
+   */
+  loading?: boolean
   /**
    * Callback when a run is clicked
    */
   onRunClick?: (run: AgentRunWithMetrics) => void
+  /**
+   * Callback when runs were started, reordered or cancelled by the run queue, or their
+   * metrics were recorded
+   */
+  onRunsChanged?: () => void
   /**
    * Optional className for styling
    */
   className?: string
 }
 
-const ITEMS_PER_PAGE = 5
+// Page size the main process uses when the query has none
+const DEFAULT_PAGE_SIZE = 20
+
+// Select value for not filtering on a field
+const ALL = 'all'
+
+const STATUSES = [
+  'completed',
+  'failed',
+  'running',
+  'queued',
+  'pending',
+  'cancelled',
+  'interrupted',
+  'budget_exceeded'
+]
+
+const SORT_FIELDS: AgentRunSortField[] = ['created_at', 'cost_usd', 'total_tokens', 'duration_ms']
+
+// Page links shown around the current page
+const PAGE_LINKS = 5
 
 /**
- * AgentRunsList component - Displays a paginated list of agent execution runs
+ * Date input value of a query timestamp; `days` undoes the shift of `fromDateInput`
+ */
+function toDateInput(timestamp: string | undefined, days = 0): string {
+  return timestamp ? format(addDays(new Date(timestamp), days), 'yyyy-MM-dd') : ''
+}
+
+/**
+ * Query timestamp of the local midnight `days` after a date input value
+ */
+function fromDateInput(value: string, days = 0): string | undefined {
+  return value ? addDays(new Date(`${value}T00:00`), days).toISOString() : undefined
+}
+
+function parseCost(value: string): number | undefined {
+  const cost = parseFloat(value)
+  return Number.isFinite(cost) ? cost : undefined
+}
+
+/**
+ * AgentRunsList component - Displays a page of agent execution runs, with filters and
+ * sorting applied by the database
  *
  * @example
  * <AgentRunsList
- *   runs={runs}
+ *   runs={page.runs}
+ *   total={page.total}
+ *   query={query}
+ *   onQueryChange={setQuery}
+ *   agents={agents}
  *   onRunClick={(run) => console.log('Selected:', run)}
  * />
  */
-export const AgentRunsList: React.FC<AgentRunsListProps> = ({ runs, onRunClick, className }) => {
+export const AgentRunsList: React.FC<AgentRunsListProps> = ({
+  runs,
+  total,
+  query,
+  onQueryChange,
+  agents,
+  loading,
+  onRunClick,
+  onRunsChanged,
+  className
+}) => {
   const { t } = useTranslation('ui')
-  const [currentPage, setCurrentPage] = useState(1)
   const [selectedRun, setSelectedRun] = useState<AgentRunWithMetrics | null>(null)
+  const [comparisonId, setComparisonId] = useState<number | null>(null)
+  const [queuedRuns, setQueuedRuns] = useState<QueuedRun[]>([])
+  // Queued runs may be on any page, so they're loaded on their own
+  const [queuedRows, setQueuedRows] = useState<AgentRunWithMetrics[]>([])
+  const [projects, setProjects] = useState<string[]>([])
+  const [minCost, setMinCost] = useState(query.minCostUsd?.toString() ?? '')
+  const [maxCost, setMaxCost] = useState(query.maxCostUsd?.toString() ?? '')
 
-  // Calculate pagination
-  const totalPages = Math.ceil(runs.length / ITEMS_PER_PAGE)
-  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE
-  const endIndex = startIndex + ITEMS_PER_PAGE
-  const currentRuns = runs.slice(startIndex, endIndex)
+  // Track the run queue, which changes whenever a run is queued, started or reordered
+  useEffect(() => {
+    const loadQueue = (queue: QueuedRun[]) => {
+      setQueuedRuns(queue)
+      if (queue.length === 0) {
+        setQueuedRows([])
+        return
+      }
+      api
+        .queryAgentRuns({ status: 'queued', pageSize: 100 })
+        .then((page) => setQueuedRows(page.runs))
+        .catch(() => {})
+    }
+
+    api
+      .listQueuedRuns()
+      .then(loadQueue)
+      .catch(() => {})
+
+    const unlistenQueue = listen<QueuedRun[]>('run-queue-changed', (event) => {
+      loadQueue(event.payload)
+      onRunsChanged?.()
+    })
+    // Finished runs get their metrics shortly after their status
+    const unlistenMetrics = listen('run-metrics-recorded', () => onRunsChanged?.())
+    return () => {
+      unlistenQueue()
+      unlistenMetrics()
+    }
+  }, [onRunsChanged])
+
+  useEffect(() => {
+    api
+      .listAgentRunProjects()
+      .then(setProjects)
+      .catch(() => {})
+  }, [total])
+
+  // Filter and sort changes start over from the first page
+  const updateQuery = (update: Partial<AgentRunQuery>) => {
+    onQueryChange({ ...query, ...update, page: 1 })
+  }
+
+  const clearFilters = () => {
+    setMinCost('')
+    setMaxCost('')
+    onQueryChange({ sortBy: query.sortBy, sortOrder: query.sortOrder, pageSize: query.pageSize })
+  }
+
+  const hasFilters =
+    !!query.agentId ||
+    !!query.status ||
+    !!query.projectPath ||
+    !!query.createdFrom ||
+    !!query.createdTo ||
+    query.minCostUsd !== undefined ||
+    query.maxCostUsd !== undefined
+
+  const handleMoveQueuedRun = async (runId: number, offset: number) => {
+    try {
+      await api.moveQueuedRun(runId, offset)
+    } catch (err) {
+      console.error('Failed to move queued run:', err)
+    }
+  }
 
-  // Reset to page 1 if runs change
-  React.useEffect(() => {
-    setCurrentPage(1)
-  }, [runs.length])
+  const handleCancelQueuedRun = async (runId: number) => {
+    try {
+      await api.cancelQueuedRun(runId)
+    } catch (err) {
+      console.error('Failed to cancel queued run:', err)
+    }
+  }
+
+  // Calculate pagination
+  const currentPage = query.page || 1
+  const totalPages = Math.ceil(total / (query.pageSize || DEFAULT_PAGE_SIZE))
+  const firstPageLink = Math.max(1, Math.min(currentPage - 2, totalPages - PAGE_LINKS + 1))
+  const pageLinks = Array.from(
+    { length: Math.min(PAGE_LINKS, totalPages) },
+    (_, i) => firstPageLink + i
+  )
+  const setCurrentPage = (page: number) => onQueryChange({ ...query, page })
 
   const renderIcon = (iconName: string) => {
     const Icon = AGENT_ICONS[iconName as keyof typeof AGENT_ICONS] || Bot
@@ -86,13 +276,16 @@ export const AgentRunsList: React.FC<AgentRunsListProps> = ({ runs, onRunClick,
     // If there's a callback, use it (for full-page navigation)
     if (onRunClick) {
       onRunClick(run)
+    } else if (run.comparison_id) {
+      // Variants of a comparison open side by side
+      setComparisonId(run.comparison_id)
     } else {
       // Otherwise, open in modal preview
       setSelectedRun(run)
     }
   }
 
-  if (runs.length === 0) {
+  if (total === 0 && !hasFilters && !loading) {
     return (
       <div className={cn('text-center py-8 text-muted-foreground', className)}>
         <Play className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -101,92 +294,328 @@ export const AgentRunsList: React.FC<AgentRunsListProps> = ({ runs, onRunClick,
     )
   }
 
+  const renderFilters = () => (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={query.agentId ? String(query.agentId) : ALL}
+        onValueChange={(value) =>
+          updateQuery({ agentId: value === ALL ? undefined : Number(value) })
+        }
+      >
+        <SelectTrigger className="h-8 w-40 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{t('agents.execution.filters.allAgents')}</SelectItem>
+          {agents.map((agent) => (
+            <SelectItem key={agent.id} value={String(agent.id)}>
+              {agent.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={query.status || ALL}
+        onValueChange={(value) => updateQuery({ status: value === ALL ? undefined : value })}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{t('agents.execution.filters.allStatuses')}</SelectItem>
+          {STATUSES.map((status) => (
+            <SelectItem key={status} value={status}>
+              {t(`agents.execution.filters.statuses.${status}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={query.projectPath || ALL}
+        onValueChange={(value) => updateQuery({ projectPath: value === ALL ? undefined : value })}
+      >
+        <SelectTrigger className="h-8 w-48 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{t('agents.execution.filters.allProjects')}</SelectItem>
+          {projects.map((project) => (
+            <SelectItem key={project} value={project}>
+              {project}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="date"
+        value={toDateInput(query.createdFrom)}
+        onChange={(e) => updateQuery({ createdFrom: fromDateInput(e.target.value) })}
+        title={t('agents.execution.filters.from')}
+        className="h-8 w-36 text-xs"
+      />
+      <Input
+        type="date"
+        // The end date is included, so the query runs up to the following midnight
+        value={toDateInput(query.createdTo, -1)}
+        onChange={(e) => updateQuery({ createdTo: fromDateInput(e.target.value, 1) })}
+        title={t('agents.execution.filters.to')}
+        className="h-8 w-36 text-xs"
+      />
+      <Input
+        type="number"
+        min={0}
+        step="0.01"
+        value={minCost}
+        onChange={(e) => {
+          setMinCost(e.target.value)
+          updateQuery({ minCostUsd: parseCost(e.target.value) })
+        }}
+        placeholder={t('agents.execution.filters.minCost')}
+        className="h-8 w-24 text-xs"
+      />
+      <Input
+        type="number"
+        min={0}
+        step="0.01"
+        value={maxCost}
+        onChange={(e) => {
+          setMaxCost(e.target.value)
+          updateQuery({ maxCostUsd: parseCost(e.target.value) })
+        }}
+        placeholder={t('agents.execution.filters.maxCost')}
+        className="h-8 w-24 text-xs"
+      />
+      <Select
+        value={query.sortBy || 'created_at'}
+        onValueChange={(value) => updateQuery({ sortBy: value as AgentRunSortField })}
+      >
+        <SelectTrigger className="h-8 w-32 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_FIELDS.map((field) => (
+            <SelectItem key={field} value={field}>
+              {t(`agents.execution.filters.sort.${field}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => updateQuery({ sortOrder: query.sortOrder === 'ASC' ? 'DESC' : 'ASC' })}
+        title={t(
+          query.sortOrder === 'ASC'
+            ? 'agents.execution.filters.ascending'
+            : 'agents.execution.filters.descending'
+        )}
+      >
+        {query.sortOrder === 'ASC' ? (
+          <ArrowUpNarrowWide className="h-4 w-4" />
+        ) : (
+          <ArrowDownWideNarrow className="h-4 w-4" />
+        )}
+      </Button>
+      {hasFilters && (
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={clearFilters}>
+          <X className="mr-1 h-3.5 w-3.5" />
+          {t('agents.execution.filters.clear')}
+        </Button>
+      )}
+    </div>
+  )
+
+  const renderQueue = () => {
+    const entries = queuedRuns
+      .map((queued) => ({ queued, run: queuedRows.find((run) => run.id === queued.runId) }))
+      .filter((entry) => entry.run)
+    if (entries.length === 0) return null
+
+    return (
+      <Card className="!py-0 border-dashed">
+        <CardContent className="p-3 space-y-2">
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <ListOrdered className="h-3.5 w-3.5" />
+            {t('agents.execution.queue.title', { count: entries.length })}
+          </div>
+          {entries.map(({ queued, run }, index) => (
+            <div key={queued.runId} className="flex items-center gap-2">
+              <span className="w-6 text-xs text-muted-foreground">#{queued.position}</span>
+              <div className="flex-shrink-0">{renderIcon(run!.agent_icon)}</div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium truncate">{run!.agent_name}</p>
+                <p className="text-xs text-muted-foreground truncate">{run!.task}</p>
+              </div>
+              {queued.priority !== 'normal' && (
+                <Badge variant="outline" className="text-xs">
+                  {t(`agents.execution.priority.${queued.priority}`)}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleMoveQueuedRun(queued.runId, -1)}
+                disabled={index === 0}
+                title={t('agents.execution.queue.moveUp')}
+              >
+                <ChevronUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleMoveQueuedRun(queued.runId, 1)}
+                disabled={index === entries.length - 1}
+                title={t('agents.execution.queue.moveDown')}
+              >
+                <ChevronDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-destructive hover:text-destructive"
+                onClick={() => handleCancelQueuedRun(queued.runId)}
+                title={t('agents.execution.queue.cancel')}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    )
+  }
+
   return (
     <>
       <div className={cn('space-y-2', className)}>
+        {renderFilters()}
+        {renderQueue()}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          runs.length === 0 && (
+            <p className="text-center py-8 text-sm text-muted-foreground">
+              {t('agents.execution.filters.noMatches')}
+            </p>
+          )
+        )}
+
         <AnimatePresence mode="popLayout">
-          {currentRuns.map((run, index) => (
-            <motion.div
-              key={run.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              transition={{
-                duration: 0.3,
-                delay: index * 0.05,
-                ease: [0.4, 0, 0.2, 1]
-              }}
-            >
-              <Card
-                className={cn(
-                  'cursor-pointer transition-all hover:shadow-md hover:scale-[1.01] active:scale-[0.99] !py-0',
-                  run.status === 'running' && 'border-green-500/50'
-                )}
-                onClick={() => handleRunClick(run)}
+          {!loading &&
+            runs.map((run, index) => (
+              <motion.div
+                key={run.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{
+                  duration: 0.3,
+                  delay: index * 0.05,
+                  ease: [0.4, 0, 0.2, 1]
+                }}
               >
-                <CardContent className="p-3">
-                  <div className="flex items-center gap-3">
-                    <div className="flex-shrink-0">{renderIcon(run.agent_icon)}</div>
-
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 mb-1">
-                        <h4 className="text-sm font-medium truncate">{run.agent_name}</h4>
-                        {run.status === 'running' && (
-                          <div className="flex items-center gap-1">
-                            <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                            <span className="text-xs text-green-600 font-medium">Running</span>
-                          </div>
-                        )}
-                      </div>
+                <Card
+                  className={cn(
+                    'cursor-pointer transition-all hover:shadow-md hover:scale-[1.01] active:scale-[0.99] !py-0',
+                    run.status === 'running' && 'border-green-500/50'
+                  )}
+                  onClick={() => handleRunClick(run)}
+                >
+                  <CardContent className="p-3">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-shrink-0">{renderIcon(run.agent_icon)}</div>
 
-                      <p className="text-xs text-muted-foreground truncate mb-1">{run.task}</p>
-
-                      <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                        <div className="flex items-center gap-1">
-                          <Clock className="h-3 w-3" />
-                          <span>{formatISOTimestamp(run.created_at)}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h4 className="text-sm font-medium truncate">{run.agent_name}</h4>
+                          {run.status === 'running' && (
+                            <div className="flex items-center gap-1">
+                              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                              <span className="text-xs text-green-600 font-medium">Running</span>
+                            </div>
+                          )}
                         </div>
 
-                        {run.metrics?.duration_ms && (
-                          <span>{formatDuration(run.metrics.duration_ms)}</span>
-                        )}
+                        <p className="text-xs text-muted-foreground truncate mb-1">{run.task}</p>
 
-                        {run.metrics?.total_tokens && (
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
                           <div className="flex items-center gap-1">
-                            <Hash className="h-3 w-3" />
-                            <span>{formatTokens(run.metrics.total_tokens)}</span>
+                            <Clock className="h-3 w-3" />
+                            <span>{formatISOTimestamp(run.created_at)}</span>
                           </div>
-                        )}
+
+                          {run.agent_revision && (
+                            <span>
+                              {t('agents.execution.revision', { revision: run.agent_revision })}
+                            </span>
+                          )}
+
+                          {run.comparison_id && (
+                            <div className="flex items-center gap-1">
+                              <Columns3 className="h-3 w-3" />
+                              <span>{t('agents.comparison.variantOf', { model: run.model })}</span>
+                            </div>
+                          )}
+
+                          {run.metrics?.duration_ms && (
+                            <span>{formatDuration(run.metrics.duration_ms)}</span>
+                          )}
+
+                          {run.metrics?.total_tokens && (
+                            <div className="flex items-center gap-1">
+                              <Hash className="h-3 w-3" />
+                              <span>{formatTokens(run.metrics.total_tokens)}</span>
+                            </div>
+                          )}
+
+                          {run.metrics?.cost_usd && (
+                            <div className="flex items-center gap-1">
+                              <DollarSign className="h-3 w-3" />
+                              <span>{run.metrics.cost_usd.toFixed(4)}</span>
+                            </div>
+                          )}
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="flex-shrink-0">
-                      <Badge
-                        variant={
-                          run.status === 'completed'
-                            ? 'default'
+                      <div className="flex-shrink-0">
+                        <Badge
+                          variant={
+                            run.status === 'completed'
+                              ? 'default'
+                              : run.status === 'running'
+                                ? 'secondary'
+                                : run.status === 'failed' || run.status === 'budget_exceeded'
+                                  ? 'destructive'
+                                  : 'outline'
+                          }
+                          className="text-xs"
+                        >
+                          {run.status === 'completed'
+                            ? 'Completed'
                             : run.status === 'running'
-                              ? 'secondary'
+                              ? 'Running'
                               : run.status === 'failed'
-                                ? 'destructive'
-                                : 'outline'
-                        }
-                        className="text-xs"
-                      >
-                        {run.status === 'completed'
-                          ? 'Completed'
-                          : run.status === 'running'
-                            ? 'Running'
-                            : run.status === 'failed'
-                              ? 'Failed'
-                              : 'Pending'}
-                      </Badge>
+                                ? 'Failed'
+                                : run.status === 'interrupted'
+                                  ? 'Interrupted'
+                                  : run.status === 'queued'
+                                    ? 'Queued'
+                                    : run.status === 'budget_exceeded'
+                                      ? 'Budget exceeded'
+                                      : 'Pending'}
+                        </Badge>
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </motion.div>
-          ))}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
         </AnimatePresence>
 
         {/* Pagination */}
@@ -203,14 +632,14 @@ export const AgentRunsList: React.FC<AgentRunsListProps> = ({ runs, onRunClick,
                   />
                 </PaginationItem>
 
-                {[...Array(totalPages)].map((_, i) => (
-                  <PaginationItem key={i + 1}>
+                {pageLinks.map((page) => (
+                  <PaginationItem key={page}>
                     <PaginationLink
-                      onClick={() => setCurrentPage(i + 1)}
-                      isActive={currentPage === i + 1}
+                      onClick={() => setCurrentPage(page)}
+                      isActive={currentPage === page}
                       className="cursor-pointer"
                     >
-                      {i + 1}
+                      {page}
                     </PaginationLink>
                   </PaginationItem>
                 ))}
@@ -235,6 +664,10 @@ export const AgentRunsList: React.FC<AgentRunsListProps> = ({ runs, onRunClick,
       {selectedRun && (
         <AgentRunOutputViewer run={selectedRun} onClose={() => setSelectedRun(null)} />
       )}
+
+      {comparisonId !== null && (
+        <RunComparisonView comparisonId={comparisonId} onClose={() => setComparisonId(null)} />
+      )}
     </>
   )
 }
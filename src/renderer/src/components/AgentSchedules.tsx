@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, CalendarClock, FolderOpen, Plus, Trash2, Loader2, Bot } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { api, listen, open, type Agent, type AgentSchedule } from '@/lib/api'
+import { cn } from '@/lib/utils'
+import { ICON_MAP } from './IconPicker'
+
+interface AgentSchedulesProps {
+  /**
+   * Agents that can be scheduled
+   */
+  agents: Agent[]
+  /**
+   * Callback to go back to the agents list
+   */
+  onBack: () => void
+  /**
+   * Optional className for styling
+   */
+  className?: string
+}
+
+function getStatusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'completed') return 'default'
+  if (status === 'running' || status === 'queued') return 'secondary'
+  if (status === 'failed' || status === 'budget_exceeded') return 'destructive'
+  return 'outline'
+}
+
+/**
+ * AgentSchedules component for managing agent runs repeated on a cron schedule
+ *
+ * @example
+ * <AgentSchedules agents={agents} onBack={() => setView('list')} />
+ */
+export const AgentSchedules: React.FC<AgentSchedulesProps> = ({ agents, onBack, className }) => {
+  const { t } = useTranslation('ui')
+  const [schedules, setSchedules] = useState<AgentSchedule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [agentId, setAgentId] = useState<string>(agents[0]?.id?.toString() || '')
+  const [projectPath, setProjectPath] = useState('')
+  const [task, setTask] = useState('')
+  const [cronExpression, setCronExpression] = useState('0 9 * * 1-5')
+
+  useEffect(() => {
+    loadSchedules()
+
+    // Reload when a schedule ticks, for its new last run and next run time
+    const unlisten = listen('agent-schedules-changed', () => loadSchedules(false))
+    return unlisten
+  }, [])
+
+  const loadSchedules = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      setSchedules(await api.listAgentSchedules())
+    } catch (err) {
+      console.error('Failed to load schedules:', err)
+      setError(t('agents.schedules.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelectPath = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: 'Select Project Directory'
+      })
+      if (selected) {
+        setProjectPath(selected as string)
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true)
+      setError(null)
+      await api.createAgentSchedule(Number(agentId), projectPath, task, cronExpression)
+      setTask('')
+      await loadSchedules(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.schedules.createFailed'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleToggle = async (schedule: AgentSchedule, enabled: boolean) => {
+    try {
+      await api.updateAgentSchedule(schedule.id, { enabled })
+      await loadSchedules(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.schedules.updateFailed'))
+    }
+  }
+
+  const handleDelete = async (schedule: AgentSchedule) => {
+    if (!confirm(t('agents.schedules.confirmDelete'))) return
+
+    try {
+      await api.deleteAgentSchedule(schedule.id)
+      await loadSchedules(false)
+    } catch (err) {
+      console.error('Failed to delete schedule:', err)
+      setError(t('agents.schedules.deleteFailed'))
+    }
+  }
+
+  const renderIcon = (iconName: string) => {
+    const Icon = ICON_MAP[iconName as keyof typeof ICON_MAP] || Bot
+    return <Icon className="h-5 w-5" />
+  }
+
+  const canCreate = !!agentId && !!projectPath.trim() && !!task.trim() && !!cronExpression.trim()
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      <div className="w-full max-w-5xl mx-auto flex flex-col h-full">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center gap-3 p-4 border-b border-border"
+        >
+          <Button variant="ghost" size="icon" onClick={onBack} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h2 className="text-lg font-semibold">{t('agents.schedules.title')}</h2>
+            <p className="text-xs text-muted-foreground">{t('agents.schedules.description')}</p>
+          </div>
+        </motion.div>
+
+        {error && (
+          <div className="mx-4 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* New schedule */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <h3 className="text-sm font-medium">{t('agents.schedules.new')}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('agents.schedules.agent')}</Label>
+                  <Select value={agentId} onValueChange={setAgentId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {agents.map((agent) => (
+                        <SelectItem key={agent.id} value={String(agent.id)}>
+                          {agent.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-cron">{t('agents.schedules.cron')}</Label>
+                  <Input
+                    id="schedule-cron"
+                    value={cronExpression}
+                    onChange={(e) => setCronExpression(e.target.value)}
+                    placeholder="0 9 * * 1-5"
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">{t('agents.schedules.cronHint')}</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('agents.execution.projectPath')}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={projectPath}
+                    onChange={(e) => setProjectPath(e.target.value)}
+                    placeholder={t('agents.execution.selectProjectPath')}
+                    className="flex-1"
+                  />
+                  <Button variant="outline" size="icon" onClick={handleSelectPath}>
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-task">{t('agents.execution.task')}</Label>
+                <Input id="schedule-task" value={task} onChange={(e) => setTask(e.target.value)} />
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleCreate} disabled={!canCreate || creating} size="sm">
+                  {creating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {t('agents.schedules.create')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Schedules */}
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : schedules.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-32 text-center">
+              <CalendarClock className="h-10 w-10 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">{t('agents.schedules.empty')}</p>
+            </div>
+          ) : (
+            schedules.map((schedule) => (
+              <Card key={schedule.id} className={cn(!schedule.enabled && 'opacity-60')}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <div className="mt-0.5 text-primary">{renderIcon(schedule.agent_icon)}</div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{schedule.agent_name}</span>
+                      <Badge variant="outline" className="text-xs font-mono">
+                        {schedule.cron_expression}
+                      </Badge>
+                    </div>
+                    <p className="text-sm truncate">{schedule.task}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {schedule.project_path}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span>
+                        {t('agents.schedules.nextRun')}:{' '}
+                        {schedule.next_run_at
+                          ? new Date(schedule.next_run_at).toLocaleString()
+                          : t('agents.schedules.paused')}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        {t('agents.schedules.lastRun')}:{' '}
+                        {schedule.last_run_at ? (
+                          <>
+                            {new Date(schedule.last_run_at).toLocaleString()}
+                            {schedule.last_run_status && (
+                              <Badge
+                                variant={getStatusVariant(schedule.last_run_status)}
+                                className="text-xs"
+                              >
+                                {schedule.last_run_status}
+                              </Badge>
+                            )}
+                          </>
+                        ) : (
+                          t('agents.schedules.never')
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(enabled) => handleToggle(schedule, enabled)}
+                      title={t('agents.schedules.pauseToggle')}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleDelete(schedule)}
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
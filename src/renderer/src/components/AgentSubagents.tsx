@@ -0,0 +1,397 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, FolderOpen, FolderSync, Download, Upload, Unlink } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
+  api,
+  listen,
+  open,
+  type Agent,
+  type SubagentFile,
+  type SubagentLink,
+  type SubagentScope,
+  type SubagentSyncState
+} from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface AgentSubagentsProps {
+  /**
+   * Agents that can be written to subagent files
+   */
+  agents: Agent[]
+  /**
+   * Callback to go back to the agents list
+   */
+  onBack: () => void
+  /**
+   * Callback when agents were created or changed from subagent files
+   */
+  onAgentsChanged: () => void
+  /**
+   * Optional className for styling
+   */
+  className?: string
+}
+
+function getSyncStateVariant(
+  state: SubagentSyncState
+): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (state === 'in_sync') return 'outline'
+  if (state === 'conflict' || state === 'missing') return 'destructive'
+  return 'secondary'
+}
+
+/**
+ * AgentSubagents component for importing, exporting and syncing agents with Claude Code
+ * subagent files
+ *
+ * @example
+ * <AgentSubagents agents={agents} onBack={() => setView('list')} onAgentsChanged={loadAgents} />
+ */
+export const AgentSubagents: React.FC<AgentSubagentsProps> = ({
+  agents,
+  onBack,
+  onAgentsChanged,
+  className
+}) => {
+  const { t } = useTranslation('ui')
+  const [links, setLinks] = useState<SubagentLink[]>([])
+  const [files, setFiles] = useState<SubagentFile[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [scope, setScope] = useState<SubagentScope>('user')
+  const [projectPath, setProjectPath] = useState('')
+  const [liveSync, setLiveSync] = useState(true)
+  const [exportAgentId, setExportAgentId] = useState('')
+
+  useEffect(() => {
+    loadLinks()
+
+    // Live synced agents change when their files do
+    const unlisten = listen('subagent-links-changed', () => {
+      loadLinks()
+      onAgentsChanged()
+    })
+    return unlisten
+  }, [])
+
+  useEffect(() => {
+    loadFiles()
+  }, [scope, projectPath, links])
+
+  const loadLinks = async () => {
+    try {
+      setLinks(await api.listSubagentLinks())
+    } catch (err) {
+      console.error('Failed to load subagent links:', err)
+      setError(t('agents.subagents.loadFailed'))
+    }
+  }
+
+  const loadFiles = async () => {
+    if (scope === 'project' && !projectPath.trim()) {
+      setFiles([])
+      return
+    }
+    try {
+      setFiles(await api.listSubagentFiles(scope, projectPath.trim() || undefined))
+    } catch (err) {
+      console.error('Failed to load subagent files:', err)
+      setError(t('agents.subagents.loadFailed'))
+    }
+  }
+
+  const handleSelectPath = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: 'Select Project Directory'
+      })
+      if (selected) {
+        setProjectPath(selected as string)
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  // Run an action, then reload the links and the agents it may have changed
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null)
+      await action()
+      await loadLinks()
+      onAgentsChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.subagents.actionFailed'))
+    }
+  }
+
+  const scopeData = {
+    scope,
+    projectPath: scope === 'project' ? projectPath.trim() : undefined,
+    liveSync
+  }
+
+  const unlinkedAgents = agents.filter((agent) => !links.some((link) => link.agent_id === agent.id))
+
+  const scopeReady = scope === 'user' || !!projectPath.trim()
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      <div className="w-full max-w-5xl mx-auto flex flex-col h-full">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center gap-3 p-4 border-b border-border"
+        >
+          <Button variant="ghost" size="icon" onClick={onBack} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h2 className="text-lg font-semibold">{t('agents.subagents.title')}</h2>
+            <p className="text-xs text-muted-foreground">{t('agents.subagents.description')}</p>
+          </div>
+        </motion.div>
+
+        {error && (
+          <div className="mx-4 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* Scope */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('agents.subagents.scope')}</Label>
+                  <Select value={scope} onValueChange={(value) => setScope(value as SubagentScope)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="user">{t('agents.subagents.scopes.user')}</SelectItem>
+                      <SelectItem value="project">
+                        {t('agents.subagents.scopes.project')}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="subagent-live-sync">{t('agents.subagents.liveSync')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('agents.subagents.liveSyncHint')}
+                    </p>
+                  </div>
+                  <Switch
+                    id="subagent-live-sync"
+                    checked={liveSync}
+                    onCheckedChange={setLiveSync}
+                  />
+                </div>
+              </div>
+              {scope === 'project' && (
+                <div className="space-y-2">
+                  <Label>{t('agents.execution.projectPath')}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={projectPath}
+                      onChange={(e) => setProjectPath(e.target.value)}
+                      placeholder={t('agents.execution.selectProjectPath')}
+                      className="flex-1"
+                    />
+                    <Button variant="outline" size="icon" onClick={handleSelectPath}>
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Export */}
+              <div className="flex gap-2">
+                <Select value={exportAgentId} onValueChange={setExportAgentId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={t('agents.subagents.exportPlaceholder')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unlinkedAgents.map((agent) => (
+                      <SelectItem key={agent.id} value={String(agent.id)}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  disabled={!exportAgentId || !scopeReady}
+                  onClick={() =>
+                    run(async () => {
+                      await api.exportAgentToSubagent({
+                        agentId: Number(exportAgentId),
+                        ...scopeData
+                      })
+                      setExportAgentId('')
+                    })
+                  }
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  {t('agents.subagents.export')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Files of the scope */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">{t('agents.subagents.files')}</h3>
+            {files.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t('agents.subagents.noFiles')}</p>
+            ) : (
+              files.map((file) => {
+                const linked = links.find((link) => link.agent_id === file.agent_id)
+                return (
+                  <Card key={file.file_path}>
+                    <CardContent className="p-4 flex items-start gap-3">
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm font-medium font-mono">
+                            {file.definition?.name || file.file_path}
+                          </span>
+                          {file.definition?.model && (
+                            <Badge variant="outline" className="text-xs">
+                              {file.definition.model}
+                            </Badge>
+                          )}
+                          {file.definition?.tools?.map((tool) => (
+                            <Badge key={tool} variant="secondary" className="text-xs font-mono">
+                              {tool}
+                            </Badge>
+                          ))}
+                        </div>
+                        {file.definition?.description && (
+                          <p className="text-xs text-muted-foreground">
+                            {file.definition.description}
+                          </p>
+                        )}
+                        {file.error && <p className="text-xs text-destructive">{file.error}</p>}
+                        <p className="text-xs text-muted-foreground truncate">{file.file_path}</p>
+                      </div>
+                      {linked ? (
+                        <Badge variant="outline" className="text-xs">
+                          {t('agents.subagents.syncedWith', { name: linked.agent_name })}
+                        </Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!file.definition}
+                          onClick={() =>
+                            run(() =>
+                              api.importSubagent({ filePath: file.file_path, ...scopeData })
+                            )
+                          }
+                        >
+                          <Download className="mr-2 h-4 w-4" />
+                          {t('agents.subagents.import')}
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })
+            )}
+          </div>
+
+          {/* Synced agents */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">{t('agents.subagents.synced')}</h3>
+            {links.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-24 text-center">
+                <FolderSync className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">{t('agents.subagents.empty')}</p>
+              </div>
+            ) : (
+              links.map((link) => (
+                <Card key={link.id}>
+                  <CardContent className="p-4 flex items-start gap-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">{link.agent_name}</span>
+                        <Badge variant="outline" className="text-xs">
+                          {t(`agents.subagents.scopes.${link.scope}`)}
+                        </Badge>
+                        <Badge variant={getSyncStateVariant(link.state)} className="text-xs">
+                          {t(`agents.subagents.states.${link.state}`)}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">{link.file_path}</p>
+                      {link.state !== 'in_sync' && link.state !== 'missing' && (
+                        <div className="flex gap-2 pt-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 text-xs"
+                            onClick={() =>
+                              run(() => api.resolveSubagentSync(link.agent_id, 'file'))
+                            }
+                          >
+                            {t('agents.subagents.keepFile')}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 text-xs"
+                            onClick={() =>
+                              run(() => api.resolveSubagentSync(link.agent_id, 'agent'))
+                            }
+                          >
+                            {t('agents.subagents.keepAgent')}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={link.live_sync}
+                        onCheckedChange={(enabled) =>
+                          run(() => api.setSubagentLiveSync(link.agent_id, enabled))
+                        }
+                        title={t('agents.subagents.liveSync')}
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => run(() => api.unlinkSubagent(link.agent_id))}
+                        className="h-8 w-8"
+                        title={t('agents.subagents.unlink')}
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeft, FileSearch, FolderOpen, Plus, Trash2, Loader2, Bot } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { api, listen, open, type Agent, type AgentTrigger } from '@/lib/api'
+import { cn } from '@/lib/utils'
+import { ICON_MAP } from './IconPicker'
+
+interface AgentTriggersProps {
+  /**
+   * Agents that can be triggered
+   */
+  agents: Agent[]
+  /**
+   * Callback to go back to the agents list
+   */
+  onBack: () => void
+  /**
+   * Optional className for styling
+   */
+  className?: string
+}
+
+function getStatusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'completed') return 'default'
+  if (status === 'running' || status === 'queued') return 'secondary'
+  if (status === 'failed' || status === 'budget_exceeded') return 'destructive'
+  return 'outline'
+}
+
+function parsePatterns(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+}
+
+/**
+ * AgentTriggers component for managing agent runs started by file changes in a project
+ *
+ * @example
+ * <AgentTriggers agents={agents} onBack={() => setView('list')} />
+ */
+export const AgentTriggers: React.FC<AgentTriggersProps> = ({ agents, onBack, className }) => {
+  const { t } = useTranslation('ui')
+  const [triggers, setTriggers] = useState<AgentTrigger[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [agentId, setAgentId] = useState<string>(agents[0]?.id?.toString() || '')
+  const [projectPath, setProjectPath] = useState('')
+  const [task, setTask] = useState('')
+  const [patterns, setPatterns] = useState('src/**')
+  const [debounceSeconds, setDebounceSeconds] = useState('2')
+  const [cooldownSeconds, setCooldownSeconds] = useState('300')
+
+  useEffect(() => {
+    loadTriggers()
+
+    // Reload when a trigger fires, for its new fire history
+    const unlisten = listen('agent-triggers-changed', () => loadTriggers(false))
+    return unlisten
+  }, [])
+
+  const loadTriggers = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      setTriggers(await api.listAgentTriggers())
+    } catch (err) {
+      console.error('Failed to load triggers:', err)
+      setError(t('agents.triggers.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSelectPath = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: 'Select Project Directory'
+      })
+      if (selected) {
+        setProjectPath(selected as string)
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true)
+      setError(null)
+      await api.createAgentTrigger({
+        agentId: Number(agentId),
+        projectPath,
+        task,
+        patterns: parsePatterns(patterns),
+        debounceMs: Math.round(Number(debounceSeconds) * 1000),
+        cooldownSeconds: Number(cooldownSeconds)
+      })
+      setTask('')
+      await loadTriggers(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.triggers.createFailed'))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleToggle = async (trigger: AgentTrigger, enabled: boolean) => {
+    try {
+      await api.updateAgentTrigger(trigger.id, { enabled })
+      await loadTriggers(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.triggers.updateFailed'))
+    }
+  }
+
+  const handleDelete = async (trigger: AgentTrigger) => {
+    if (!confirm(t('agents.triggers.confirmDelete'))) return
+
+    try {
+      await api.deleteAgentTrigger(trigger.id)
+      await loadTriggers(false)
+    } catch (err) {
+      console.error('Failed to delete trigger:', err)
+      setError(t('agents.triggers.deleteFailed'))
+    }
+  }
+
+  const renderIcon = (iconName: string) => {
+    const Icon = ICON_MAP[iconName as keyof typeof ICON_MAP] || Bot
+    return <Icon className="h-5 w-5" />
+  }
+
+  const canCreate =
+    !!agentId && !!projectPath.trim() && !!task.trim() && parsePatterns(patterns).length > 0
+
+  return (
+    <div className={cn('flex flex-col h-full bg-background', className)}>
+      <div className="w-full max-w-5xl mx-auto flex flex-col h-full">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center gap-3 p-4 border-b border-border"
+        >
+          <Button variant="ghost" size="icon" onClick={onBack} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h2 className="text-lg font-semibold">{t('agents.triggers.title')}</h2>
+            <p className="text-xs text-muted-foreground">{t('agents.triggers.description')}</p>
+          </div>
+        </motion.div>
+
+        {error && (
+          <div className="mx-4 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* New trigger */}
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <h3 className="text-sm font-medium">{t('agents.triggers.new')}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('agents.triggers.agent')}</Label>
+                  <Select value={agentId} onValueChange={setAgentId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {agents.map((agent) => (
+                        <SelectItem key={agent.id} value={String(agent.id)}>
+                          {agent.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trigger-patterns">{t('agents.triggers.patterns')}</Label>
+                  <Input
+                    id="trigger-patterns"
+                    value={patterns}
+                    onChange={(e) => setPatterns(e.target.value)}
+                    placeholder="src/api/**, *.md"
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('agents.triggers.patternsHint')}
+                  </p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('agents.execution.projectPath')}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={projectPath}
+                    onChange={(e) => setProjectPath(e.target.value)}
+                    placeholder={t('agents.execution.selectProjectPath')}
+                    className="flex-1"
+                  />
+                  <Button variant="outline" size="icon" onClick={handleSelectPath}>
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trigger-task">{t('agents.execution.task')}</Label>
+                <Input id="trigger-task" value={task} onChange={(e) => setTask(e.target.value)} />
+                <p className="text-xs text-muted-foreground">
+                  {t('agents.triggers.taskHint')}{' '}
+                  <code className="font-mono">{'{{changed_files}}'}</code>
+                </p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="trigger-debounce">{t('agents.triggers.debounce')}</Label>
+                  <Input
+                    id="trigger-debounce"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={debounceSeconds}
+                    onChange={(e) => setDebounceSeconds(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('agents.triggers.debounceHint')}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trigger-cooldown">{t('agents.triggers.cooldown')}</Label>
+                  <Input
+                    id="trigger-cooldown"
+                    type="number"
+                    min="0"
+                    value={cooldownSeconds}
+                    onChange={(e) => setCooldownSeconds(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('agents.triggers.cooldownHint')}
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleCreate} disabled={!canCreate || creating} size="sm">
+                  {creating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {t('agents.triggers.create')}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Triggers */}
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : triggers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-32 text-center">
+              <FileSearch className="h-10 w-10 text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">{t('agents.triggers.empty')}</p>
+            </div>
+          ) : (
+            triggers.map((trigger) => (
+              <Card key={trigger.id} className={cn(!trigger.enabled && 'opacity-60')}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <div className="mt-0.5 text-primary">{renderIcon(trigger.agent_icon)}</div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{trigger.agent_name}</span>
+                      {trigger.patterns.map((pattern) => (
+                        <Badge key={pattern} variant="outline" className="text-xs font-mono">
+                          {pattern}
+                        </Badge>
+                      ))}
+                      {trigger.enabled && !trigger.watching && (
+                        <Badge variant="destructive" className="text-xs">
+                          {t('agents.triggers.notWatching')}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm truncate">{trigger.task}</p>
+                    <p className="text-xs text-muted-foreground truncate">{trigger.project_path}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t('agents.triggers.timing', {
+                        debounce: trigger.debounce_ms / 1000,
+                        cooldown: trigger.cooldown_seconds
+                      })}
+                    </p>
+
+                    {/* Fire history */}
+                    <div className="pt-2 space-y-1">
+                      <p className="text-xs font-medium">{t('agents.triggers.history')}</p>
+                      {trigger.fires.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">
+                          {t('agents.triggers.neverFired')}
+                        </p>
+                      ) : (
+                        trigger.fires.map((fire) => (
+                          <div
+                            key={fire.run_id}
+                            className="flex items-center gap-2 text-xs text-muted-foreground"
+                          >
+                            <span className="shrink-0">
+                              {new Date(fire.created_at).toLocaleString()}
+                            </span>
+                            <Badge variant={getStatusVariant(fire.status)} className="text-xs">
+                              {fire.status}
+                            </Badge>
+                            <span
+                              className="truncate font-mono"
+                              title={fire.changed_files.join('\n')}
+                            >
+                              {fire.changed_files.join(', ')}
+                            </span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={trigger.enabled}
+                      onCheckedChange={(enabled) => handleToggle(trigger, enabled)}
+                      title={t('agents.triggers.pauseToggle')}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleDelete(trigger)}
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useTranslation } from 'react-i18next'
 import {
@@ -11,11 +11,18 @@ import {
   History,
   Download,
   Upload,
-  Globe,
+  Library,
   FileJson,
-  ChevronDown
+  ChevronDown,
+  CalendarClock,
+  Workflow,
+  FileSearch,
+  FolderSync,
+  FlaskConical,
+  Columns3
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardFooter } from '@/components/ui/card'
 import {
   DropdownMenu,
@@ -31,15 +38,29 @@ import {
   DialogHeader,
   DialogTitle
 } from '@/components/ui/dialog'
-import { api, type Agent, type AgentRunWithMetrics } from '@/lib/api'
+import {
+  api,
+  listen,
+  type Agent,
+  type AgentRunQuery,
+  type AgentRunWithMetrics,
+  type SubagentLink
+} from '@/lib/api'
 import { save, open } from '@/lib/api'
 import { invoke } from '@/lib/api'
 import { cn } from '@/lib/utils'
-import { Toast, ToastContainer } from '@/components/ui/toast'
+import { Toast, ToastContainer, type ToastType } from '@/components/ui/toast'
 import { CreateAgent } from './CreateAgent'
 import { AgentExecution } from './AgentExecution'
 import { AgentRunsList } from './AgentRunsList'
-import { GitHubAgentBrowser } from './GitHubAgentBrowser'
+import { AgentSchedules } from './AgentSchedules'
+import { AgentPipelines } from './AgentPipelines'
+import { AgentTriggers } from './AgentTriggers'
+import { AgentEvaluations } from './AgentEvaluations'
+import { AgentSubagents } from './AgentSubagents'
+import { AgentRegistryBrowser } from './AgentRegistryBrowser'
+import { RunComparisonLauncher } from './RunComparisonLauncher'
+import { RunComparisonView } from './RunComparisonView'
 import { ICON_MAP } from './IconPicker'
 
 interface CCAgentsProps {
@@ -58,6 +79,9 @@ export const AGENT_ICONS = ICON_MAP
 
 export type AgentIconName = keyof typeof AGENT_ICONS
 
+// Runs shown per page of the execution history
+const RUNS_PER_PAGE = 5
+
 /**
  * CCAgents component for managing Claude Code agents
  *
@@ -68,24 +92,43 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
   const { t } = useTranslation('ui')
   const [agents, setAgents] = useState<Agent[]>([])
   const [runs, setRuns] = useState<AgentRunWithMetrics[]>([])
+  const [runsTotal, setRunsTotal] = useState(0)
+  const [runQuery, setRunQuery] = useState<AgentRunQuery>({ pageSize: RUNS_PER_PAGE })
   const [loading, setLoading] = useState(true)
   const [runsLoading, setRunsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: ToastType } | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
-  const [view, setView] = useState<'list' | 'create' | 'edit' | 'execute'>('list')
+  const [view, setView] = useState<
+    | 'list'
+    | 'create'
+    | 'edit'
+    | 'execute'
+    | 'schedules'
+    | 'pipelines'
+    | 'triggers'
+    | 'evaluations'
+    | 'subagents'
+  >('list')
   const [selectedAgent, setSelectedAgent] = useState<Agent | null>(null)
   // const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
-  const [showGitHubBrowser, setShowGitHubBrowser] = useState(false)
+  const [showRegistryBrowser, setShowRegistryBrowser] = useState(false)
+  const [showComparisonLauncher, setShowComparisonLauncher] = useState(false)
+  const [comparisonId, setComparisonId] = useState<number | null>(null)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [agentToDelete, setAgentToDelete] = useState<Agent | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [subagentLinks, setSubagentLinks] = useState<SubagentLink[]>([])
 
   const AGENTS_PER_PAGE = 9 // 3x3 grid
 
   useEffect(() => {
     loadAgents()
-    loadRuns()
+    loadSubagentLinks()
+
+    // Sync states change when subagent files or agents do
+    const unlisten = listen('subagent-links-changed', () => loadSubagentLinks())
+    return unlisten
   }, [])
 
   const loadAgents = async () => {
@@ -103,11 +146,25 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
     }
   }
 
-  const loadRuns = async () => {
+  const loadSubagentLinks = async () => {
     try {
-      setRunsLoading(true)
-      const runsList = await api.listAgentRuns()
-      setRuns(runsList)
+      setSubagentLinks(await api.listSubagentLinks())
+    } catch (err) {
+      console.error('Failed to load subagent links:', err)
+    }
+  }
+
+  // Runs are loaded a page at a time, whenever the filters, sort or page change
+  useEffect(() => {
+    loadRuns()
+  }, [runQuery])
+
+  const loadRuns = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setRunsLoading(true)
+      const page = await api.queryAgentRuns(runQuery)
+      setRuns(page.runs)
+      setRunsTotal(page.total)
     } catch (err) {
       console.error('Failed to load runs:', err)
     } finally {
@@ -115,6 +172,11 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
     }
   }
 
+  // Refresh statuses and metrics quietly when the run queue starts or cancels runs
+  const handleRunsChanged = useCallback(() => {
+    loadRuns(false)
+  }, [runQuery])
+
   /**
    * Initiates the delete agent process by showing the confirmation dialog
    * @param agent - The agent to be deleted
@@ -241,9 +303,18 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
       // Import the agent from the selected file
       // Handle both string and array return types from open()
       const filePathString = Array.isArray(filePath) ? filePath[0] : filePath
-      await api.importAgentFromFile(filePathString)
-
-      setToast({ message: t('agents.toast.imported'), type: 'success' })
+      const imported = await api.importAgentFromFile(filePathString)
+
+      if (imported.missing_mcp_servers.length > 0) {
+        setToast({
+          message: t('agents.toast.importedMissingMcp', {
+            servers: imported.missing_mcp_servers.join(', ')
+          }),
+          type: 'info'
+        })
+      } else {
+        setToast({ message: t('agents.toast.imported'), type: 'success' })
+      }
       await loadAgents()
     } catch (err) {
       console.error('Failed to import agent:', err)
@@ -252,6 +323,35 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
     }
   }
 
+  // Scope of the subagent file an agent is synced with, and whether it needs syncing
+  const renderSubagentBadge = (agent: Agent) => {
+    const link = subagentLinks.find((candidate) => candidate.agent_id === agent.id)
+    if (!link) return null
+
+    return (
+      <button
+        type="button"
+        onClick={() => setView('subagents')}
+        className="mb-2 flex items-center gap-1"
+        title={link.file_path}
+      >
+        <Badge variant="outline" className="text-xs">
+          {t(`agents.subagents.scopes.${link.scope}`)}
+        </Badge>
+        {link.state !== 'in_sync' && (
+          <Badge
+            variant={
+              link.state === 'conflict' || link.state === 'missing' ? 'destructive' : 'secondary'
+            }
+            className="text-xs"
+          >
+            {t(`agents.subagents.states.${link.state}`)}
+          </Badge>
+        )}
+      </button>
+    )
+  }
+
   // Pagination calculations
   const totalPages = Math.ceil(agents.length / AGENTS_PER_PAGE)
   const startIndex = (currentPage - 1) * AGENTS_PER_PAGE
@@ -288,6 +388,35 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
     )
   }
 
+  if (view === 'schedules') {
+    return <AgentSchedules agents={agents} onBack={() => setView('list')} />
+  }
+
+  if (view === 'pipelines') {
+    return <AgentPipelines agents={agents} onBack={() => setView('list')} />
+  }
+
+  if (view === 'triggers') {
+    return <AgentTriggers agents={agents} onBack={() => setView('list')} />
+  }
+
+  if (view === 'evaluations') {
+    return <AgentEvaluations agents={agents} onBack={() => setView('list')} />
+  }
+
+  if (view === 'subagents') {
+    return (
+      <AgentSubagents
+        agents={agents}
+        onBack={() => setView('list')}
+        onAgentsChanged={() => {
+          loadAgents()
+          loadSubagentLinks()
+        }}
+      />
+    )
+  }
+
   // Removed viewRun case - now using modal preview in AgentRunsList
 
   return (
@@ -311,6 +440,65 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <Button
+                size="default"
+                variant="outline"
+                onClick={() => setView('schedules')}
+                className="flex items-center gap-2"
+                disabled={agents.length === 0}
+              >
+                <CalendarClock className="h-4 w-4" />
+                {t('agents.buttons.schedules')}
+              </Button>
+              <Button
+                size="default"
+                variant="outline"
+                onClick={() => setView('triggers')}
+                className="flex items-center gap-2"
+                disabled={agents.length === 0}
+              >
+                <FileSearch className="h-4 w-4" />
+                {t('agents.buttons.triggers')}
+              </Button>
+              <Button
+                size="default"
+                variant="outline"
+                onClick={() => setView('pipelines')}
+                className="flex items-center gap-2"
+                disabled={agents.length === 0}
+              >
+                <Workflow className="h-4 w-4" />
+                {t('agents.buttons.pipelines')}
+              </Button>
+              <Button
+                size="default"
+                variant="outline"
+                onClick={() => setView('evaluations')}
+                className="flex items-center gap-2"
+                disabled={agents.length === 0}
+              >
+                <FlaskConical className="h-4 w-4" />
+                {t('agents.buttons.evaluations')}
+              </Button>
+              <Button
+                size="default"
+                variant="outline"
+                onClick={() => setShowComparisonLauncher(true)}
+                className="flex items-center gap-2"
+                disabled={agents.length === 0}
+              >
+                <Columns3 className="h-4 w-4" />
+                {t('agents.buttons.compare')}
+              </Button>
+              <Button
+                size="default"
+                variant="outline"
+                onClick={() => setView('subagents')}
+                className="flex items-center gap-2"
+              >
+                <FolderSync className="h-4 w-4" />
+                {t('agents.buttons.subagents')}
+              </Button>
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button size="default" variant="outline" className="flex items-center gap-2">
@@ -324,9 +512,9 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
                     <FileJson className="h-4 w-4 mr-2" />
                     {t('agents.import.fromFile')}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setShowGitHubBrowser(true)}>
-                    <Globe className="h-4 w-4 mr-2" />
-                    {t('agents.import.fromGitHub')}
+                  <DropdownMenuItem onClick={() => setShowRegistryBrowser(true)}>
+                    <Library className="h-4 w-4 mr-2" />
+                    {t('agents.import.fromRegistry')}
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -400,6 +588,7 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
                                   {renderIcon(agent.icon)}
                                 </div>
                                 <h3 className="text-lg font-semibold mb-2">{agent.name}</h3>
+                                {renderSubagentBadge(agent)}
                                 <p className="text-xs text-muted-foreground">
                                   {t('agents.card.created', {
                                     date: new Date(agent.created_at).toLocaleDateString()
@@ -489,13 +678,15 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
                     <History className="h-5 w-5 text-muted-foreground" />
                     <h2 className="text-lg font-semibold">{t('agents.execution.title')}</h2>
                   </div>
-                  {runsLoading ? (
-                    <div className="flex items-center justify-center h-32">
-                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                    </div>
-                  ) : (
-                    <AgentRunsList runs={runs} />
-                  )}
+                  <AgentRunsList
+                    runs={runs}
+                    total={runsTotal}
+                    query={runQuery}
+                    onQueryChange={setRunQuery}
+                    agents={agents}
+                    loading={runsLoading}
+                    onRunsChanged={handleRunsChanged}
+                  />
                 </div>
               )}
             </motion.div>
@@ -510,17 +701,45 @@ export const CCAgents: React.FC<CCAgentsProps> = ({ onBack, className }) => {
         )}
       </ToastContainer>
 
-      {/* GitHub Agent Browser */}
-      <GitHubAgentBrowser
-        isOpen={showGitHubBrowser}
-        onClose={() => setShowGitHubBrowser(false)}
-        onImportSuccess={async () => {
-          setShowGitHubBrowser(false)
+      {/* Agent Registry Browser */}
+      <AgentRegistryBrowser
+        isOpen={showRegistryBrowser}
+        onClose={() => setShowRegistryBrowser(false)}
+        onInstalled={async (agent, updated) => {
           await loadAgents()
-          setToast({ message: t('agents.toast.importedFromGitHub'), type: 'success' })
+          if (agent.missing_mcp_servers.length > 0) {
+            setToast({
+              message: t('agents.toast.importedMissingMcp', {
+                servers: agent.missing_mcp_servers.join(', ')
+              }),
+              type: 'info'
+            })
+          } else {
+            setToast({
+              message: t(updated ? 'agents.toast.updatedFromRegistry' : 'agents.toast.installed', {
+                name: agent.name
+              }),
+              type: 'success'
+            })
+          }
         }}
       />
 
+      <RunComparisonLauncher
+        agents={agents}
+        isOpen={showComparisonLauncher}
+        onClose={() => setShowComparisonLauncher(false)}
+        onStarted={(id) => {
+          setShowComparisonLauncher(false)
+          setComparisonId(id)
+          loadRuns(false)
+        }}
+      />
+
+      {comparisonId !== null && (
+        <RunComparisonView comparisonId={comparisonId} onClose={() => setComparisonId(null)} />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent className="sm:max-w-md">
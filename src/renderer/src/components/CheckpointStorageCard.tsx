@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react'
+import { HardDrive, RefreshCw, Trash2, Loader2, AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { api, type CheckpointStorageUsage } from '@/lib/api'
+import { formatProjectPath } from '@/lib/utils'
+import { useTranslation } from 'react-i18next'
+
+interface CheckpointStorageCardProps {
+  /**
+   * Called with a message after a garbage collection pass or a failed action
+   */
+  onNotify?: (message: string, type: 'success' | 'error') => void
+}
+
+// Format byte counts to human readable
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1)
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`
+}
+
+/**
+ * CheckpointStorageCard component - Shows checkpoint disk usage per project
+ */
+export const CheckpointStorageCard: React.FC<CheckpointStorageCardProps> = ({ onNotify }) => {
+  const { t } = useTranslation('settings')
+  const [usage, setUsage] = useState<CheckpointStorageUsage | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [collecting, setCollecting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadUsage()
+  }, [])
+
+  const loadUsage = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setUsage(await api.getCheckpointStorageUsage())
+    } catch (err) {
+      console.error('Failed to load checkpoint storage usage:', err)
+      setError(t('storage.checkpoints.errors.load'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCollectGarbage = async () => {
+    try {
+      setCollecting(true)
+      const result = await api.collectCheckpointGarbage()
+      onNotify?.(
+        t('storage.checkpoints.messages.gc_done', {
+          count: result.removedBlobs,
+          size: formatBytes(result.freedBytes)
+        }),
+        'success'
+      )
+      await loadUsage()
+    } catch (err) {
+      console.error('Failed to collect checkpoint garbage:', err)
+      onNotify?.(t('storage.checkpoints.errors.gc'), 'error')
+    } finally {
+      setCollecting(false)
+    }
+  }
+
+  const handleCompressionChange = async (enabled: boolean) => {
+    try {
+      await api.setCheckpointCompression(enabled)
+      setUsage((prev) => (prev ? { ...prev, compressionEnabled: enabled } : prev))
+    } catch (err) {
+      console.error('Failed to update checkpoint compression:', err)
+      onNotify?.(t('storage.checkpoints.errors.compression'), 'error')
+    }
+  }
+
+  const totalBytes = usage
+    ? usage.storedBytes + usage.projects.reduce((sum, p) => sum + p.metadataBytes, 0)
+    : 0
+  const savedBytes = usage ? Math.max(usage.logicalBytes - usage.storedBytes, 0) : 0
+
+  return (
+    <Card className="p-4">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <HardDrive className="h-4 w-4 text-primary" />
+            <div>
+              <h3 className="text-sm font-semibold">{t('storage.checkpoints.title')}</h3>
+              {usage && (
+                <p className="text-xs text-muted-foreground font-mono">{usage.storagePath}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={loadUsage}
+              disabled={loading}
+              className="gap-2 h-8 text-xs"
+            >
+              <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} />
+              {t('storage.checkpoints.buttons.refresh')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCollectGarbage}
+              disabled={collecting}
+              className="gap-2 h-8 text-xs"
+            >
+              {collecting ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <Trash2 className="h-3 w-3" />
+              )}
+              {t('storage.checkpoints.buttons.collect_garbage')}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertTriangle className="h-3 w-3" />
+            {error}
+          </div>
+        )}
+
+        {usage && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-md border p-3">
+                <div className="text-[10px] text-muted-foreground">
+                  {t('storage.checkpoints.stats.total')}
+                </div>
+                <div className="text-sm font-semibold">{formatBytes(totalBytes)}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-[10px] text-muted-foreground">
+                  {t('storage.checkpoints.stats.blobs')}
+                </div>
+                <div className="text-sm font-semibold">{usage.totalBlobs}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-[10px] text-muted-foreground">
+                  {t('storage.checkpoints.stats.saved')}
+                </div>
+                <div className="text-sm font-semibold">{formatBytes(savedBytes)}</div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="checkpoint-compression" className="text-xs">
+                  {t('storage.checkpoints.compression.label')}
+                </Label>
+                <p className="text-[10px] text-muted-foreground">
+                  {t('storage.checkpoints.compression.description')}
+                </p>
+              </div>
+              <Switch
+                id="checkpoint-compression"
+                checked={usage.compressionEnabled}
+                onCheckedChange={handleCompressionChange}
+              />
+            </div>
+
+            {usage.projects.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t('storage.checkpoints.empty')}</p>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">
+                      {t('storage.checkpoints.table.project')}
+                    </th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">
+                      {t('storage.checkpoints.table.sessions')}
+                    </th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">
+                      {t('storage.checkpoints.table.checkpoints')}
+                    </th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-muted-foreground">
+                      {t('storage.checkpoints.table.size')}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.projects.map((project) => (
+                    <tr key={project.projectId} className="border-b">
+                      <td className="px-3 py-2 text-xs font-mono truncate max-w-[300px]">
+                        {project.projectPath
+                          ? formatProjectPath(project.projectPath)
+                          : project.projectId}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-right">{project.sessions}</td>
+                      <td className="px-3 py-2 text-xs text-right">{project.checkpoints}</td>
+                      <td className="px-3 py-2 text-xs text-right">
+                        {formatBytes(project.blobBytes + project.metadataBytes)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -18,11 +18,13 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
-import { api, type Session } from '@/lib/api'
+import { api, type PermissionMode, type Session, type StreamEvent } from '@/lib/api'
 import { cn } from '@/lib/utils'
 import { open } from '@/lib/api'
 import { listen, type UnlistenFn } from '@/lib/api'
 import { StreamMessage } from './StreamMessage'
+import { PermissionRequestCard } from './PermissionRequestCard'
+import { usePermissionRequests } from '@/lib/permissionRequests'
 import { FloatingPromptInput, type FloatingPromptInputRef } from './FloatingPromptInput'
 import { ErrorBoundary } from './ErrorBoundary'
 import { TimelineNavigator } from './TimelineNavigator'
@@ -108,7 +110,12 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
 
   // Queued prompts state
   const [queuedPrompts, setQueuedPrompts] = useState<
-    Array<{ id: string; prompt: string; model: 'sonnet' | 'opus' }>
+    Array<{
+      id: string
+      prompt: string
+      model: 'sonnet' | 'opus'
+      permissionMode: PermissionMode
+    }>
   >([])
 
   // New state for preview feature
@@ -125,11 +132,25 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
   const unlistenRefs = useRef<UnlistenFn[]>([])
   const hasActiveSessionRef = useRef(false)
   const floatingPromptRef = useRef<FloatingPromptInputRef>(null)
-  const queuedPromptsRef = useRef<Array<{ id: string; prompt: string; model: 'sonnet' | 'opus' }>>(
-    []
-  )
+  const queuedPromptsRef = useRef<
+    Array<{
+      id: string
+      prompt: string
+      model: 'sonnet' | 'opus'
+      permissionMode: PermissionMode
+    }>
+  >([])
   const isMountedRef = useRef(true)
   const isListeningRef = useRef(false)
+  // Live interactive process that accepts follow-up prompts over stdin
+  const liveRunIdRef = useRef<number | null>(null)
+  const liveModelRef = useRef<string | null>(null)
+  const livePermissionModeRef = useRef<PermissionMode | null>(null)
+  const lastPromptRef = useRef('')
+
+  // Tool uses of the current run waiting for approval
+  const { requests: permissionRequests, respond: respondToPermission } =
+    usePermissionRequests(currentRunId)
 
   // Keep ref in sync with state
   useEffect(() => {
@@ -152,7 +173,33 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
 
   // Filter out messages that shouldn't be displayed
   const displayableMessages = useMemo(() => {
-    return messages.filter((message, index) => {
+    const toolsWithWidgets = [
+      'task',
+      'edit',
+      'multiedit',
+      'todowrite',
+      'ls',
+      'read',
+      'glob',
+      'bash',
+      'write',
+      'grep',
+      'exitplanmode'
+    ]
+
+    // Index tool uses once so long transcripts don't scan backwards for every tool result
+    const toolNamesById = new Map<string, string>()
+    for (const message of messages) {
+      if (message.type === 'assistant' && Array.isArray(message.message?.content)) {
+        for (const content of message.message.content) {
+          if (content.type === 'tool_use' && content.id) {
+            toolNamesById.set(content.id, content.name || '')
+          }
+        }
+      }
+    }
+
+    return messages.filter((message) => {
       // Skip meta messages that don't have meaningful content
       if (message.isMeta && !message.leafUuid && !message.summary) {
         return false
@@ -175,44 +222,12 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
               break
             }
             if (content.type === 'tool_result') {
-              let willBeSkipped = false
-              if (content.tool_use_id) {
-                // Look for the matching tool_use in previous assistant messages
-                for (let i = index - 1; i >= 0; i--) {
-                  const prevMsg = messages[i]
-                  if (
-                    prevMsg.type === 'assistant' &&
-                    prevMsg.message?.content &&
-                    Array.isArray(prevMsg.message.content)
-                  ) {
-                    const toolUse = prevMsg.message.content.find(
-                      (c: any) => c.type === 'tool_use' && c.id === content.tool_use_id
-                    )
-                    if (toolUse) {
-                      const toolName = toolUse.name?.toLowerCase()
-                      const toolsWithWidgets = [
-                        'task',
-                        'edit',
-                        'multiedit',
-                        'todowrite',
-                        'ls',
-                        'read',
-                        'glob',
-                        'bash',
-                        'write',
-                        'grep'
-                      ]
-                      if (
-                        toolsWithWidgets.includes(toolName) ||
-                        toolUse.name?.startsWith('mcp__')
-                      ) {
-                        willBeSkipped = true
-                      }
-                      break
-                    }
-                  }
-                }
-              }
+              const toolName = content.tool_use_id
+                ? toolNamesById.get(content.tool_use_id)
+                : undefined
+              const willBeSkipped =
+                toolName !== undefined &&
+                (toolsWithWidgets.includes(toolName.toLowerCase()) || toolName.startsWith('mcp__'))
               if (!willBeSkipped) {
                 hasVisibleContent = true
                 break
@@ -228,6 +243,21 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
     })
   }, [messages])
 
+  // Permission requests are shown next to their tool use, or at the end if it isn't streamed yet
+  const unmatchedPermissionRequests = useMemo(() => {
+    const toolUseIds = new Set<string>()
+    for (const message of messages) {
+      if (message.type === 'assistant' && Array.isArray(message.message?.content)) {
+        for (const content of message.message.content) {
+          if (content.type === 'tool_use' && content.id) toolUseIds.add(content.id)
+        }
+      }
+    }
+    return permissionRequests.filter(
+      (request) => !request.toolUseId || !toolUseIds.has(request.toolUseId)
+    )
+  }, [messages, permissionRequests])
+
   const rowVirtualizer = useVirtualizer({
     count: displayableMessages.length,
     getScrollElement: () => parentRef.current,
@@ -410,21 +440,19 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
     isListeningRef.current = true
 
     // Set up session-specific listeners - 使用通用的 claude-* 事件
-    const outputUnlisten = await listen<string>('claude-output', async (event) => {
-      try {
-        console.log('[ClaudeCodeSession] Received claude-output on reconnect:', event.payload)
-
-        if (!isMountedRef.current) return
-
-        // Store raw JSONL
-        setRawJsonlOutput((prev) => [...prev, event.payload])
-
-        // Parse and display
-        const message = JSON.parse(event.payload) as ClaudeStreamMessage
-        setMessages((prev) => [...prev, message])
-      } catch (err) {
-        console.error('Failed to parse message:', err, event.payload)
-      }
+    const outputUnlisten = await listen<StreamEvent[]>('claude-events', async (event) => {
+      console.log('[ClaudeCodeSession] Received claude-events on reconnect:', event.payload.length)
+
+      if (!isMountedRef.current) return
+      const messageEvents = event.payload.filter((streamEvent) => 'message' in streamEvent)
+      if (messageEvents.length === 0) return
+
+      // Store raw JSONL
+      setRawJsonlOutput((prev) => [...prev, ...messageEvents.map((e) => e.line)])
+      setMessages((prev) => [
+        ...prev,
+        ...messageEvents.map((e) => e.message as ClaudeStreamMessage)
+      ])
     })
 
     const errorUnlisten = await listen<string>('claude-error', (event) => {
@@ -470,10 +498,34 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
     }
   }
 
-  const handleSendPrompt = async (prompt: string, model: 'sonnet' | 'opus') => {
+  // End the live interactive process; the next prompt resumes the session in a new one
+  const stopLiveProcess = async () => {
+    const runId = liveRunIdRef.current
+    if (runId === null) return
+
+    liveRunIdRef.current = null
+    liveModelRef.current = null
+    livePermissionModeRef.current = null
+    unlistenRefs.current.forEach((unlisten) => unlisten())
+    unlistenRefs.current = []
+    isListeningRef.current = false
+
+    try {
+      await api.cancelClaudeExecution(runId)
+    } catch (err) {
+      console.error('Failed to stop live Claude process:', err)
+    }
+  }
+
+  const handleSendPrompt = async (
+    prompt: string,
+    model: 'sonnet' | 'opus',
+    permissionMode: PermissionMode
+  ) => {
     console.log('[ClaudeCodeSession] handleSendPrompt called with:', {
       prompt,
       model,
+      permissionMode,
       projectPath,
       claudeSessionId,
       effectiveSession
@@ -485,20 +537,49 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
     }
 
     // If already loading, queue the prompt
-    if (isLoading) {
+    if (isLoading && hasActiveSessionRef.current) {
       const newPrompt = {
         id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         prompt,
-        model
+        model,
+        permissionMode
       }
       setQueuedPrompts((prev) => [...prev, newPrompt])
       return
     }
 
+    // A live process for another model or permission mode can't take this prompt, so end it
+    // and resume instead
+    if (
+      liveRunIdRef.current !== null &&
+      (liveModelRef.current !== model || livePermissionModeRef.current !== permissionMode)
+    ) {
+      await stopLiveProcess()
+    }
+
     try {
       setIsLoading(true)
       setError(null)
       hasActiveSessionRef.current = true
+      lastPromptRef.current = prompt
+
+      // Send follow-up prompts straight to the live process instead of respawning
+      if (liveRunIdRef.current !== null && isListeningRef.current) {
+        const result = await api.sendSessionInput(liveRunIdRef.current, prompt)
+        if (result.success) {
+          setMessages((prev) => [
+            ...prev,
+            { type: 'user', message: { content: [{ type: 'text', text: prompt }] } }
+          ])
+          return
+        }
+
+        console.log('[ClaudeCodeSession] Live process is gone, starting a new one:', result.message)
+        liveRunIdRef.current = null
+        unlistenRefs.current.forEach((unlisten) => unlisten())
+        unlistenRefs.current = []
+        isListeningRef.current = false
+      }
 
       // For resuming sessions, ensure we have the session ID
       if (effectiveSession && !claudeSessionId) {
@@ -534,14 +615,25 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
         // Note: 由于 ProcessManager 发送的是通用 claude-* 事件，我们直接使用通用监听器
 
         // Generic listeners (catch-all) - 监听 ProcessManager 发送的通用 claude-* 事件
-        const genericOutputUnlisten = await listen<string>('claude-output', async (event) => {
-          console.log('[ClaudeCodeSession] Received claude-output event:', event.payload)
-          handleStreamMessage(event.payload)
-
-          // Attempt to extract session_id on the fly (for the very first init)
-          try {
-            const msg = JSON.parse(event.payload) as ClaudeStreamMessage
-            if (msg.type === 'system' && msg.subtype === 'init' && msg.session_id) {
+        const genericOutputUnlisten = await listen<StreamEvent[]>(
+          'claude-events',
+          async (event) => {
+            console.log('[ClaudeCodeSession] Received claude-events:', event.payload.length)
+            for (const streamEvent of event.payload) {
+              if ('message' in streamEvent) {
+                handleStreamMessage(streamEvent.line, streamEvent.message as ClaudeStreamMessage)
+              }
+            }
+
+            // Extract the session_id on the fly (for the very first init)
+            const initEvent = event.payload.find(
+              (streamEvent) => streamEvent.type === 'system_init'
+            )
+            const msg =
+              initEvent && 'message' in initEvent
+                ? (initEvent.message as ClaudeStreamMessage)
+                : null
+            if (msg?.session_id) {
               if (!currentSessionId || currentSessionId !== msg.session_id) {
                 console.log(
                   '[ClaudeCodeSession] Detected new session_id from generic listener:',
@@ -572,24 +664,25 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
                 }
               }
             }
-          } catch {
-            /* ignore parse errors */
           }
-        })
-
-        // Helper to process any JSONL stream message string
-        function handleStreamMessage(payload: string) {
-          try {
-            // Don't process if component unmounted
-            if (!isMountedRef.current) return
-
-            // Store raw JSONL
-            setRawJsonlOutput((prev) => [...prev, payload])
-
-            const message = JSON.parse(payload) as ClaudeStreamMessage
-            setMessages((prev) => [...prev, message])
-          } catch (err) {
-            console.error('Failed to parse message:', err, payload)
+        )
+
+        // Helper to process a parsed stream message
+        function handleStreamMessage(line: string, message: ClaudeStreamMessage) {
+          // Don't process if component unmounted
+          if (!isMountedRef.current) return
+
+          // Store raw JSONL
+          setRawJsonlOutput((prev) => [...prev, line])
+          setMessages((prev) => [...prev, message])
+
+          // A live process stays up after each turn and only reports a result
+          if (
+            message.type === 'result' &&
+            liveRunIdRef.current !== null &&
+            hasActiveSessionRef.current
+          ) {
+            processComplete(!message.is_error)
           }
         }
 
@@ -597,7 +690,10 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
         const processComplete = async (success: boolean) => {
           setIsLoading(false)
           hasActiveSessionRef.current = false
-          isListeningRef.current = false // Reset listening state
+          // Listeners stay attached while a live process can take the next prompt
+          if (liveRunIdRef.current === null) {
+            isListeningRef.current = false // Reset listening state
+          }
 
           if (effectiveSession && success) {
             try {
@@ -612,7 +708,7 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
                   effectiveSession.id,
                   effectiveSession.project_id,
                   projectPath,
-                  prompt
+                  lastPromptRef.current
                 )
                 // Reload timeline to show new checkpoint
                 setTimelineVersion((v) => v + 1)
@@ -629,7 +725,7 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
 
             // Small delay to ensure UI updates
             setTimeout(() => {
-              handleSendPrompt(nextPrompt.prompt, nextPrompt.model)
+              handleSendPrompt(nextPrompt.prompt, nextPrompt.model, nextPrompt.permissionMode)
             }, 100)
           }
         }
@@ -642,6 +738,14 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
 
         const genericCompleteUnlisten = await listen<boolean>('claude-complete', (evt) => {
           console.log('[ClaudeCodeSession] Received claude-complete (generic):', evt.payload)
+          const wasLive = liveRunIdRef.current !== null
+          liveRunIdRef.current = null
+
+          // The last turn of a live process was already completed by its result message
+          if (wasLive && !hasActiveSessionRef.current) {
+            isListeningRef.current = false
+            return
+          }
           processComplete(evt.payload)
         })
 
@@ -673,17 +777,36 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
         // Execute the appropriate command
         if (effectiveSession && !isFirstPrompt) {
           console.log('[ClaudeCodeSession] Resuming session:', effectiveSession.id)
-          const result = await api.resumeClaudeCode(projectPath, effectiveSession.id, prompt, model)
+          const result = await api.resumeClaudeCode(
+            projectPath,
+            effectiveSession.id,
+            prompt,
+            model,
+            true,
+            permissionMode
+          )
           if (result.success && result.runId) {
             setCurrentRunId(result.runId)
+            liveRunIdRef.current = result.runId
+            liveModelRef.current = model
+            livePermissionModeRef.current = permissionMode
             console.log('[ClaudeCodeSession] Resume session started with runId:', result.runId)
           }
         } else {
           console.log('[ClaudeCodeSession] Starting new session')
           setIsFirstPrompt(false)
-          const result = await api.executeClaudeCode(projectPath, prompt, model)
+          const result = await api.executeClaudeCode(
+            projectPath,
+            prompt,
+            model,
+            true,
+            permissionMode
+          )
           if (result.success && result.runId) {
             setCurrentRunId(result.runId)
+            liveRunIdRef.current = result.runId
+            liveModelRef.current = model
+            livePermissionModeRef.current = permissionMode
             console.log('[ClaudeCodeSession] New session started with runId:', result.runId)
           }
         }
@@ -696,6 +819,18 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
     }
   }
 
+  // Approving a plan ends the read-only plan mode process and resumes the session with edits
+  // allowed, so Claude can carry the plan out
+  const handleApprovePlan = async () => {
+    const model = (liveModelRef.current ?? 'sonnet') as 'sonnet' | 'opus'
+    await stopLiveProcess()
+    setIsLoading(false)
+    hasActiveSessionRef.current = false
+
+    floatingPromptRef.current?.setPermissionMode('acceptEdits')
+    await handleSendPrompt('The plan is approved. Go ahead and implement it.', model, 'acceptEdits')
+  }
+
   const handleCopyAsJsonl = async () => {
     const jsonl = rawJsonlOutput.join('\n')
     await navigator.clipboard.writeText(jsonl)
@@ -777,6 +912,8 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
   }
 
   const handleCheckpointSelect = async () => {
+    // The live process still holds the pre-restore conversation in memory
+    await stopLiveProcess()
     // Reload messages from the checkpoint
     await loadSessionHistory()
     // Ensure timeline reloads to highlight current checkpoint
@@ -786,12 +923,40 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
   const handleCancelExecution = async () => {
     if (!claudeSessionId || !isLoading) return
 
-    try {
-      await api.cancelClaudeExecution(claudeSessionId)
+    // Interrupt the current turn of a live process but keep it for the next prompt
+    if (liveRunIdRef.current !== null) {
+      try {
+        const result = await api.interruptClaudeSession(liveRunIdRef.current)
+        if (result.success) {
+          setIsLoading(false)
+          hasActiveSessionRef.current = false
+          setError(null)
+          setQueuedPrompts([])
+          setMessages((prev) => [
+            ...prev,
+            {
+              type: 'system',
+              subtype: 'info',
+              result: 'Session interrupted by user',
+              timestamp: new Date().toISOString()
+            }
+          ])
+          return
+        }
+      } catch (err) {
+        console.error('Failed to interrupt session:', err)
+      }
+    }
 
-      // Clean up listeners
+    try {
+      // Clean up listeners first so the kill isn't handled as a normal completion
       unlistenRefs.current.forEach((unlisten) => unlisten())
       unlistenRefs.current = []
+      liveRunIdRef.current = null
+
+      if (currentRunId !== null) {
+        await api.cancelClaudeExecution(currentRunId)
+      }
 
       // Reset states
       setIsLoading(false)
@@ -835,6 +1000,23 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
     }
   }
 
+  // Open another session of this project (e.g. a fork) in place of this one
+  const handleOpenSession = (sessionId: string, firstMessage?: string) => {
+    if (!effectiveSession) return
+
+    const targetSession: Session = {
+      id: sessionId,
+      project_id: effectiveSession.project_id,
+      project_path: projectPath,
+      created_at: Math.floor(Date.now() / 1000),
+      first_message: firstMessage || undefined
+    }
+    const event = new CustomEvent('claude-session-selected', {
+      detail: { session: targetSession, projectPath }
+    })
+    window.dispatchEvent(event)
+  }
+
   const handleFork = (checkpointId: string) => {
     setForkCheckpointId(checkpointId)
     setForkSessionName(`Fork-${new Date().toISOString().slice(0, 10)}`)
@@ -848,23 +1030,20 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
       setIsLoading(true)
       setError(null)
 
-      const newSessionId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      await api.forkFromCheckpoint(
+      const result = await api.forkFromCheckpoint(
         forkCheckpointId,
         effectiveSession.id,
         effectiveSession.project_id,
         projectPath,
-        newSessionId,
         forkSessionName
       )
-
-      // Open the new forked session
-      // You would need to implement navigation to the new session
-      console.log('Forked to new session:', newSessionId)
+      console.log('Forked to new session:', result.checkpoint.sessionId)
 
       setShowForkDialog(false)
       setForkCheckpointId(null)
       setForkSessionName('')
+
+      handleOpenSession(result.checkpoint.sessionId, result.checkpoint.metadata.userPrompt)
     } catch (err) {
       console.error('Failed to fork checkpoint:', err)
       setError('Failed to fork checkpoint')
@@ -913,6 +1092,14 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
       unlistenRefs.current.forEach((unlisten) => unlisten())
       unlistenRefs.current = []
 
+      // Let a live process exit once its current turn is done
+      if (liveRunIdRef.current !== null) {
+        api.closeSessionInput(liveRunIdRef.current).catch((err) => {
+          console.error('Failed to close session input:', err)
+        })
+        liveRunIdRef.current = null
+      }
+
       // Clear checkpoint manager when session ends
       if (effectiveSession) {
         api.clearCheckpointManager(effectiveSession.id).catch((err) => {
@@ -960,6 +1147,9 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
                   message={message}
                   streamMessages={messages}
                   onLinkDetected={handleLinkDetected}
+                  permissionRequests={permissionRequests}
+                  onPermissionDecision={respondToPermission}
+                  onApprovePlan={handleApprovePlan}
                 />
               </motion.div>
             )
@@ -967,6 +1157,19 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
         </AnimatePresence>
       </div>
 
+      {/* Permission requests without a matching tool use in the stream */}
+      {unmatchedPermissionRequests.length > 0 && (
+        <div className="w-full max-w-5xl mx-auto px-8 space-y-2">
+          {unmatchedPermissionRequests.map((request) => (
+            <PermissionRequestCard
+              key={request.id}
+              request={request}
+              onDecision={respondToPermission}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Loading indicator under the latest message */}
       {isLoading && (
         <motion.div
@@ -1426,6 +1629,7 @@ export const ClaudeCodeSession: React.FC<ClaudeCodeSessionProps> = ({
                     currentMessageIndex={messages.length - 1}
                     onCheckpointSelect={handleCheckpointSelect}
                     onFork={handleFork}
+                    onOpenSession={handleOpenSession}
                     refreshVersion={timelineVersion}
                   />
                 </div>
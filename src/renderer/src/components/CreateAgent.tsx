@@ -1,16 +1,26 @@
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
 import { useTranslation } from 'react-i18next'
-import { ArrowLeft, Save, Loader2, ChevronDown } from 'lucide-react'
+import { ArrowLeft, Save, Loader2, ChevronDown, History } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { Toast, ToastContainer } from '@/components/ui/toast'
-import { api, type Agent } from '@/lib/api'
+import {
+  api,
+  type Agent,
+  type AgentBudget,
+  type AgentMcpSettings,
+  type AgentPermissions
+} from '@/lib/api'
 import { cn } from '@/lib/utils'
 import MDEditor from '@uiw/react-md-editor'
 import { type AgentIconName } from './CCAgents'
 import { IconPicker, ICON_MAP } from './IconPicker'
+import { AgentPermissionsEditor } from './AgentPermissionsEditor'
+import { AgentMcpServersEditor } from './AgentMcpServersEditor'
+import { AgentRevisionHistory } from './AgentRevisionHistory'
 
 interface CreateAgentProps {
   /**
@@ -31,6 +41,60 @@ interface CreateAgentProps {
   className?: string
 }
 
+type BudgetField = keyof AgentBudget
+
+const BUDGET_FIELDS: { field: BudgetField; step: string }[] = [
+  { field: 'max_cost_usd', step: '0.01' },
+  { field: 'max_tokens', step: '1000' },
+  { field: 'max_turns', step: '1' },
+  { field: 'max_duration_seconds', step: '60' }
+]
+
+// Budget inputs are kept as text, an empty input meaning no limit
+function toBudgetInputs(agent?: Agent): Record<BudgetField, string> {
+  return {
+    max_cost_usd: agent?.max_cost_usd?.toString() ?? '',
+    max_tokens: agent?.max_tokens?.toString() ?? '',
+    max_turns: agent?.max_turns?.toString() ?? '',
+    max_duration_seconds: agent?.max_duration_seconds?.toString() ?? ''
+  }
+}
+
+function toBudget(inputs: Record<BudgetField, string>): AgentBudget {
+  const parse = (value: string) => {
+    const number = parseFloat(value)
+    return Number.isFinite(number) && number > 0 ? number : null
+  }
+  const parseInteger = (value: string) => {
+    const number = parse(value)
+    return number === null ? null : Math.round(number)
+  }
+
+  return {
+    max_cost_usd: parse(inputs.max_cost_usd),
+    max_tokens: parseInteger(inputs.max_tokens),
+    max_turns: parseInteger(inputs.max_turns),
+    max_duration_seconds: parseInteger(inputs.max_duration_seconds)
+  }
+}
+
+// New agents can read and write files but not reach the network
+function toPermissions(agent?: Agent): AgentPermissions {
+  return {
+    enable_file_read: agent?.enable_file_read ?? true,
+    enable_file_write: agent?.enable_file_write ?? true,
+    enable_network: agent?.enable_network ?? false,
+    allowed_tools: agent?.allowed_tools ?? null
+  }
+}
+
+function toMcpSettings(agent?: Agent): AgentMcpSettings {
+  return {
+    mcp_servers: agent?.mcp_servers ?? null,
+    strict_mcp_config: agent?.strict_mcp_config ?? false
+  }
+}
+
 /**
  * CreateAgent component for creating or editing a CC agent
  *
@@ -50,14 +114,38 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
   )
   const [systemPrompt, setSystemPrompt] = useState(agent?.system_prompt || '')
   const [defaultTask, setDefaultTask] = useState(agent?.default_task || '')
+  const [description, setDescription] = useState(agent?.description || '')
   const [model, setModel] = useState(agent?.model || 'sonnet')
+  const [budgetInputs, setBudgetInputs] = useState(() => toBudgetInputs(agent))
+  const [useWorktree, setUseWorktree] = useState(agent?.use_worktree || false)
+  const [permissions, setPermissions] = useState(() => toPermissions(agent))
+  const [mcpSettings, setMcpSettings] = useState(() => toMcpSettings(agent))
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
   const [showIconPicker, setShowIconPicker] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  // The agent as last saved, which a rollback replaces
+  const [savedAgent, setSavedAgent] = useState(agent)
 
   const isEditMode = !!agent
 
+  // Show a rolled back agent in the form
+  const handleRolledBack = (restored: Agent) => {
+    setSavedAgent(restored)
+    setName(restored.name)
+    setSelectedIcon((restored.icon as AgentIconName) || 'bot')
+    setSystemPrompt(restored.system_prompt)
+    setDefaultTask(restored.default_task || '')
+    setDescription(restored.description || '')
+    setModel(restored.model || 'sonnet')
+    setBudgetInputs(toBudgetInputs(restored))
+    setUseWorktree(restored.use_worktree || false)
+    setPermissions(toPermissions(restored))
+    setMcpSettings(toMcpSettings(restored))
+    setShowHistory(false)
+  }
+
   const handleSave = async () => {
     if (!name.trim()) {
       setError(t('createAgent.errors.nameRequired'))
@@ -80,10 +168,28 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
           selectedIcon,
           systemPrompt,
           defaultTask || undefined,
-          model
+          model,
+          savedAgent?.hooks,
+          toBudget(budgetInputs),
+          useWorktree,
+          permissions,
+          mcpSettings,
+          description || undefined
         )
       } else {
-        await api.createAgent(name, selectedIcon, systemPrompt, defaultTask || undefined, model)
+        await api.createAgent(
+          name,
+          selectedIcon,
+          systemPrompt,
+          defaultTask || undefined,
+          model,
+          undefined,
+          toBudget(budgetInputs),
+          useWorktree,
+          permissions,
+          mcpSettings,
+          description || undefined
+        )
       }
 
       onAgentCreated()
@@ -104,11 +210,16 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
 
   const handleBack = () => {
     if (
-      (name !== (agent?.name || '') ||
-        selectedIcon !== (agent?.icon || 'bot') ||
-        systemPrompt !== (agent?.system_prompt || '') ||
-        defaultTask !== (agent?.default_task || '') ||
-        model !== (agent?.model || 'sonnet')) &&
+      (name !== (savedAgent?.name || '') ||
+        selectedIcon !== (savedAgent?.icon || 'bot') ||
+        systemPrompt !== (savedAgent?.system_prompt || '') ||
+        defaultTask !== (savedAgent?.default_task || '') ||
+        description !== (savedAgent?.description || '') ||
+        model !== (savedAgent?.model || 'sonnet') ||
+        useWorktree !== (savedAgent?.use_worktree || false) ||
+        JSON.stringify(budgetInputs) !== JSON.stringify(toBudgetInputs(savedAgent)) ||
+        JSON.stringify(permissions) !== JSON.stringify(toPermissions(savedAgent)) ||
+        JSON.stringify(mcpSettings) !== JSON.stringify(toMcpSettings(savedAgent))) &&
       !confirm(t('createAgent.confirmLeave'))
     ) {
       return
@@ -142,18 +253,26 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
             </div>
           </div>
 
-          <Button
-            onClick={handleSave}
-            disabled={saving || !name.trim() || !systemPrompt.trim()}
-            size="sm"
-          >
-            {saving ? (
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            ) : (
-              <Save className="mr-2 h-4 w-4" />
+          <div className="flex items-center gap-2">
+            {isEditMode && (
+              <Button variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                <History className="mr-2 h-4 w-4" />
+                {t('createAgent.buttons.history')}
+              </Button>
             )}
-            {saving ? t('createAgent.buttons.saving') : t('createAgent.buttons.save')}
-          </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !name.trim() || !systemPrompt.trim()}
+              size="sm"
+            >
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              {saving ? t('createAgent.buttons.saving') : t('createAgent.buttons.save')}
+            </Button>
+          </div>
         </motion.div>
 
         {/* Error display */}
@@ -290,6 +409,22 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
                 </div>
               </div>
 
+              {/* Description */}
+              <div className="space-y-2">
+                <Label htmlFor="agent-description">{t('createAgent.form.description')}</Label>
+                <Input
+                  id="agent-description"
+                  type="text"
+                  placeholder={t('createAgent.placeholders.description')}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="max-w-md"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {t('createAgent.descriptions.description')}
+                </p>
+              </div>
+
               {/* Default Task */}
               <div className="space-y-2">
                 <Label htmlFor="default-task">{t('createAgent.form.defaultTask')}</Label>
@@ -306,6 +441,63 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
                 </p>
               </div>
 
+              {/* Worktree */}
+              <div className="flex items-center justify-between max-w-md">
+                <div className="space-y-0.5">
+                  <Label htmlFor="use-worktree">{t('createAgent.form.useWorktree')}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t('createAgent.descriptions.useWorktree')}
+                  </p>
+                </div>
+                <Switch id="use-worktree" checked={useWorktree} onCheckedChange={setUseWorktree} />
+              </div>
+
+              {/* Permissions */}
+              <div className="space-y-2">
+                <Label>{t('createAgent.form.permissions')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('createAgent.descriptions.permissions')}
+                </p>
+                <AgentPermissionsEditor value={permissions} onChange={setPermissions} />
+              </div>
+
+              {/* MCP servers */}
+              <div className="space-y-2">
+                <Label>{t('createAgent.form.mcpServers')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('createAgent.descriptions.mcpServers')}
+                </p>
+                <AgentMcpServersEditor value={mcpSettings} onChange={setMcpSettings} />
+              </div>
+
+              {/* Budget */}
+              <div className="space-y-2">
+                <Label>{t('createAgent.form.budget')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('createAgent.descriptions.budget')}
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                  {BUDGET_FIELDS.map(({ field, step }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`budget-${field}`} className="text-xs">
+                        {t(`createAgent.budget.${field}`)}
+                      </Label>
+                      <Input
+                        id={`budget-${field}`}
+                        type="number"
+                        min="0"
+                        step={step}
+                        placeholder={t('createAgent.placeholders.unlimited')}
+                        value={budgetInputs[field]}
+                        onChange={(e) =>
+                          setBudgetInputs((inputs) => ({ ...inputs, [field]: e.target.value }))
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* System Prompt Editor */}
               <div className="space-y-2">
                 <Label>{t('createAgent.form.systemPrompt')}</Label>
@@ -348,6 +540,16 @@ export const CreateAgent: React.FC<CreateAgentProps> = ({
         )}
       </ToastContainer>
 
+      {/* Revision History Dialog */}
+      {savedAgent && (
+        <AgentRevisionHistory
+          agent={savedAgent}
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRolledBack={handleRolledBack}
+        />
+      )}
+
       {/* Icon Picker Dialog */}
       <IconPicker
         value={selectedIcon}
@@ -10,7 +10,11 @@ import {
   Zap,
   Square,
   Brain,
-  HelpCircle
+  HelpCircle,
+  Shield,
+  FilePen,
+  ClipboardList,
+  ShieldOff
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -20,14 +24,14 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { FilePicker } from './FilePicker'
 import { SlashCommandPicker } from './SlashCommandPicker'
 import { ImagePreview } from './ImagePreview'
-import { type FileEntry, type SlashCommand } from '@/lib/api'
+import { api, type FileEntry, type PermissionMode, type SlashCommand } from '@/lib/api'
 import { getCurrentWebviewWindow } from '@/lib/api'
 
 interface FloatingPromptInputProps {
   /**
    * Callback when prompt is sent
    */
-  onSend: (prompt: string, model: 'sonnet' | 'opus') => void
+  onSend: (prompt: string, model: 'sonnet' | 'opus', permissionMode: PermissionMode) => void
   /**
    * Whether the input is loading
    */
@@ -40,6 +44,10 @@ interface FloatingPromptInputProps {
    * Default model to select
    */
   defaultModel?: 'sonnet' | 'opus'
+  /**
+   * Default permission mode to select. Follows the tool approval setting when omitted.
+   */
+  defaultPermissionMode?: PermissionMode
   /**
    * Project path for file picker
    */
@@ -56,6 +64,7 @@ interface FloatingPromptInputProps {
 
 export interface FloatingPromptInputRef {
   addImage: (imagePath: string) => void
+  setPermissionMode: (mode: PermissionMode) => void
 }
 
 /**
@@ -131,6 +140,41 @@ const ThinkingModeIndicator: React.FC<{ level: number }> = ({ level }) => {
   )
 }
 
+type PermissionModeConfig = {
+  id: PermissionMode
+  name: string
+  description: string
+  icon: React.ReactNode
+}
+
+// Permission modes passed to Claude Code as --permission-mode
+const createPermissionModes = (t: (key: string) => string): PermissionModeConfig[] => [
+  {
+    id: 'default',
+    name: t('chat.permissionMode.default.name'),
+    description: t('chat.permissionMode.default.description'),
+    icon: <Shield className="h-4 w-4" />
+  },
+  {
+    id: 'acceptEdits',
+    name: t('chat.permissionMode.acceptEdits.name'),
+    description: t('chat.permissionMode.acceptEdits.description'),
+    icon: <FilePen className="h-4 w-4" />
+  },
+  {
+    id: 'plan',
+    name: t('chat.permissionMode.plan.name'),
+    description: t('chat.permissionMode.plan.description'),
+    icon: <ClipboardList className="h-4 w-4" />
+  },
+  {
+    id: 'bypassPermissions',
+    name: t('chat.permissionMode.bypassPermissions.name'),
+    description: t('chat.permissionMode.bypassPermissions.description'),
+    icon: <ShieldOff className="h-4 w-4" />
+  }
+]
+
 type Model = {
   id: 'sonnet' | 'opus'
   name: string
@@ -161,7 +205,7 @@ const createModels = (t: (key: string) => string): Model[] => [
  * const promptRef = useRef<FloatingPromptInputRef>(null);
  * <FloatingPromptInput
  *   ref={promptRef}
- *   onSend={(prompt, model) => console.log('Send:', prompt, model)}
+ *   onSend={(prompt, model, permissionMode) => console.log('Send:', prompt, model, permissionMode)}
  *   isLoading={false}
  * />
  */
@@ -171,6 +215,7 @@ const FloatingPromptInputInner = (
     isLoading = false,
     disabled = false,
     defaultModel = 'sonnet',
+    defaultPermissionMode,
     projectPath,
     className,
     onCancel
@@ -181,12 +226,17 @@ const FloatingPromptInputInner = (
   const [prompt, setPrompt] = useState('')
   const [selectedModel, setSelectedModel] = useState<'sonnet' | 'opus'>(defaultModel)
   const [selectedThinkingMode, setSelectedThinkingMode] = useState<ThinkingMode>('auto')
+  const [selectedPermissionMode, setSelectedPermissionMode] = useState<PermissionMode>(
+    defaultPermissionMode ?? 'bypassPermissions'
+  )
   const [isExpanded, setIsExpanded] = useState(false)
   const [modelPickerOpen, setModelPickerOpen] = useState(false)
   const [thinkingModePickerOpen, setThinkingModePickerOpen] = useState(false)
+  const [permissionModePickerOpen, setPermissionModePickerOpen] = useState(false)
   // Separate states for expanded mode
   const [expandedModelPickerOpen, setExpandedModelPickerOpen] = useState(false)
   const [expandedThinkingModePickerOpen, setExpandedThinkingModePickerOpen] = useState(false)
+  const [expandedPermissionModePickerOpen, setExpandedPermissionModePickerOpen] = useState(false)
   const [showFilePicker, setShowFilePicker] = useState(false)
   const [filePickerQuery, setFilePickerQuery] = useState('')
   const [showSlashCommandPicker, setShowSlashCommandPicker] = useState(false)
@@ -227,11 +277,32 @@ const FloatingPromptInputInner = (
 
           return newPrompt
         })
+      },
+      setPermissionMode: (mode: PermissionMode) => {
+        setSelectedPermissionMode(mode)
       }
     }),
     [isExpanded]
   )
 
+  // Without an explicit default, start in the mode matching the tool approval setting
+  useEffect(() => {
+    if (defaultPermissionMode) return
+
+    let cancelled = false
+    api
+      .getToolApprovalMode()
+      .then((mode) => {
+        if (!cancelled)
+          setSelectedPermissionMode(mode === 'prompt' ? 'default' : 'bypassPermissions')
+      })
+      .catch(() => {})
+
+    return () => {
+      cancelled = true
+    }
+  }, [defaultPermissionMode])
+
   // Helper function to check if a file is an image
   const isImageFile = (path: string): boolean => {
     // Check if it's a data URL
@@ -424,7 +495,7 @@ const FloatingPromptInputInner = (
         finalPrompt = `${finalPrompt}.\n\n${thinkingMode.phrase}.`
       }
 
-      onSend(finalPrompt, selectedModel)
+      onSend(finalPrompt, selectedModel, selectedPermissionMode)
       setPrompt('')
       setEmbeddedImages([])
     }
@@ -819,6 +890,9 @@ const FloatingPromptInputInner = (
   const MODELS = createModels(t)
   const THINKING_MODES = createThinkingModes(t)
   const selectedModelData = MODELS.find((m) => m.id === selectedModel) || MODELS[0]
+  const PERMISSION_MODES = createPermissionModes(t)
+  const selectedPermissionModeData =
+    PERMISSION_MODES.find((m) => m.id === selectedPermissionMode) || PERMISSION_MODES[0]
 
   return (
     <>
@@ -973,6 +1047,47 @@ const FloatingPromptInputInner = (
                       </PopoverContent>
                     </Popover>
                   </div>
+
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {t('chat.permissionMode.label')}:
+                    </span>
+                    <Popover
+                      open={permissionModePickerOpen}
+                      onOpenChange={setPermissionModePickerOpen}
+                    >
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" className="gap-2">
+                          {selectedPermissionModeData.icon}
+                          {selectedPermissionModeData.name}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-[300px] p-1" align="start" side="top">
+                        {PERMISSION_MODES.map((mode) => (
+                          <button
+                            key={mode.id}
+                            onClick={() => {
+                              setSelectedPermissionMode(mode.id)
+                              setPermissionModePickerOpen(false)
+                            }}
+                            className={cn(
+                              'w-full flex items-start gap-3 p-3 rounded-md transition-colors text-left',
+                              'hover:bg-accent',
+                              selectedPermissionMode === mode.id && 'bg-accent'
+                            )}
+                          >
+                            <div className="mt-0.5">{mode.icon}</div>
+                            <div className="flex-1 space-y-1">
+                              <div className="font-medium text-sm">{mode.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {mode.description}
+                              </div>
+                            </div>
+                          </button>
+                        ))}
+                      </PopoverContent>
+                    </Popover>
+                  </div>
                 </div>
 
                 <Button
@@ -1115,6 +1230,57 @@ const FloatingPromptInputInner = (
                 </PopoverContent>
               </Popover>
 
+              {/* Permission Mode Picker */}
+              <Popover
+                open={expandedPermissionModePickerOpen}
+                onOpenChange={setExpandedPermissionModePickerOpen}
+              >
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <PopoverTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="default"
+                          disabled={disabled}
+                          className="gap-2"
+                        >
+                          {selectedPermissionModeData.icon}
+                        </Button>
+                      </PopoverTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="font-medium">{selectedPermissionModeData.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {selectedPermissionModeData.description}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <PopoverContent className="w-[300px] p-1 z-[9999]" align="start" side="top">
+                  {PERMISSION_MODES.map((mode) => (
+                    <button
+                      key={mode.id}
+                      onClick={() => {
+                        setSelectedPermissionMode(mode.id)
+                        setExpandedPermissionModePickerOpen(false)
+                      }}
+                      className={cn(
+                        'w-full flex items-start gap-3 p-3 rounded-md transition-colors text-left',
+                        'hover:bg-accent',
+                        selectedPermissionMode === mode.id && 'bg-accent'
+                      )}
+                    >
+                      <div className="mt-0.5">{mode.icon}</div>
+                      <div className="flex-1 space-y-1">
+                        <div className="font-medium text-sm">{mode.name}</div>
+                        <div className="text-xs text-muted-foreground">{mode.description}</div>
+                      </div>
+                    </button>
+                  ))}
+                </PopoverContent>
+              </Popover>
+
               {/* Prompt Input */}
               <div className="flex-1 relative">
                 <Textarea
@@ -0,0 +1,97 @@
+import React, { useState } from 'react'
+import { ShieldQuestion, Check, CheckCheck, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import type { PermissionDecision, PermissionRequest } from '@/lib/api'
+
+interface PermissionRequestCardProps {
+  request: PermissionRequest
+  onDecision: (requestId: string, decision: PermissionDecision) => Promise<void> | void
+}
+
+// Short description of what the tool is about to do
+const describeInput = (request: PermissionRequest): string => {
+  const { input } = request
+  if (typeof input.command === 'string') return input.command
+  if (typeof input.file_path === 'string') return input.file_path
+  if (typeof input.notebook_path === 'string') return input.notebook_path
+  if (typeof input.url === 'string') return input.url
+  if (typeof input.pattern === 'string') return input.pattern
+  return JSON.stringify(input, null, 2)
+}
+
+/**
+ * PermissionRequestCard component - Lets the user approve or deny a pending tool use
+ */
+export const PermissionRequestCard: React.FC<PermissionRequestCardProps> = ({
+  request,
+  onDecision
+}) => {
+  const { t } = useTranslation('session')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDecision = async (decision: PermissionDecision) => {
+    try {
+      setSubmitting(true)
+      setError(null)
+      await onDecision(request.id, decision)
+    } catch (err) {
+      console.error('Failed to answer permission request:', err)
+      setError(
+        decision === 'always_allow'
+          ? t('permissionRequest.alwaysAllowFailed')
+          : t('permissionRequest.respondFailed')
+      )
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-amber-500/40 bg-amber-500/5 overflow-hidden">
+      <div className="px-4 py-2 flex items-center gap-2 border-b border-amber-500/20">
+        <ShieldQuestion className="h-3.5 w-3.5 text-amber-500" />
+        <span className="text-xs font-medium">
+          {t('permissionRequest.title', { tool: request.toolName })}
+        </span>
+      </div>
+      <div className="p-3 space-y-3">
+        <pre className="text-xs font-mono whitespace-pre-wrap break-all max-h-40 overflow-y-auto text-muted-foreground">
+          {describeInput(request)}
+        </pre>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={() => handleDecision('allow')}
+            disabled={submitting}
+            className="gap-1 h-7 text-xs"
+          >
+            <Check className="h-3 w-3" />
+            {t('permissionRequest.allow')}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleDecision('always_allow')}
+            disabled={submitting}
+            className="gap-1 h-7 text-xs"
+          >
+            <CheckCheck className="h-3 w-3" />
+            {t('permissionRequest.alwaysAllow')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDecision('deny')}
+            disabled={submitting}
+            className="gap-1 h-7 text-xs text-destructive hover:text-destructive"
+          >
+            <X className="h-3 w-3" />
+            {t('permissionRequest.deny')}
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Columns3, FolderOpen, Loader2, Plus, X } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { api, open, type Agent } from '@/lib/api'
+
+interface RunComparisonLauncherProps {
+  /**
+   * Agents that can be variants
+   */
+  agents: Agent[]
+  isOpen: boolean
+  onClose: () => void
+  /**
+   * Callback with the ID of the comparison that was started
+   */
+  onStarted: (comparisonId: number) => void
+}
+
+// Select value for running a variant with its agent's own model
+const AGENT_MODEL = 'agent'
+
+interface VariantDraft {
+  agentId: string
+  model: string
+}
+
+/**
+ * Dialog for running one task with several agent or model variants side by side
+ */
+export const RunComparisonLauncher: React.FC<RunComparisonLauncherProps> = ({
+  agents,
+  isOpen,
+  onClose,
+  onStarted
+}) => {
+  const { t } = useTranslation('ui')
+  const firstAgentId = agents[0]?.id?.toString() || ''
+  const [projectPath, setProjectPath] = useState('')
+  const [task, setTask] = useState('')
+  const [variants, setVariants] = useState<VariantDraft[]>([
+    { agentId: firstAgentId, model: 'sonnet' },
+    { agentId: firstAgentId, model: 'opus' }
+  ])
+  const [starting, setStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Null while unknown, like before a path is entered
+  const [isRepository, setIsRepository] = useState<boolean | null>(null)
+
+  // Agents may have loaded after the dialog was first rendered
+  useEffect(() => {
+    if (isOpen && firstAgentId) {
+      setVariants((current) =>
+        current.map((variant) =>
+          variant.agentId ? variant : { ...variant, agentId: firstAgentId }
+        )
+      )
+    }
+  }, [isOpen, firstAgentId])
+
+  // Variants are isolated with git worktrees, so only git projects can be compared
+  useEffect(() => {
+    const path = projectPath.trim()
+    setIsRepository(null)
+    if (!path) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      api
+        .isGitRepository(path)
+        .then((result) => {
+          if (!cancelled) setIsRepository(result)
+        })
+        .catch(() => {})
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [projectPath])
+
+  const handleSelectPath = async () => {
+    try {
+      const selected = await open({
+        properties: ['openDirectory'],
+        title: 'Select Project Directory'
+      })
+      if (selected) {
+        setProjectPath(selected as string)
+      }
+    } catch (err) {
+      console.error('Failed to select directory:', err)
+    }
+  }
+
+  const updateVariant = (index: number, update: Partial<VariantDraft>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...update } : variant)))
+  }
+
+  const handleStart = async () => {
+    try {
+      setStarting(true)
+      setError(null)
+      const comparisonId = await api.startRunComparison(
+        projectPath,
+        task,
+        variants.map((variant) => ({
+          agentId: Number(variant.agentId),
+          model: variant.model === AGENT_MODEL ? undefined : variant.model
+        }))
+      )
+      setTask('')
+      onStarted(comparisonId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.comparison.startFailed'))
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const canStart =
+    !!projectPath.trim() &&
+    isRepository !== false &&
+    !!task.trim() &&
+    variants.length >= 2 &&
+    variants.every((variant) => !!variant.agentId)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            {t('agents.comparison.newTitle')}
+          </DialogTitle>
+          <DialogDescription>{t('agents.comparison.newDescription')}</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('agents.execution.projectPath')}</Label>
+            <div className="flex gap-2">
+              <Input
+                value={projectPath}
+                onChange={(e) => setProjectPath(e.target.value)}
+                placeholder={t('agents.execution.selectProjectPath')}
+                className="flex-1"
+              />
+              <Button variant="outline" size="icon" onClick={handleSelectPath}>
+                <FolderOpen className="h-4 w-4" />
+              </Button>
+            </div>
+            {isRepository === false ? (
+              <p className="text-xs text-destructive">{t('agents.comparison.notRepository')}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">{t('agents.comparison.worktreeHint')}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="comparison-task">{t('agents.execution.task')}</Label>
+            <Textarea
+              id="comparison-task"
+              value={task}
+              onChange={(e) => setTask(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('agents.comparison.variants')}</Label>
+            {variants.map((variant, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={variant.agentId}
+                  onValueChange={(agentId) => updateVariant(index, { agentId })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={String(agent.id)}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={variant.model}
+                  onValueChange={(model) => updateVariant(index, { model })}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AGENT_MODEL}>{t('agents.comparison.agentModel')}</SelectItem>
+                    <SelectItem value="sonnet">Claude 4 Sonnet</SelectItem>
+                    <SelectItem value="opus">Claude 4 Opus</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                  disabled={variants.length <= 2}
+                  className="h-8 w-8"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setVariants([...variants, { agentId: firstAgentId, model: AGENT_MODEL }])
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t('agents.comparison.addVariant')}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('agents.buttons.cancel')}
+          </Button>
+          <Button onClick={handleStart} disabled={!canStart || starting}>
+            {starting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Columns3 className="mr-2 h-4 w-4" />
+            )}
+            {t('agents.comparison.start')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
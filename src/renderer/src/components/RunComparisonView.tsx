@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useTranslation } from 'react-i18next'
+import { Columns3, Loader2, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import { api, listen, type RunComparison } from '@/lib/api'
+import { cn } from '@/lib/utils'
+import { AgentRunOutputViewer } from './AgentRunOutputViewer'
+import { RunWorktreePanel } from './RunWorktreePanel'
+
+interface RunComparisonViewProps {
+  /**
+   * The comparison to show
+   */
+  comparisonId: number
+  /**
+   * Callback when the view is closed
+   */
+  onClose: () => void
+}
+
+type ComparisonRun = RunComparison['runs'][number]
+
+// Metrics compared in the summary
+const METRICS: {
+  key: 'duration' | 'tokens' | 'cost' | 'messages' | 'files'
+  value: (run: ComparisonRun) => number | null | undefined
+  format: (value: number) => string
+  /** Whether the lowest value is highlighted as the best */
+  lowerIsBetter?: boolean
+}[] = [
+  {
+    key: 'duration',
+    value: (run) => run.metrics?.duration_ms,
+    format: (ms) => `${(ms / 1000).toFixed(1)}s`,
+    lowerIsBetter: true
+  },
+  {
+    key: 'tokens',
+    value: (run) => run.metrics?.total_tokens,
+    format: (tokens) => tokens.toLocaleString(),
+    lowerIsBetter: true
+  },
+  {
+    key: 'cost',
+    value: (run) => run.metrics?.cost_usd,
+    format: (cost) => `$${cost.toFixed(4)}`,
+    lowerIsBetter: true
+  },
+  {
+    key: 'messages',
+    value: (run) => run.metrics?.message_count,
+    format: (count) => String(count)
+  },
+  {
+    key: 'files',
+    value: (run) => run.changed_files?.length,
+    format: (count) => String(count)
+  }
+]
+
+function getStatusVariant(status: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (status === 'completed') return 'default'
+  if (status === 'running' || status === 'queued') return 'secondary'
+  if (status === 'failed' || status === 'budget_exceeded') return 'destructive'
+  return 'outline'
+}
+
+/**
+ * Shows the variants of a comparison side by side: a summary of their metrics and
+ * changed files, their outputs, and the diffs of their worktrees with actions to keep
+ * the changes of the best one
+ *
+ * @example
+ * <RunComparisonView comparisonId={id} onClose={() => setComparisonId(null)} />
+ */
+export const RunComparisonView: React.FC<RunComparisonViewProps> = ({ comparisonId, onClose }) => {
+  const { t } = useTranslation('ui')
+  const [comparison, setComparison] = useState<RunComparison | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadComparison()
+
+    // Variants start and finish as the run queue gets to them
+    const unlisten = listen('run-queue-changed', () => loadComparison(false))
+    return unlisten
+  }, [comparisonId])
+
+  const loadComparison = async (showSpinner = true) => {
+    try {
+      if (showSpinner) setLoading(true)
+      setComparison(await api.getRunComparison(comparisonId))
+    } catch (err) {
+      console.error('Failed to load comparison:', err)
+      setError(t('agents.comparison.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runs = comparison?.runs || []
+  const columns = { gridTemplateColumns: `repeat(${Math.max(runs.length, 1)}, minmax(0, 1fr))` }
+
+  const getVariantLabel = (run: ComparisonRun) => `${run.agent_name} · ${run.model}`
+
+  const renderSummary = () => (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b bg-muted/50 text-muted-foreground">
+            <th className="text-left font-medium px-3 py-2">{t('agents.comparison.variant')}</th>
+            <th className="text-left font-medium px-3 py-2">{t('agents.comparison.status')}</th>
+            {METRICS.map((metric) => (
+              <th key={metric.key} className="text-right font-medium px-3 py-2">
+                {t(`agents.comparison.metrics.${metric.key}`)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run) => (
+            <tr key={run.id} className="border-b last:border-0">
+              <td className="px-3 py-2 font-medium">{getVariantLabel(run)}</td>
+              <td className="px-3 py-2">
+                <Badge variant={getStatusVariant(run.status)} className="text-xs">
+                  {run.status}
+                </Badge>
+              </td>
+              {METRICS.map((metric) => {
+                const value = metric.value(run)
+                const values = runs
+                  .map(metric.value)
+                  .filter((other): other is number => typeof other === 'number')
+                const best =
+                  metric.lowerIsBetter && values.length > 1 && value === Math.min(...values)
+                return (
+                  <td
+                    key={metric.key}
+                    className={cn(
+                      'px-3 py-2 text-right font-mono',
+                      best && 'text-green-500 font-semibold'
+                    )}
+                  >
+                    {typeof value === 'number' ? metric.format(value) : '—'}
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  const renderChangedFiles = (run: ComparisonRun) => {
+    if (!run.changed_files) {
+      return (
+        <p className="text-xs text-muted-foreground">
+          {run.status === 'queued' || run.status === 'running'
+            ? t('agents.comparison.notFinished')
+            : t('agents.worktree.diffUnavailable')}
+        </p>
+      )
+    }
+    if (run.changed_files.length === 0) {
+      return <p className="text-xs text-muted-foreground">{t('agents.worktree.noChanges')}</p>
+    }
+
+    // Files only this variant changed stand out
+    const changedByOthers = new Set(
+      runs
+        .filter((other) => other.id !== run.id)
+        .flatMap((other) => other.changed_files || [])
+        .map((file) => file.path)
+    )
+    return (
+      <div className="space-y-0.5">
+        {run.changed_files.map((file) => (
+          <div key={file.path} className="flex items-center gap-2 text-xs font-mono">
+            <span
+              className={cn('flex-1 truncate', !changedByOthers.has(file.path) && 'font-semibold')}
+              title={file.path}
+            >
+              {file.path}
+            </span>
+            <span className="text-green-500">+{file.additions}</span>
+            <span className="text-red-500">-{file.deletions}</span>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-background flex flex-col"
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Columns3 className="h-5 w-5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <h2 className="text-lg font-semibold">{t('agents.comparison.title')}</h2>
+          {comparison && (
+            <p className="text-xs text-muted-foreground truncate" title={comparison.task}>
+              {comparison.task} — {comparison.project_path}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => loadComparison(false)}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-xs text-destructive">
+          {error}
+        </div>
+      )}
+
+      {loading && !comparison ? (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex flex-col gap-4 p-4">
+          {renderSummary()}
+
+          <Tabs defaultValue="output" className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="self-start">
+              <TabsTrigger value="output">{t('agents.comparison.output')}</TabsTrigger>
+              <TabsTrigger value="changes">{t('agents.comparison.changes')}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="output" className="flex-1 min-h-0">
+              <div className="grid gap-4 h-full" style={columns}>
+                {runs.map((run) => (
+                  <AgentRunOutputViewer
+                    // Remount when the variant starts or finishes, to load its output anew
+                    key={`${run.id}-${run.status}`}
+                    run={{ ...run, metrics: run.metrics || undefined }}
+                    onClose={onClose}
+                    embedded
+                    className="min-h-0"
+                  />
+                ))}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="changes" className="flex-1 min-h-0 overflow-y-auto">
+              <div className="grid gap-4" style={columns}>
+                {runs.map((run) => (
+                  <div key={run.id} className="space-y-3 min-w-0">
+                    <div className="text-sm font-medium">{getVariantLabel(run)}</div>
+                    {renderChangedFiles(run)}
+                    {run.changed_files && run.id && <RunWorktreePanel runId={run.id} />}
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { GitBranch, GitMerge, GitCommitHorizontal, Archive, Trash2, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { api, type WorktreeAction, type WorktreeDiff } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface RunWorktreePanelProps {
+  /**
+   * The run whose worktree is shown
+   */
+  runId: number
+  /**
+   * Optional className for styling
+   */
+  className?: string
+}
+
+function getDiffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground'
+  if (line.startsWith('+')) return 'text-green-500 bg-green-500/10'
+  if (line.startsWith('-')) return 'text-red-500 bg-red-500/10'
+  if (line.startsWith('@@')) return 'text-blue-500'
+  if (line.startsWith('diff ')) return 'font-semibold pt-2'
+  return ''
+}
+
+/**
+ * Shows the diff of a finished run's worktree branch against the commit it started
+ * from, with actions to bring the changes into the project or drop them
+ *
+ * @example
+ * <RunWorktreePanel runId={run.id} />
+ */
+export const RunWorktreePanel: React.FC<RunWorktreePanelProps> = ({ runId, className }) => {
+  const { t } = useTranslation('ui')
+  const [worktree, setWorktree] = useState<WorktreeDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [pendingAction, setPendingAction] = useState<WorktreeAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadDiff()
+  }, [runId])
+
+  const loadDiff = async () => {
+    try {
+      setLoading(true)
+      setWorktree(await api.getRunWorktreeDiff(runId))
+    } catch (err) {
+      console.error('Failed to load worktree diff:', err)
+      setError(t('agents.worktree.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAction = async (action: WorktreeAction) => {
+    if (action === 'discard' && !confirm(t('agents.worktree.confirmDiscard'))) {
+      return
+    }
+
+    try {
+      setPendingAction(action)
+      setError(null)
+      await api.applyRunWorktree(runId, action)
+      await loadDiff()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('agents.worktree.actionFailed'))
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  if (loading && !worktree) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-4 flex items-center justify-center">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!worktree) return null
+
+  const isPending = worktree.status === 'active' || worktree.status === 'kept'
+  const actions: { action: WorktreeAction; icon: React.ElementType }[] = [
+    { action: 'merge', icon: GitMerge },
+    { action: 'cherry_pick', icon: GitCommitHorizontal },
+    { action: 'keep', icon: Archive },
+    { action: 'discard', icon: Trash2 }
+  ]
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <GitBranch className="h-4 w-4 flex-shrink-0" />
+            <span className="text-sm font-medium truncate">{worktree.branch}</span>
+            <span className="text-xs text-muted-foreground">
+              {t('agents.worktree.from', { base: worktree.base.substring(0, 7) })}
+            </span>
+            <Badge variant="outline" className="text-xs">
+              {t(`agents.worktree.status.${worktree.status}`)}
+            </Badge>
+          </div>
+
+          {isPending && (
+            <div className="flex items-center gap-1">
+              {actions
+                .filter(({ action }) => action !== 'keep' || worktree.status === 'active')
+                .map(({ action, icon: Icon }) => (
+                  <Button
+                    key={action}
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleAction(action)}
+                    disabled={pendingAction !== null}
+                    className={cn(
+                      action === 'discard' && 'text-destructive hover:text-destructive'
+                    )}
+                  >
+                    {pendingAction === action ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Icon className="h-4 w-4 mr-1" />
+                    )}
+                    {t(`agents.worktree.actions.${action}`)}
+                  </Button>
+                ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-xs text-destructive whitespace-pre-wrap">
+            {error}
+          </div>
+        )}
+
+        {worktree.diff ? (
+          <pre className="max-h-96 overflow-auto rounded-md bg-muted/50 p-3 text-xs font-mono">
+            {worktree.diff.split('\n').map((line, index) => (
+              <div key={index} className={getDiffLineClass(line)}>
+                {line || ' '}
+              </div>
+            ))}
+          </pre>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {isPending ? t('agents.worktree.noChanges') : t('agents.worktree.diffUnavailable')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Toast, ToastContainer } from '@/components/ui/toast'
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover'
-import { api } from '@/lib/api'
+import { api, type StreamEvent } from '@/lib/api'
 import { useOutputCache } from '@/lib/outputCache'
 import type { AgentRun } from '@/lib/api'
 import { listen, type UnlistenFn } from '@/lib/api'
@@ -201,17 +201,16 @@ export function SessionOutputViewer({ session, onClose, className }: SessionOutp
       unlistenRefs.current = []
 
       // Set up live event listeners with run ID isolation
-      const outputUnlisten = await listen<string>(`agent-output:${session.id}`, (event) => {
-        try {
-          // Store raw JSONL
-          setRawJsonlOutput((prev) => [...prev, event.payload])
-
-          // Parse and display
-          const message = JSON.parse(event.payload) as ClaudeStreamMessage
-          setMessages((prev) => [...prev, message])
-        } catch (err) {
-          console.error('Failed to parse message:', err, event.payload)
-        }
+      const outputUnlisten = await listen<StreamEvent[]>(`agent-events:${session.id}`, (event) => {
+        const messageEvents = event.payload.filter((streamEvent) => 'message' in streamEvent)
+        if (messageEvents.length === 0) return
+
+        // Store raw JSONL
+        setRawJsonlOutput((prev) => [...prev, ...messageEvents.map((e) => e.line)])
+        setMessages((prev) => [
+          ...prev,
+          ...messageEvents.map((e) => e.message as ClaudeStreamMessage)
+        ])
       })
 
       const errorUnlisten = await listen<string>(`agent-error:${session.id}`, (event) => {
@@ -7,7 +7,13 @@ import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Card } from '@/components/ui/card'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
-import { api, type ClaudeSettings, type ClaudeInstallation } from '@/lib/api'
+import {
+  api,
+  type ClaudeSettings,
+  type ClaudeInstallation,
+  type RunConcurrencyLimits,
+  type ToolApprovalMode
+} from '@/lib/api'
 import { cn } from '@/lib/utils'
 import { Toast, ToastContainer } from '@/components/ui/toast'
 import { ClaudeVersionSelector } from './ClaudeVersionSelector'
@@ -148,6 +154,10 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, className }) => {
   // Permission rules state
   const [allowRules, setAllowRules] = useState<PermissionRule[]>([])
   const [denyRules, setDenyRules] = useState<PermissionRule[]>([])
+  const [toolApprovalMode, setToolApprovalMode] = useState<ToolApprovalMode>('skip')
+
+  // Agent run queue state
+  const [runLimits, setRunLimits] = useState<RunConcurrencyLimits | null>(null)
 
   // Environment variables state
   const [envVars, setEnvVars] = useState<EnvironmentVariable[]>([])
@@ -160,8 +170,63 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, className }) => {
   useEffect(() => {
     loadSettings()
     loadClaudeBinaryPath()
+    loadToolApprovalMode()
+    loadRunLimits()
   }, [])
 
+  /**
+   * Loads whether tool use is approved in the app
+   */
+  const loadToolApprovalMode = async () => {
+    try {
+      setToolApprovalMode(await api.getToolApprovalMode())
+    } catch (err) {
+      console.error('Failed to load tool approval mode:', err)
+    }
+  }
+
+  /**
+   * Saves the tool approval mode right away; it applies to sessions started afterwards
+   */
+  const handleToolApprovalChange = async (enabled: boolean) => {
+    const mode: ToolApprovalMode = enabled ? 'prompt' : 'skip'
+    try {
+      await api.setToolApprovalMode(mode)
+      setToolApprovalMode(mode)
+    } catch (err) {
+      console.error('Failed to save tool approval mode:', err)
+      setToast({ message: t('permissions.approvalMode.saveFailed'), type: 'error' })
+    }
+  }
+
+  /**
+   * Loads the limits on concurrently executing agent runs
+   */
+  const loadRunLimits = async () => {
+    try {
+      setRunLimits(await api.getRunConcurrencyLimits())
+    } catch (err) {
+      console.error('Failed to load run concurrency limits:', err)
+    }
+  }
+
+  /**
+   * Saves a concurrency limit right away; queued runs start as soon as a raised limit allows
+   */
+  const handleRunLimitChange = async (key: keyof RunConcurrencyLimits, value: string) => {
+    const limit = parseInt(value)
+    if (!runLimits || !(limit > 0)) return
+
+    const limits = { ...runLimits, [key]: limit }
+    setRunLimits(limits)
+    try {
+      await api.setRunConcurrencyLimits(limits)
+    } catch (err) {
+      console.error('Failed to save run concurrency limits:', err)
+      setToast({ message: t('general.runQueue.saveFailed'), type: 'error' })
+    }
+  }
+
   /**
    * Loads the current Claude binary path
    */
@@ -534,6 +599,60 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, className }) => {
                   </div>
                 </Card>
 
+                {/* Agent Run Queue */}
+                <Card className="p-6">
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="text-base font-semibold mb-1">
+                        {t('general.runQueue.title')}
+                      </h3>
+                      <p className="text-xs text-muted-foreground">
+                        {t('general.runQueue.description')}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5 flex-1">
+                        <Label htmlFor="run-limit-global">
+                          {t('general.runQueue.global.label')}
+                        </Label>
+                        <p className="text-xs text-muted-foreground">
+                          {t('general.runQueue.global.description')}
+                        </p>
+                      </div>
+                      <Input
+                        id="run-limit-global"
+                        type="number"
+                        min="1"
+                        value={runLimits?.global ?? ''}
+                        onChange={(e) => handleRunLimitChange('global', e.target.value)}
+                        disabled={!runLimits}
+                        className="w-20 ml-4"
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5 flex-1">
+                        <Label htmlFor="run-limit-project">
+                          {t('general.runQueue.perProject.label')}
+                        </Label>
+                        <p className="text-xs text-muted-foreground">
+                          {t('general.runQueue.perProject.description')}
+                        </p>
+                      </div>
+                      <Input
+                        id="run-limit-project"
+                        type="number"
+                        min="1"
+                        value={runLimits?.perProject ?? ''}
+                        onChange={(e) => handleRunLimitChange('perProject', e.target.value)}
+                        disabled={!runLimits}
+                        className="w-20 ml-4"
+                      />
+                    </div>
+                  </div>
+                </Card>
+
                 {/* Claude Installation Section */}
                 <Card className="p-6">
                   <ClaudeVersionSelector
@@ -559,6 +678,22 @@ export const Settings: React.FC<SettingsProps> = ({ onBack, className }) => {
                 value="permissions"
                 className="space-y-6 flex-1 overflow-y-auto custom-scrollbar"
               >
+                <Card className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5 flex-1">
+                      <Label htmlFor="tool-approval">{t('permissions.approvalMode.label')}</Label>
+                      <p className="text-xs text-muted-foreground">
+                        {t('permissions.approvalMode.description')}
+                      </p>
+                    </div>
+                    <Switch
+                      id="tool-approval"
+                      checked={toolApprovalMode === 'prompt'}
+                      onCheckedChange={handleToolApprovalChange}
+                    />
+                  </div>
+                </Card>
+
                 <Card className="p-6">
                   <div className="space-y-6">
                     <div>
@@ -39,6 +39,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { api } from '@/lib/api'
 import { Toast, ToastContainer } from './ui/toast'
+import { CheckpointStorageCard } from './CheckpointStorageCard'
 import { useTranslation } from 'react-i18next'
 
 interface TableInfo {
@@ -598,6 +599,9 @@ export const StorageTab: React.FC = () => {
         </Card>
       )}
 
+      {/* Checkpoint Storage */}
+      <CheckpointStorageCard onNotify={(message, type) => setToast({ message, type })} />
+
       {/* Edit Row Dialog */}
       <Dialog open={!!editingRow} onOpenChange={() => setEditingRow(null)}>
         <DialogContent className="max-w-2xl h-[80vh] flex flex-col">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React from 'react'
 import { Terminal, User, Bot, AlertCircle, CheckCircle2 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
@@ -7,6 +7,8 @@ import remarkGfm from 'remark-gfm'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { claudeSyntaxTheme } from '@/lib/claudeSyntaxTheme'
 import type { ClaudeStreamMessage } from './AgentExecution'
+import type { PermissionDecision, PermissionRequest } from '@/lib/api'
+import { PermissionRequestCard } from './PermissionRequestCard'
 import {
   TodoWidget,
   TodoReadWidget,
@@ -31,7 +33,8 @@ import {
   LSResultWidget,
   ThinkingWidget,
   WebSearchWidget,
-  WebFetchWidget
+  WebFetchWidget,
+  ExitPlanModeWidget
 } from './ToolWidgets'
 
 interface StreamMessageProps {
@@ -39,6 +42,37 @@ interface StreamMessageProps {
   className?: string
   streamMessages: ClaudeStreamMessage[]
   onLinkDetected?: (url: string) => void
+  /**
+   * Pending tool permission requests, shown next to the matching tool use
+   */
+  permissionRequests?: PermissionRequest[]
+  onPermissionDecision?: (requestId: string, decision: PermissionDecision) => Promise<void>
+  /**
+   * Called when the user approves a plan proposed in plan mode
+   */
+  onApprovePlan?: (plan: string) => void
+}
+
+// Tool results indexed once per messages array and shared by every message rendered from it
+const toolResultsCache = new WeakMap<ClaudeStreamMessage[], Map<string, any>>()
+
+const getToolResults = (streamMessages: ClaudeStreamMessage[]): Map<string, any> => {
+  const cached = toolResultsCache.get(streamMessages)
+  if (cached) return cached
+
+  const results = new Map<string, any>()
+  streamMessages.forEach((msg) => {
+    if (msg.type === 'user' && msg.message?.content && Array.isArray(msg.message.content)) {
+      msg.message.content.forEach((content: any) => {
+        if (content.type === 'tool_result' && content.tool_use_id) {
+          results.set(content.tool_use_id, content)
+        }
+      })
+    }
+  })
+
+  toolResultsCache.set(streamMessages, results)
+  return results
 }
 
 /**
@@ -48,28 +82,13 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({
   message,
   className,
   streamMessages,
-  onLinkDetected
+  onLinkDetected,
+  permissionRequests,
+  onPermissionDecision,
+  onApprovePlan
 }) => {
-  // State to track tool results mapped by tool call ID
-  const [toolResults, setToolResults] = useState<Map<string, any>>(new Map())
-
-  // Extract all tool results from stream messages
-  useEffect(() => {
-    const results = new Map<string, any>()
-
-    // Iterate through all messages to find tool results
-    streamMessages.forEach((msg) => {
-      if (msg.type === 'user' && msg.message?.content && Array.isArray(msg.message.content)) {
-        msg.message.content.forEach((content: any) => {
-          if (content.type === 'tool_result' && content.tool_use_id) {
-            results.set(content.tool_use_id, content)
-          }
-        })
-      }
-    })
-
-    setToolResults(results)
-  }, [streamMessages])
+  // Tool results mapped by tool call ID
+  const toolResults = getToolResults(streamMessages)
 
   // Helper to get tool result for a specific tool call ID
   const getToolResult = (toolId: string | undefined): any => {
@@ -176,6 +195,17 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({
                       // Get the tool result if available
                       const toolResult = getToolResult(toolId)
 
+                      const permissionRequest = toolId
+                        ? permissionRequests?.find((request) => request.toolUseId === toolId)
+                        : undefined
+                      const permissionCard =
+                        permissionRequest && onPermissionDecision ? (
+                          <PermissionRequestCard
+                            request={permissionRequest}
+                            onDecision={onPermissionDecision}
+                          />
+                        ) : null
+
                       // Function to render the appropriate tool widget
                       const renderToolWidget = () => {
                         // Task tool - for sub-agent tasks
@@ -296,6 +326,20 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({
                           )
                         }
 
+                        // ExitPlanMode tool
+                        if (toolName === 'exitplanmode' && input?.plan) {
+                          renderedSomething = true
+                          return (
+                            <ExitPlanModeWidget
+                              plan={input.plan}
+                              result={toolResult}
+                              onApprove={
+                                onApprovePlan ? () => onApprovePlan(input.plan) : undefined
+                              }
+                            />
+                          )
+                        }
+
                         // Default - return null
                         return null
                       }
@@ -304,7 +348,12 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({
                       const widget = renderToolWidget()
                       if (widget) {
                         renderedSomething = true
-                        return <div key={idx}>{widget}</div>
+                        return (
+                          <div key={idx} className={cn(permissionCard && 'space-y-2')}>
+                            {widget}
+                            {permissionCard}
+                          </div>
+                        )
                       }
 
                       // Fallback to basic tool display
@@ -324,6 +373,7 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({
                               </pre>
                             </div>
                           )}
+                          {permissionCard}
                         </div>
                       )
                     }
@@ -432,7 +482,8 @@ const StreamMessageComponent: React.FC<StreamMessageProps> = ({
                                 'write',
                                 'grep',
                                 'websearch',
-                                'webfetch'
+                                'webfetch',
+                                'exitplanmode'
                               ]
                               if (
                                 toolsWithWidgets.includes(toolName) ||
@@ -12,6 +12,7 @@ import {
   Hash,
   FileCode,
   Diff,
+  ExternalLink,
   X
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -45,6 +46,10 @@ interface TimelineNavigatorProps {
   currentMessageIndex: number
   onCheckpointSelect: (checkpoint: Checkpoint) => void
   onFork: (checkpointId: string) => void
+  /**
+   * Opens another session, used for branches forked from this session's checkpoints
+   */
+  onOpenSession?: (sessionId: string, firstMessage?: string) => void
   /**
    * Incrementing value provided by parent to force timeline reload when checkpoints
    * are created elsewhere (e.g., auto-checkpoint after tool execution).
@@ -63,6 +68,7 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
   currentMessageIndex,
   onCheckpointSelect,
   onFork,
+  onOpenSession,
   refreshVersion = 0,
   className
 }) => {
@@ -229,7 +235,9 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
   const renderTimelineNode = (node: TimelineNode, depth: number = 0) => {
     const isExpanded = expandedNodes.has(node.checkpoint.id)
     const hasChildren = node.children.length > 0
-    const isCurrent = timeline?.currentCheckpointId === node.checkpoint.id
+    // Nodes of forked sessions are branches: they can only be opened, not restored here
+    const isBranch = node.checkpoint.sessionId !== sessionId
+    const isCurrent = !isBranch && timeline?.currentCheckpointId === node.checkpoint.id
     const isSelected = selectedCheckpoint?.id === node.checkpoint.id
 
     return (
@@ -275,9 +283,14 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
               'flex-1 cursor-pointer transition-all hover:shadow-md',
               isCurrent && 'border-primary ring-2 ring-primary/20',
               isSelected && 'border-blue-500 bg-blue-500/5',
+              isBranch && 'border-dashed',
               !hasChildren && 'ml-5'
             )}
-            onClick={() => setSelectedCheckpoint(node.checkpoint)}
+            onClick={() =>
+              isBranch
+                ? onOpenSession?.(node.checkpoint.sessionId, node.checkpoint.metadata.userPrompt)
+                : setSelectedCheckpoint(node.checkpoint)
+            }
           >
             <CardContent className="p-3">
               <div className="flex items-start justify-between gap-2">
@@ -288,6 +301,12 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
                         {t('badges.current')}
                       </Badge>
                     )}
+                    {isBranch && (
+                      <Badge variant="outline" className="text-xs gap-1">
+                        <GitFork className="h-3 w-3" />
+                        {t('badges.fork')}
+                      </Badge>
+                    )}
                     <span className="text-xs font-mono text-muted-foreground">
                       {node.checkpoint.id.slice(0, 8)}
                     </span>
@@ -319,7 +338,7 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
                 </div>
 
                 {/* Actions */}
-                <div className="flex items-center gap-1">
+                {isBranch ? (
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -329,54 +348,78 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
                           className="h-7 w-7"
                           onClick={(e) => {
                             e.stopPropagation()
-                            handleRestoreCheckpoint(node.checkpoint)
+                            onOpenSession?.(
+                              node.checkpoint.sessionId,
+                              node.checkpoint.metadata.userPrompt
+                            )
                           }}
                         >
-                          <RotateCcw className="h-3 w-3" />
+                          <ExternalLink className="h-3 w-3" />
                         </Button>
                       </TooltipTrigger>
-                      <TooltipContent>{t('tooltips.restore')}</TooltipContent>
+                      <TooltipContent>{t('tooltips.openFork')}</TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
-
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-7 w-7"
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleFork(node.checkpoint)
-                          }}
-                        >
-                          <GitFork className="h-3 w-3" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>{t('tooltips.fork')}</TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-7 w-7"
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleCompare(node.checkpoint)
-                          }}
-                        >
-                          <Diff className="h-3 w-3" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>{t('tooltips.compare')}</TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleRestoreCheckpoint(node.checkpoint)
+                            }}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>{t('tooltips.restore')}</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleFork(node.checkpoint)
+                            }}
+                          >
+                            <GitFork className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>{t('tooltips.fork')}</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleCompare(node.checkpoint)
+                            }}
+                          >
+                            <Diff className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>{t('tooltips.compare')}</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -436,6 +479,18 @@ export const TimelineNavigator: React.FC<TimelineNavigatorProps> = ({
         </Button>
       </div>
 
+      {/* Fork origin */}
+      {timeline?.forkedFrom && (
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => onOpenSession?.(timeline.forkedFrom!.sessionId)}
+        >
+          <GitFork className="h-3 w-3" />
+          {t('forkedFrom', { session: timeline.forkedFrom.sessionId.slice(0, 8) })}
+        </button>
+      )}
+
       {/* Error display */}
       {error && (
         <div className="flex items-center gap-2 text-xs text-destructive">
@@ -46,7 +46,9 @@ import {
   LayoutGrid,
   LayoutList,
   Activity,
-  Hash
+  Hash,
+  ClipboardList,
+  Play
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
@@ -2079,6 +2081,47 @@ export const TaskWidget: React.FC<{
   )
 }
 
+/**
+ * Widget for ExitPlanMode tool - displays the proposed plan and lets the user approve it
+ */
+export const ExitPlanModeWidget: React.FC<{
+  plan: string
+  result?: any
+  onApprove?: () => void
+}> = ({ plan, result, onApprove }) => {
+  const [approved, setApproved] = useState(false)
+
+  const handleApprove = () => {
+    setApproved(true)
+    onApprove?.()
+  }
+
+  return (
+    <div className="rounded-lg border border-blue-500/20 bg-blue-500/5 overflow-hidden">
+      <div className="px-4 py-2 flex items-center gap-2 border-b border-blue-500/20">
+        <ClipboardList className="h-4 w-4 text-blue-500" />
+        <span className="text-sm font-medium">Proposed Plan</span>
+        {result && (
+          <Badge variant="outline" className="ml-auto text-xs">
+            {result.is_error ? 'Not approved' : 'Plan accepted'}
+          </Badge>
+        )}
+      </div>
+      <div className="p-4 space-y-3">
+        <div className="prose prose-sm dark:prose-invert max-w-none">
+          <ReactMarkdown>{plan}</ReactMarkdown>
+        </div>
+        {onApprove && (
+          <Button size="sm" onClick={handleApprove} disabled={approved} className="gap-2">
+            <Play className="h-3.5 w-3.5" />
+            {approved ? 'Executing plan...' : 'Approve and execute'}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
 /**
  * Widget for WebSearch tool - displays web search query and results
  */
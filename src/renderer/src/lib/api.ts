@@ -128,13 +128,90 @@ export interface Agent {
   name: string
   icon: string
   system_prompt: string
+  description?: string | null // What the agent is for, the description of its subagent file
   default_task?: string
   model: string
+  enable_file_read?: boolean
+  enable_file_write?: boolean
+  enable_network?: boolean
+  allowed_tools?: string | null // JSON array of tool names or rules; null allows every tool
   hooks?: string // JSON string of HooksConfiguration
+  mcp_servers?: string | null // JSON array of AgentMcpServer
+  strict_mcp_config?: boolean
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+  use_worktree?: boolean
+  registry_source_id?: number | null // Registry source the agent was installed from
+  registry_agent_id?: string | null
+  registry_version?: string | null
+  revision?: number // Current AgentRevision, 0 for agents older than revisions
   created_at: string
   updated_at: string
 }
 
+/**
+ * Agent created by an import, with the MCP servers it refers to that aren't configured
+ * on this machine
+ */
+export interface ImportedAgent extends Agent {
+  missing_mcp_servers: string[]
+}
+
+/**
+ * Server entry of an MCP config, as in `.mcp.json`
+ */
+export interface McpServerConfig {
+  type?: 'stdio' | 'sse' | 'http'
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  url?: string
+  headers?: Record<string, string>
+}
+
+/**
+ * MCP server an agent needs; without a config it refers to the server of that name
+ * configured in Claude Code
+ */
+export interface AgentMcpServer {
+  name: string
+  config?: McpServerConfig
+}
+
+/**
+ * MCP servers passed to an agent's runs through `--mcp-config`
+ */
+export interface AgentMcpSettings {
+  mcp_servers: string | null
+  /** Load only these servers, passing `--strict-mcp-config` */
+  strict_mcp_config: boolean
+}
+
+/**
+ * What the tools of an agent's runs may do. Tools the flags or the allowlist leave out
+ * are passed to Claude Code as `--disallowedTools`.
+ */
+export interface AgentPermissions {
+  enable_file_read: boolean
+  enable_file_write: boolean
+  enable_network: boolean
+  allowed_tools: string | null
+}
+
+/**
+ * Limits applied to each run of an agent, unlimited when null
+ */
+export interface AgentBudget {
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+}
+
+export type BudgetLimit = 'cost' | 'tokens' | 'turns' | 'duration'
+
 export interface AgentExport {
   version: number
   exported_at: string
@@ -142,18 +219,79 @@ export interface AgentExport {
     name: string
     icon: string
     system_prompt: string
+    description?: string | null
     default_task?: string
     model: string
+    enable_file_read?: boolean
+    enable_file_write?: boolean
+    enable_network?: boolean
+    allowed_tools?: string | null
     hooks?: string
+    mcp_servers?: string | null
+    strict_mcp_config?: boolean
+    max_cost_usd?: number | null
+    max_tokens?: number | null
+    max_turns?: number | null
+    max_duration_seconds?: number | null
+    use_worktree?: boolean
   }
 }
 
-export interface GitHubAgentFile {
+/**
+ * Where a registry source keeps its agents
+ * - local: a directory on this machine, e.g. a checkout's `cc_agents/`
+ * - git: a git repository, checked out into the app's cache
+ * - http: an `index.json` served over HTTP, with agent files next to it
+ */
+export type RegistrySourceType = 'local' | 'git' | 'http'
+
+/**
+ * A place agents can be installed from
+ */
+export interface RegistrySource {
+  id: number
+  name: string
+  type: RegistrySourceType
+  /** Directory, repository URL or index URL */
+  location: string
+  /** Branch or tag of git sources */
+  ref?: string | null
+  /** Directory of the agents within a git repository */
+  subdirectory?: string | null
+  enabled: boolean
+  last_synced_at?: string | null
+  /** Why the last refresh failed; the cached agents are still listed */
+  last_error?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface RegistrySourceData {
   name: string
-  path: string
-  download_url: string
-  size: number
-  sha: string
+  type: RegistrySourceType
+  location: string
+  ref?: string | null
+  subdirectory?: string | null
+  enabled?: boolean
+}
+
+/**
+ * Agent of a registry source, with what is installed of it
+ */
+export interface RegistryAgent {
+  /** ID of the agent within its source */
+  id: string
+  file: string
+  version: string
+  name: string
+  description?: string
+  icon?: string
+  model?: string
+  source_id: number
+  source_name: string
+  installed_agent_id: number | null
+  installed_version: string | null
+  update_available: boolean
 }
 
 export interface AgentRun {
@@ -165,18 +303,405 @@ export interface AgentRun {
   model: string
   project_path: string
   session_id: string
-  status: string // 'pending', 'running', 'completed', 'failed', 'cancelled'
+  status: string // 'queued', 'pending', 'running', 'completed', 'failed', 'cancelled', 'interrupted', 'budget_exceeded'
+  priority?: RunPriority
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+  exceeded_limit?: BudgetLimit | null
+  use_worktree?: boolean
+  allowed_tools?: string | null // JSON array the run was started with
+  disallowed_tools?: string | null // JSON array the run was started with
+  worktree_path?: string | null
+  worktree_branch?: string | null
+  worktree_base?: string | null
+  worktree_status?: string | null
+  schedule_id?: number | null
+  trigger_id?: number | null
+  agent_revision?: number | null // Revision of the agent the run ran
+  comparison_id?: number | null // Comparison the run is a variant of
   pid?: number
   process_started_at?: string
   created_at: string
   completed_at?: string
 }
 
+export type RunPriority = 'low' | 'normal' | 'high'
+
+/**
+ * Agent configuration a revision records
+ */
+export type AgentRevisionData = Pick<
+  Agent,
+  | 'name'
+  | 'icon'
+  | 'system_prompt'
+  | 'description'
+  | 'default_task'
+  | 'model'
+  | 'enable_file_read'
+  | 'enable_file_write'
+  | 'enable_network'
+  | 'allowed_tools'
+  | 'hooks'
+  | 'mcp_servers'
+  | 'strict_mcp_config'
+  | 'max_cost_usd'
+  | 'max_tokens'
+  | 'max_turns'
+  | 'max_duration_seconds'
+  | 'use_worktree'
+>
+
+/**
+ * Immutable snapshot of an agent, recorded by each change to it
+ */
+export interface AgentRevision {
+  id: number
+  agent_id: number
+  /** Numbered from 1 per agent */
+  revision: number
+  data: AgentRevisionData
+  /** Revision a rollback restored */
+  rolled_back_from?: number | null
+  /** Runs of the agent at this revision */
+  run_count: number
+  completed_run_count: number
+  created_at: string
+}
+
+/**
+ * A run waiting in the run queue
+ */
+export interface QueuedRun {
+  runId: number
+  /** Run ID the output of the run's process is sent under */
+  processRunId: number
+  projectPath: string
+  priority: RunPriority
+  /** Position in the queue, starting at 1 */
+  position: number
+}
+
+/**
+ * How many agent runs may execute at the same time
+ */
+export interface RunConcurrencyLimits {
+  global: number
+  perProject: number
+}
+
+/**
+ * An agent run repeated on a cron schedule
+ */
+export interface AgentSchedule {
+  id: number
+  agent_id: number
+  agent_name: string
+  agent_icon: string
+  project_path: string
+  task: string
+  /** Five-field cron expression, in local time */
+  cron_expression: string
+  enabled: boolean
+  last_run_id?: number | null
+  last_run_at?: string | null
+  /** Status of the run started by the latest tick */
+  last_run_status?: string | null
+  /** Null while the schedule is paused */
+  next_run_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A run started by a file-change trigger
+ */
+export interface AgentTriggerFire {
+  run_id: number
+  status: string
+  /** Project-relative paths of the files whose changes fired the trigger */
+  changed_files: string[]
+  created_at: string
+}
+
+/**
+ * An agent run started when files matching globs change in a project
+ */
+export interface AgentTrigger {
+  id: number
+  agent_id: number
+  agent_name: string
+  agent_icon: string
+  project_path: string
+  /** Task of each run; `{{changed_files}}` is replaced with the changed files */
+  task: string
+  /** Globs relative to the project path */
+  patterns: string[]
+  /** Quiet time after the last change before the trigger fires */
+  debounce_ms: number
+  /** Changes are ignored this long after the run the trigger started ends */
+  cooldown_seconds: number
+  enabled: boolean
+  /** False when the project directory couldn't be watched */
+  watching: boolean
+  last_run_id?: number | null
+  last_fired_at?: string | null
+  /** Latest runs the trigger started, newest first */
+  fires: AgentTriggerFire[]
+  created_at: string
+  updated_at: string
+}
+
+export type SubagentScope = 'user' | 'project'
+
+/**
+ * Which side of a synced agent changed since the last sync; both means a conflict
+ */
+export type SubagentSyncState =
+  | 'in_sync'
+  | 'file_changed'
+  | 'agent_changed'
+  | 'conflict'
+  | 'missing'
+
+/**
+ * A Claude Code subagent file (`.claude/agents/<name>.md`)
+ */
+export interface SubagentFile {
+  file_path: string
+  definition: {
+    name: string
+    description: string
+    /** Null gives the subagent every tool */
+    tools: string[] | null
+    model: string | null
+    prompt: string
+  } | null
+  /** Why the file couldn't be read */
+  error?: string
+  /** Agent the file is synced with */
+  agent_id: number | null
+}
+
+/**
+ * An agent synced with a subagent file
+ */
+export interface SubagentLink {
+  id: number
+  agent_id: number
+  agent_name: string
+  scope: SubagentScope
+  /** Project of project scoped files */
+  project_path?: string | null
+  file_path: string
+  /** Changes on either side are copied as they happen */
+  live_sync: boolean
+  state: SubagentSyncState
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * One agent run of a pipeline. The task may use `{{previous.result}}`,
+ * `{{previous.changed_files}}`, `{{steps.<id>.result}}` and `{{steps.<id>.changed_files}}`.
+ */
+export interface PipelineStep {
+  id: string
+  agent_id: number
+  task: string
+  /** Steps that must complete first. Omitted means the step listed before this one */
+  depends_on?: string[]
+  /** Whether the pipeline goes on after this step fails */
+  on_failure: 'stop' | 'continue'
+}
+
+/**
+ * An ordered list of agent steps run one after another in the same project
+ */
+export interface Pipeline {
+  id: number
+  name: string
+  steps: PipelineStep[]
+  /** Whether the steps share an isolated git worktree */
+  use_worktree: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Progress and output of one step in a pipeline run
+ */
+export interface PipelineStepState {
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'skipped'
+  run_id?: number
+  process_run_id?: number
+  result?: string
+  changed_files?: string[]
+  cost_usd?: number
+}
+
+/**
+ * A run of a pipeline, grouping the agent runs of its steps
+ */
+export interface PipelineRun {
+  id: number
+  pipeline_id: number
+  pipeline_name: string
+  project_path: string
+  /** 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted' */
+  status: string
+  step_states: Record<string, PipelineStepState>
+  worktree_path?: string | null
+  /** Combined cost of the steps */
+  cost_usd: number
+  runs: AgentRun[]
+  created_at: string
+  completed_at?: string | null
+}
+
+/**
+ * What a test case checks once its run has finished. Paths are relative to the run's
+ * copy of the fixture.
+ */
+export type EvalAssertion =
+  | { type: 'file_exists'; path: string }
+  | { type: 'file_contains'; path: string; text: string }
+  | { type: 'command'; command: string }
+  | { type: 'tool_used'; tool: string }
+  | { type: 'max_cost'; usd: number }
+
+/**
+ * A task an agent runs in a copy of a fixture directory, with assertions on the outcome
+ */
+export interface EvalCase {
+  id: number
+  agent_id: number
+  name: string
+  fixture_path: string
+  task: string
+  assertions: EvalAssertion[]
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Progress and outcome of one test case in a suite run
+ */
+export interface EvalCaseResult {
+  status: 'pending' | 'running' | 'passed' | 'failed' | 'cancelled'
+  run_id?: number
+  process_run_id?: number
+  /** Copy of the fixture the case ran in; kept for failed cases */
+  work_dir?: string
+  /** Outcome of each assertion, in the order of the case's assertions */
+  assertions?: { passed: boolean; message?: string }[]
+  cost_usd?: number
+  /** Why the run itself failed */
+  error?: string
+}
+
+/**
+ * A run of all test cases of an agent
+ */
+export interface EvalRun {
+  id: number
+  agent_id: number
+  /** Revision of the agent the cases ran with */
+  agent_revision?: number | null
+  /** 'running' | 'completed' | 'cancelled' | 'interrupted' */
+  status: string
+  /** Results keyed by test case ID */
+  case_results: Record<string, EvalCaseResult>
+  passed_count: number
+  failed_count: number
+  cost_usd: number
+  created_at: string
+  completed_at?: string | null
+}
+
+/**
+ * Changes an agent run made on its worktree branch
+ */
+export interface WorktreeDiff {
+  branch: string
+  /** Commit the branch was created from */
+  base: string
+  status: string // 'active', 'kept', 'merged', 'cherry_picked', 'discarded'
+  diff: string
+}
+
+export type WorktreeAction = 'merge' | 'cherry_pick' | 'keep' | 'discard'
+
+/**
+ * A file a run changed on its worktree branch
+ */
+export interface WorktreeFileChange {
+  path: string
+  additions: number
+  deletions: number
+}
+
+/**
+ * One agent or model variant of a comparison
+ */
+export interface RunComparisonVariant {
+  agentId: number
+  /** Model override; the agent's model when omitted */
+  model?: string
+}
+
+/**
+ * The same task run by several agent or model variants, each in its own worktree
+ */
+export interface RunComparison {
+  id: number
+  task: string
+  project_path: string
+  /** Runs of the variants, in launch order */
+  runs: (AgentRun & {
+    metrics: AgentRunMetrics | null
+    /** Null while the run isn't finished or when its branch is gone */
+    changed_files: WorktreeFileChange[] | null
+  })[]
+  created_at: string
+}
+
 export interface AgentRunMetrics {
   duration_ms?: number
   total_tokens?: number
   cost_usd?: number
   message_count?: number
+  tool_call_count?: number
+}
+
+export type AgentRunSortField = 'created_at' | 'cost_usd' | 'total_tokens' | 'duration_ms'
+
+/**
+ * Filters, sort and page of a run history query
+ */
+export interface AgentRunQuery {
+  agentId?: number
+  status?: string
+  projectPath?: string
+  /** ISO timestamp, inclusive */
+  createdFrom?: string
+  /** ISO timestamp, exclusive */
+  createdTo?: string
+  minCostUsd?: number
+  maxCostUsd?: number
+  sortBy?: AgentRunSortField
+  sortOrder?: 'ASC' | 'DESC'
+  /** Starting at 1 */
+  page?: number
+  pageSize?: number
+}
+
+export interface AgentRunPage {
+  runs: AgentRunWithMetrics[]
+  /** Number of runs matching the filters, over all pages */
+  total: number
 }
 
 export interface AgentRunWithMetrics {
@@ -188,7 +713,24 @@ export interface AgentRunWithMetrics {
   model: string
   project_path: string
   session_id: string
-  status: string // 'pending', 'running', 'completed', 'failed', 'cancelled'
+  status: string // 'queued', 'pending', 'running', 'completed', 'failed', 'cancelled', 'interrupted', 'budget_exceeded'
+  priority?: RunPriority
+  max_cost_usd?: number | null
+  max_tokens?: number | null
+  max_turns?: number | null
+  max_duration_seconds?: number | null
+  exceeded_limit?: BudgetLimit | null
+  use_worktree?: boolean
+  allowed_tools?: string | null // JSON array the run was started with
+  disallowed_tools?: string | null // JSON array the run was started with
+  worktree_path?: string | null
+  worktree_branch?: string | null
+  worktree_base?: string | null
+  worktree_status?: string | null
+  schedule_id?: number | null
+  trigger_id?: number | null
+  agent_revision?: number | null
+  comparison_id?: number | null
   pid?: number
   process_started_at?: string
   created_at: string
@@ -309,6 +851,11 @@ export interface SessionTimeline {
   autoCheckpointEnabled: boolean
   checkpointStrategy: CheckpointStrategy
   totalCheckpoints: number
+  /** Set when the session was forked from a checkpoint of another session */
+  forkedFrom?: {
+    sessionId: string
+    checkpointId: string
+  }
 }
 
 /**
@@ -347,6 +894,100 @@ export interface FileDiff {
   diffContent?: string
 }
 
+/**
+ * Checkpoint disk usage of a single project
+ */
+export interface ProjectCheckpointUsage {
+  projectId: string
+  projectPath: string
+  sessions: number
+  checkpoints: number
+  /** Stored size of the distinct file blobs referenced by the project */
+  blobBytes: number
+  /** Size of timelines, snapshot records and transcript copies */
+  metadataBytes: number
+}
+
+/**
+ * Checkpoint disk usage overview
+ */
+export interface CheckpointStorageUsage {
+  storagePath: string
+  totalBlobs: number
+  /** Bytes of all blobs on disk */
+  storedBytes: number
+  /** Bytes that full per-checkpoint copies would take */
+  logicalBytes: number
+  compressionEnabled: boolean
+  projects: ProjectCheckpointUsage[]
+}
+
+/**
+ * Result of a checkpoint garbage collection pass
+ */
+export interface CheckpointGarbageCollectionResult {
+  removedBlobs: number
+  freedBytes: number
+}
+
+/**
+ * How Claude Code processes started by the app handle tool permissions
+ */
+export type ToolApprovalMode = 'skip' | 'prompt'
+
+/**
+ * Claude Code `--permission-mode` a session is started in
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions'
+
+/**
+ * Answer to a tool permission request
+ */
+export type PermissionDecision = 'allow' | 'deny' | 'always_allow'
+
+/**
+ * A tool use waiting for approval in the app
+ */
+export interface PermissionRequest {
+  id: string
+  runId: number | null
+  projectPath: string
+  toolName: string
+  input: Record<string, any>
+  /** Id of the matching tool_use block in the stream */
+  toolUseId?: string
+  createdAt: string
+}
+
+/**
+ * Parsed event from a Claude Code process's stream-json output. Events are
+ * numbered per run, so a listener can skip the ones it has already seen.
+ */
+export type StreamEvent = { seq: number; timestamp: string } & (
+  | Omit<StreamMessageEvent, 'seq' | 'timestamp'>
+  | { type: 'tool_use'; toolUseId: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; toolUseId: string; content: unknown; isError: boolean }
+  | {
+      type: 'usage'
+      inputTokens: number
+      outputTokens: number
+      cacheCreationInputTokens: number
+      cacheReadInputTokens: number
+    }
+  | { type: 'text'; line: string }
+)
+
+/**
+ * Stream event for one complete stream-json line
+ */
+export interface StreamMessageEvent {
+  seq: number
+  timestamp: string
+  type: 'system_init' | 'system' | 'assistant' | 'user' | 'result'
+  line: string
+  message: Record<string, any>
+}
+
 /**
  * Represents an MCP server configuration
  */
@@ -489,50 +1130,6 @@ export const api = {
     }
   },
 
-  /**
-   * Fetch list of agents from GitHub repository
-   * @returns Promise resolving to list of available agents on GitHub
-   */
-  async fetchGitHubAgents(): Promise<GitHubAgentFile[]> {
-    try {
-      // TODO: Add fetchGitHubAgents to preload API
-      throw new Error('fetchGitHubAgents not implemented in Electron version yet')
-    } catch (error) {
-      console.error('Failed to fetch GitHub agents:', error)
-      throw error
-    }
-  },
-
-  /**
-   * Fetch and preview a specific agent from GitHub
-   * @param downloadUrl - The download URL for the agent file
-   * @returns Promise resolving to the agent export data
-   */
-  async fetchGitHubAgentContent(_downloadUrl: string): Promise<AgentExport> {
-    try {
-      // TODO: Add fetchGitHubAgentContent to preload API
-      throw new Error('fetchGitHubAgentContent not implemented in Electron version yet')
-    } catch (error) {
-      console.error('Failed to fetch GitHub agent content:', error)
-      throw error
-    }
-  },
-
-  /**
-   * Import an agent directly from GitHub
-   * @param downloadUrl - The download URL for the agent file
-   * @returns Promise resolving to the imported agent
-   */
-  async importAgentFromGitHub(_downloadUrl: string): Promise<Agent> {
-    try {
-      // TODO: Add importAgentFromGitHub to preload API
-      throw new Error('importAgentFromGitHub not implemented in Electron version yet')
-    } catch (error) {
-      console.error('Failed to import agent from GitHub:', error)
-      throw error
-    }
-  },
-
   /**
    * Reads the Claude settings file
    * @returns Promise resolving to the settings object
@@ -683,13 +1280,32 @@ export const api = {
   },
 
   /**
-   * Creates a new agent
-   * @param name - The agent name
+   * Lists the built-in Claude Code tools an agent's allowlist can name
+   * @returns Promise resolving to the tool names
+   */
+  async listAgentTools(): Promise<string[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listAgentTools()
+    } catch (error) {
+      console.error('Failed to list agent tools:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates a new agent
+   * @param name - The agent name
    * @param icon - The icon identifier
    * @param system_prompt - The system prompt for the agent
    * @param default_task - Optional default task
    * @param model - Optional model (defaults to 'sonnet')
    * @param hooks - Optional hooks configuration as JSON string
+   * @param budget - Optional limits applied to each run of the agent
+   * @param useWorktree - Whether runs execute in their own git worktree
+   * @param permissions - Optional file, network and tool permissions of the agent's runs
+   * @param mcp - Optional MCP servers of the agent's runs
+   * @param description - Optional description of what the agent is for
    * @returns Promise resolving to the created agent
    */
   async createAgent(
@@ -698,7 +1314,12 @@ export const api = {
     system_prompt: string,
     default_task?: string,
     model?: string,
-    hooks?: string
+    hooks?: string,
+    budget?: AgentBudget,
+    useWorktree?: boolean,
+    permissions?: AgentPermissions,
+    mcp?: AgentMcpSettings,
+    description?: string
   ): Promise<Agent> {
     try {
       const api = getWindowApi()
@@ -707,8 +1328,13 @@ export const api = {
         icon,
         systemPrompt: system_prompt,
         defaultTask: default_task,
+        description,
         model,
-        hooks
+        hooks,
+        ...budget,
+        ...permissions,
+        ...mcp,
+        use_worktree: useWorktree
       })
     } catch (error) {
       console.error('Failed to create agent:', error)
@@ -725,6 +1351,11 @@ export const api = {
    * @param default_task - Optional default task
    * @param model - Optional model
    * @param hooks - Optional hooks configuration as JSON string
+   * @param budget - Optional limits applied to each run of the agent
+   * @param useWorktree - Whether runs execute in their own git worktree
+   * @param permissions - Optional file, network and tool permissions of the agent's runs
+   * @param mcp - Optional MCP servers of the agent's runs
+   * @param description - Optional description of what the agent is for
    * @returns Promise resolving to the updated agent
    */
   async updateAgent(
@@ -734,7 +1365,12 @@ export const api = {
     system_prompt: string,
     default_task?: string,
     model?: string,
-    hooks?: string
+    hooks?: string,
+    budget?: AgentBudget,
+    useWorktree?: boolean,
+    permissions?: AgentPermissions,
+    mcp?: AgentMcpSettings,
+    description?: string
   ): Promise<Agent> {
     try {
       const api = getWindowApi()
@@ -743,8 +1379,13 @@ export const api = {
         icon,
         systemPrompt: system_prompt,
         defaultTask: default_task,
+        description,
         model,
-        hooks
+        hooks,
+        ...budget,
+        ...permissions,
+        ...mcp,
+        use_worktree: useWorktree
       })
     } catch (error) {
       console.error('Failed to update agent:', error)
@@ -752,6 +1393,37 @@ export const api = {
     }
   },
 
+  /**
+   * Lists the revisions of an agent
+   * @param agentId - The agent ID
+   * @returns Promise resolving to the revisions, newest first, with their run counts
+   */
+  async listAgentRevisions(agentId: number): Promise<AgentRevision[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listAgentRevisions(agentId)
+    } catch (error) {
+      console.error('Failed to list agent revisions:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Restores an earlier revision of an agent, recorded as a new revision
+   * @param agentId - The agent ID
+   * @param revision - The revision to restore
+   * @returns Promise resolving to the restored agent
+   */
+  async rollbackAgent(agentId: number, revision: number): Promise<Agent> {
+    try {
+      const api = getWindowApi()
+      return await api.rollbackAgent(agentId, revision)
+    } catch (error) {
+      console.error('Failed to roll back agent:', error)
+      throw error
+    }
+  },
+
   /**
    * Deletes an agent
    * @param id - The agent ID to delete
@@ -800,9 +1472,9 @@ export const api = {
   /**
    * Imports an agent from JSON data
    * @param jsonData - The JSON string containing the agent export
-   * @returns Promise resolving to the imported agent
+   * @returns Promise resolving to the imported agent and the MCP servers it is missing
    */
-  async importAgent(jsonData: string): Promise<Agent> {
+  async importAgent(jsonData: string): Promise<ImportedAgent> {
     try {
       const api = getWindowApi()
       return await api.importAgent(jsonData)
@@ -815,9 +1487,9 @@ export const api = {
   /**
    * Imports an agent from a file
    * @param filePath - The path to the JSON file
-   * @returns Promise resolving to the imported agent
+   * @returns Promise resolving to the imported agent and the MCP servers it is missing
    */
-  async importAgentFromFile(filePath: string): Promise<Agent> {
+  async importAgentFromFile(filePath: string): Promise<ImportedAgent> {
     try {
       const api = getWindowApi()
       return await api.importAgentFromFile(filePath)
@@ -827,138 +1499,1013 @@ export const api = {
     }
   },
 
+  /**
+   * Lists the sources agents can be installed from
+   * @returns Promise resolving to the sources, oldest first
+   */
+  async listRegistrySources(): Promise<RegistrySource[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listRegistrySources()
+    } catch (error) {
+      console.error('Failed to list registry sources:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Adds a registry source, fetching git and HTTP sources right away
+   * @param data - The source name, type and location
+   */
+  async createRegistrySource(data: RegistrySourceData): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.createRegistrySource(data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to create registry source:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates a registry source. Moving it drops what was cached of it.
+   * @param id - The source ID
+   * @param data - The fields to change
+   */
+  async updateRegistrySource(id: number, data: Partial<RegistrySourceData>): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.updateRegistrySource(id, data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to update registry source:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Removes a registry source; agents installed from it are kept
+   * @param id - The source ID
+   */
+  async deleteRegistrySource(id: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.deleteRegistrySource(id)
+    } catch (error) {
+      console.error('Failed to delete registry source:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches the latest agents of a git or HTTP source
+   * @param id - The source ID
+   */
+  async refreshRegistrySource(id: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.refreshRegistrySource(id)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to refresh registry source:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists the agents of all enabled registry sources, or of one source
+   * @param sourceId - Optional source to list the agents of
+   * @returns Promise resolving to the agents with their installed versions
+   */
+  async listRegistryAgents(sourceId?: number): Promise<RegistryAgent[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listRegistryAgents(sourceId)
+    } catch (error) {
+      console.error('Failed to list registry agents:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Fetches the agent export of a registry agent, for a preview
+   * @param sourceId - The source of the agent
+   * @param agentId - The ID of the agent within its source
+   * @returns Promise resolving to the agent export data
+   */
+  async getRegistryAgent(sourceId: number, agentId: string): Promise<AgentExport> {
+    try {
+      const api = getWindowApi()
+      return await api.getRegistryAgent(sourceId, agentId)
+    } catch (error) {
+      console.error('Failed to get registry agent:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Installs a registry agent as a new agent
+   * @param sourceId - The source of the agent
+   * @param agentId - The ID of the agent within its source
+   * @returns Promise resolving to the installed agent and the MCP servers it is missing
+   */
+  async installRegistryAgent(sourceId: number, agentId: string): Promise<ImportedAgent> {
+    try {
+      const api = getWindowApi()
+      return await api.installRegistryAgent(sourceId, agentId)
+    } catch (error) {
+      console.error('Failed to install registry agent:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates an installed agent to the version its registry source has now
+   * @param agentId - The installed agent
+   * @returns Promise resolving to the updated agent and the MCP servers it is missing
+   */
+  async updateRegistryAgent(agentId: number): Promise<ImportedAgent> {
+    try {
+      const api = getWindowApi()
+      return await api.updateRegistryAgent(agentId)
+    } catch (error) {
+      console.error('Failed to update registry agent:', error)
+      throw error
+    }
+  },
+
   /**
    * Executes an agent
    * @param agentId - The agent ID to execute
    * @param projectPath - The project path to run the agent in
    * @param task - The task description
    * @param model - Optional model override
-   * @returns Promise resolving to the run ID when execution starts
+   * @param priority - Position of the run in the run queue relative to other waiting runs
+   * @param budget - Optional limits for this run, overriding the agent's budget
+   * @param useWorktree - Run in a new git worktree, overriding the agent's setting
+   * @returns Promise resolving to the run ID the execution's output is sent under
+   */
+  async executeAgent(
+    agentId: number,
+    projectPath: string,
+    task: string,
+    model?: string,
+    priority?: RunPriority,
+    budget?: AgentBudget,
+    useWorktree?: boolean
+  ): Promise<number> {
+    try {
+      const api = getWindowApi()
+      const result = await api.executeAgent({
+        agentId,
+        projectPath,
+        task,
+        model,
+        priority,
+        budget,
+        useWorktree
+      })
+
+      // 适配后端返回的对象格式到前端期望的 number 类型
+      if (result && typeof result === 'object' && 'success' in result) {
+        if (result.success && result.runId !== undefined) {
+          return result.runId
+        } else {
+          throw new Error(result.message || 'Failed to execute agent')
+        }
+      }
+
+      // 如果返回的是 number 类型（向后兼容）
+      if (typeof result === 'number') {
+        return result
+      }
+
+      throw new Error('Unexpected response format from executeAgent')
+    } catch (error) {
+      console.error('Failed to execute agent:', error)
+      throw new Error(
+        `Failed to execute agent: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  },
+
+  /**
+   * Lists agent runs with metrics
+   * @param agentId - Optional agent ID to filter runs
+   * @returns Promise resolving to an array of agent runs with metrics
+   */
+  async listAgentRuns(agentId?: number): Promise<AgentRunWithMetrics[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listAgentRuns(agentId)
+    } catch (error) {
+      console.error('Failed to list agent runs:', error)
+      // Return empty array instead of throwing to prevent UI crashes
+      return []
+    }
+  },
+
+  /**
+   * Queries a page of agent runs, filtered and sorted by the database
+   * @param query - Filters, sort and page
+   * @returns Promise resolving to the runs of the page, with their stored metrics, and the total
+   */
+  async queryAgentRuns(query: AgentRunQuery): Promise<AgentRunPage> {
+    try {
+      const api = getWindowApi()
+      return await api.queryAgentRuns(query)
+    } catch (error) {
+      console.error('Failed to query agent runs:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists the project paths agents have run in
+   * @returns Promise resolving to the distinct project paths, sorted
+   */
+  async listAgentRunProjects(): Promise<string[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listAgentRunProjects()
+    } catch (error) {
+      console.error('Failed to list agent run projects:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Gets a single agent run by ID with metrics
+   * @param id - The run ID
+   * @returns Promise resolving to the agent run with metrics
+   */
+  async getAgentRun(id: number): Promise<AgentRunWithMetrics> {
+    try {
+      const api = getWindowApi()
+      return await api.getAgentRun(id)
+    } catch (error) {
+      console.error('Failed to get agent run:', error)
+      throw new Error(
+        `Failed to get agent run: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  },
+
+  /**
+   * Gets a single agent run by ID with real-time metrics from JSONL
+   * @param id - The run ID
+   * @returns Promise resolving to the agent run with metrics
+   */
+  async getAgentRunWithRealTimeMetrics(id: number): Promise<AgentRunWithMetrics> {
+    try {
+      const api = getWindowApi()
+      return await api.getAgentRunWithMetrics(id)
+    } catch (error) {
+      console.error('Failed to get agent run with real-time metrics:', error)
+      throw new Error(
+        `Failed to get agent run with real-time metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  },
+
+  /**
+   * Lists all currently running agent sessions
+   * @returns Promise resolving to list of running agent sessions
+   */
+  async listRunningAgentSessions(): Promise<AgentRun[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listRunningSessionsAgents()
+    } catch (error) {
+      console.error('Failed to list running agent sessions:', error)
+      throw new Error(
+        `Failed to list running agent sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  },
+
+  /**
+   * Kills a running agent session
+   * @param runId - The run ID to kill
+   * @returns Promise resolving to whether the session was successfully killed
+   */
+  async killAgentSession(runId: number): Promise<boolean> {
+    try {
+      const api = getWindowApi()
+      const result = await api.killAgentSession(runId)
+
+      // 适配后端返回的对象格式到前端期望的 boolean 类型
+      if (result && typeof result === 'object' && 'success' in result) {
+        return result.success
+      }
+
+      // 如果返回的是 boolean 类型（向后兼容）
+      if (typeof result === 'boolean') {
+        return result
+      }
+
+      // 默认返回 false
+      return false
+    } catch (error) {
+      console.error('Failed to kill agent session:', error)
+      return false
+    }
+  },
+
+  /**
+   * Resumes a run interrupted by an app restart, continuing its Claude Code session
+   * @param runId - The ID of the interrupted run
+   * @returns Promise resolving to the process run ID of the resumed execution
+   */
+  async resumeAgentRun(runId: number): Promise<number> {
+    try {
+      const api = getWindowApi()
+      const result = await api.resumeAgentRun(runId)
+      if (!result.success) {
+        throw new Error(result.message || 'Failed to resume agent run')
+      }
+      return result.runId
+    } catch (error) {
+      console.error('Failed to resume agent run:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists runs waiting for a free slot, in the order they will start
+   */
+  async listQueuedRuns(): Promise<QueuedRun[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listQueuedRuns()
+    } catch (error) {
+      console.error('Failed to list queued runs:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Moves a queued run up (negative offset) or down (positive offset) in the queue
+   */
+  async moveQueuedRun(runId: number, offset: number): Promise<boolean> {
+    try {
+      const api = getWindowApi()
+      return await api.moveQueuedRun(runId, offset)
+    } catch (error) {
+      console.error('Failed to move queued run:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Removes a run from the queue before it starts
+   */
+  async cancelQueuedRun(runId: number): Promise<boolean> {
+    try {
+      const api = getWindowApi()
+      return await api.cancelQueuedRun(runId)
+    } catch (error) {
+      console.error('Failed to cancel queued run:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Gets the global and per-project limits on concurrently executing agent runs
+   */
+  async getRunConcurrencyLimits(): Promise<RunConcurrencyLimits> {
+    try {
+      const api = getWindowApi()
+      return await api.getRunConcurrencyLimits()
+    } catch (error) {
+      console.error('Failed to get run concurrency limits:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Sets the limits on concurrently executing agent runs
+   */
+  async setRunConcurrencyLimits(limits: RunConcurrencyLimits): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.setRunConcurrencyLimits(limits)
+    } catch (error) {
+      console.error('Failed to set run concurrency limits:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists agent schedules with their next run time and latest result
+   * @returns Promise resolving to the schedules, oldest first
+   */
+  async listAgentSchedules(): Promise<AgentSchedule[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listAgentSchedules()
+    } catch (error) {
+      console.error('Failed to list agent schedules:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates a schedule that runs an agent at the times of a cron expression
+   * @param agentId - The agent to run
+   * @param projectPath - The project path to run the agent in
+   * @param task - The task of each run
+   * @param cronExpression - Five-field cron expression, in local time
+   */
+  async createAgentSchedule(
+    agentId: number,
+    projectPath: string,
+    task: string,
+    cronExpression: string
+  ): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.createAgentSchedule({ agentId, projectPath, task, cronExpression })
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to create agent schedule:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates a schedule; `enabled: false` pauses it
+   * @param id - The schedule ID
+   * @param data - The fields to change
+   */
+  async updateAgentSchedule(
+    id: number,
+    data: { projectPath?: string; task?: string; cronExpression?: string; enabled?: boolean }
+  ): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.updateAgentSchedule(id, data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to update agent schedule:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes a schedule; runs it started are kept
+   * @param id - The schedule ID
+   */
+  async deleteAgentSchedule(id: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.deleteAgentSchedule(id)
+    } catch (error) {
+      console.error('Failed to delete agent schedule:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists file-change triggers with their fire history
+   * @returns Promise resolving to the triggers, oldest first
+   */
+  async listAgentTriggers(): Promise<AgentTrigger[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listAgentTriggers()
+    } catch (error) {
+      console.error('Failed to list agent triggers:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates a trigger that runs an agent when matching files change in a project
+   * @param data - The agent, project, task, globs and timing of the trigger
+   */
+  async createAgentTrigger(data: {
+    agentId: number
+    projectPath: string
+    task: string
+    patterns: string[]
+    debounceMs?: number
+    cooldownSeconds?: number
+  }): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.createAgentTrigger(data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to create agent trigger:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates a trigger; `enabled: false` pauses it
+   * @param id - The trigger ID
+   * @param data - The fields to change
+   */
+  async updateAgentTrigger(
+    id: number,
+    data: {
+      projectPath?: string
+      task?: string
+      patterns?: string[]
+      debounceMs?: number
+      cooldownSeconds?: number
+      enabled?: boolean
+    }
+  ): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.updateAgentTrigger(id, data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to update agent trigger:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes a trigger; runs it started are kept
+   * @param id - The trigger ID
+   */
+  async deleteAgentTrigger(id: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.deleteAgentTrigger(id)
+    } catch (error) {
+      console.error('Failed to delete agent trigger:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists the Claude Code subagent files of a scope
+   * @param scope - User (`~/.claude/agents`) or project (`<project>/.claude/agents`)
+   * @param projectPath - The project of project scoped files
+   * @returns Promise resolving to the files, with the agents they are synced with
+   */
+  async listSubagentFiles(scope: SubagentScope, projectPath?: string): Promise<SubagentFile[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listSubagentFiles({ scope, projectPath })
+    } catch (error) {
+      console.error('Failed to list subagent files:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists agents synced with subagent files
+   * @returns Promise resolving to the links with their sync state
+   */
+  async listSubagentLinks(): Promise<SubagentLink[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listSubagentLinks()
+    } catch (error) {
+      console.error('Failed to list subagent links:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates an agent from a subagent file and keeps the two in sync
+   * @param data - The file, its scope and whether to sync changes as they happen
+   */
+  async importSubagent(data: {
+    filePath: string
+    scope: SubagentScope
+    projectPath?: string
+    liveSync: boolean
+  }): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.importSubagent(data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to import subagent:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Writes an agent to a new subagent file and keeps the two in sync
+   * @param data - The agent, the scope to write to and whether to sync changes as they happen
+   * @returns Promise resolving to the path of the written file
+   */
+  async exportAgentToSubagent(data: {
+    agentId: number
+    scope: SubagentScope
+    projectPath?: string
+    liveSync: boolean
+  }): Promise<string> {
+    try {
+      const api = getWindowApi()
+      const result = await api.exportAgentToSubagent(data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+      return result.message
+    } catch (error) {
+      console.error('Failed to export agent to subagent:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Syncs an agent with its subagent file by copying one side over the other
+   * @param agentId - The agent ID
+   * @param keep - The side whose changes are kept
+   */
+  async resolveSubagentSync(agentId: number, keep: 'file' | 'agent'): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.resolveSubagentSync(agentId, keep)
+    } catch (error) {
+      console.error('Failed to resolve subagent sync:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Turns live sync of an agent with its subagent file on or off
+   * @param agentId - The agent ID
+   * @param liveSync - Whether to copy changes as they happen
+   */
+  async setSubagentLiveSync(agentId: number, liveSync: boolean): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.setSubagentLiveSync(agentId, liveSync)
+    } catch (error) {
+      console.error('Failed to set subagent live sync:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Stops syncing an agent with its subagent file; both are kept
+   * @param agentId - The agent ID
+   */
+  async unlinkSubagent(agentId: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.unlinkSubagent(agentId)
+    } catch (error) {
+      console.error('Failed to unlink subagent:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists pipeline definitions
+   * @returns Promise resolving to the pipelines, newest first
+   */
+  async listPipelines(): Promise<Pipeline[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listPipelines()
+    } catch (error) {
+      console.error('Failed to list pipelines:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates a pipeline
+   * @param name - The pipeline name
+   * @param steps - The agent steps, in the order they are listed
+   * @param useWorktree - Whether the steps share an isolated git worktree
+   */
+  async createPipeline(name: string, steps: PipelineStep[], useWorktree?: boolean): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.createPipeline({ name, steps, useWorktree })
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to create pipeline:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates a pipeline
+   * @param id - The pipeline ID
+   * @param data - The fields to change
+   */
+  async updatePipeline(
+    id: number,
+    data: { name?: string; steps?: PipelineStep[]; useWorktree?: boolean }
+  ): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.updatePipeline(id, data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to update pipeline:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes a pipeline; its runs are kept
+   * @param id - The pipeline ID
+   */
+  async deletePipeline(id: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.deletePipeline(id)
+    } catch (error) {
+      console.error('Failed to delete pipeline:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Starts a run of a pipeline
+   * @param id - The pipeline ID
+   * @param projectPath - The project path to run the steps in
+   * @returns Promise resolving to the pipeline run ID
+   */
+  async runPipeline(id: number, projectPath: string): Promise<number> {
+    try {
+      const api = getWindowApi()
+      const result = await api.runPipeline(id, projectPath)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+      return result.runId
+    } catch (error) {
+      console.error('Failed to run pipeline:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists pipeline runs with their steps
+   * @param pipelineId - Optional pipeline ID to filter by
+   * @returns Promise resolving to the runs, newest first
+   */
+  async listPipelineRuns(pipelineId?: number): Promise<PipelineRun[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listPipelineRuns(pipelineId)
+    } catch (error) {
+      console.error('Failed to list pipeline runs:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Cancels a pipeline run and the step that's running
+   * @param pipelineRunId - The pipeline run ID
+   * @returns Promise resolving to whether the run was still going
+   */
+  async cancelPipelineRun(pipelineRunId: number): Promise<boolean> {
+    try {
+      const api = getWindowApi()
+      return await api.cancelPipelineRun(pipelineRunId)
+    } catch (error) {
+      console.error('Failed to cancel pipeline run:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Runs a task with several agent or model variants, each in its own worktree
+   * @param projectPath - The project to run the variants in; must be in a git repository
+   * @param task - The task every variant runs
+   * @param variants - The agents and models to compare
+   * @returns Promise resolving to the comparison ID
+   */
+  async startRunComparison(
+    projectPath: string,
+    task: string,
+    variants: RunComparisonVariant[]
+  ): Promise<number> {
+    try {
+      const api = getWindowApi()
+      const result = await api.startRunComparison({ projectPath, task, variants })
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+      return result.comparisonId
+    } catch (error) {
+      console.error('Failed to start run comparison:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Gets a comparison with the metrics and changed files of each variant
+   * @param id - The comparison ID
+   * @returns Promise resolving to the comparison
+   */
+  async getRunComparison(id: number): Promise<RunComparison> {
+    try {
+      const api = getWindowApi()
+      return await api.getRunComparison(id)
+    } catch (error) {
+      console.error('Failed to get run comparison:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists the test cases of an agent
+   * @param agentId - The agent ID
+   * @returns Promise resolving to the test cases, oldest first
+   */
+  async listEvalCases(agentId: number): Promise<EvalCase[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listEvalCases(agentId)
+    } catch (error) {
+      console.error('Failed to list eval cases:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Creates a test case
+   * @param data - The test case
+   * @returns Promise resolving when the test case is created
+   */
+  async createEvalCase(data: {
+    agentId: number
+    name: string
+    fixturePath: string
+    task: string
+    assertions: EvalAssertion[]
+  }): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.createEvalCase(data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to create eval case:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Updates a test case
+   * @param id - The test case ID
+   * @param data - The fields to change
+   * @returns Promise resolving when the test case is updated
+   */
+  async updateEvalCase(
+    id: number,
+    data: { name?: string; fixturePath?: string; task?: string; assertions?: EvalAssertion[] }
+  ): Promise<void> {
+    try {
+      const api = getWindowApi()
+      const result = await api.updateEvalCase(id, data)
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+    } catch (error) {
+      console.error('Failed to update eval case:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes a test case
+   * @param id - The test case ID
+   * @returns Promise resolving when the test case is deleted
+   */
+  async deleteEvalCase(id: number): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.deleteEvalCase(id)
+    } catch (error) {
+      console.error('Failed to delete eval case:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Runs all test cases of an agent
+   * @param agentId - The agent ID
+   * @returns Promise resolving to the suite run ID
    */
-  async executeAgent(
-    agentId: number,
-    projectPath: string,
-    task: string,
-    model?: string
-  ): Promise<number> {
+  async runEvalSuite(agentId: number): Promise<number> {
     try {
       const api = getWindowApi()
-      const result = await api.executeAgent({ agentId, projectPath, task, model })
-
-      // 适配后端返回的对象格式到前端期望的 number 类型
-      if (result && typeof result === 'object' && 'success' in result) {
-        if (result.success && result.runId !== undefined) {
-          return result.runId
-        } else {
-          throw new Error(result.message || 'Failed to execute agent')
-        }
-      }
-
-      // 如果返回的是 number 类型（向后兼容）
-      if (typeof result === 'number') {
-        return result
+      const result = await api.runEvalSuite(agentId)
+      if (!result.success) {
+        throw new Error(result.message)
       }
-
-      throw new Error('Unexpected response format from executeAgent')
+      return result.runId
     } catch (error) {
-      console.error('Failed to execute agent:', error)
-      throw new Error(
-        `Failed to execute agent: ${error instanceof Error ? error.message : 'Unknown error'}`
-      )
+      console.error('Failed to run eval suite:', error)
+      throw error
     }
   },
 
   /**
-   * Lists agent runs with metrics
-   * @param agentId - Optional agent ID to filter runs
-   * @returns Promise resolving to an array of agent runs with metrics
+   * Lists the suite runs of an agent
+   * @param agentId - The agent ID
+   * @returns Promise resolving to the suite runs, newest first
    */
-  async listAgentRuns(agentId?: number): Promise<AgentRunWithMetrics[]> {
+  async listEvalRuns(agentId: number): Promise<EvalRun[]> {
     try {
       const api = getWindowApi()
-      return await api.listAgentRuns(agentId)
+      return await api.listEvalRuns(agentId)
     } catch (error) {
-      console.error('Failed to list agent runs:', error)
-      // Return empty array instead of throwing to prevent UI crashes
-      return []
+      console.error('Failed to list eval runs:', error)
+      throw error
     }
   },
 
   /**
-   * Gets a single agent run by ID with metrics
-   * @param id - The run ID
-   * @returns Promise resolving to the agent run with metrics
+   * Cancels a suite run and its cases that haven't finished
+   * @param evalRunId - The suite run ID
+   * @returns Promise resolving to whether the suite run was still going
    */
-  async getAgentRun(id: number): Promise<AgentRunWithMetrics> {
+  async cancelEvalRun(evalRunId: number): Promise<boolean> {
     try {
       const api = getWindowApi()
-      return await api.getAgentRun(id)
+      return await api.cancelEvalRun(evalRunId)
     } catch (error) {
-      console.error('Failed to get agent run:', error)
-      throw new Error(
-        `Failed to get agent run: ${error instanceof Error ? error.message : 'Unknown error'}`
-      )
+      console.error('Failed to cancel eval run:', error)
+      throw error
     }
   },
 
   /**
-   * Gets a single agent run by ID with real-time metrics from JSONL
-   * @param id - The run ID
-   * @returns Promise resolving to the agent run with metrics
+   * Checks whether a project is in a git repository, so its runs can get a worktree
+   * @param projectPath - The project directory
+   * @returns Promise resolving to whether the project is in a git repository
    */
-  async getAgentRunWithRealTimeMetrics(id: number): Promise<AgentRunWithMetrics> {
+  async isGitRepository(projectPath: string): Promise<boolean> {
     try {
       const api = getWindowApi()
-      return await api.getAgentRunWithMetrics(id)
+      return await api.isGitRepository(projectPath)
     } catch (error) {
-      console.error('Failed to get agent run with real-time metrics:', error)
-      throw new Error(
-        `Failed to get agent run with real-time metrics: ${error instanceof Error ? error.message : 'Unknown error'}`
-      )
+      console.error('Failed to check git repository:', error)
+      throw error
     }
   },
 
   /**
-   * Lists all currently running agent sessions
-   * @returns Promise resolving to list of running agent sessions
+   * Gets the changes a run made on its worktree branch
+   * @param runId - The run ID
+   * @returns Promise resolving to the diff, or null if the run has no worktree
    */
-  async listRunningAgentSessions(): Promise<AgentRun[]> {
+  async getRunWorktreeDiff(runId: number): Promise<WorktreeDiff | null> {
     try {
       const api = getWindowApi()
-      return await api.listRunningSessionsAgents()
+      return await api.getRunWorktreeDiff(runId)
     } catch (error) {
-      console.error('Failed to list running agent sessions:', error)
-      throw new Error(
-        `Failed to list running agent sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
-      )
+      console.error('Failed to get run worktree diff:', error)
+      throw error
     }
   },
 
   /**
-   * Kills a running agent session
-   * @param runId - The run ID to kill
-   * @returns Promise resolving to whether the session was successfully killed
+   * Merges or cherry-picks a finished run's worktree branch into the project, keeps the
+   * worktree for later or discards it
+   * @param runId - The run ID
+   * @param action - What to do with the worktree
    */
-  async killAgentSession(runId: number): Promise<boolean> {
+  async applyRunWorktree(runId: number, action: WorktreeAction): Promise<void> {
     try {
       const api = getWindowApi()
-      const result = await api.killAgentSession(runId)
-
-      // 适配后端返回的对象格式到前端期望的 boolean 类型
-      if (result && typeof result === 'object' && 'success' in result) {
-        return result.success
+      const result = await api.applyRunWorktree(runId, action)
+      if (!result.success) {
+        throw new Error(result.message)
       }
-
-      // 如果返回的是 boolean 类型（向后兼容）
-      if (typeof result === 'boolean') {
-        return result
-      }
-
-      // 默认返回 false
-      return false
     } catch (error) {
-      console.error('Failed to kill agent session:', error)
-      return false
+      console.error('Failed to apply run worktree:', error)
+      throw error
     }
   },
 
@@ -995,6 +2542,23 @@ export const api = {
     }
   },
 
+  /**
+   * Delete finished runs beyond the newest ones of each agent, with their worktrees
+   * @param keepPerAgent - Number of runs to keep per agent
+   * @returns Promise resolving to the number of runs deleted
+   */
+  async cleanupOldAgentRuns(keepPerAgent?: number): Promise<number> {
+    try {
+      const api = getWindowApi()
+      return await api.cleanupOldAgentRuns(keepPerAgent)
+    } catch (error) {
+      console.error('Failed to clean up old agent runs:', error)
+      throw new Error(
+        `Failed to clean up old agent runs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  },
+
   /**
    * Get real-time output for a running session (with live output fallback)
    * @param runId - The run ID to get output for
@@ -1029,6 +2593,37 @@ export const api = {
     }
   },
 
+  /**
+   * Get the parsed stream events of a running process
+   * @param runId - The run ID to get events for
+   * @param afterSeq - Only return events with a higher sequence number
+   * @returns Promise resolving to the events still buffered for the run
+   */
+  async getStreamEvents(runId: number, afterSeq?: number): Promise<StreamEvent[]> {
+    try {
+      const api = getWindowApi()
+      return await api.getStreamEvents(runId, afterSeq)
+    } catch (error) {
+      console.error('Failed to get stream events:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Tell the main process whether the window is visible, so stream output can be
+   * held back while it is hidden
+   * @param visible - Whether the page is visible
+   */
+  async setOutputVisibility(visible: boolean): Promise<void> {
+    try {
+      const api = getWindowApi()
+      return await api.setOutputVisibility(visible)
+    } catch (error) {
+      console.error('Failed to set output visibility:', error)
+      throw error
+    }
+  },
+
   /**
    * Start streaming real-time output for a running session
    * @param runId - The run ID to stream output for
@@ -1076,18 +2671,25 @@ export const api = {
   async executeClaudeCode(
     projectPath: string,
     prompt: string,
-    model: string
+    model: string,
+    interactive?: boolean,
+    permissionMode?: PermissionMode
   ): Promise<{ success: boolean; runId?: number; message: string }> {
     const api = getWindowApi()
-    return api.executeClaudeCode(projectPath, prompt, model)
+    return api.executeClaudeCode(projectPath, prompt, model, interactive, permissionMode)
   },
 
   /**
    * Continues an existing Claude Code conversation with streaming output
    */
-  async continueClaudeCode(projectPath: string, prompt: string, model: string): Promise<void> {
+  async continueClaudeCode(
+    projectPath: string,
+    prompt: string,
+    model: string,
+    permissionMode?: PermissionMode
+  ): Promise<void> {
     const api = getWindowApi()
-    return api.continueClaudeCode(projectPath, prompt, model)
+    return api.continueClaudeCode(projectPath, prompt, model, permissionMode)
   },
 
   /**
@@ -1097,19 +2699,52 @@ export const api = {
     projectPath: string,
     sessionId: string,
     prompt: string,
-    model: string
+    model: string,
+    interactive?: boolean,
+    permissionMode?: PermissionMode
   ): Promise<{ success: boolean; runId?: number; message: string }> {
     const api = getWindowApi()
-    return api.resumeClaudeCode(projectPath, sessionId, prompt, model)
+    return api.resumeClaudeCode(projectPath, sessionId, prompt, model, interactive, permissionMode)
+  },
+
+  /**
+   * Sends a follow-up prompt to a live interactive Claude Code process
+   * @param runId - The run ID of the interactive process
+   * @param message - The prompt to send
+   */
+  async sendSessionInput(
+    runId: number,
+    message: string
+  ): Promise<{ success: boolean; message: string }> {
+    const api = getWindowApi()
+    return api.sendSessionInput(runId, message)
+  },
+
+  /**
+   * Interrupts the current turn of a live interactive Claude Code process
+   * @param runId - The run ID of the interactive process
+   */
+  async interruptClaudeSession(runId: number): Promise<{ success: boolean; message: string }> {
+    const api = getWindowApi()
+    return api.interruptClaudeSession(runId)
+  },
+
+  /**
+   * Closes the input of a live interactive Claude Code process so it exits after its turn
+   * @param runId - The run ID of the interactive process
+   */
+  async closeSessionInput(runId: number): Promise<{ success: boolean; message: string }> {
+    const api = getWindowApi()
+    return api.closeSessionInput(runId)
   },
 
   /**
-   * Cancels the currently running Claude Code execution
-   * @param sessionId - Optional session ID to cancel a specific session
+   * Cancels a running Claude Code execution
+   * @param runId - The run ID of the process to cancel
    */
-  async cancelClaudeExecution(sessionId?: string): Promise<void> {
+  async cancelClaudeExecution(runId: number): Promise<{ success: boolean; message: string }> {
     const api = getWindowApi()
-    return api.cancelClaudeExecution(sessionId)
+    return api.cancelClaudeExecution(runId)
   },
 
   /**
@@ -1237,9 +2872,19 @@ export const api = {
     messageIndex?: number,
     description?: string
   ): Promise<CheckpointResult> {
-    // TODO: Implement checkpoint creation in Electron main process
-    const api = getWindowApi()
-    return api.createCheckpoint(sessionId, projectId, projectPath, messageIndex, description)
+    try {
+      const api = getWindowApi()
+      return await api.createCheckpoint(
+        sessionId,
+        projectId,
+        projectPath,
+        messageIndex,
+        description
+      )
+    } catch (error) {
+      console.error('Failed to create checkpoint:', error)
+      throw error
+    }
   },
 
   /**
@@ -1251,9 +2896,13 @@ export const api = {
     projectId: string,
     projectPath: string
   ): Promise<CheckpointResult> {
-    // TODO: Implement checkpoint restoration in Electron main process
-    const api = getWindowApi()
-    return api.restoreCheckpoint(checkpointId, sessionId, projectId, projectPath)
+    try {
+      const api = getWindowApi()
+      return await api.restoreCheckpoint(checkpointId, sessionId, projectId, projectPath)
+    } catch (error) {
+      console.error('Failed to restore checkpoint:', error)
+      throw error
+    }
   },
 
   /**
@@ -1264,32 +2913,39 @@ export const api = {
     projectId: string,
     projectPath: string
   ): Promise<Checkpoint[]> {
-    // TODO: Implement checkpoint listing in Electron main process
-    const api = getWindowApi()
-    return api.listCheckpoints(sessionId, projectId, projectPath)
+    try {
+      const api = getWindowApi()
+      return await api.listCheckpoints(sessionId, projectId, projectPath)
+    } catch (error) {
+      console.error('Failed to list checkpoints:', error)
+      throw error
+    }
   },
 
   /**
-   * Forks a new timeline branch from a checkpoint
+   * Forks a checkpoint into a new Claude session. The returned checkpoint is the root
+   * of the new session's timeline (its sessionId is the new session's ID).
    */
   async forkFromCheckpoint(
     checkpointId: string,
     sessionId: string,
     projectId: string,
     projectPath: string,
-    newSessionId: string,
     description?: string
   ): Promise<CheckpointResult> {
-    // TODO: Implement checkpoint forking in Electron main process
-    const api = getWindowApi()
-    return api.forkFromCheckpoint(
-      checkpointId,
-      sessionId,
-      projectId,
-      projectPath,
-      newSessionId,
-      description
-    )
+    try {
+      const api = getWindowApi()
+      return await api.forkFromCheckpoint(
+        checkpointId,
+        sessionId,
+        projectId,
+        projectPath,
+        description
+      )
+    } catch (error) {
+      console.error('Failed to fork from checkpoint:', error)
+      throw error
+    }
   },
 
   /**
@@ -1300,9 +2956,13 @@ export const api = {
     projectId: string,
     projectPath: string
   ): Promise<SessionTimeline> {
-    // TODO: Implement session timeline in Electron main process
-    const api = getWindowApi()
-    return api.getSessionTimeline(sessionId, projectId, projectPath)
+    try {
+      const api = getWindowApi()
+      return await api.getSessionTimeline(sessionId, projectId, projectPath)
+    } catch (error) {
+      console.error('Failed to get session timeline:', error)
+      throw error
+    }
   },
 
   /**
@@ -1315,15 +2975,19 @@ export const api = {
     autoCheckpointEnabled: boolean,
     checkpointStrategy: CheckpointStrategy
   ): Promise<void> {
-    // TODO: Implement checkpoint settings update in Electron main process
-    const api = getWindowApi()
-    return api.updateCheckpointSettings(
-      sessionId,
-      projectId,
-      projectPath,
-      autoCheckpointEnabled,
-      checkpointStrategy
-    )
+    try {
+      const api = getWindowApi()
+      await api.updateCheckpointSettings(
+        sessionId,
+        projectId,
+        projectPath,
+        autoCheckpointEnabled,
+        checkpointStrategy
+      )
+    } catch (error) {
+      console.error('Failed to update checkpoint settings:', error)
+      throw error
+    }
   },
 
   /**
@@ -1336,7 +3000,6 @@ export const api = {
     projectId: string
   ): Promise<CheckpointDiff> {
     try {
-      // TODO: Implement checkpoint diff in Electron main process
       const api = getWindowApi()
       return await api.getCheckpointDiff(fromCheckpointId, toCheckpointId, sessionId, projectId)
     } catch (error) {
@@ -1355,7 +3018,6 @@ export const api = {
     message: string
   ): Promise<void> {
     try {
-      // TODO: Implement checkpoint message tracking in Electron main process
       const api = getWindowApi()
       await api.trackCheckpointMessage(sessionId, projectId, projectPath, message)
     } catch (error) {
@@ -1374,7 +3036,6 @@ export const api = {
     message: string
   ): Promise<boolean> {
     try {
-      // TODO: Implement auto checkpoint check in Electron main process
       const api = getWindowApi()
       return await api.checkAutoCheckpoint(sessionId, projectId, projectPath, message)
     } catch (error) {
@@ -1393,7 +3054,6 @@ export const api = {
     keepCount: number
   ): Promise<number> {
     try {
-      // TODO: Implement checkpoint cleanup in Electron main process
       const api = getWindowApi()
       return await api.cleanupOldCheckpoints(sessionId, projectId, projectPath, keepCount)
     } catch (error) {
@@ -1416,7 +3076,6 @@ export const api = {
     current_checkpoint_id?: string
   }> {
     try {
-      // TODO: Implement checkpoint settings in Electron main process
       const api = getWindowApi()
       return await api.getCheckpointSettings(sessionId, projectId, projectPath)
     } catch (error) {
@@ -1438,20 +3097,119 @@ export const api = {
     }
   },
 
+  /**
+   * Gets checkpoint disk usage per project
+   */
+  async getCheckpointStorageUsage(): Promise<CheckpointStorageUsage> {
+    try {
+      const api = getWindowApi()
+      return await api.getCheckpointStorageUsage()
+    } catch (error) {
+      console.error('Failed to get checkpoint storage usage:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Deletes checkpoint file blobs that are no longer referenced
+   */
+  async collectCheckpointGarbage(): Promise<CheckpointGarbageCollectionResult> {
+    try {
+      const api = getWindowApi()
+      return await api.collectCheckpointGarbage()
+    } catch (error) {
+      console.error('Failed to collect checkpoint garbage:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Enables or disables compression of new checkpoint file blobs
+   */
+  async setCheckpointCompression(enabled: boolean): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.setCheckpointCompression(enabled)
+    } catch (error) {
+      console.error('Failed to set checkpoint compression:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Answers a pending tool permission request
+   * @returns Whether the request was still pending
+   */
+  async respondPermissionRequest(
+    requestId: string,
+    decision: PermissionDecision
+  ): Promise<boolean> {
+    try {
+      const api = getWindowApi()
+      return await api.respondPermissionRequest(requestId, decision)
+    } catch (error) {
+      console.error('Failed to respond to permission request:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Lists tool permission requests still waiting for an answer
+   * @param runId - Optional run ID to only list requests of one process
+   */
+  async listPendingPermissionRequests(runId?: number): Promise<PermissionRequest[]> {
+    try {
+      const api = getWindowApi()
+      return await api.listPendingPermissionRequests(runId)
+    } catch (error) {
+      console.error('Failed to list pending permission requests:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Gets how new Claude Code processes handle tool permissions
+   */
+  async getToolApprovalMode(): Promise<ToolApprovalMode> {
+    try {
+      const api = getWindowApi()
+      return await api.getToolApprovalMode()
+    } catch (error) {
+      console.error('Failed to get tool approval mode:', error)
+      throw error
+    }
+  },
+
+  /**
+   * Sets how new Claude Code processes handle tool permissions
+   */
+  async setToolApprovalMode(mode: ToolApprovalMode): Promise<void> {
+    try {
+      const api = getWindowApi()
+      await api.setToolApprovalMode(mode)
+    } catch (error) {
+      console.error('Failed to set tool approval mode:', error)
+      throw error
+    }
+  },
+
   /**
    * Tracks a batch of messages for a session for checkpointing
    */
-  trackSessionMessages: (
+  async trackSessionMessages(
     sessionId: string,
     projectId: string,
     projectPath: string,
     messages: string[]
-  ): Promise<void> =>
-    (() => {
-      // TODO: Implement session message tracking in Electron main process
+  ): Promise<void> {
+    try {
       const api = getWindowApi()
-      return api.trackSessionMessages(sessionId, projectId, projectPath, messages)
-    })(),
+      await api.trackSessionMessages(sessionId, projectId, projectPath, messages)
+    } catch (error) {
+      console.error('Failed to track session messages:', error)
+      throw error
+    }
+  },
 
   /**
    * Adds a new MCP server
@@ -2052,6 +3810,46 @@ export const listen = <T>(
     windowApi.onClaudeComplete(wrappedCallback)
     return () => windowApi.removeAllListeners('claude-complete')
   }
+  if (event.startsWith('claude-events') && windowApi.onClaudeEvents) {
+    console.log('[API] Setting up claude-events listener')
+    windowApi.onClaudeEvents(wrappedCallback)
+    return () => windowApi.removeAllListeners('claude-events')
+  }
+
+  if (event === 'run-queue-changed' && windowApi.onRunQueueChanged) {
+    windowApi.onRunQueueChanged(wrappedCallback)
+    return () => windowApi.removeAllListeners('run-queue-changed')
+  }
+
+  if (event === 'agent-schedules-changed' && windowApi.onAgentSchedulesChanged) {
+    windowApi.onAgentSchedulesChanged(wrappedCallback)
+    return () => windowApi.removeAllListeners('agent-schedules-changed')
+  }
+
+  if (event === 'agent-triggers-changed' && windowApi.onAgentTriggersChanged) {
+    windowApi.onAgentTriggersChanged(wrappedCallback)
+    return () => windowApi.removeAllListeners('agent-triggers-changed')
+  }
+
+  if (event === 'subagent-links-changed' && windowApi.onSubagentLinksChanged) {
+    windowApi.onSubagentLinksChanged(wrappedCallback)
+    return () => windowApi.removeAllListeners('subagent-links-changed')
+  }
+
+  if (event === 'pipeline-runs-changed' && windowApi.onPipelineRunsChanged) {
+    windowApi.onPipelineRunsChanged(wrappedCallback)
+    return () => windowApi.removeAllListeners('pipeline-runs-changed')
+  }
+
+  if (event === 'eval-runs-changed' && windowApi.onEvalRunsChanged) {
+    windowApi.onEvalRunsChanged(wrappedCallback)
+    return () => windowApi.removeAllListeners('eval-runs-changed')
+  }
+
+  if (event === 'run-metrics-recorded' && windowApi.onRunMetricsRecorded) {
+    windowApi.onRunMetricsRecorded(wrappedCallback)
+    return () => windowApi.removeAllListeners('run-metrics-recorded')
+  }
 
   console.log(`Listen for event: ${event} - event system not fully implemented`)
   return () => {} // Return a no-op unlisten function
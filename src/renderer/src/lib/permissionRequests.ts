@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api, listen, type PermissionDecision, type PermissionRequest } from './api'
+
+/**
+ * Hook tracking the tool permission requests a running process is waiting on
+ */
+export function usePermissionRequests(runId: number | null) {
+  const [requests, setRequests] = useState<PermissionRequest[]>([])
+
+  useEffect(() => {
+    setRequests([])
+    if (runId === null) return
+
+    let cancelled = false
+
+    // Pick up requests made before this component was listening
+    api
+      .listPendingPermissionRequests(runId)
+      .then((pending) => {
+        if (!cancelled) setRequests(pending)
+      })
+      .catch(() => {})
+
+    const unlistenRequest = listen<PermissionRequest>(`permission-request:${runId}`, (event) => {
+      setRequests((prev) =>
+        prev.some((request) => request.id === event.payload.id) ? prev : [...prev, event.payload]
+      )
+    })
+    const unlistenResolved = listen<{ id: string }>(`permission-resolved:${runId}`, (event) => {
+      setRequests((prev) => prev.filter((request) => request.id !== event.payload.id))
+    })
+
+    return () => {
+      cancelled = true
+      unlistenRequest()
+      unlistenResolved()
+    }
+  }, [runId])
+
+  // The request is only dropped once answered, as saving an "always allow" rule can fail
+  const respond = useCallback(async (requestId: string, decision: PermissionDecision) => {
+    await api.respondPermissionRequest(requestId, decision)
+    setRequests((prev) => prev.filter((request) => request.id !== requestId))
+  }, [])
+
+  return { requests, respond }
+}
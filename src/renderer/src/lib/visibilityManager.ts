@@ -1,4 +1,5 @@
 import React from 'react'
+import { api } from './api'
 
 /**
  * 页面可见性管理器
@@ -122,6 +123,11 @@ class VisibilityManager {
 // 导出单例实例
 export const visibilityManager = new VisibilityManager()
 
+// 同步可见性到主进程，窗口隐藏时主进程会合并更多输出后再发送
+visibilityManager.subscribe((isVisible) => {
+  api.setOutputVisibility(isVisible).catch(() => {})
+})
+
 /**
  * React Hook 用于监听页面可见性
  */